@@ -38,6 +38,7 @@ import CloudProvidersTab from '~/components/@settings/tabs/providers/cloud/Cloud
 import ServiceStatusTab from '~/components/@settings/tabs/providers/status/ServiceStatusTab';
 import LocalProvidersTab from '~/components/@settings/tabs/providers/local/LocalProvidersTab';
 import TaskManagerTab from '~/components/@settings/tabs/task-manager/TaskManagerTab';
+import UsageTab from '~/components/@settings/tabs/usage/UsageTab';
 
 interface ControlPanelProps {
   open: boolean;
@@ -80,6 +81,7 @@ const TAB_DESCRIPTIONS: Record<TabType, string> = {
   'event-logs': 'View system events and logs',
   update: 'Check for updates and release notes',
   'task-manager': 'Monitor system resources and processes',
+  usage: 'Track token usage, costs and daily budgets',
   'tab-management': 'Configure visible tabs and their order',
 };
 
@@ -335,6 +337,8 @@ export const ControlPanel = ({ open, onClose }: ControlPanelProps) => {
         return <TaskManagerTab />;
       case 'service-status':
         return <ServiceStatusTab />;
+      case 'usage':
+        return <UsageTab />;
       default:
         return null;
     }
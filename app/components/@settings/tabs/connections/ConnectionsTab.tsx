@@ -1,4 +1,6 @@
 import { motion } from 'framer-motion';
+import { DeployConnections } from './DeployConnections';
+import { GitHostConnections } from './GitHostConnections';
 import { GithubConnection } from './GithubConnection';
 import { NetlifyConnection } from './NetlifyConnection';
 
@@ -21,7 +23,9 @@ export default function ConnectionsTab() {
 
       <div className="grid grid-cols-1 gap-4">
         <GithubConnection />
+        <GitHostConnections />
         <NetlifyConnection />
+        <DeployConnections />
       </div>
     </div>
   );
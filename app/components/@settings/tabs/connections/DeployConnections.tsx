@@ -0,0 +1,219 @@
+import React, { useState } from 'react';
+import { motion } from 'framer-motion';
+import { toast } from 'react-toastify';
+import { useStore } from '@nanostores/react';
+import {
+  connectDeployTarget,
+  deployConnections,
+  deployProviderInfos,
+  getDeployProviderInfo,
+  removeDeployConnection,
+  saveDeployConnection,
+} from '~/lib/stores/deploy';
+import { logStore } from '~/lib/stores/logs';
+import type { DeployConnection, DeployProviderType } from '~/types/deploy';
+import { classNames } from '~/utils/classNames';
+import { generateId } from '~/utils/fileUtils';
+
+const inputClasses = classNames(
+  'w-full px-3 py-2 rounded-lg text-sm',
+  'bg-[#F8F8F8] dark:bg-[#1A1A1A]',
+  'border border-[#E5E5E5] dark:border-[#333333]',
+  'text-bolt-elements-textPrimary placeholder-bolt-elements-textTertiary',
+  'focus:outline-none focus:ring-1 focus:ring-purple-500',
+  'disabled:opacity-50',
+);
+
+// Netlify is connected in its own card
+const providerInfos = deployProviderInfos.filter(({ type }) => type !== 'netlify');
+
+const emptyForm = { type: 'vercel' as DeployProviderType, name: '', settings: {} as Record<string, string> };
+
+export function DeployConnections() {
+  const connections = useStore(deployConnections);
+  const [form, setForm] = useState(emptyForm);
+  const [isAdding, setIsAdding] = useState(false);
+  const [isConnecting, setIsConnecting] = useState(false);
+
+  const info = getDeployProviderInfo(form.type);
+
+  const handleConnect = async (event: React.FormEvent) => {
+    event.preventDefault();
+    setIsConnecting(true);
+
+    const settings: Record<string, string> = {};
+
+    for (const { key } of info.fields) {
+      const value = form.settings[key]?.trim();
+
+      if (value) {
+        settings[key] = value;
+      }
+    }
+
+    const name = form.name.trim() || info.label;
+
+    try {
+      const account = await connectDeployTarget(form.type, settings);
+      const connection: DeployConnection = { id: generateId(), type: form.type, name, settings };
+
+      saveDeployConnection(connection);
+      toast.success(`Connected to ${name}${account ? ` as ${account}` : ''}`);
+      setForm(emptyForm);
+      setIsAdding(false);
+    } catch (error) {
+      console.error('Deploy target auth error:', error);
+      logStore.logError(`Failed to connect to ${name}`, { error });
+      toast.error(error instanceof Error ? error.message : `Failed to connect to ${name}`);
+    } finally {
+      setIsConnecting(false);
+    }
+  };
+
+  const handleRemove = (connection: DeployConnection) => {
+    removeDeployConnection(connection.id);
+    toast.success(`Disconnected from ${connection.name}`);
+  };
+
+  return (
+    <motion.div
+      className="bg-[#FFFFFF] dark:bg-[#0A0A0A] rounded-lg border border-[#E5E5E5] dark:border-[#1A1A1A]"
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      transition={{ delay: 0.5 }}
+    >
+      <div className="p-6 space-y-6">
+        <div className="flex items-center justify-between">
+          <div className="flex items-center gap-2">
+            <div className="i-ph:rocket-launch w-5 h-5 text-purple-500" />
+            <h3 className="text-base font-medium text-bolt-elements-textPrimary">Deployment Targets</h3>
+          </div>
+          {!isAdding && (
+            <button
+              onClick={() => setIsAdding(true)}
+              className="px-3 py-1.5 rounded-lg text-sm flex items-center gap-2 bg-purple-500 text-white hover:bg-purple-600"
+            >
+              <div className="i-ph:plus w-4 h-4" />
+              Add target
+            </button>
+          )}
+        </div>
+        <p className="text-sm text-bolt-elements-textSecondary">
+          Vercel, Cloudflare Pages, S3-compatible buckets or your own webhook, offered next to Netlify when deploying.
+        </p>
+
+        {connections.length > 0 && (
+          <div className="space-y-2">
+            {connections.map((connection) => (
+              <div
+                key={connection.id}
+                className="flex items-center gap-3 p-3 rounded-lg bg-[#F8F8F8] dark:bg-[#1A1A1A] text-sm"
+              >
+                <div className={classNames(getDeployProviderInfo(connection.type).icon, 'w-5 h-5 text-purple-500')} />
+                <div className="flex-1 min-w-0">
+                  <p className="font-medium text-bolt-elements-textPrimary truncate">{connection.name}</p>
+                  <p className="text-bolt-elements-textSecondary truncate">
+                    {getDeployProviderInfo(connection.type).label}
+                  </p>
+                </div>
+                <button
+                  onClick={() => handleRemove(connection)}
+                  title="Disconnect"
+                  className="p-1.5 rounded-lg text-bolt-elements-textSecondary hover:text-red-500"
+                >
+                  <div className="i-ph:plug w-4 h-4" />
+                </button>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {isAdding && (
+          <form onSubmit={handleConnect} className="space-y-4">
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <label className="block text-sm text-bolt-elements-textSecondary mb-2">Target type</label>
+                <select
+                  value={form.type}
+                  onChange={(e) => setForm({ ...form, type: e.target.value as DeployProviderType, settings: {} })}
+                  disabled={isConnecting}
+                  className={inputClasses}
+                >
+                  {providerInfos.map(({ type, label }) => (
+                    <option key={type} value={type}>
+                      {label}
+                    </option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label className="block text-sm text-bolt-elements-textSecondary mb-2">Name</label>
+                <input
+                  value={form.name}
+                  onChange={(e) => setForm({ ...form, name: e.target.value })}
+                  disabled={isConnecting}
+                  placeholder={info.label}
+                  className={inputClasses}
+                />
+              </div>
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              {info.fields.map((field) => (
+                <div key={field.key}>
+                  <label className="block text-sm text-bolt-elements-textSecondary mb-2">
+                    {field.label}
+                    {field.optional && <span className="text-bolt-elements-textTertiary"> (optional)</span>}
+                  </label>
+                  <input
+                    type={field.secret ? 'password' : 'text'}
+                    value={form.settings[field.key] ?? ''}
+                    onChange={(e) => setForm({ ...form, settings: { ...form.settings, [field.key]: e.target.value } })}
+                    disabled={isConnecting}
+                    placeholder={field.placeholder}
+                    required={!field.optional}
+                    className={inputClasses}
+                  />
+                </div>
+              ))}
+            </div>
+            <p className="text-xs text-bolt-elements-textTertiary">{info.hint}</p>
+
+            <div className="flex gap-2">
+              <button
+                type="button"
+                onClick={() => {
+                  setIsAdding(false);
+                  setForm(emptyForm);
+                }}
+                className="px-4 py-2 rounded-lg text-sm bg-[#F5F5F5] dark:bg-[#1A1A1A] text-bolt-elements-textSecondary hover:text-bolt-elements-textPrimary"
+              >
+                Cancel
+              </button>
+              <button
+                type="submit"
+                disabled={isConnecting}
+                className={classNames(
+                  'px-4 py-2 rounded-lg text-sm flex items-center gap-2',
+                  'bg-purple-500 text-white hover:bg-purple-600',
+                  'disabled:opacity-50 disabled:cursor-not-allowed',
+                )}
+              >
+                {isConnecting ? (
+                  <>
+                    <div className="i-ph:spinner-gap animate-spin" />
+                    Connecting...
+                  </>
+                ) : (
+                  <>
+                    <div className="i-ph:plug-charging w-4 h-4" />
+                    Connect
+                  </>
+                )}
+              </button>
+            </div>
+          </form>
+        )}
+      </div>
+    </motion.div>
+  );
+}
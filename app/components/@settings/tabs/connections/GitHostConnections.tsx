@@ -0,0 +1,234 @@
+import React, { useState } from 'react';
+import { motion } from 'framer-motion';
+import { toast } from 'react-toastify';
+import { useStore } from '@nanostores/react';
+import { logStore } from '~/lib/stores/logs';
+import { gitHostConnections, removeGitHostConnection, saveGitHostConnection } from '~/lib/stores/gitHosts';
+import type { GitHostConnection, GitHostType } from '~/types/gitHost';
+import { classNames } from '~/utils/classNames';
+import { generateId } from '~/utils/fileUtils';
+import { getGitHostProvider, gitHostProviders } from './hosts';
+
+const inputClasses = classNames(
+  'w-full px-3 py-2 rounded-lg text-sm',
+  'bg-[#F8F8F8] dark:bg-[#1A1A1A]',
+  'border border-[#E5E5E5] dark:border-[#333333]',
+  'text-bolt-elements-textPrimary placeholder-bolt-elements-textTertiary',
+  'focus:outline-none focus:ring-1 focus:ring-purple-500',
+  'disabled:opacity-50',
+);
+
+const tokenHints: Record<GitHostType, string> = {
+  gitlab: 'Personal access token with the api scope',
+  gitea: 'Access token with read and write access to repositories and the user',
+  bitbucket: 'App password with repository read, write and admin permissions',
+  git: 'Password or token used for git over HTTPS',
+};
+
+const emptyForm = { type: 'gitlab' as GitHostType, name: '', baseUrl: 'https://gitlab.com', username: '', token: '' };
+
+export function GitHostConnections() {
+  const connections = useStore(gitHostConnections);
+  const [form, setForm] = useState(emptyForm);
+  const [isAdding, setIsAdding] = useState(false);
+  const [isConnecting, setIsConnecting] = useState(false);
+
+  const provider = getGitHostProvider(form.type);
+
+  const handleTypeChange = (type: GitHostType) => {
+    setForm({ ...form, type, baseUrl: getGitHostProvider(type).defaultBaseUrl ?? '' });
+  };
+
+  const handleConnect = async (event: React.FormEvent) => {
+    event.preventDefault();
+    setIsConnecting(true);
+
+    const connection: GitHostConnection = {
+      id: generateId(),
+      type: form.type,
+      name: form.name.trim() || provider.label,
+      baseUrl: form.baseUrl.trim().replace(/\/+$/, ''),
+      username: form.username.trim(),
+      token: form.token.trim(),
+    };
+
+    try {
+      new URL(connection.baseUrl);
+
+      const user = await provider.verify(connection);
+
+      saveGitHostConnection({ ...connection, username: user.username || connection.username });
+      toast.success(`Connected to ${connection.name}`);
+      setForm(emptyForm);
+      setIsAdding(false);
+    } catch (error) {
+      console.error('Git host auth error:', error);
+      logStore.logError(`Failed to connect to ${connection.name}`, { error });
+      toast.error(error instanceof Error ? error.message : `Failed to connect to ${connection.name}`);
+    } finally {
+      setIsConnecting(false);
+    }
+  };
+
+  const handleRemove = (connection: GitHostConnection) => {
+    removeGitHostConnection(connection.id);
+    toast.success(`Disconnected from ${connection.name}`);
+  };
+
+  return (
+    <motion.div
+      className="bg-[#FFFFFF] dark:bg-[#0A0A0A] rounded-lg border border-[#E5E5E5] dark:border-[#1A1A1A]"
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      transition={{ delay: 0.4 }}
+    >
+      <div className="p-6 space-y-6">
+        <div className="flex items-center justify-between">
+          <div className="flex items-center gap-2">
+            <div className="i-ph:git-branch w-5 h-5 text-purple-500" />
+            <h3 className="text-base font-medium text-bolt-elements-textPrimary">Git Hosts</h3>
+          </div>
+          {!isAdding && (
+            <button
+              onClick={() => setIsAdding(true)}
+              className="px-3 py-1.5 rounded-lg text-sm flex items-center gap-2 bg-purple-500 text-white hover:bg-purple-600"
+            >
+              <div className="i-ph:plus w-4 h-4" />
+              Add host
+            </button>
+          )}
+        </div>
+        <p className="text-sm text-bolt-elements-textSecondary">
+          GitLab, Gitea, Bitbucket or any git server over HTTPS, used to import repositories and push your projects.
+        </p>
+
+        {connections.length > 0 && (
+          <div className="space-y-2">
+            {connections.map((connection) => (
+              <div
+                key={connection.id}
+                className="flex items-center gap-3 p-3 rounded-lg bg-[#F8F8F8] dark:bg-[#1A1A1A] text-sm"
+              >
+                <div className={classNames(getGitHostProvider(connection.type).icon, 'w-5 h-5 text-purple-500')} />
+                <div className="flex-1 min-w-0">
+                  <p className="font-medium text-bolt-elements-textPrimary truncate">{connection.name}</p>
+                  <p className="text-bolt-elements-textSecondary truncate">
+                    {connection.username}@{connection.baseUrl}
+                  </p>
+                </div>
+                <button
+                  onClick={() => handleRemove(connection)}
+                  title="Disconnect"
+                  className="p-1.5 rounded-lg text-bolt-elements-textSecondary hover:text-red-500"
+                >
+                  <div className="i-ph:plug w-4 h-4" />
+                </button>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {isAdding && (
+          <form onSubmit={handleConnect} className="space-y-4">
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <label className="block text-sm text-bolt-elements-textSecondary mb-2">Host type</label>
+                <select
+                  value={form.type}
+                  onChange={(e) => handleTypeChange(e.target.value as GitHostType)}
+                  disabled={isConnecting}
+                  className={inputClasses}
+                >
+                  {gitHostProviders.map(({ type, label }) => (
+                    <option key={type} value={type}>
+                      {label}
+                    </option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label className="block text-sm text-bolt-elements-textSecondary mb-2">Name</label>
+                <input
+                  value={form.name}
+                  onChange={(e) => setForm({ ...form, name: e.target.value })}
+                  disabled={isConnecting}
+                  placeholder={provider.label}
+                  className={inputClasses}
+                />
+              </div>
+            </div>
+            <div>
+              <label className="block text-sm text-bolt-elements-textSecondary mb-2">URL</label>
+              <input
+                value={form.baseUrl}
+                onChange={(e) => setForm({ ...form, baseUrl: e.target.value })}
+                disabled={isConnecting}
+                placeholder="https://git.example.com"
+                required
+                className={inputClasses}
+              />
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <label className="block text-sm text-bolt-elements-textSecondary mb-2">Username</label>
+                <input
+                  value={form.username}
+                  onChange={(e) => setForm({ ...form, username: e.target.value })}
+                  disabled={isConnecting}
+                  required={!provider.hasApi || form.type === 'bitbucket'}
+                  className={inputClasses}
+                />
+              </div>
+              <div>
+                <label className="block text-sm text-bolt-elements-textSecondary mb-2">Token</label>
+                <input
+                  type="password"
+                  value={form.token}
+                  onChange={(e) => setForm({ ...form, token: e.target.value })}
+                  disabled={isConnecting}
+                  required
+                  className={inputClasses}
+                />
+              </div>
+            </div>
+            <p className="text-xs text-bolt-elements-textTertiary">{tokenHints[form.type]}</p>
+
+            <div className="flex gap-2">
+              <button
+                type="button"
+                onClick={() => {
+                  setIsAdding(false);
+                  setForm(emptyForm);
+                }}
+                className="px-4 py-2 rounded-lg text-sm bg-[#F5F5F5] dark:bg-[#1A1A1A] text-bolt-elements-textSecondary hover:text-bolt-elements-textPrimary"
+              >
+                Cancel
+              </button>
+              <button
+                type="submit"
+                disabled={isConnecting}
+                className={classNames(
+                  'px-4 py-2 rounded-lg text-sm flex items-center gap-2',
+                  'bg-purple-500 text-white hover:bg-purple-600',
+                  'disabled:opacity-50 disabled:cursor-not-allowed',
+                )}
+              >
+                {isConnecting ? (
+                  <>
+                    <div className="i-ph:spinner-gap animate-spin" />
+                    Connecting...
+                  </>
+                ) : (
+                  <>
+                    <div className="i-ph:plug-charging w-4 h-4" />
+                    Connect
+                  </>
+                )}
+              </button>
+            </div>
+          </form>
+        )}
+      </div>
+    </motion.div>
+  );
+}
@@ -31,10 +31,10 @@ export function CreateBranchDialog({ isOpen, onClose, onConfirm, repository, bra
   return (
     <Dialog.Root open={isOpen} onOpenChange={onClose}>
       <Dialog.Portal>
-        <Dialog.Overlay className="fixed inset-0 bg-black/50 dark:bg-black/80" />
+        <Dialog.Overlay className="fixed inset-0 bg-black/50 dark:bg-black/80 z-[10000]" />
         <Dialog.Content
           className={classNames(
-            'fixed top-[50%] left-[50%] translate-x-[-50%] translate-y-[-50%]',
+            'fixed top-[50%] left-[50%] translate-x-[-50%] translate-y-[-50%] z-[10000]',
             'w-full max-w-md p-6 rounded-xl shadow-lg',
             'bg-white dark:bg-[#0A0A0A]',
             'border border-[#E5E5E5] dark:border-[#1A1A1A]',
@@ -0,0 +1,165 @@
+import { useStore } from '@nanostores/react';
+import { useEffect, useState } from 'react';
+import { toast } from 'react-toastify';
+import { gitHostConnections } from '~/lib/stores/gitHosts';
+import type { GitHostRepository } from '~/types/gitHost';
+import { classNames } from '~/utils/classNames';
+import { getGitHostProvider } from '~/components/@settings/tabs/connections/hosts';
+
+interface GitHostRepositoryListProps {
+  onSelect: (cloneUrl: string) => void;
+}
+
+/**
+ * Browses the repositories of the git hosts connected in the settings.
+ */
+export function GitHostRepositoryList({ onSelect }: GitHostRepositoryListProps) {
+  const connections = useStore(gitHostConnections);
+  const [connectionId, setConnectionId] = useState(connections[0]?.id);
+  const [query, setQuery] = useState('');
+  const [repositories, setRepositories] = useState<GitHostRepository[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [customUrl, setCustomUrl] = useState('');
+
+  const connection = connections.find(({ id }) => id === connectionId) ?? connections[0];
+  const provider = connection && getGitHostProvider(connection.type);
+
+  useEffect(() => {
+    if (!connection || !provider?.hasApi) {
+      setRepositories([]);
+      return undefined;
+    }
+
+    let cancelled = false;
+
+    // wait for typing to stop before searching
+    const timeout = setTimeout(async () => {
+      setIsLoading(true);
+
+      try {
+        const result = await provider.listRepositories(connection, query.trim() || undefined);
+
+        if (!cancelled) {
+          setRepositories(result);
+        }
+      } catch (error) {
+        console.error('Error fetching repos:', error);
+        toast.error(error instanceof Error ? error.message : `Failed to fetch repositories of ${connection.name}`);
+      } finally {
+        if (!cancelled) {
+          setIsLoading(false);
+        }
+      }
+    }, 300);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timeout);
+    };
+  }, [connection?.id, query]);
+
+  if (!connection || !provider) {
+    return (
+      <div className="flex flex-col items-center justify-center py-8 text-bolt-elements-textSecondary">
+        <span className="i-ph:plugs w-12 h-12 mb-2 opacity-50" />
+        <p>Connect GitLab, Gitea, Bitbucket or another git host in Settings {'>'} Connections</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex gap-2">
+        <select
+          value={connection.id}
+          onChange={(e) => setConnectionId(e.target.value)}
+          className="px-3 py-2 rounded-lg bg-[#F5F5F5] dark:bg-[#252525] border border-[#E5E5E5] dark:border-[#333333] text-bolt-elements-textPrimary"
+        >
+          {connections.map(({ id, name }) => (
+            <option key={id} value={id}>
+              {name}
+            </option>
+          ))}
+        </select>
+        {provider.hasApi ? (
+          <input
+            type="text"
+            placeholder="Search repositories..."
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            className="flex-1 px-4 py-2 rounded-lg bg-[#F5F5F5] dark:bg-[#252525] border border-[#E5E5E5] dark:border-[#333333] text-bolt-elements-textPrimary"
+          />
+        ) : (
+          <input
+            type="text"
+            placeholder={`${connection.baseUrl}/owner/repository.git`}
+            value={customUrl}
+            onChange={(e) => setCustomUrl(e.target.value)}
+            className="flex-1 px-4 py-2 rounded-lg bg-[#F5F5F5] dark:bg-[#252525] border border-[#E5E5E5] dark:border-[#333333] text-bolt-elements-textPrimary"
+          />
+        )}
+      </div>
+
+      {!provider.hasApi && (
+        <button
+          onClick={() => onSelect(customUrl.trim())}
+          disabled={!customUrl.trim()}
+          className="w-full h-10 px-4 py-2 rounded-lg bg-purple-500 text-white hover:bg-purple-600 disabled:opacity-50 disabled:cursor-not-allowed transition-all duration-200 flex items-center gap-2 justify-center"
+        >
+          Import Repository
+        </button>
+      )}
+
+      {provider.hasApi && (
+        <div className="space-y-3 max-h-[400px] overflow-y-auto pr-2 custom-scrollbar">
+          {isLoading ? (
+            <div className="flex items-center justify-center py-8 text-bolt-elements-textSecondary">
+              <span className="i-ph:spinner animate-spin mr-2" />
+              Loading repositories...
+            </div>
+          ) : repositories.length === 0 ? (
+            <div className="flex flex-col items-center justify-center py-8 text-bolt-elements-textSecondary">
+              <span className="i-ph:folder-simple-dashed w-12 h-12 mb-2 opacity-50" />
+              <p>No repositories found</p>
+            </div>
+          ) : (
+            repositories.map((repository) => (
+              <div
+                key={repository.fullName}
+                className="p-4 rounded-lg bg-[#F5F5F5] dark:bg-[#252525] border border-[#E5E5E5] dark:border-[#333333] hover:border-purple-500/50 transition-colors"
+              >
+                <div className="flex items-center justify-between gap-2">
+                  <div className="flex items-center gap-2 min-w-0">
+                    <span className={classNames(provider.icon, 'shrink-0 text-bolt-elements-textTertiary')} />
+                    <h3 className="font-medium text-bolt-elements-textPrimary dark:text-white truncate">
+                      {repository.fullName}
+                    </h3>
+                    {repository.private && (
+                      <span className="text-xs px-2 py-0.5 rounded-full bg-purple-500/10 text-purple-500">Private</span>
+                    )}
+                  </div>
+                  <button
+                    onClick={() => onSelect(repository.cloneUrl)}
+                    className="px-4 py-2 h-10 rounded-lg bg-purple-500 text-white hover:bg-purple-600 transition-all duration-200 flex items-center gap-2 shrink-0 justify-center"
+                  >
+                    <span className="i-ph:download-simple w-4 h-4" />
+                    Import
+                  </button>
+                </div>
+                {repository.description && (
+                  <p className="mt-2 text-sm text-bolt-elements-textSecondary">{repository.description}</p>
+                )}
+                {repository.updatedAt && (
+                  <span className="mt-2 flex items-center gap-1 text-sm text-bolt-elements-textTertiary">
+                    <span className="i-ph:clock" />
+                    {new Date(repository.updatedAt).toLocaleDateString()}
+                  </span>
+                )}
+              </div>
+            ))
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
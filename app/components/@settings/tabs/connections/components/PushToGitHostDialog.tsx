@@ -0,0 +1,220 @@
+import * as Dialog from '@radix-ui/react-dialog';
+import { useStore } from '@nanostores/react';
+import { useState } from 'react';
+import { toast } from 'react-toastify';
+import { motion } from 'framer-motion';
+import { gitHostConnections } from '~/lib/stores/gitHosts';
+import { logStore } from '~/lib/stores/logs';
+import { workbenchStore } from '~/lib/stores/workbench';
+import { classNames } from '~/utils/classNames';
+import { getGitHostProvider } from '~/components/@settings/tabs/connections/hosts';
+
+interface PushToGitHostDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+const inputClasses =
+  'w-full px-4 py-2 rounded-lg bg-bolt-elements-background-depth-2 dark:bg-bolt-elements-background-depth-3 border border-[#E5E5E5] dark:border-[#1A1A1A] text-gray-900 dark:text-white placeholder-gray-400';
+
+/**
+ * Pushes the project to a new or existing repository on one of the connected git hosts.
+ */
+export function PushToGitHostDialog({ isOpen, onClose }: PushToGitHostDialogProps) {
+  const connections = useStore(gitHostConnections);
+  const [connectionId, setConnectionId] = useState<string>();
+  const [repoName, setRepoName] = useState('');
+  const [commitMessage, setCommitMessage] = useState('Update from bolt.diy');
+  const [isPrivate, setIsPrivate] = useState(true);
+  const [isLoading, setIsLoading] = useState(false);
+
+  const connection = connections.find(({ id }) => id === connectionId) ?? connections[0];
+  const provider = connection && getGitHostProvider(connection.type);
+
+  const handleClose = () => {
+    setRepoName('');
+    onClose();
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!connection || !provider || !repoName.trim()) {
+      return;
+    }
+
+    setIsLoading(true);
+
+    try {
+      let remoteUrl = repoName.trim();
+
+      if (provider.hasApi) {
+        const existing = await provider.getRepository(connection, remoteUrl);
+
+        if (
+          existing &&
+          !window.confirm(
+            `Repository "${existing.fullName}" already exists. Do you want to push to it? The push fails when it has commits the project does not have.`,
+          )
+        ) {
+          return;
+        }
+
+        remoteUrl = (existing ?? (await provider.createRepository(connection, remoteUrl, isPrivate))).cloneUrl;
+      }
+
+      await workbenchStore.pushToGitRemote(remoteUrl, commitMessage.trim() || 'Update from bolt.diy');
+
+      toast.success(`Pushed to ${remoteUrl}`);
+      handleClose();
+    } catch (error) {
+      console.error('Error pushing to git host:', error);
+      logStore.logError(`Failed to push to ${connection.name}`, { error });
+      toast.error(error instanceof Error ? error.message : `Failed to push to ${connection.name}`);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <Dialog.Root open={isOpen} onOpenChange={(open) => !open && handleClose()}>
+      <Dialog.Portal>
+        <Dialog.Overlay className="fixed inset-0 bg-black/50 backdrop-blur-sm z-[9999]" />
+        <div className="fixed inset-0 flex items-center justify-center z-[9999]">
+          <motion.div
+            initial={{ opacity: 0, scale: 0.95 }}
+            animate={{ opacity: 1, scale: 1 }}
+            exit={{ opacity: 0, scale: 0.95 }}
+            transition={{ duration: 0.2 }}
+            className="w-[90vw] md:w-[500px]"
+          >
+            <Dialog.Content className="bg-white dark:bg-[#0A0A0A] rounded-lg border border-[#E5E5E5] dark:border-[#1A1A1A] shadow-xl">
+              <div className="p-6">
+                <div className="flex items-center gap-4 mb-6">
+                  <div className="w-10 h-10 rounded-xl bg-bolt-elements-background-depth-3 flex items-center justify-center text-purple-500">
+                    <div className="i-ph:cloud-arrow-up w-5 h-5" />
+                  </div>
+                  <div>
+                    <Dialog.Title className="text-lg font-medium text-gray-900 dark:text-white">
+                      Push to a Git Host
+                    </Dialog.Title>
+                    <p className="text-sm text-gray-600 dark:text-gray-400">
+                      Commit all changes and push them to a new or existing repository
+                    </p>
+                  </div>
+                  <Dialog.Close
+                    className="ml-auto p-2 text-gray-400 hover:text-gray-500 dark:text-gray-500 dark:hover:text-gray-400"
+                    onClick={handleClose}
+                  >
+                    <div className="i-ph:x w-5 h-5" />
+                  </Dialog.Close>
+                </div>
+
+                {!connection || !provider ? (
+                  <p className="text-sm text-gray-600 dark:text-gray-400">
+                    Please connect GitLab, Gitea, Bitbucket or another git host in Settings {'>'} Connections first.
+                  </p>
+                ) : (
+                  <form onSubmit={handleSubmit} className="space-y-4">
+                    <div className="space-y-2">
+                      <label htmlFor="gitHost" className="text-sm text-gray-600 dark:text-gray-400">
+                        Host
+                      </label>
+                      <select
+                        id="gitHost"
+                        value={connection.id}
+                        onChange={(e) => setConnectionId(e.target.value)}
+                        className={inputClasses}
+                      >
+                        {connections.map(({ id, name, username }) => (
+                          <option key={id} value={id}>
+                            {name} ({username})
+                          </option>
+                        ))}
+                      </select>
+                    </div>
+
+                    <div className="space-y-2">
+                      <label htmlFor="gitHostRepo" className="text-sm text-gray-600 dark:text-gray-400">
+                        {provider.hasApi ? 'Repository Name' : 'Repository URL'}
+                      </label>
+                      <input
+                        id="gitHostRepo"
+                        type="text"
+                        value={repoName}
+                        onChange={(e) => setRepoName(e.target.value)}
+                        placeholder={
+                          provider.hasApi ? 'my-awesome-project' : `${connection.baseUrl}/owner/my-awesome-project.git`
+                        }
+                        className={inputClasses}
+                        required
+                      />
+                    </div>
+
+                    <div className="space-y-2">
+                      <label htmlFor="gitHostCommitMessage" className="text-sm text-gray-600 dark:text-gray-400">
+                        Commit Message
+                      </label>
+                      <input
+                        id="gitHostCommitMessage"
+                        type="text"
+                        value={commitMessage}
+                        onChange={(e) => setCommitMessage(e.target.value)}
+                        className={inputClasses}
+                      />
+                    </div>
+
+                    {provider.hasApi && (
+                      <div className="flex items-center gap-2">
+                        <input
+                          type="checkbox"
+                          id="gitHostPrivate"
+                          checked={isPrivate}
+                          onChange={(e) => setIsPrivate(e.target.checked)}
+                          className="rounded border-[#E5E5E5] dark:border-[#1A1A1A] text-purple-500 focus:ring-purple-500 dark:bg-[#0A0A0A]"
+                        />
+                        <label htmlFor="gitHostPrivate" className="text-sm text-gray-600 dark:text-gray-400">
+                          Make a new repository private
+                        </label>
+                      </div>
+                    )}
+
+                    <div className="pt-4 flex gap-2">
+                      <button
+                        type="button"
+                        onClick={handleClose}
+                        className="px-4 py-2 rounded-lg bg-[#F5F5F5] dark:bg-[#1A1A1A] text-gray-600 dark:text-gray-400 hover:bg-[#E5E5E5] dark:hover:bg-[#252525] text-sm"
+                      >
+                        Cancel
+                      </button>
+                      <button
+                        type="submit"
+                        disabled={isLoading}
+                        className={classNames(
+                          'flex-1 px-4 py-2 bg-purple-500 text-white rounded-lg hover:bg-purple-600 text-sm inline-flex items-center justify-center gap-2',
+                          isLoading ? 'opacity-50 cursor-not-allowed' : '',
+                        )}
+                      >
+                        {isLoading ? (
+                          <>
+                            <div className="i-ph:spinner-gap-bold animate-spin w-4 h-4" />
+                            Pushing...
+                          </>
+                        ) : (
+                          <>
+                            <div className="i-ph:cloud-arrow-up w-4 h-4" />
+                            Push to {connection.name}
+                          </>
+                        )}
+                      </button>
+                    </div>
+                  </form>
+                )}
+              </div>
+            </Dialog.Content>
+          </motion.div>
+        </div>
+      </Dialog.Portal>
+    </Dialog.Root>
+  );
+}
@@ -2,7 +2,16 @@ import * as Dialog from '@radix-ui/react-dialog';
 import { useState, useEffect } from 'react';
 import { toast } from 'react-toastify';
 import { motion } from 'framer-motion';
-import { getLocalStorage } from '~/lib/persistence';
+import {
+  chatId,
+  chatMetadata,
+  db,
+  description,
+  getLocalStorage,
+  getMessages,
+  updateChatMetadata,
+  type ChatPullRequest,
+} from '~/lib/persistence';
 import { classNames } from '~/utils/classNames';
 import type { GitHubUserResponse } from '~/types/GitHub';
 import { logStore } from '~/lib/stores/logs';
@@ -11,11 +20,22 @@ import { extractRelativePath } from '~/utils/diff';
 import { formatSize } from '~/utils/formatSize';
 import type { FileMap, File } from '~/lib/stores/files';
 import { Octokit } from '@octokit/rest';
+import { useStore } from '@nanostores/react';
+import type { GitHubPullRequestOptions, GitHubPushResult } from '~/lib/stores/workbench';
+import { createPullRequestContent, getPullRequestBranch } from '~/utils/pullRequest';
+import { CreateBranchDialog } from './CreateBranchDialog';
+import type { GitHubRepoInfo } from '~/components/@settings/tabs/connections/types/GitHub';
 
 interface PushToGitHubDialogProps {
   isOpen: boolean;
   onClose: () => void;
-  onPush: (repoName: string, username?: string, token?: string, isPrivate?: boolean) => Promise<string>;
+  onPush: (
+    repoName: string,
+    username?: string,
+    token?: string,
+    isPrivate?: boolean,
+    pullRequest?: GitHubPullRequestOptions,
+  ) => Promise<GitHubPushResult>;
 }
 
 interface GitHubRepo {
@@ -41,6 +61,29 @@ export function PushToGitHubDialog({ isOpen, onClose, onPush }: PushToGitHubDial
   const [showSuccessDialog, setShowSuccessDialog] = useState(false);
   const [createdRepoUrl, setCreatedRepoUrl] = useState('');
   const [pushedFiles, setPushedFiles] = useState<{ path: string; size: number }[]>([]);
+  const currentChatId = useStore(chatId);
+  const metadata = useStore(chatMetadata);
+  const existingPullRequest = metadata?.pullRequest;
+  const [openPullRequest, setOpenPullRequest] = useState(false);
+  const [pullRequestBranch, setPullRequestBranch] = useState('');
+  const [pullRequestBase, setPullRequestBase] = useState<string>();
+  const [branchRepository, setBranchRepository] = useState<GitHubRepoInfo>();
+  const [repositoryBranches, setRepositoryBranches] = useState<{ name: string; default?: boolean }[]>([]);
+  const [createdPullRequestUrl, setCreatedPullRequestUrl] = useState('');
+
+  // later pushes of a chat go to its pull request
+  useEffect(() => {
+    if (isOpen) {
+      setOpenPullRequest(!!existingPullRequest);
+      setPullRequestBranch(existingPullRequest?.branch ?? getPullRequestBranch(description.get(), currentChatId ?? ''));
+      setPullRequestBase(existingPullRequest?.base);
+
+      if (existingPullRequest) {
+        setRepoName(existingPullRequest.repository.split('/')[1]);
+        refreshPullRequestState(existingPullRequest);
+      }
+    }
+  }, [isOpen]);
 
   // Load GitHub connection on mount
   useEffect(() => {
@@ -114,6 +157,82 @@ export function PushToGitHubDialog({ isOpen, onClose, onPush }: PushToGitHubDial
     }
   };
 
+  // the pull request may have been merged or closed on GitHub since the last push
+  const refreshPullRequestState = async (pullRequest: ChatPullRequest) => {
+    const connection = getLocalStorage('github_connection');
+
+    if (!connection?.token) {
+      return;
+    }
+
+    try {
+      const [owner, repo] = pullRequest.repository.split('/');
+      const { data } = await new Octokit({ auth: connection.token }).pulls.get({
+        owner,
+        repo,
+        pull_number: pullRequest.number,
+      });
+      const state = data.merged ? 'merged' : data.state;
+
+      if (state !== pullRequest.state) {
+        await savePullRequest(data.base.repo.html_url, { ...pullRequest, state });
+      }
+    } catch (error) {
+      logStore.logError('Failed to fetch the pull request of the chat', { error });
+    }
+  };
+
+  const handleChangeBranch = async () => {
+    const connection = getLocalStorage('github_connection');
+
+    if (!connection?.token || !connection?.user || !repoName.trim()) {
+      toast.error('Enter the name of an existing repository first');
+      return;
+    }
+
+    try {
+      const octokit = new Octokit({ auth: connection.token });
+      const { data: repository } = await octokit.repos.get({ owner: connection.user.login, repo: repoName });
+      const { data: branches } = await octokit.repos.listBranches({
+        owner: connection.user.login,
+        repo: repoName,
+        per_page: 100,
+      });
+
+      setRepositoryBranches(branches.map(({ name }) => ({ name, default: name === repository.default_branch })));
+      setBranchRepository(repository as unknown as GitHubRepoInfo);
+    } catch (error) {
+      console.error('Error fetching branches:', error);
+      toast.error('Failed to fetch the branches, the repository has to exist to choose them');
+    }
+  };
+
+  const getPullRequestOptions = async (): Promise<GitHubPullRequestOptions> => {
+    const id = chatId.get();
+    const chat = db && id ? await getMessages(db, id) : undefined;
+    const { title, body } = createPullRequestContent(description.get(), chat?.messages ?? []);
+
+    return { branch: pullRequestBranch.trim(), base: pullRequestBase, title, body, existing: existingPullRequest };
+  };
+
+  const savePullRequest = async (repoUrl: string, pullRequest: ChatPullRequest) => {
+    const id = chatId.get();
+
+    if (!id) {
+      return;
+    }
+
+    const updatedMetadata = { ...metadata, gitUrl: metadata?.gitUrl ?? repoUrl, pullRequest };
+
+    chatMetadata.set(updatedMetadata);
+
+    if (db) {
+      await updateChatMetadata(db, id, updatedMetadata).catch((error) => {
+        logStore.logError('Failed to save the pull request of the chat', { error });
+      });
+    }
+  };
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
 
@@ -141,10 +260,12 @@ export function PushToGitHubDialog({ isOpen, onClose, onPush }: PushToGitHubDial
           repo: repoName,
         });
 
-        // If we get here, the repo exists
-        const confirmOverwrite = window.confirm(
-          `Repository "${repoName}" already exists. Do you want to update it? This will add or modify files in the repository.`,
-        );
+        // If we get here, the repo exists, a pull request leaves its default branch untouched
+        const confirmOverwrite =
+          openPullRequest ||
+          window.confirm(
+            `Repository "${repoName}" already exists. Do you want to update it? This will add or modify files in the repository.`,
+          );
 
         if (!confirmOverwrite) {
           setIsLoading(false);
@@ -157,8 +278,15 @@ export function PushToGitHubDialog({ isOpen, onClose, onPush }: PushToGitHubDial
         }
       }
 
-      const repoUrl = await onPush(repoName, connection.user.login, connection.token, isPrivate);
-      setCreatedRepoUrl(repoUrl);
+      const pullRequest = openPullRequest ? await getPullRequestOptions() : undefined;
+      const result = await onPush(repoName, connection.user.login, connection.token, isPrivate, pullRequest);
+
+      if (result.pullRequest) {
+        await savePullRequest(result.repoUrl, result.pullRequest);
+      }
+
+      setCreatedRepoUrl(result.repoUrl);
+      setCreatedPullRequestUrl(result.pullRequest?.url ?? '');
 
       // Get list of pushed files
       const files = workbenchStore.files.get();
@@ -184,6 +312,8 @@ export function PushToGitHubDialog({ isOpen, onClose, onPush }: PushToGitHubDial
     setIsPrivate(false);
     setShowSuccessDialog(false);
     setCreatedRepoUrl('');
+    setCreatedPullRequestUrl('');
+    setBranchRepository(undefined);
     onClose();
   };
 
@@ -206,7 +336,9 @@ export function PushToGitHubDialog({ isOpen, onClose, onPush }: PushToGitHubDial
                   <div className="flex items-center justify-between">
                     <div className="flex items-center gap-2 text-green-500">
                       <div className="i-ph:check-circle w-5 h-5" />
-                      <h3 className="text-lg font-medium">Successfully pushed to GitHub</h3>
+                      <h3 className="text-lg font-medium">
+                        {createdPullRequestUrl ? 'Pull request is up to date' : 'Successfully pushed to GitHub'}
+                      </h3>
                     </div>
                     <Dialog.Close
                       onClick={handleClose}
@@ -238,6 +370,22 @@ export function PushToGitHubDialog({ isOpen, onClose, onPush }: PushToGitHubDial
                     </div>
                   </div>
 
+                  {createdPullRequestUrl && (
+                    <div className="bg-bolt-elements-background-depth-2 dark:bg-bolt-elements-background-depth-3 rounded-lg p-3 text-left">
+                      <p className="text-xs text-bolt-elements-textSecondary dark:text-bolt-elements-textSecondary-dark mb-2">
+                        Pull Request
+                      </p>
+                      <a
+                        href={createdPullRequestUrl}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        className="text-sm text-purple-500 hover:underline font-mono break-all"
+                      >
+                        {createdPullRequestUrl}
+                      </a>
+                    </div>
+                  )}
+
                   <div className="bg-bolt-elements-background-depth-2 dark:bg-bolt-elements-background-depth-3 rounded-lg p-3">
                     <p className="text-xs text-bolt-elements-textSecondary dark:text-bolt-elements-textSecondary-dark mb-2">
                       Pushed Files ({pushedFiles.length})
@@ -471,6 +619,39 @@ export function PushToGitHubDialog({ isOpen, onClose, onPush }: PushToGitHubDial
                     </div>
                   )}
 
+                  {currentChatId && (
+                    <div className="space-y-2">
+                      <div className="flex items-center gap-2">
+                        <input
+                          type="checkbox"
+                          id="pullRequest"
+                          checked={openPullRequest}
+                          onChange={(e) => setOpenPullRequest(e.target.checked)}
+                          className="rounded border-[#E5E5E5] dark:border-[#1A1A1A] text-purple-500 focus:ring-purple-500 dark:bg-[#0A0A0A]"
+                        />
+                        <label htmlFor="pullRequest" className="text-sm text-gray-600 dark:text-gray-400">
+                          {existingPullRequest
+                            ? `Update pull request #${existingPullRequest.number} (${existingPullRequest.state})`
+                            : 'Open a pull request instead of pushing to the default branch'}
+                        </label>
+                      </div>
+                      {openPullRequest && (
+                        <div className="flex items-center gap-2 pl-6 text-xs text-gray-500 dark:text-gray-400">
+                          <div className="i-ph:git-branch w-3 h-3" />
+                          <span className="font-mono truncate">{pullRequestBranch}</span>
+                          {pullRequestBase && <span className="shrink-0">into {pullRequestBase}</span>}
+                          <button
+                            type="button"
+                            onClick={handleChangeBranch}
+                            className="ml-auto shrink-0 text-purple-500 hover:underline"
+                          >
+                            Change
+                          </button>
+                        </div>
+                      )}
+                    </div>
+                  )}
+
                   <div className="flex items-center gap-2">
                     <input
                       type="checkbox"
@@ -512,7 +693,11 @@ export function PushToGitHubDialog({ isOpen, onClose, onPush }: PushToGitHubDial
                       ) : (
                         <>
                           <div className="i-ph:git-branch w-4 h-4" />
-                          Push to GitHub
+                          {openPullRequest
+                            ? existingPullRequest
+                              ? 'Update Pull Request'
+                              : 'Open Pull Request'
+                            : 'Push to GitHub'}
                         </>
                       )}
                     </motion.button>
@@ -523,6 +708,19 @@ export function PushToGitHubDialog({ isOpen, onClose, onPush }: PushToGitHubDial
           </motion.div>
         </div>
       </Dialog.Portal>
+      {branchRepository && (
+        <CreateBranchDialog
+          key={branchRepository.full_name}
+          isOpen
+          onClose={() => setBranchRepository(undefined)}
+          onConfirm={(branchName, sourceBranch) => {
+            setPullRequestBranch(branchName.trim());
+            setPullRequestBase(sourceBranch);
+          }}
+          repository={branchRepository}
+          branches={repositoryBranches}
+        />
+      )}
     </Dialog.Root>
   );
 }
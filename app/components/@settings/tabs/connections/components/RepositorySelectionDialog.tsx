@@ -7,6 +7,7 @@ import { getLocalStorage } from '~/lib/persistence';
 import { motion } from 'framer-motion';
 import { formatSize } from '~/utils/formatSize';
 import { Input } from '~/components/ui/Input';
+import { GitHostRepositoryList } from './GitHostRepositoryList';
 
 interface GitHubTreeResponse {
   tree: Array<{
@@ -128,7 +129,7 @@ export function RepositorySelectionDialog({ isOpen, onClose, onSelect }: Reposit
   const [repositories, setRepositories] = useState<GitHubRepoInfo[]>([]);
   const [searchQuery, setSearchQuery] = useState('');
   const [searchResults, setSearchResults] = useState<GitHubRepoInfo[]>([]);
-  const [activeTab, setActiveTab] = useState<'my-repos' | 'search' | 'url'>('my-repos');
+  const [activeTab, setActiveTab] = useState<'my-repos' | 'search' | 'hosts' | 'url'>('my-repos');
   const [customUrl, setCustomUrl] = useState('');
   const [branches, setBranches] = useState<{ name: string; default?: boolean }[]>([]);
   const [selectedBranch, setSelectedBranch] = useState('');
@@ -383,6 +384,14 @@ export function RepositorySelectionDialog({ isOpen, onClose, onSelect }: Reposit
         return;
       }
 
+      // the statistics come from the GitHub API, repositories of other hosts are imported right away
+      if (!gitUrl.startsWith('https://github.com/')) {
+        onSelect(gitUrl);
+        onClose();
+
+        return;
+      }
+
       // Verify repository before importing
       const stats = await verifyRepository(gitUrl);
 
@@ -441,7 +450,7 @@ export function RepositorySelectionDialog({ isOpen, onClose, onSelect }: Reposit
         <Dialog.Content className="fixed top-[50%] left-[50%] -translate-x-1/2 -translate-y-1/2 w-[90vw] md:w-[600px] max-h-[85vh] overflow-hidden bg-white dark:bg-[#1A1A1A] rounded-xl shadow-xl z-[51] border border-[#E5E5E5] dark:border-[#333333]">
           <div className="p-4 border-b border-[#E5E5E5] dark:border-[#333333] flex items-center justify-between">
             <Dialog.Title className="text-lg font-semibold text-bolt-elements-textPrimary dark:text-bolt-elements-textPrimary-dark">
-              Import GitHub Repository
+              Import Git Repository
             </Dialog.Title>
             <Dialog.Close
               onClick={handleClose}
@@ -468,13 +477,24 @@ export function RepositorySelectionDialog({ isOpen, onClose, onSelect }: Reposit
                 <span className="i-ph:magnifying-glass" />
                 Search
               </TabButton>
+              <TabButton active={activeTab === 'hosts'} onClick={() => setActiveTab('hosts')}>
+                <span className="i-ph:git-branch" />
+                Other Hosts
+              </TabButton>
               <TabButton active={activeTab === 'url'} onClick={() => setActiveTab('url')}>
                 <span className="i-ph:link" />
                 URL
               </TabButton>
             </div>
 
-            {activeTab === 'url' ? (
+            {activeTab === 'hosts' ? (
+              <GitHostRepositoryList
+                onSelect={(url) => {
+                  onSelect(url);
+                  handleClose();
+                }}
+              />
+            ) : activeTab === 'url' ? (
               <div className="space-y-4">
                 <Input
                   placeholder="Enter repository URL"
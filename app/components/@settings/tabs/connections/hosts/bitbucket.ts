@@ -0,0 +1,99 @@
+import type { GitHostConnection, GitHostProvider, GitHostRepository } from '~/types/gitHost';
+import { findOnGitHost, requestGitHost, trimBaseUrl } from './request';
+
+interface BitbucketRepository {
+  name: string;
+  full_name: string;
+  description: string;
+  is_private: boolean;
+  updated_on?: string;
+  mainbranch?: { name: string };
+  links: {
+    html: { href: string };
+    clone: { name: string; href: string }[];
+  };
+}
+
+// the web address is bitbucket.org, the API lives on its own host
+function getApiUrl(connection: GitHostConnection) {
+  const baseUrl = trimBaseUrl(connection.baseUrl);
+
+  return new URL(baseUrl).host === 'bitbucket.org' ? 'https://api.bitbucket.org/2.0' : `${baseUrl}/2.0`;
+}
+
+function request<T>(connection: GitHostConnection, path: string, init?: { method?: string; body?: unknown }) {
+  return requestGitHost<T>(
+    connection,
+    `${getApiUrl(connection)}${path}`,
+    { Authorization: `Basic ${btoa(`${connection.username}:${connection.token}`)}` },
+    init,
+  );
+}
+
+function toRepository(repository: BitbucketRepository): GitHostRepository {
+  const cloneUrl = repository.links.clone.find(({ name }) => name === 'https')?.href ?? '';
+
+  return {
+    name: repository.name,
+    fullName: repository.full_name,
+    description: repository.description || undefined,
+
+    // the clone URL contains the username, credentials come from the connection instead
+    cloneUrl: cloneUrl.replace(/^https:\/\/[^@/]+@/, 'https://'),
+    webUrl: repository.links.html.href,
+    defaultBranch: repository.mainbranch?.name,
+    private: repository.is_private,
+    updatedAt: repository.updated_on,
+  };
+}
+
+/**
+ * Bitbucket Cloud, authenticated with the username and an app password.
+ */
+export const bitbucketProvider: GitHostProvider = {
+  type: 'bitbucket',
+  label: 'Bitbucket',
+  icon: 'i-ph:bucket',
+  defaultBaseUrl: 'https://bitbucket.org',
+  hasApi: true,
+
+  async verify(connection) {
+    const user = await request<{ username: string; display_name: string; links: { avatar: { href: string } } }>(
+      connection,
+      '/user',
+    );
+
+    return { username: user.username, name: user.display_name, avatarUrl: user.links.avatar.href };
+  },
+
+  async listRepositories(connection, query) {
+    const params = new URLSearchParams({ role: 'member', sort: '-updated_on', pagelen: '50' });
+
+    if (query) {
+      params.set('q', `name ~ "${query.replace(/"/g, '')}"`);
+    }
+
+    const { values } = await request<{ values: BitbucketRepository[] }>(connection, `/repositories?${params}`);
+
+    return values.map(toRepository);
+  },
+
+  async getRepository(connection, name) {
+    const fullName = name.includes('/') ? name : `${connection.username}/${name}`;
+    const repository = await findOnGitHost(() =>
+      request<BitbucketRepository>(connection, `/repositories/${fullName.toLowerCase()}`),
+    );
+
+    return repository && toRepository(repository);
+  },
+
+  async createRepository(connection, name, isPrivate) {
+    const slug = name.toLowerCase().replace(/[^a-z0-9_.-]+/g, '-');
+    const repository = await request<BitbucketRepository>(connection, `/repositories/${connection.username}/${slug}`, {
+      method: 'POST',
+      body: { scm: 'git', name, is_private: isPrivate },
+    });
+
+    return toRepository(repository);
+  },
+};
@@ -0,0 +1,28 @@
+import type { GitHostProvider } from '~/types/gitHost';
+
+/**
+ * Any host that speaks git over HTTPS. There is no API, so repositories are entered by URL and the
+ * token is only used as the password of git requests.
+ */
+export const plainGitProvider: GitHostProvider = {
+  type: 'git',
+  label: 'Git over HTTPS',
+  icon: 'i-ph:git-branch',
+  hasApi: false,
+
+  async verify(connection) {
+    return { username: connection.username };
+  },
+
+  async listRepositories() {
+    return [];
+  },
+
+  async getRepository() {
+    return undefined;
+  },
+
+  async createRepository() {
+    throw new Error('Repositories on plain git remotes cannot be created here, create it on the host and use its URL');
+  },
+};
@@ -0,0 +1,83 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { giteaProvider } from './gitea';
+import type { GitHostConnection } from '~/types/gitHost';
+
+const connection: GitHostConnection = {
+  id: 'gitea',
+  type: 'gitea',
+  name: 'Gitea',
+  baseUrl: 'https://git.example.com/',
+  username: 'alice',
+  token: 'secret',
+};
+
+const repository = {
+  name: 'app',
+  full_name: 'alice/app',
+  description: '',
+  clone_url: 'https://git.example.com/alice/app.git',
+  html_url: 'https://git.example.com/alice/app',
+  default_branch: 'main',
+  private: true,
+};
+
+describe('giteaProvider', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('should call the API of HTTPS hosts through the git proxy', async () => {
+    const fetchMock = vi.fn().mockResolvedValue(new Response(JSON.stringify(repository)));
+    vi.stubGlobal('fetch', fetchMock);
+
+    const result = await giteaProvider.getRepository(connection, 'app');
+
+    expect(fetchMock).toHaveBeenCalledWith(
+      '/api/git-proxy/git.example.com/api/v1/repos/alice/app',
+      expect.objectContaining({ headers: expect.objectContaining({ Authorization: 'token secret' }) }),
+    );
+    expect(result).toEqual({
+      name: 'app',
+      fullName: 'alice/app',
+      description: undefined,
+      cloneUrl: 'https://git.example.com/alice/app.git',
+      webUrl: 'https://git.example.com/alice/app',
+      defaultBranch: 'main',
+      private: true,
+      updatedAt: undefined,
+    });
+  });
+
+  it('should return nothing for missing repositories and throw on other errors', async () => {
+    vi.stubGlobal('fetch', vi.fn().mockResolvedValue(new Response('not found', { status: 404 })));
+    await expect(giteaProvider.getRepository(connection, 'missing')).resolves.toBeUndefined();
+
+    vi.stubGlobal('fetch', vi.fn().mockResolvedValue(new Response('bad token', { status: 401 })));
+    await expect(giteaProvider.verify(connection)).rejects.toThrow('Gitea responded with 401: bad token');
+  });
+});
+
+/*
+ * Runs against a real Gitea, e.g. `docker run -p 3000:3000 -e GITEA__cors__ENABLED=true gitea/gitea`, with
+ * GITEA_TEST_URL=http://localhost:3000, GITEA_TEST_USERNAME and GITEA_TEST_TOKEN of a user created there.
+ */
+describe.skipIf(!process.env.GITEA_TEST_URL)('giteaProvider with a Gitea server', () => {
+  const server: GitHostConnection = {
+    ...connection,
+    baseUrl: process.env.GITEA_TEST_URL ?? '',
+    username: process.env.GITEA_TEST_USERNAME ?? '',
+    token: process.env.GITEA_TEST_TOKEN ?? '',
+  };
+
+  it('should create, find and list repositories', async () => {
+    const user = await giteaProvider.verify(server);
+    expect(user.username).toBe(server.username);
+
+    const name = `bolt-test-${Date.now()}`;
+    const created = await giteaProvider.createRepository(server, name, true);
+
+    expect(created.fullName).toBe(`${server.username}/${name}`);
+    expect(await giteaProvider.getRepository(server, name)).toMatchObject({ cloneUrl: created.cloneUrl });
+    expect((await giteaProvider.listRepositories(server, name)).map(({ name }) => name)).toContain(name);
+  });
+});
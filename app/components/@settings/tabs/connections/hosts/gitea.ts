@@ -0,0 +1,78 @@
+import type { GitHostConnection, GitHostProvider, GitHostRepository } from '~/types/gitHost';
+import { findOnGitHost, requestGitHost, trimBaseUrl } from './request';
+
+interface GiteaRepository {
+  name: string;
+  full_name: string;
+  description: string;
+  clone_url: string;
+  html_url: string;
+  default_branch?: string;
+  private: boolean;
+  updated_at?: string;
+}
+
+function request<T>(connection: GitHostConnection, path: string, init?: { method?: string; body?: unknown }) {
+  return requestGitHost<T>(
+    connection,
+    `${trimBaseUrl(connection.baseUrl)}/api/v1${path}`,
+    { Authorization: `token ${connection.token}` },
+    init,
+  );
+}
+
+function toRepository(repository: GiteaRepository): GitHostRepository {
+  return {
+    name: repository.name,
+    fullName: repository.full_name,
+    description: repository.description || undefined,
+    cloneUrl: repository.clone_url,
+    webUrl: repository.html_url,
+    defaultBranch: repository.default_branch,
+    private: repository.private,
+    updatedAt: repository.updated_at,
+  };
+}
+
+/**
+ * Gitea, also used for Forgejo which keeps the same API.
+ */
+export const giteaProvider: GitHostProvider = {
+  type: 'gitea',
+  label: 'Gitea',
+  icon: 'i-ph:coffee',
+  hasApi: true,
+
+  async verify(connection) {
+    const user = await request<{ login: string; full_name: string; avatar_url: string }>(connection, '/user');
+
+    return { username: user.login, name: user.full_name || undefined, avatarUrl: user.avatar_url };
+  },
+
+  async listRepositories(connection, query) {
+    if (!query) {
+      return (await request<GiteaRepository[]>(connection, '/user/repos?limit=50')).map(toRepository);
+    }
+
+    const params = new URLSearchParams({ q: query, limit: '50', sort: 'updated', order: 'desc' });
+    const { data } = await request<{ data: GiteaRepository[] }>(connection, `/repos/search?${params}`);
+
+    return data.map(toRepository);
+  },
+
+  async getRepository(connection, name) {
+    const fullName = name.includes('/') ? name : `${connection.username}/${name}`;
+    const repository = await findOnGitHost(() => request<GiteaRepository>(connection, `/repos/${fullName}`));
+
+    return repository && toRepository(repository);
+  },
+
+  async createRepository(connection, name, isPrivate) {
+    const repository = await request<GiteaRepository>(connection, '/user/repos', {
+      method: 'POST',
+      body: { name, private: isPrivate, default_branch: 'main' },
+    });
+
+    return toRepository(repository);
+  },
+};
@@ -0,0 +1,79 @@
+import type { GitHostConnection, GitHostProvider, GitHostRepository } from '~/types/gitHost';
+import { findOnGitHost, requestGitHost, trimBaseUrl } from './request';
+
+interface GitLabProject {
+  name: string;
+  path_with_namespace: string;
+  description: string | null;
+  http_url_to_repo: string;
+  web_url: string;
+  default_branch?: string;
+  visibility: 'private' | 'internal' | 'public';
+  last_activity_at?: string;
+}
+
+function request<T>(connection: GitHostConnection, path: string, init?: { method?: string; body?: unknown }) {
+  return requestGitHost<T>(
+    connection,
+    `${trimBaseUrl(connection.baseUrl)}/api/v4${path}`,
+    { 'PRIVATE-TOKEN': connection.token },
+    init,
+  );
+}
+
+function toRepository(project: GitLabProject): GitHostRepository {
+  return {
+    name: project.name,
+    fullName: project.path_with_namespace,
+    description: project.description ?? undefined,
+    cloneUrl: project.http_url_to_repo,
+    webUrl: project.web_url,
+    defaultBranch: project.default_branch,
+    private: project.visibility !== 'public',
+    updatedAt: project.last_activity_at,
+  };
+}
+
+export const gitlabProvider: GitHostProvider = {
+  type: 'gitlab',
+  label: 'GitLab',
+  icon: 'i-ph:gitlab-logo',
+  defaultBaseUrl: 'https://gitlab.com',
+  hasApi: true,
+
+  async verify(connection) {
+    const user = await request<{ username: string; name: string; avatar_url: string }>(connection, '/user');
+
+    return { username: user.username, name: user.name, avatarUrl: user.avatar_url };
+  },
+
+  async listRepositories(connection, query) {
+    const params = new URLSearchParams({ membership: 'true', order_by: 'last_activity_at', per_page: '50' });
+
+    if (query) {
+      params.set('search', query);
+    }
+
+    const projects = await request<GitLabProject[]>(connection, `/projects?${params}`);
+
+    return projects.map(toRepository);
+  },
+
+  async getRepository(connection, name) {
+    const fullName = name.includes('/') ? name : `${connection.username}/${name}`;
+    const project = await findOnGitHost(() =>
+      request<GitLabProject>(connection, `/projects/${encodeURIComponent(fullName)}`),
+    );
+
+    return project && toRepository(project);
+  },
+
+  async createRepository(connection, name, isPrivate) {
+    const project = await request<GitLabProject>(connection, '/projects', {
+      method: 'POST',
+      body: { name, visibility: isPrivate ? 'private' : 'public' },
+    });
+
+    return toRepository(project);
+  },
+};
@@ -0,0 +1,13 @@
+import { bitbucketProvider } from './bitbucket';
+import { plainGitProvider } from './git';
+import { giteaProvider } from './gitea';
+import { gitlabProvider } from './gitlab';
+import type { GitHostType } from '~/types/gitHost';
+
+export { GitHostApiError } from './request';
+
+export const gitHostProviders = [gitlabProvider, giteaProvider, bitbucketProvider, plainGitProvider];
+
+export function getGitHostProvider(type: GitHostType) {
+  return gitHostProviders.find((provider) => provider.type === type) ?? plainGitProvider;
+}
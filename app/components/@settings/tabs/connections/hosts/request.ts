@@ -0,0 +1,66 @@
+import type { GitHostConnection } from '~/types/gitHost';
+import { GIT_CORS_PROXY } from '~/utils/gitClient';
+
+export class GitHostApiError extends Error {
+  constructor(
+    message: string,
+    readonly status: number,
+  ) {
+    super(message);
+  }
+}
+
+/**
+ * Calls the API of a git host. HTTPS hosts are called through the git proxy because most of them, like
+ * Gitea by default, send no CORS headers; plain HTTP hosts, e.g. a local Gitea container, are called directly.
+ */
+export async function requestGitHost<T>(
+  connection: GitHostConnection,
+  url: string,
+  headers: Record<string, string>,
+  init: { method?: string; body?: unknown } = {},
+): Promise<T> {
+  const target = new URL(url);
+  const requestUrl =
+    target.protocol === 'https:' ? `${GIT_CORS_PROXY}/${target.host}${target.pathname}${target.search}` : url;
+
+  const response = await fetch(requestUrl, {
+    method: init.method ?? 'GET',
+    headers: {
+      Accept: 'application/json',
+      ...(init.body !== undefined && { 'Content-Type': 'application/json' }),
+      ...headers,
+    },
+    body: init.body !== undefined ? JSON.stringify(init.body) : undefined,
+  });
+
+  if (!response.ok) {
+    const details = await response.text().catch(() => '');
+
+    throw new GitHostApiError(
+      `${connection.name} responded with ${response.status}${details ? `: ${details.slice(0, 200)}` : ''}`,
+      response.status,
+    );
+  }
+
+  return (await response.json()) as T;
+}
+
+/**
+ * Returns `undefined` instead of throwing when the host answers 404.
+ */
+export async function findOnGitHost<T>(request: () => Promise<T>): Promise<T | undefined> {
+  try {
+    return await request();
+  } catch (error) {
+    if (error instanceof GitHostApiError && error.status === 404) {
+      return undefined;
+    }
+
+    throw error;
+  }
+}
+
+export function trimBaseUrl(baseUrl: string) {
+  return baseUrl.trim().replace(/\/+$/, '');
+}
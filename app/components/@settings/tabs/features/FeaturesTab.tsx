@@ -6,6 +6,23 @@ import { useSettings } from '~/lib/hooks/useSettings';
 import { classNames } from '~/utils/classNames';
 import { toast } from 'react-toastify';
 import { PromptLibrary } from '~/lib/common/prompt-library';
+import { useStore } from '@nanostores/react';
+import { PROVIDER_LIST } from '~/utils/constants';
+import { embeddingIndexStore } from '~/lib/stores/embeddings';
+import { chatId } from '~/lib/persistence';
+import { workbenchStore } from '~/lib/stores/workbench';
+import type { CommandPolicy } from '~/types/commandPolicy';
+
+const EMBEDDING_PROVIDERS = PROVIDER_LIST.filter((provider) => provider.defaultEmbeddingModel);
+
+const selectClassName = classNames(
+  'p-2 rounded-lg text-sm min-w-[200px]',
+  'bg-bolt-elements-background-depth-3 border border-bolt-elements-borderColor',
+  'text-bolt-elements-textPrimary',
+  'focus:outline-none focus:ring-2 focus:ring-purple-500/30',
+  'group-hover:border-purple-500/30',
+  'transition-all duration-200',
+);
 
 interface FeatureToggle {
   id: string;
@@ -105,6 +122,38 @@ const FeatureSection = memo(
   ),
 );
 
+const policyLists: Array<{ key: keyof CommandPolicy; label: string }> = [
+  { key: 'allow', label: 'Allow' },
+  { key: 'deny', label: 'Deny' },
+  { key: 'confirm', label: 'Confirm before run' },
+];
+
+// one pattern per line, e.g. `npm run *` or `/^rm\s/`
+const CommandPolicyEditor = memo(
+  ({ policy, onChange }: { policy: CommandPolicy; onChange: (policy: CommandPolicy) => void }) => (
+    <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+      {policyLists.map(({ key, label }) => (
+        <label key={key} className="flex flex-col gap-1 text-xs text-bolt-elements-textSecondary">
+          {label}
+          <textarea
+            rows={4}
+            defaultValue={policy[key].join('\n')}
+            onBlur={(e) => {
+              const patterns = e.target.value
+                .split('\n')
+                .map((pattern) => pattern.trim())
+                .filter(Boolean);
+
+              onChange({ ...policy, [key]: patterns });
+            }}
+            className={classNames(selectClassName, 'font-mono resize-y')}
+          />
+        </label>
+      ))}
+    </div>
+  ),
+);
+
 export default function FeaturesTab() {
   const {
     autoSelectTemplate,
@@ -117,7 +166,29 @@ export default function FeaturesTab() {
     setEventLogs,
     setPromptId,
     promptId,
+    toolCallingEnabled,
+    enableToolCalling,
+    autoFixEnabled,
+    enableAutoFix,
+    autoFixMaxAttempts,
+    setAutoFixMaxAttempts,
+    contextSelectionMode,
+    setContextSelectionMode,
+    embeddingSettings,
+    setEmbeddingSettings,
+    architectModeEnabled,
+    enableArchitectMode,
+    reviewModeEnabled,
+    enableReviewMode,
+    commandPolicy,
+    setCommandPolicy,
+    gitAutoCommitEnabled,
+    enableGitAutoCommit,
   } = useSettings();
+  const indexStatus = useStore(embeddingIndexStore.status);
+  const currentChatId = useStore(chatId);
+  const chatCommandPolicy = useStore(workbenchStore.chatCommandPolicy);
+  const embeddingProvider = EMBEDDING_PROVIDERS.find((provider) => provider.name === embeddingSettings.provider);
 
   // Enable features by default on first load
   React.useEffect(() => {
@@ -170,11 +241,51 @@ export default function FeaturesTab() {
           break;
         }
 
+        case 'toolCalling': {
+          enableToolCalling(enabled);
+          toast.success(`Native tool calling ${enabled ? 'enabled' : 'disabled'}`);
+          break;
+        }
+
+        case 'autoFix': {
+          enableAutoFix(enabled);
+          toast.success(`Auto-fix ${enabled ? 'enabled' : 'disabled'}`);
+          break;
+        }
+
+        case 'architectMode': {
+          enableArchitectMode(enabled);
+          toast.success(`Architect mode ${enabled ? 'enabled' : 'disabled'}`);
+          break;
+        }
+
+        case 'reviewMode': {
+          enableReviewMode(enabled);
+          toast.success(`Review mode ${enabled ? 'enabled' : 'disabled'}`);
+          break;
+        }
+
+        case 'gitAutoCommit': {
+          enableGitAutoCommit(enabled);
+          toast.success(`Git auto-commit ${enabled ? 'enabled' : 'disabled'}`);
+          break;
+        }
+
         default:
           break;
       }
     },
-    [enableLatestBranch, setAutoSelectTemplate, enableContextOptimization, setEventLogs],
+    [
+      enableLatestBranch,
+      setAutoSelectTemplate,
+      enableContextOptimization,
+      setEventLogs,
+      enableToolCalling,
+      enableAutoFix,
+      enableArchitectMode,
+      enableReviewMode,
+      enableGitAutoCommit,
+    ],
   );
 
   const features = {
@@ -212,7 +323,53 @@ export default function FeaturesTab() {
         tooltip: 'Enabled by default to record detailed logs of system events and user actions',
       },
     ],
-    beta: [],
+    beta: [
+      {
+        id: 'toolCalling',
+        title: 'Native Tool Calling',
+        description: 'Let capable models write files and run commands through function calls',
+        icon: 'i-ph:wrench',
+        enabled: toolCallingEnabled,
+        beta: true,
+        tooltip: 'Only used with providers that support tool calling (OpenAI, Anthropic, Mistral)',
+      },
+      {
+        id: 'autoFix',
+        title: 'Auto-fix Errors',
+        description: 'Send failed commands and preview errors back to the model and re-run them after the fix',
+        icon: 'i-ph:first-aid-kit',
+        enabled: autoFixEnabled,
+        beta: true,
+        tooltip: 'Stops after the configured number of attempts or when you press stop',
+      },
+      {
+        id: 'architectMode',
+        title: 'Architect Mode',
+        description: 'Plan with the selected model and let a separate editor model implement the plan step by step',
+        icon: 'i-ph:compass-tool',
+        enabled: architectModeEnabled,
+        beta: true,
+        tooltip: 'Pick the editor model next to the model selector in the chat',
+      },
+      {
+        id: 'reviewMode',
+        title: 'Review Mode',
+        description: 'Accept, edit or reject every file change and command before it is applied',
+        icon: 'i-ph:eye',
+        enabled: reviewModeEnabled,
+        beta: true,
+        tooltip: 'Rejected changes are reported to the model with your next message',
+      },
+      {
+        id: 'gitAutoCommit',
+        title: 'Git Auto-commit',
+        description: 'Commit the changes of every AI response to the git repository of the project',
+        icon: 'i-ph:git-commit',
+        enabled: gitAutoCommitEnabled,
+        beta: true,
+        tooltip: 'Only applies once a repository was initialized in the Git panel',
+      },
+    ],
   };
 
   return (
@@ -290,6 +447,188 @@ export default function FeaturesTab() {
           </select>
         </div>
       </motion.div>
+
+      <motion.div
+        layout
+        className={classNames(
+          'bg-bolt-elements-background-depth-2',
+          'hover:bg-bolt-elements-background-depth-3',
+          'transition-all duration-200',
+          'rounded-lg p-4',
+          'group',
+        )}
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+        transition={{ delay: 0.32 }}
+      >
+        <div className="flex items-center gap-4">
+          <div
+            className={classNames(
+              'p-2 rounded-lg text-xl',
+              'bg-bolt-elements-background-depth-3 group-hover:bg-bolt-elements-background-depth-4',
+              'transition-colors duration-200',
+              'text-purple-500',
+            )}
+          >
+            <div className="i-ph:shield-check" />
+          </div>
+          <div className="flex-1">
+            <h4 className="text-sm font-medium text-bolt-elements-textPrimary group-hover:text-purple-500 transition-colors">
+              Command Policy
+            </h4>
+            <p className="text-xs text-bolt-elements-textSecondary mt-0.5">
+              Globs like <code>npm run *</code> or regular expressions like <code>/^rm\s/</code>, one per line, for the
+              commands the AI runs
+            </p>
+          </div>
+        </div>
+
+        <div className="flex flex-col gap-4 mt-4 pl-14">
+          <CommandPolicyEditor policy={commandPolicy} onChange={setCommandPolicy} />
+          {currentChatId && (
+            <>
+              <p className="text-xs text-bolt-elements-textSecondary">
+                Overrides for the current chat, which are checked before the lists above
+              </p>
+              <CommandPolicyEditor
+                key={currentChatId}
+                policy={chatCommandPolicy}
+                onChange={(policy) => workbenchStore.setChatCommandPolicy(policy)}
+              />
+            </>
+          )}
+        </div>
+      </motion.div>
+
+      {autoFixEnabled && (
+        <motion.div
+          layout
+          className={classNames(
+            'bg-bolt-elements-background-depth-2',
+            'hover:bg-bolt-elements-background-depth-3',
+            'transition-all duration-200',
+            'rounded-lg p-4',
+            'group',
+          )}
+          initial={{ opacity: 0, y: 20 }}
+          animate={{ opacity: 1, y: 0 }}
+          transition={{ delay: 0.35 }}
+        >
+          <div className="flex items-center gap-4">
+            <div
+              className={classNames(
+                'p-2 rounded-lg text-xl',
+                'bg-bolt-elements-background-depth-3 group-hover:bg-bolt-elements-background-depth-4',
+                'transition-colors duration-200',
+                'text-purple-500',
+              )}
+            >
+              <div className="i-ph:arrows-clockwise" />
+            </div>
+            <div className="flex-1">
+              <h4 className="text-sm font-medium text-bolt-elements-textPrimary group-hover:text-purple-500 transition-colors">
+                Auto-fix Attempts
+              </h4>
+              <p className="text-xs text-bolt-elements-textSecondary mt-0.5">
+                Maximum number of automatic repair attempts for a single error
+              </p>
+            </div>
+            <input
+              type="number"
+              min={1}
+              max={10}
+              value={autoFixMaxAttempts}
+              onChange={(e) => {
+                const attempts = Math.min(10, Math.max(1, Number(e.target.value) || 1));
+                setAutoFixMaxAttempts(attempts);
+              }}
+              className={classNames(
+                'p-2 rounded-lg text-sm w-[100px]',
+                'bg-bolt-elements-background-depth-3 border border-bolt-elements-borderColor',
+                'text-bolt-elements-textPrimary',
+                'focus:outline-none focus:ring-2 focus:ring-purple-500/30',
+                'group-hover:border-purple-500/30',
+                'transition-all duration-200',
+              )}
+            />
+          </div>
+        </motion.div>
+      )}
+
+      {contextOptimizationEnabled && (
+        <motion.div
+          layout
+          className={classNames(
+            'bg-bolt-elements-background-depth-2',
+            'hover:bg-bolt-elements-background-depth-3',
+            'transition-all duration-200',
+            'rounded-lg p-4',
+            'group',
+          )}
+          initial={{ opacity: 0, y: 20 }}
+          animate={{ opacity: 1, y: 0 }}
+          transition={{ delay: 0.4 }}
+        >
+          <div className="flex items-center gap-4">
+            <div
+              className={classNames(
+                'p-2 rounded-lg text-xl',
+                'bg-bolt-elements-background-depth-3 group-hover:bg-bolt-elements-background-depth-4',
+                'transition-colors duration-200',
+                'text-purple-500',
+              )}
+            >
+              <div className="i-ph:magnifying-glass" />
+            </div>
+            <div className="flex-1">
+              <h4 className="text-sm font-medium text-bolt-elements-textPrimary group-hover:text-purple-500 transition-colors">
+                Context Selection
+              </h4>
+              <p className="text-xs text-bolt-elements-textSecondary mt-0.5">
+                Pick the files sent to the model with an extra LLM call or with a local embedding index
+              </p>
+            </div>
+            <select
+              value={contextSelectionMode}
+              onChange={(e) => setContextSelectionMode(e.target.value as typeof contextSelectionMode)}
+              className={selectClassName}
+            >
+              <option value="llm">LLM</option>
+              <option value="embeddings">Embeddings</option>
+            </select>
+          </div>
+
+          {contextSelectionMode === 'embeddings' && (
+            <div className="flex items-center gap-4 mt-4 pl-14">
+              <select
+                value={embeddingSettings.provider}
+                onChange={(e) => setEmbeddingSettings({ provider: e.target.value, model: '' })}
+                className={selectClassName}
+              >
+                {EMBEDDING_PROVIDERS.map((provider) => (
+                  <option key={provider.name} value={provider.name}>
+                    {provider.name}
+                  </option>
+                ))}
+              </select>
+              <input
+                type="text"
+                value={embeddingSettings.model}
+                placeholder={embeddingProvider?.defaultEmbeddingModel}
+                onChange={(e) => setEmbeddingSettings({ ...embeddingSettings, model: e.target.value })}
+                className={classNames(selectClassName, 'flex-1')}
+              />
+              <span className="text-xs text-bolt-elements-textSecondary whitespace-nowrap">
+                {indexStatus.error
+                  ? 'Indexing failed'
+                  : indexStatus.indexing
+                    ? `Indexing ${indexStatus.indexedFiles}/${indexStatus.totalFiles}`
+                    : `${indexStatus.indexedFiles} files indexed`}
+              </span>
+            </div>
+          )}
+        </motion.div>
+      )}
     </div>
   );
 }
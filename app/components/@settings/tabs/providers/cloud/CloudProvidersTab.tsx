@@ -14,6 +14,7 @@ import { TbBrain, TbCloudComputing } from 'react-icons/tb';
 import { BiCodeBlock, BiChip } from 'react-icons/bi';
 import { FaCloud, FaBrain } from 'react-icons/fa';
 import type { IconType } from 'react-icons';
+import FallbackChainSettings from '~/components/@settings/tabs/providers/fallback/FallbackChainSettings';
 
 // Add type for provider names to ensure type safety
 type ProviderName =
@@ -298,6 +299,8 @@ const CloudProvidersTab = () => {
           ))}
         </div>
       </motion.div>
+
+      <FallbackChainSettings />
     </div>
   );
 };
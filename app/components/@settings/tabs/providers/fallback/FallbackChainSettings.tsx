@@ -0,0 +1,176 @@
+import { useEffect, useMemo, useState } from 'react';
+import { motion } from 'framer-motion';
+import { toast } from 'react-toastify';
+import { useSettings } from '~/lib/hooks/useSettings';
+import type { ModelInfo } from '~/lib/modules/llm/types';
+import type { FallbackModel } from '~/types/model';
+import { classNames } from '~/utils/classNames';
+
+const selectClassName = classNames(
+  'flex-1 min-w-0 px-3 py-1.5 rounded-lg text-sm',
+  'bg-bolt-elements-background-depth-3 border border-bolt-elements-borderColor',
+  'text-bolt-elements-textPrimary',
+  'focus:outline-none focus:ring-2 focus:ring-purple-500/30',
+);
+
+const iconButtonClassName = classNames(
+  'p-1 rounded-md text-bolt-elements-textSecondary',
+  'hover:text-purple-500 hover:bg-bolt-elements-background-depth-4',
+  'disabled:opacity-30 disabled:pointer-events-none',
+  'transition-colors duration-200',
+);
+
+export default function FallbackChainSettings() {
+  const { activeProviders, fallbackModels, setFallbackModels } = useSettings();
+  const [modelList, setModelList] = useState<ModelInfo[]>([]);
+  const [provider, setProvider] = useState('');
+  const [model, setModel] = useState('');
+
+  useEffect(() => {
+    fetch('/api/models')
+      .then((response) => response.json())
+      .then((data) => setModelList((data as { modelList: ModelInfo[] }).modelList))
+      .catch((error) => console.error('Error fetching model list:', error));
+  }, []);
+
+  const providerModels = useMemo(() => modelList.filter((m) => m.provider === provider), [modelList, provider]);
+
+  const moveEntry = (index: number, offset: number) => {
+    const updated = [...fallbackModels];
+    const [entry] = updated.splice(index, 1);
+    updated.splice(index + offset, 0, entry);
+    setFallbackModels(updated);
+  };
+
+  const removeEntry = (index: number) => {
+    setFallbackModels(fallbackModels.filter((_, i) => i !== index));
+  };
+
+  const addEntry = () => {
+    if (!provider || !model) {
+      return;
+    }
+
+    if (fallbackModels.some((entry) => entry.provider === provider && entry.model === model)) {
+      toast.info(`${provider}/${model} is already in the fallback chain`);
+      return;
+    }
+
+    const entry: FallbackModel = { provider, model };
+    setFallbackModels([...fallbackModels, entry]);
+    setModel('');
+    toast.success(`${provider}/${model} added to the fallback chain`);
+  };
+
+  return (
+    <motion.div
+      className="space-y-4"
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      transition={{ duration: 0.3, delay: 0.1 }}
+    >
+      <div className="flex items-center gap-2">
+        <div
+          className={classNames(
+            'w-8 h-8 flex items-center justify-center rounded-lg',
+            'bg-bolt-elements-background-depth-3',
+            'text-purple-500',
+          )}
+        >
+          <div className="i-ph:arrows-split w-5 h-5" />
+        </div>
+        <div>
+          <h4 className="text-md font-medium text-bolt-elements-textPrimary">Fallback Chain</h4>
+          <p className="text-sm text-bolt-elements-textSecondary">
+            Models tried in order when the selected model is rate limited, failing or unreachable
+          </p>
+        </div>
+      </div>
+
+      <div className="rounded-lg border border-bolt-elements-borderColor bg-bolt-elements-background-depth-2 p-4 space-y-3">
+        {fallbackModels.length === 0 ? (
+          <p className="text-sm text-bolt-elements-textTertiary">
+            No fallback models configured, requests fail when the selected model is unavailable.
+          </p>
+        ) : (
+          <ol className="space-y-2">
+            {fallbackModels.map((entry, index) => (
+              <li
+                key={`${entry.provider}/${entry.model}`}
+                className="flex items-center gap-3 px-3 py-2 rounded-lg bg-bolt-elements-background-depth-3"
+              >
+                <span className="text-xs font-medium text-purple-500 w-5">{index + 1}.</span>
+                <div className="flex-1 min-w-0 text-sm">
+                  <span className="text-bolt-elements-textSecondary">{entry.provider} / </span>
+                  <span className="text-bolt-elements-textPrimary truncate">{entry.model}</span>
+                </div>
+                <button
+                  className={iconButtonClassName}
+                  disabled={index === 0}
+                  onClick={() => moveEntry(index, -1)}
+                  title="Move up"
+                >
+                  <div className="i-ph:arrow-up" />
+                </button>
+                <button
+                  className={iconButtonClassName}
+                  disabled={index === fallbackModels.length - 1}
+                  onClick={() => moveEntry(index, 1)}
+                  title="Move down"
+                >
+                  <div className="i-ph:arrow-down" />
+                </button>
+                <button className={iconButtonClassName} onClick={() => removeEntry(index)} title="Remove">
+                  <div className="i-ph:trash" />
+                </button>
+              </li>
+            ))}
+          </ol>
+        )}
+
+        <div className="flex items-center gap-2">
+          <select
+            value={provider}
+            onChange={(e) => {
+              setProvider(e.target.value);
+              setModel('');
+            }}
+            className={selectClassName}
+          >
+            <option value="">Select Provider</option>
+            {activeProviders.map((p) => (
+              <option key={p.name} value={p.name}>
+                {p.name}
+              </option>
+            ))}
+          </select>
+          <select
+            value={model}
+            onChange={(e) => setModel(e.target.value)}
+            disabled={!provider}
+            className={selectClassName}
+          >
+            <option value="">Select Model</option>
+            {providerModels.map((m) => (
+              <option key={m.name} value={m.name}>
+                {m.label}
+              </option>
+            ))}
+          </select>
+          <button
+            onClick={addEntry}
+            disabled={!provider || !model}
+            className={classNames(
+              'px-3 py-1.5 rounded-lg text-sm font-medium',
+              'bg-purple-500 text-white hover:bg-purple-600',
+              'disabled:opacity-50 disabled:pointer-events-none',
+              'transition-colors duration-200',
+            )}
+          >
+            Add
+          </button>
+        </div>
+      </div>
+    </motion.div>
+  );
+}
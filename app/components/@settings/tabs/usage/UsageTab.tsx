@@ -0,0 +1,349 @@
+import { useEffect, useMemo, useState } from 'react';
+import { useStore } from '@nanostores/react';
+import { motion } from 'framer-motion';
+import { toast } from 'react-toastify';
+import { Bar } from 'react-chartjs-2';
+import { Chart as ChartJS, CategoryScale, LinearScale, BarElement, Tooltip, Legend } from 'chart.js';
+import { db } from '~/lib/persistence';
+import {
+  dailyBudgetStore,
+  getDailySpend,
+  loadUsageRecords,
+  priceOverridesStore,
+  resetUsageRecords,
+  updateDailyBudget,
+  updateModelPrice,
+  usageRecordsStore,
+} from '~/lib/stores/usage';
+import {
+  formatCost,
+  formatTokens,
+  getModelPrice,
+  getUsageDay,
+  groupUsage,
+  sumUsage,
+  type ModelPrice,
+} from '~/utils/usage';
+import { classNames } from '~/utils/classNames';
+
+ChartJS.register(CategoryScale, LinearScale, BarElement, Tooltip, Legend);
+
+const CHART_DAYS = 14;
+const CHART_COLORS = ['#a855f7', '#3b82f6', '#22c55e', '#f59e0b', '#ef4444', '#14b8a6', '#ec4899', '#6366f1'];
+
+const inputClassName = classNames(
+  'px-2 py-1 rounded-lg text-sm',
+  'bg-bolt-elements-background-depth-3 border border-bolt-elements-borderColor',
+  'text-bolt-elements-textPrimary',
+  'focus:outline-none focus:ring-2 focus:ring-purple-500/30',
+);
+
+function getRecentDays(count: number) {
+  const days: string[] = [];
+
+  for (let i = count - 1; i >= 0; i--) {
+    const date = new Date();
+    date.setDate(date.getDate() - i);
+    days.push(getUsageDay(date));
+  }
+
+  return days;
+}
+
+function StatCard({ label, value, detail }: { label: string; value: string; detail?: string }) {
+  return (
+    <div className="p-4 rounded-lg bg-bolt-elements-background-depth-2 border border-bolt-elements-borderColor">
+      <div className="text-xs text-bolt-elements-textSecondary">{label}</div>
+      <div className="text-xl font-semibold text-bolt-elements-textPrimary mt-1">{value}</div>
+      {detail && <div className="text-xs text-bolt-elements-textTertiary mt-1">{detail}</div>}
+    </div>
+  );
+}
+
+function PriceEditor({ model, price, isOverridden }: { model: string; price: ModelPrice; isOverridden: boolean }) {
+  const updatePrice = (key: keyof ModelPrice, value: string) => {
+    const parsed = Number(value);
+
+    if (!Number.isFinite(parsed) || parsed < 0) {
+      return;
+    }
+
+    updateModelPrice(model, { ...price, [key]: parsed });
+  };
+
+  return (
+    <div className="flex items-center gap-1">
+      <input
+        type="number"
+        min={0}
+        step="0.01"
+        value={price.input}
+        onChange={(e) => updatePrice('input', e.target.value)}
+        className={classNames(inputClassName, 'w-20')}
+        title="Input price per million tokens"
+      />
+      <span className="text-bolt-elements-textTertiary">/</span>
+      <input
+        type="number"
+        min={0}
+        step="0.01"
+        value={price.output}
+        onChange={(e) => updatePrice('output', e.target.value)}
+        className={classNames(inputClassName, 'w-20')}
+        title="Output price per million tokens"
+      />
+      {isOverridden && (
+        <button
+          onClick={() => updateModelPrice(model, undefined)}
+          className="p-1 text-bolt-elements-textSecondary hover:text-purple-500"
+          title="Reset to the default price"
+        >
+          <div className="i-ph:arrow-counter-clockwise" />
+        </button>
+      )}
+    </div>
+  );
+}
+
+export default function UsageTab() {
+  const records = useStore(usageRecordsStore);
+  const overrides = useStore(priceOverridesStore);
+  const dailyBudget = useStore(dailyBudgetStore);
+  const [budgetInput, setBudgetInput] = useState(dailyBudget ? String(dailyBudget) : '');
+
+  useEffect(() => {
+    if (db) {
+      loadUsageRecords(db);
+    }
+  }, []);
+
+  const todaySpend = useMemo(() => getDailySpend(), [records, overrides]);
+
+  const monthTotals = useMemo(() => {
+    const since = Date.now() - 30 * 24 * 60 * 60 * 1000;
+    return sumUsage(
+      records.filter((record) => Date.parse(record.timestamp) >= since),
+      overrides,
+    );
+  }, [records, overrides]);
+
+  const allTotals = useMemo(() => sumUsage(records, overrides), [records, overrides]);
+
+  const chartData = useMemo(() => {
+    const days = getRecentDays(CHART_DAYS);
+    const byProvider = groupUsage(records, (record) => record.provider);
+
+    return {
+      labels: days.map((day) => day.slice(5)),
+      datasets: Object.entries(byProvider).map(([provider, providerRecords], index) => {
+        const byDay = groupUsage(providerRecords, (record) => getUsageDay(record.timestamp));
+
+        return {
+          label: provider,
+          data: days.map((day) => sumUsage(byDay[day] || [], overrides).cost),
+          backgroundColor: CHART_COLORS[index % CHART_COLORS.length],
+        };
+      }),
+    };
+  }, [records, overrides]);
+
+  const modelRows = useMemo(() => {
+    const byModel = groupUsage(records, (record) => `${record.provider}/${record.model}`);
+
+    return Object.values(byModel)
+      .map((modelRecords) => ({
+        provider: modelRecords[0].provider,
+        model: modelRecords[0].model,
+        totals: sumUsage(modelRecords, overrides),
+      }))
+      .sort((a, b) => b.totals.cost - a.totals.cost || b.totals.totalTokens - a.totals.totalTokens);
+  }, [records, overrides]);
+
+  const saveBudget = () => {
+    const budget = Number(budgetInput) || 0;
+
+    if (budget < 0) {
+      toast.error('Budget cannot be negative');
+      return;
+    }
+
+    updateDailyBudget(budget);
+    toast.success(budget > 0 ? `Daily budget set to ${formatCost(budget)}` : 'Daily budget disabled');
+  };
+
+  const clearHistory = async () => {
+    if (!db || !window.confirm('Delete the recorded usage of all chats?')) {
+      return;
+    }
+
+    try {
+      await resetUsageRecords(db);
+      toast.success('Usage history cleared');
+    } catch (error) {
+      toast.error('Failed to clear usage history');
+      console.error(error);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <motion.div
+        className="grid grid-cols-1 md:grid-cols-3 gap-4"
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+        transition={{ duration: 0.3 }}
+      >
+        <StatCard
+          label="Today"
+          value={formatCost(todaySpend)}
+          detail={dailyBudget > 0 ? `of ${formatCost(dailyBudget)} daily budget` : 'No daily budget set'}
+        />
+        <StatCard
+          label="Last 30 days"
+          value={formatCost(monthTotals.cost)}
+          detail={`${monthTotals.requests} requests, ${formatTokens(monthTotals.totalTokens)} tokens`}
+        />
+        <StatCard
+          label="All time"
+          value={formatCost(allTotals.cost)}
+          detail={`${allTotals.requests} requests, ${formatTokens(allTotals.totalTokens)} tokens`}
+        />
+      </motion.div>
+
+      {dailyBudget > 0 && todaySpend > dailyBudget && (
+        <div className="flex items-center gap-2 p-3 rounded-lg bg-yellow-500/10 text-yellow-600 dark:text-yellow-400 text-sm">
+          <div className="i-ph:warning-circle-fill" />
+          Today's spend is over your daily budget.
+        </div>
+      )}
+
+      <motion.div
+        className="p-4 rounded-lg bg-bolt-elements-background-depth-2 border border-bolt-elements-borderColor"
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+        transition={{ duration: 0.3, delay: 0.1 }}
+      >
+        <h4 className="text-sm font-medium text-bolt-elements-textPrimary mb-3">Spend by provider</h4>
+        {records.length === 0 ? (
+          <p className="text-sm text-bolt-elements-textTertiary">No usage recorded yet.</p>
+        ) : (
+          <div className="h-56">
+            <Bar
+              data={chartData}
+              options={{
+                responsive: true,
+                maintainAspectRatio: false,
+                scales: {
+                  x: { stacked: true, grid: { display: false } },
+                  y: {
+                    stacked: true,
+                    beginAtZero: true,
+                    grid: { color: 'rgba(255, 255, 255, 0.1)' },
+                    ticks: { callback: (value) => `$${value}` },
+                  },
+                },
+                plugins: {
+                  tooltip: {
+                    callbacks: { label: (context) => `${context.dataset.label}: ${formatCost(context.parsed.y)}` },
+                  },
+                },
+              }}
+            />
+          </div>
+        )}
+      </motion.div>
+
+      <motion.div
+        className="p-4 rounded-lg bg-bolt-elements-background-depth-2 border border-bolt-elements-borderColor"
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+        transition={{ duration: 0.3, delay: 0.2 }}
+      >
+        <div className="flex items-center justify-between mb-3">
+          <div>
+            <h4 className="text-sm font-medium text-bolt-elements-textPrimary">Models</h4>
+            <p className="text-xs text-bolt-elements-textSecondary">
+              Prices are in USD per million input / output tokens
+            </p>
+          </div>
+        </div>
+        {modelRows.length === 0 ? (
+          <p className="text-sm text-bolt-elements-textTertiary">No usage recorded yet.</p>
+        ) : (
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-xs text-bolt-elements-textSecondary">
+                <th className="pb-2 font-medium">Model</th>
+                <th className="pb-2 font-medium text-right">Requests</th>
+                <th className="pb-2 font-medium text-right">Tokens</th>
+                <th className="pb-2 font-medium text-right">Cost</th>
+                <th className="pb-2 font-medium pl-4">Price</th>
+              </tr>
+            </thead>
+            <tbody>
+              {modelRows.map(({ provider, model, totals }) => (
+                <tr key={`${provider}/${model}`} className="border-t border-bolt-elements-borderColor">
+                  <td className="py-2 text-bolt-elements-textPrimary">
+                    <div className="truncate max-w-[220px]">{model}</div>
+                    <div className="text-xs text-bolt-elements-textTertiary">{provider}</div>
+                  </td>
+                  <td className="py-2 text-right text-bolt-elements-textSecondary">{totals.requests}</td>
+                  <td className="py-2 text-right text-bolt-elements-textSecondary">
+                    {formatTokens(totals.totalTokens)}
+                  </td>
+                  <td className="py-2 text-right text-bolt-elements-textPrimary">{formatCost(totals.cost)}</td>
+                  <td className="py-2 pl-4">
+                    <PriceEditor
+                      model={model}
+                      price={getModelPrice(provider, model, overrides)}
+                      isOverridden={!!overrides[model]}
+                    />
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </motion.div>
+
+      <motion.div
+        className="flex flex-wrap items-center justify-between gap-4 p-4 rounded-lg bg-bolt-elements-background-depth-2 border border-bolt-elements-borderColor"
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+        transition={{ duration: 0.3, delay: 0.3 }}
+      >
+        <div>
+          <h4 className="text-sm font-medium text-bolt-elements-textPrimary">Daily budget</h4>
+          <p className="text-xs text-bolt-elements-textSecondary">
+            Show a warning once the spend of the day exceeds this amount, leave empty to disable
+          </p>
+        </div>
+        <div className="flex items-center gap-2">
+          <span className="text-sm text-bolt-elements-textSecondary">$</span>
+          <input
+            type="number"
+            min={0}
+            step="0.5"
+            value={budgetInput}
+            placeholder="0.00"
+            onChange={(e) => setBudgetInput(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && saveBudget()}
+            className={classNames(inputClassName, 'w-24')}
+          />
+          <button
+            onClick={saveBudget}
+            className="px-3 py-1.5 rounded-lg text-sm font-medium bg-purple-500 text-white hover:bg-purple-600 transition-colors"
+          >
+            Save
+          </button>
+          <button
+            onClick={clearHistory}
+            className="px-3 py-1.5 rounded-lg text-sm font-medium text-red-500 hover:bg-red-500/10 transition-colors"
+          >
+            Clear history
+          </button>
+        </div>
+      </motion.div>
+    </div>
+  );
+}
@@ -5,6 +5,7 @@ import { memo, useEffect, useRef, useState } from 'react';
 import { createHighlighter, type BundledLanguage, type BundledTheme, type HighlighterGeneric } from 'shiki';
 import type { ActionState } from '~/lib/runtime/action-runner';
 import { workbenchStore } from '~/lib/stores/workbench';
+import type { ActionReview } from '~/types/review';
 import { classNames } from '~/utils/classNames';
 import { cubicEasingFn } from '~/utils/easings';
 import { WORK_DIR } from '~/utils/constants';
@@ -33,11 +34,12 @@ export const Artifact = memo(({ messageId }: ArtifactProps) => {
   const artifacts = useStore(workbenchStore.artifacts);
   const artifact = artifacts[messageId];
 
-  const actions = useStore(
+  const actionEntries = useStore(
     computed(artifact.runner.actions, (actions) => {
-      return Object.values(actions);
+      return Object.entries(actions);
     }),
   );
+  const actions = actionEntries.map(([, action]) => action);
 
   const toggleActions = () => {
     userToggledActions.current = true;
@@ -115,7 +117,7 @@ export const Artifact = memo(({ messageId }: ArtifactProps) => {
             <div className="bg-bolt-elements-artifacts-borderColor h-[1px]" />
 
             <div className="p-5 text-left bg-bolt-elements-actions-background">
-              <ActionList actions={actions} />
+              <ActionList messageId={messageId} actions={actionEntries} />
             </div>
           </motion.div>
         )}
@@ -144,7 +146,10 @@ function ShellCodeBlock({ classsName, code }: ShellCodeBlockProps) {
 }
 
 interface ActionListProps {
-  actions: ActionState[];
+  messageId: string;
+
+  // keyed by action id
+  actions: Array<[string, ActionState]>;
 }
 
 const actionVariants = {
@@ -160,13 +165,54 @@ function openArtifactInWorkbench(filePath: any) {
   workbenchStore.setSelectedFile(`${WORK_DIR}/${filePath}`);
 }
 
-const ActionList = memo(({ actions }: ActionListProps) => {
+function openTerminalInWorkbench() {
+  workbenchStore.showWorkbench.set(true);
+  workbenchStore.toggleTerminal(true);
+}
+
+// the diff view shows the proposed change of a file waiting for review
+function openReviewInWorkbench(filePath: string) {
+  workbenchStore.showWorkbench.set(true);
+  workbenchStore.currentView.set('diff');
+  workbenchStore.setSelectedFile(`${WORK_DIR}/${filePath}`);
+}
+
+const ActionList = memo(({ messageId, actions: actionEntries }: ActionListProps) => {
+  const reviews = useStore(workbenchStore.actionReviews);
+  const [editing, setEditing] = useState<{ reviewId: string; command: string }>();
+
+  const pendingReviews = actionEntries.filter(([actionId]) => reviews[`${messageId}:${actionId}`]).length;
+
+  const saveCommand = (review: ActionReview) => {
+    if (editing?.command.trim()) {
+      workbenchStore.updateReview(review.id, { ...review.action, content: editing.command.trim() });
+    }
+
+    setEditing(undefined);
+  };
+
   return (
     <motion.div initial={{ opacity: 0 }} animate={{ opacity: 1 }} exit={{ opacity: 0 }} transition={{ duration: 0.15 }}>
+      {pendingReviews > 1 && (
+        <div className="flex items-center gap-2 mb-3 text-sm text-bolt-elements-textSecondary">
+          <span className="flex-1">{pendingReviews} actions are waiting for your review</span>
+          <ReviewButton icon="i-ph:x" onClick={() => workbenchStore.rejectAllReviews(messageId)}>
+            Reject all
+          </ReviewButton>
+          <ReviewButton icon="i-ph:check" onClick={() => workbenchStore.acceptAllReviews(messageId)}>
+            Accept all
+          </ReviewButton>
+        </div>
+      )}
       <ul className="list-none space-y-2.5">
-        {actions.map((action, index) => {
+        {actionEntries.map(([actionId, actionState], index) => {
+          const review: ActionReview | undefined = reviews[`${messageId}:${actionId}`];
+
+          // a reviewed action shows the user's edits until it runs
+          const action = review ? { ...actionState, ...review.action } : actionState;
           const { status, type, content } = action;
-          const isLast = index === actions.length - 1;
+          const isLast = index === actionEntries.length - 1;
+          const isEditing = review && editing?.reviewId === review.id;
 
           return (
             <motion.li
@@ -191,8 +237,14 @@ const ActionList = memo(({ actions }: ActionListProps) => {
                     </>
                   ) : status === 'pending' ? (
                     <div className="i-ph:circle-duotone"></div>
+                  ) : status === 'review' ? (
+                    <div className="i-ph:eye-duotone"></div>
+                  ) : status === 'waiting' ? (
+                    <div className="i-ph:keyboard-duotone"></div>
                   ) : status === 'complete' ? (
                     <div className="i-ph:check"></div>
+                  ) : status === 'rejected' ? (
+                    <div className="i-ph:prohibit"></div>
                   ) : status === 'failed' || status === 'aborted' ? (
                     <div className="i-ph:x"></div>
                   ) : null}
@@ -207,6 +259,16 @@ const ActionList = memo(({ actions }: ActionListProps) => {
                       {action.filePath}
                     </code>
                   </div>
+                ) : type === 'patch' ? (
+                  <div>
+                    Edit{' '}
+                    <code
+                      className="bg-bolt-elements-artifacts-inlineCode-background text-bolt-elements-artifacts-inlineCode-text px-1.5 py-1 rounded-md text-bolt-elements-item-contentAccent hover:underline cursor-pointer"
+                      onClick={() => openArtifactInWorkbench(action.filePath)}
+                    >
+                      {action.filePath}
+                    </code>
+                  </div>
                 ) : type === 'shell' ? (
                   <div className="flex items-center w-full min-h-[28px]">
                     <span className="flex-1">Run command</span>
@@ -222,14 +284,80 @@ const ActionList = memo(({ actions }: ActionListProps) => {
                     <span className="flex-1">Start Application</span>
                   </a>
                 ) : null}
+                {review && !isEditing && (
+                  <div className="ml-auto flex items-center gap-1 shrink-0">
+                    {action.type === 'file' || action.type === 'patch' ? (
+                      <ReviewButton
+                        icon="i-ph:git-diff"
+                        title="Show the change"
+                        onClick={() => openReviewInWorkbench(action.filePath)}
+                      />
+                    ) : (
+                      <ReviewButton
+                        icon="i-ph:pencil-simple"
+                        title="Edit the command"
+                        onClick={() => setEditing({ reviewId: review.id, command: content })}
+                      />
+                    )}
+                    <ReviewButton icon="i-ph:x" title="Reject" onClick={() => workbenchStore.rejectReview(review.id)} />
+                    <ReviewButton
+                      icon="i-ph:check"
+                      title="Accept"
+                      onClick={() => workbenchStore.acceptReview(review.id)}
+                    />
+                    {review.reason && (
+                      <ReviewButton
+                        icon="i-ph:checks"
+                        title="Accept and always allow this command in this chat"
+                        onClick={() => {
+                          workbenchStore.allowCommandInChat(content);
+                          workbenchStore.acceptReview(review.id);
+                        }}
+                      />
+                    )}
+                  </div>
+                )}
               </div>
-              {(type === 'shell' || type === 'start') && (
-                <ShellCodeBlock
-                  classsName={classNames('mt-1', {
-                    'mb-3.5': !isLast,
-                  })}
-                  code={content}
-                />
+              {review?.reason && <div className="mt-1 text-xs text-bolt-elements-textSecondary">{review.reason}</div>}
+              {status === 'waiting' && (
+                <div className="flex items-center gap-1.5 mt-1 text-xs text-bolt-elements-textSecondary">
+                  <span>The command is waiting for your input in the terminal</span>
+                  <ReviewButton icon="i-ph:terminal-window" onClick={openTerminalInWorkbench}>
+                    Open terminal
+                  </ReviewButton>
+                </div>
+              )}
+              {action.status === 'failed' && action.blockedReason && (
+                <div className="mt-1 text-xs text-bolt-elements-icon-error">
+                  Blocked, this command {action.blockedReason}
+                </div>
+              )}
+              {isEditing ? (
+                <form
+                  className="flex items-center gap-1.5 mt-1"
+                  onSubmit={(event) => {
+                    event.preventDefault();
+                    saveCommand(review);
+                  }}
+                >
+                  <input
+                    autoFocus
+                    value={editing.command}
+                    onChange={(event) => setEditing({ ...editing, command: event.target.value })}
+                    onKeyDown={(event) => event.key === 'Escape' && setEditing(undefined)}
+                    className="flex-1 min-w-0 px-2 py-1 rounded-md font-mono text-xs bg-bolt-elements-background-depth-1 border border-bolt-elements-borderColor text-bolt-elements-textPrimary focus:outline-none focus:border-bolt-elements-borderColorActive"
+                  />
+                  <ReviewButton icon="i-ph:floppy-disk" title="Save" type="submit" />
+                </form>
+              ) : (
+                (type === 'shell' || type === 'start') && (
+                  <ShellCodeBlock
+                    classsName={classNames('mt-1', {
+                      'mb-3.5': !isLast,
+                    })}
+                    code={content}
+                  />
+                )
               )}
             </motion.li>
           );
@@ -239,11 +367,38 @@ const ActionList = memo(({ actions }: ActionListProps) => {
   );
 });
 
+interface ReviewButtonProps {
+  icon: string;
+  title?: string;
+  type?: 'button' | 'submit';
+  onClick?: () => void;
+  children?: string;
+}
+
+function ReviewButton({ icon, title, type = 'button', onClick, children }: ReviewButtonProps) {
+  return (
+    <button
+      type={type}
+      title={title}
+      onClick={onClick}
+      className="flex items-center gap-1 px-1.5 py-1 rounded-md text-xs text-bolt-elements-textSecondary hover:text-bolt-elements-textPrimary hover:bg-bolt-elements-artifacts-backgroundHover"
+    >
+      <div className={icon}></div>
+      {children}
+    </button>
+  );
+}
+
 function getIconColor(status: ActionState['status']) {
   switch (status) {
-    case 'pending': {
+    case 'pending':
+    case 'rejected': {
       return 'text-bolt-elements-textTertiary';
     }
+    case 'review':
+    case 'waiting': {
+      return 'text-bolt-elements-item-contentAccent';
+    }
     case 'running': {
       return 'text-bolt-elements-loader-progress';
     }
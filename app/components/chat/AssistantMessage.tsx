@@ -1,9 +1,11 @@
-import { memo } from 'react';
+import { memo, useState } from 'react';
 import { Markdown } from './Markdown';
 import type { JSONValue } from 'ai';
 import Popover from '~/components/ui/Popover';
 import { workbenchStore } from '~/lib/stores/workbench';
 import { WORK_DIR } from '~/utils/constants';
+import type { ContextBudgetAnnotation, PlanAnnotation, UsageAnnotation } from '~/types/context';
+import { classNames } from '~/utils/classNames';
 
 interface AssistantMessageProps {
   content: string;
@@ -34,6 +36,44 @@ function normalizedFilePath(path: string) {
   return normalizedPath;
 }
 
+function PlanView({ plan, planner, editor }: PlanAnnotation) {
+  const [expanded, setExpanded] = useState(false);
+
+  return (
+    <div className="mb-3 rounded-md border border-bolt-elements-borderColor bg-bolt-elements-background-depth-2 text-sm">
+      <button
+        className="flex w-full items-center gap-2 px-3 py-2 text-left text-bolt-elements-textPrimary"
+        onClick={() => setExpanded(!expanded)}
+      >
+        <div className="i-ph:compass-tool text-purple-500" />
+        <span className="flex-1 truncate">
+          Plan: {plan.steps.length} {plan.steps.length === 1 ? 'step' : 'steps'}
+        </span>
+        <span className="text-xs text-bolt-elements-textTertiary">
+          {planner.model} → {editor.model}
+        </span>
+        <div className={classNames('i-ph:caret-down transition-transform', expanded ? 'rotate-180' : '')} />
+      </button>
+      {expanded && (
+        <div className="border-t border-bolt-elements-borderColor px-3 py-2 text-bolt-elements-textSecondary">
+          <p className="mb-2">{plan.summary}</p>
+          <ol className="list-decimal pl-5 space-y-1">
+            {plan.steps.map((step, index) => (
+              <li key={index}>
+                <span className="text-bolt-elements-textPrimary">{step.title}</span>
+                {step.files.length > 0 && (
+                  <span className="text-xs text-bolt-elements-textTertiary"> ({step.files.join(', ')})</span>
+                )}
+                <div className="text-xs">{step.description}</div>
+              </li>
+            ))}
+          </ol>
+        </div>
+      )}
+    </div>
+  );
+}
+
 export const AssistantMessage = memo(({ content, annotations }: AssistantMessageProps) => {
   const filteredAnnotations = (annotations?.filter(
     (annotation: JSONValue) => annotation && typeof annotation === 'object' && Object.keys(annotation).includes('type'),
@@ -51,11 +91,23 @@ export const AssistantMessage = memo(({ content, annotations }: AssistantMessage
     codeContext = filteredAnnotations.find((annotation) => annotation.type === 'codeContext')?.files;
   }
 
-  const usage: {
-    completionTokens: number;
-    promptTokens: number;
-    totalTokens: number;
-  } = filteredAnnotations.find((annotation) => annotation.type === 'usage')?.value;
+  const contextBudget = filteredAnnotations.find((annotation) => annotation.type === 'contextBudget') as
+    | ContextBudgetAnnotation
+    | undefined;
+
+  const plan = filteredAnnotations.find((annotation) => annotation.type === 'plan') as PlanAnnotation | undefined;
+
+  // the planner and the editor of a plan report their usage separately
+  const usage = (filteredAnnotations.filter((annotation) => annotation.type === 'usage') as UsageAnnotation[]).reduce<
+    UsageAnnotation['value'] | undefined
+  >(
+    (total, { value }) => ({
+      completionTokens: (total?.completionTokens ?? 0) + value.completionTokens,
+      promptTokens: (total?.promptTokens ?? 0) + value.promptTokens,
+      totalTokens: (total?.totalTokens ?? 0) + value.totalTokens,
+    }),
+    undefined,
+  );
 
   return (
     <div className="overflow-hidden w-full">
@@ -100,6 +152,37 @@ export const AssistantMessage = memo(({ content, annotations }: AssistantMessage
               <div className="context"></div>
             </Popover>
           )}
+          {contextBudget && (
+            <Popover
+              side="right"
+              align="start"
+              trigger={<div className="i-ph:scissors text-yellow-500" title="Context trimmed to fit the model" />}
+            >
+              <div className="max-w-chat flex flex-col gap-2 text-sm">
+                <h2>Context trimmed to fit {Math.round(contextBudget.contextWindow / 1000)}k tokens</h2>
+                {(
+                  [
+                    ['Truncated', contextBudget.truncated],
+                    ['Outlined', contextBudget.outlined],
+                    ['Dropped', contextBudget.dropped],
+                  ] as const
+                ).map(
+                  ([label, files]) =>
+                    files.length > 0 && (
+                      <div key={label}>
+                        <span className="text-bolt-elements-textSecondary">{label}: </span>
+                        {files.map((file) => normalizedFilePath(file)).join(', ')}
+                      </div>
+                    ),
+                )}
+                {contextBudget.omittedPaths > 0 && (
+                  <div className="text-bolt-elements-textSecondary">
+                    {contextBudget.omittedPaths} paths left out of the project file list
+                  </div>
+                )}
+              </div>
+            </Popover>
+          )}
           {usage && (
             <div>
               Tokens: {usage.totalTokens} (prompt: {usage.promptTokens}, completion: {usage.completionTokens})
@@ -107,6 +190,7 @@ export const AssistantMessage = memo(({ content, annotations }: AssistantMessage
           )}
         </div>
       </>
+      {plan && <PlanView {...plan} />}
       <Markdown html>{content}</Markdown>
     </div>
   );
@@ -0,0 +1,60 @@
+import { AnimatePresence, motion } from 'framer-motion';
+import type { AutoFixState } from '~/lib/stores/autoFix';
+import { classNames } from '~/utils/classNames';
+
+interface Props {
+  autoFix: AutoFixState;
+  isStreaming?: boolean;
+  onStop: () => void;
+}
+
+export default function AutoFixStatus({ autoFix, isStreaming, onStop }: Props) {
+  const { attempt, maxAttempts, failedAction } = autoFix;
+
+  return (
+    <AnimatePresence>
+      <motion.div
+        initial={{ opacity: 0, y: -20 }}
+        animate={{ opacity: 1, y: 0 }}
+        exit={{ opacity: 0, y: -20 }}
+        transition={{ duration: 0.3 }}
+        className="rounded-lg border border-bolt-elements-borderColor bg-bolt-elements-background-depth-2 p-3 mb-2"
+      >
+        <div className="flex items-center gap-3">
+          <div
+            className={classNames(
+              'text-xl text-bolt-elements-item-contentAccent',
+              isStreaming ? 'i-svg-spinners:90-ring-with-bg' : 'i-ph:first-aid-kit-duotone',
+            )}
+          ></div>
+          <div className="flex-1 text-sm">
+            <div className="font-medium text-bolt-elements-textPrimary">
+              Auto-fix attempt {attempt} of {maxAttempts}
+            </div>
+            <div className="text-xs text-bolt-elements-textSecondary mt-0.5">
+              {isStreaming
+                ? 'Waiting for the fix from the model'
+                : failedAction
+                  ? `Re-running \`${failedAction.content}\``
+                  : 'Watching for new errors'}
+            </div>
+          </div>
+          <button
+            onClick={onStop}
+            className={classNames(
+              `px-2 py-1.5 rounded-md text-sm font-medium`,
+              'bg-bolt-elements-button-secondary-background',
+              'hover:bg-bolt-elements-button-secondary-backgroundHover',
+              'focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-bolt-elements-button-secondary-background',
+              'text-bolt-elements-button-secondary-text',
+              'flex items-center gap-1.5',
+            )}
+          >
+            <div className="i-ph:stop-circle-duotone"></div>
+            Stop
+          </button>
+        </div>
+      </motion.div>
+    </AnimatePresence>
+  );
+}
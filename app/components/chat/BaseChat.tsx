@@ -18,6 +18,7 @@ import * as Tooltip from '@radix-ui/react-tooltip';
 import styles from './BaseChat.module.scss';
 import { ExportChatButton } from '~/components/chat/chatExportAndImport/ExportChatButton';
 import { ImportButtons } from '~/components/chat/chatExportAndImport/ImportButtons';
+import type { IChatMetadata } from '~/lib/persistence';
 import { ExamplePrompts } from '~/components/chat/ExamplePrompts';
 import GitCloneButton from './GitCloneButton';
 
@@ -29,11 +30,14 @@ import { ScreenshotStateManager } from './ScreenshotStateManager';
 import { toast } from 'react-toastify';
 import type { ActionAlert } from '~/types/actions';
 import ChatAlert from './ChatAlert';
+import AutoFixStatus from './AutoFixStatus';
+import type { AutoFixState } from '~/lib/stores/autoFix';
 import type { ModelInfo } from '~/lib/modules/llm/types';
 import ProgressCompilation from './ProgressCompilation';
 import type { ProgressAnnotation } from '~/types/context';
 import type { ActionRunner } from '~/lib/runtime/action-runner';
-import { LOCAL_PROVIDERS } from '~/lib/stores/settings';
+import { architectModeStore, editorModelStore, LOCAL_PROVIDERS, updateEditorModel } from '~/lib/stores/settings';
+import { useStore } from '@nanostores/react';
 import FileExplorer from '~/components/workbench/FileExplorer';
 
 const TEXTAREA_MIN_HEIGHT = 76;
@@ -62,7 +66,7 @@ interface BaseChatProps {
   sendMessage?: (event: React.UIEvent, messageInput?: string) => void;
   handleInputChange?: (event: React.ChangeEvent<HTMLTextAreaElement>) => void;
   enhancePrompt?: () => void;
-  importChat?: (description: string, messages: Message[]) => Promise<void>;
+  importChat?: (description: string, messages: Message[], metadata?: IChatMetadata) => Promise<void>;
   exportChat?: () => void;
   uploadedFiles?: File[];
   setUploadedFiles?: (files: File[]) => void;
@@ -70,6 +74,8 @@ interface BaseChatProps {
   setImageDataList?: (dataList: string[]) => void;
   actionAlert?: ActionAlert;
   clearAlert?: () => void;
+  autoFix?: AutoFixState;
+  stopAutoFix?: () => void;
   data?: JSONValue[] | undefined;
   actionRunner?: ActionRunner;
 }
@@ -106,6 +112,8 @@ export const BaseChat = React.forwardRef<HTMLDivElement, BaseChatProps>(
       messages,
       actionAlert,
       clearAlert,
+      autoFix,
+      stopAutoFix,
       data,
       actionRunner,
     },
@@ -121,6 +129,9 @@ export const BaseChat = React.forwardRef<HTMLDivElement, BaseChatProps>(
     const [isModelLoading, setIsModelLoading] = useState<string | undefined>('all');
     const [progressAnnotations, setProgressAnnotations] = useState<ProgressAnnotation[]>([]);
     const [activeTab, setActiveTab] = useState<TabType>('main');
+    const architectMode = useStore(architectModeStore);
+    const editorModel = useStore(editorModelStore);
+    const editorProvider = (providerList || []).find((p) => p.name === editorModel.provider) || provider;
 
     useEffect(() => {
       if (data) {
@@ -388,6 +399,9 @@ export const BaseChat = React.forwardRef<HTMLDivElement, BaseChatProps>(
                       })}
                     >
                       <div className="bg-bolt-elements-background-depth-2">
+                        {autoFix?.active && (
+                          <AutoFixStatus autoFix={autoFix} isStreaming={isStreaming} onStop={() => stopAutoFix?.()} />
+                        )}
                         {actionAlert && (
                           <ChatAlert
                             alert={actionAlert}
@@ -449,7 +463,32 @@ export const BaseChat = React.forwardRef<HTMLDivElement, BaseChatProps>(
                                   providerList={providerList || (PROVIDER_LIST as ProviderInfo[])}
                                   apiKeys={apiKeys}
                                   modelLoading={isModelLoading}
+                                  label={architectMode ? 'Architect' : undefined}
                                 />
+                                {architectMode && (
+                                  <ModelSelector
+                                    key={'editor:' + editorProvider?.name + ':' + modelList.length}
+                                    label="Editor"
+                                    model={editorModel.model}
+                                    setModel={(model) =>
+                                      updateEditorModel({
+                                        provider: editorModelStore.get().provider || editorProvider?.name || '',
+                                        model,
+                                      })
+                                    }
+                                    modelList={modelList}
+                                    provider={editorProvider}
+                                    setProvider={(newProvider) =>
+                                      updateEditorModel({
+                                        provider: newProvider.name,
+                                        model: editorModelStore.get().model,
+                                      })
+                                    }
+                                    providerList={providerList || (PROVIDER_LIST as ProviderInfo[])}
+                                    apiKeys={apiKeys}
+                                    modelLoading={isModelLoading}
+                                  />
+                                )}
                                 {(providerList || []).length > 0 &&
                                   provider &&
                                   !LOCAL_PROVIDERS.includes(provider.name) && (
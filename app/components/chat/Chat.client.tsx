@@ -9,8 +9,8 @@ import { useAnimate } from 'framer-motion';
 import { memo, useCallback, useEffect, useRef, useState } from 'react';
 import { cssTransition, toast, ToastContainer } from 'react-toastify';
 import { useMessageParser, usePromptEnhancer, useShortcuts, useSnapScroll } from '~/lib/hooks';
-import { description, useChatHistory } from '~/lib/persistence';
-import { chatStore } from '~/lib/stores/chat';
+import { description, useChatHistory, type IChatMetadata } from '~/lib/persistence';
+import { chatStore, pendingAssistantMessage, pendingChatMessage } from '~/lib/stores/chat';
 import { workbenchStore } from '~/lib/stores/workbench';
 import { DEFAULT_MODEL, DEFAULT_PROVIDER, PROMPT_COOKIE_KEY, PROVIDER_LIST } from '~/utils/constants';
 import { cubicEasingFn } from '~/utils/easings';
@@ -26,6 +26,18 @@ import { getTemplates, selectStarterTemplate } from '~/utils/selectStarterTempla
 import { logStore } from '~/lib/stores/logs';
 import { streamingState } from '~/lib/stores/streaming';
 import { filesToArtifacts } from '~/utils/fileUtils';
+import { fileOperationsToHTML } from '~/utils/diff';
+import { reviewFeedbackToHTML } from '~/utils/review';
+import {
+  autoFixStore,
+  exhaustAutoFix,
+  finishAutoFixAttempt,
+  getAutoFixPrompt,
+  startAutoFixAttempt,
+  stopAutoFix,
+} from '~/lib/stores/autoFix';
+import { embeddingIndexStore } from '~/lib/stores/embeddings';
+import { gitAutoCommitStore } from '~/lib/stores/settings';
 
 const toastAnimation = cssTransition({
   enter: 'animated fadeInRight',
@@ -106,7 +118,7 @@ const processSampledMessages = createSampler(
 interface ChatProps {
   initialMessages: Message[];
   storeMessageHistory: (messages: Message[]) => Promise<void>;
-  importChat: (description: string, messages: Message[]) => Promise<void>;
+  importChat: (description: string, messages: Message[], metadata?: IChatMetadata) => Promise<void>;
   exportChat: () => void;
   description?: string;
 }
@@ -122,8 +134,28 @@ export const ChatImpl = memo(
     const [searchParams, setSearchParams] = useSearchParams();
     const [fakeLoading, setFakeLoading] = useState(false);
     const files = useStore(workbenchStore.files);
+    const lockedPaths = useStore(workbenchStore.lockedPaths);
     const actionAlert = useStore(workbenchStore.alert);
-    const { activeProviders, promptId, autoSelectTemplate, contextOptimizationEnabled } = useSettings();
+    const pendingMessage = useStore(pendingChatMessage);
+    const pendingAssistant = useStore(pendingAssistantMessage);
+    const {
+      activeProviders,
+      promptId,
+      autoSelectTemplate,
+      contextOptimizationEnabled,
+      toolCallingEnabled,
+      fallbackModels,
+      autoFixEnabled,
+      autoFixMaxAttempts,
+      contextSelectionMode,
+      embeddingSettings,
+      architectModeEnabled,
+      editorModel,
+    } = useSettings();
+    const useEmbeddings = contextOptimizationEnabled && contextSelectionMode === 'embeddings';
+    const autoFix = useStore(autoFixStore);
+    const handledAlertRef = useRef<typeof actionAlert>(undefined);
+    const isAutoFixMessageRef = useRef(false);
 
     const [model, setModel] = useState(() => {
       const savedModel = Cookies.get('selectedModel');
@@ -160,6 +192,14 @@ export const ChatImpl = memo(
         files,
         promptId,
         contextOptimization: contextOptimizationEnabled,
+        toolCalling: toolCallingEnabled,
+        fallbackModels,
+        lockedPaths,
+        editorModel: architectModeEnabled
+          ? editorModel.model
+            ? editorModel
+            : { provider: provider.name, model }
+          : undefined,
       },
       sendExtraMessageFields: true,
       onError: (e) => {
@@ -177,6 +217,24 @@ export const ChatImpl = memo(
         const usage = response.usage;
         setData(undefined);
 
+        const { active, failedAction } = autoFixStore.get();
+
+        if (active && failedAction) {
+          workbenchStore.rerunAction(message.id, failedAction).then((status) => {
+            if (status === 'complete') {
+              stopAutoFix();
+            } else if (status !== 'failed') {
+              finishAutoFixAttempt();
+            }
+          });
+        } else if (active) {
+          finishAutoFixAttempt();
+        }
+
+        if (gitAutoCommitStore.get()) {
+          workbenchStore.commitMessageChanges(message.id);
+        }
+
         if (usage) {
           console.log('Token usage:', usage);
           logStore.logProvider('Chat response completed', {
@@ -233,6 +291,46 @@ export const ChatImpl = memo(
       });
     }, [messages, isLoading, parseMessages]);
 
+    useEffect(() => {
+      if (!actionAlert || !autoFixEnabled || isLoading || handledAlertRef.current === actionAlert) {
+        return;
+      }
+
+      handledAlertRef.current = actionAlert;
+
+      const { attempt, exhausted } = autoFixStore.get();
+
+      if (exhausted || attempt >= autoFixMaxAttempts) {
+        // budget exhausted, leave the alert and the ones after it for the user to handle
+        exhaustAutoFix();
+        return;
+      }
+
+      startAutoFixAttempt(actionAlert, autoFixMaxAttempts);
+      workbenchStore.clearAlert();
+
+      isAutoFixMessageRef.current = true;
+      sendMessage({} as React.UIEvent, getAutoFixPrompt(actionAlert, attempt + 1, autoFixMaxAttempts));
+    }, [actionAlert, isLoading, autoFixEnabled, autoFixMaxAttempts]);
+
+    useEffect(() => {
+      if (!pendingMessage || isLoading) {
+        return;
+      }
+
+      pendingChatMessage.set(undefined);
+      sendMessage({} as React.UIEvent, pendingMessage);
+    }, [pendingMessage, isLoading]);
+
+    useEffect(() => {
+      if (!pendingAssistant || isLoading) {
+        return;
+      }
+
+      pendingAssistantMessage.set(undefined);
+      setMessages([...messages, pendingAssistant]);
+    }, [pendingAssistant, isLoading]);
+
     const scrollTextArea = () => {
       const textarea = textareaRef.current;
 
@@ -243,6 +341,7 @@ export const ChatImpl = memo(
 
     const abort = () => {
       stop();
+      stopAutoFix();
       chatStore.setKey('aborted', true);
       workbenchStore.abortAllActions();
 
@@ -282,6 +381,43 @@ export const ChatImpl = memo(
       setChatStarted(true);
     };
 
+    useEffect(() => {
+      if (!useEmbeddings) {
+        return undefined;
+      }
+
+      embeddingIndexStore.update(workbenchStore.files.get(), embeddingSettings);
+
+      const unsubscribe = workbenchStore.files.listen(
+        debounce((files) => {
+          embeddingIndexStore.update(files, embeddingSettings);
+        }, 1000),
+      );
+
+      return () => unsubscribe();
+    }, [useEmbeddings, embeddingSettings]);
+
+    /**
+     * Picks the context files by embedding similarity, returns undefined to let the server select them.
+     */
+    const retrieveContextFiles = async (query: string) => {
+      if (!useEmbeddings || Object.keys(files).length === 0) {
+        return undefined;
+      }
+
+      try {
+        const contextFilePaths = await embeddingIndexStore.retrieve(query, files, embeddingSettings);
+        logger.debug(`Retrieved ${contextFilePaths.length} context files by embeddings`);
+
+        return contextFilePaths;
+      } catch (error) {
+        logger.error('Embedding retrieval failed', error);
+        toast.warning('Embedding search failed, falling back to LLM file selection');
+
+        return undefined;
+      }
+    };
+
     const sendMessage = async (_event: React.UIEvent, messageInput?: string) => {
       const messageContent = messageInput || input;
 
@@ -296,6 +432,13 @@ export const ChatImpl = memo(
 
       runAnimation();
 
+      if (!isAutoFixMessageRef.current) {
+        // a message from the user starts over with a fresh auto-fix budget
+        stopAutoFix();
+      }
+
+      isAutoFixMessageRef.current = false;
+
       if (!chatStarted) {
         setFakeLoading(true);
 
@@ -373,40 +516,56 @@ export const ChatImpl = memo(
       }
 
       const modifiedFiles = workbenchStore.getModifiedFiles();
+      const fileOperations = fileOperationsToHTML(workbenchStore.getFileOperations());
+      const userFileOperations = fileOperations ? `${fileOperations}\n\n` : '';
+      const reviewFeedback = reviewFeedbackToHTML(workbenchStore.takeReviewFeedback());
+      const userReviewFeedback = reviewFeedback ? `${reviewFeedback}\n\n` : '';
 
       chatStore.setKey('aborted', false);
 
+      const requestOptions = { body: { contextFilePaths: await retrieveContextFiles(messageContent) } };
+
       if (modifiedFiles !== undefined) {
         const userUpdateArtifact = filesToArtifacts(modifiedFiles, `${Date.now()}`);
-        append({
-          role: 'user',
-          content: [
-            {
-              type: 'text',
-              text: `[Model: ${model}]\n\n[Provider: ${provider.name}]\n\n${userUpdateArtifact}${messageContent}`,
-            },
-            ...imageDataList.map((imageData) => ({
-              type: 'image',
-              image: imageData,
-            })),
-          ] as any,
-        });
+        append(
+          {
+            role: 'user',
+            content: [
+              {
+                type: 'text',
+                text: `[Model: ${model}]\n\n[Provider: ${provider.name}]\n\n${userUpdateArtifact}${userFileOperations}${userReviewFeedback}${messageContent}`,
+              },
+              ...imageDataList.map((imageData) => ({
+                type: 'image',
+                image: imageData,
+              })),
+            ] as any,
+          },
+          requestOptions,
+        );
 
         workbenchStore.resetAllFileModifications();
       } else {
-        append({
-          role: 'user',
-          content: [
-            {
-              type: 'text',
-              text: `[Model: ${model}]\n\n[Provider: ${provider.name}]\n\n${messageContent}`,
-            },
-            ...imageDataList.map((imageData) => ({
-              type: 'image',
-              image: imageData,
-            })),
-          ] as any,
-        });
+        append(
+          {
+            role: 'user',
+            content: [
+              {
+                type: 'text',
+                text: `[Model: ${model}]\n\n[Provider: ${provider.name}]\n\n${userFileOperations}${userReviewFeedback}${messageContent}`,
+              },
+              ...imageDataList.map((imageData) => ({
+                type: 'image',
+                image: imageData,
+              })),
+            ] as any,
+          },
+          requestOptions,
+        );
+
+        if (fileOperations) {
+          workbenchStore.resetAllFileModifications();
+        }
       }
 
       setInput('');
@@ -517,6 +676,8 @@ export const ChatImpl = memo(
         setImageDataList={setImageDataList}
         actionAlert={actionAlert}
         clearAlert={() => workbenchStore.clearAlert()}
+        autoFix={autoFix}
+        stopAutoFix={abort}
         data={chatData}
       />
     );
@@ -12,10 +12,16 @@ export default function ChatAlert({ alert, clearAlert, postMessage }: Props) {
   const { description, content, source } = alert;
 
   const isPreview = source === 'preview';
-  const title = isPreview ? 'Preview Error' : 'Terminal Error';
+  const isPatch = source === 'patch';
+  const isLocked = source === 'locked';
+  const title = isPreview ? 'Preview Error' : isPatch ? 'Patch Failed' : isLocked ? 'File Locked' : 'Terminal Error';
   const message = isPreview
     ? 'We encountered an error while running the preview. Would you like Bolt to analyze and help resolve this issue?'
-    : 'We encountered an error while running terminal commands. Would you like Bolt to analyze and help resolve this issue?';
+    : isPatch
+      ? 'A file edit could not be applied because it does not match the current file. Would you like Bolt to retry the change?'
+      : isLocked
+        ? 'Bolt tried to change a file you locked, the change was not applied. Would you like Bolt to make it without touching locked files?'
+        : 'We encountered an error while running terminal commands. Would you like Bolt to analyze and help resolve this issue?';
 
   return (
     <AnimatePresence>
@@ -71,7 +77,11 @@ export default function ChatAlert({ alert, clearAlert, postMessage }: Props) {
                 <button
                   onClick={() =>
                     postMessage(
-                      `*Fix this ${isPreview ? 'preview' : 'terminal'} error* \n\`\`\`${isPreview ? 'js' : 'sh'}\n${content}\n\`\`\`\n`,
+                      isPatch
+                        ? `*This patch could not be applied (${description}). Re-read the file and retry the change* \n\`\`\`diff\n${content}\n\`\`\`\n`
+                        : isLocked
+                          ? `*\`${content}\` is locked and must not be changed. Make the change without modifying locked files, e.g. in a new file*\n`
+                          : `*Fix this ${isPreview ? 'preview' : 'terminal'} error* \n\`\`\`${isPreview ? 'js' : 'sh'}\n${content}\n\`\`\`\n`,
                     )
                   }
                   className={classNames(
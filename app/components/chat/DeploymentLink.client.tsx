@@ -1,22 +1,39 @@
 import { useStore } from '@nanostores/react';
 import { netlifyConnection, fetchNetlifyStats } from '~/lib/stores/netlify';
-import { chatId } from '~/lib/persistence/useChatHistory';
+import { chatId, chatMetadata } from '~/lib/persistence/useChatHistory';
+import type { DeployConnection } from '~/types/deploy';
 import * as Tooltip from '@radix-ui/react-tooltip';
 import { useEffect } from 'react';
 
-export function NetlifyDeploymentLink() {
-  const connection = useStore(netlifyConnection);
+interface DeploymentLinkProps {
+  connection: DeployConnection;
+}
+
+/**
+ * Links the site of the last deployment of the chat to the connection.
+ */
+export function DeploymentLink({ connection }: DeploymentLinkProps) {
+  const netlify = useStore(netlifyConnection);
   const currentChatId = useStore(chatId);
+  const metadata = useStore(chatMetadata);
+  const isNetlify = connection.type === 'netlify';
 
   useEffect(() => {
-    if (connection.token && currentChatId) {
-      fetchNetlifyStats(connection.token);
+    if (isNetlify && netlify.token && currentChatId) {
+      fetchNetlifyStats(netlify.token);
     }
-  }, [connection.token, currentChatId]);
+  }, [isNetlify, netlify.token, currentChatId]);
+
+  const deployment = metadata?.deployments?.findLast(({ connectionId }) => connectionId === connection.id);
 
-  const deployedSite = connection.stats?.sites?.find((site) => site.name.includes(`bolt-diy-${currentChatId}`));
+  // Netlify sites deployed before the chats kept their deployments are found by name
+  const url =
+    deployment?.url ??
+    (isNetlify
+      ? netlify.stats?.sites?.find((site) => site.name.includes(`bolt-diy-${currentChatId}`))?.url
+      : undefined);
 
-  if (!deployedSite) {
+  if (!url) {
     return null;
   }
 
@@ -25,7 +42,7 @@ export function NetlifyDeploymentLink() {
       <Tooltip.Root>
         <Tooltip.Trigger asChild>
           <a
-            href={deployedSite.url}
+            href={url}
             target="_blank"
             rel="noopener noreferrer"
             className="inline-flex items-center justify-center w-8 h-8 rounded hover:bg-bolt-elements-item-backgroundActive text-bolt-elements-textSecondary hover:text-[#00AD9F] z-50"
@@ -41,7 +58,7 @@ export function NetlifyDeploymentLink() {
             className="px-3 py-2 rounded bg-bolt-elements-background-depth-3 text-bolt-elements-textPrimary text-xs z-50"
             sideOffset={5}
           >
-            {deployedSite.url}
+            {url}
             <Tooltip.Arrow className="fill-bolt-elements-background-depth-3" />
           </Tooltip.Content>
         </Tooltip.Portal>
@@ -1,8 +1,9 @@
 import type { Message } from 'ai';
-import { Fragment } from 'react';
+import { Fragment, useState } from 'react';
 import { classNames } from '~/utils/classNames';
 import { AssistantMessage } from './AssistantMessage';
 import { UserMessage } from './UserMessage';
+import { RestoreSnapshotDialog } from './RestoreSnapshotDialog';
 import { useLocation } from '@remix-run/react';
 import { db, chatId } from '~/lib/persistence/useChatHistory';
 import { forkChat } from '~/lib/persistence/db';
@@ -25,6 +26,7 @@ export const Messages = forwardRef<HTMLDivElement, MessagesProps>(
     const { id, isStreaming = false, messages = [] } = props;
     const location = useLocation();
     const profile = useStore(profileStore);
+    const [restoreMessageId, setRestoreMessageId] = useState<string>();
 
     const handleRewind = (messageId: string) => {
       const searchParams = new URLSearchParams(location.search);
@@ -107,6 +109,19 @@ export const Messages = forwardRef<HTMLDivElement, MessagesProps>(
                         </WithTooltip>
                       )}
 
+                      {messageId && !isStreaming && (
+                        <WithTooltip tooltip="Restore to here">
+                          <button
+                            onClick={() => setRestoreMessageId(messageId)}
+                            key="i-ph:clock-counter-clockwise"
+                            className={classNames(
+                              'i-ph:clock-counter-clockwise',
+                              'text-xl text-bolt-elements-textSecondary hover:text-bolt-elements-textPrimary transition-colors',
+                            )}
+                          />
+                        </WithTooltip>
+                      )}
+
                       <WithTooltip tooltip="Fork chat from this message">
                         <button
                           onClick={() => handleFork(messageId)}
@@ -126,6 +141,7 @@ export const Messages = forwardRef<HTMLDivElement, MessagesProps>(
         {isStreaming && (
           <div className="text-center w-full text-bolt-elements-textSecondary i-svg-spinners:3-dots-fade text-4xl mt-4"></div>
         )}
+        <RestoreSnapshotDialog messageId={restoreMessageId} onClose={() => setRestoreMessageId(undefined)} />
       </div>
     );
   },
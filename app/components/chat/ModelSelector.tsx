@@ -14,6 +14,9 @@ interface ModelSelectorProps {
   providerList: ProviderInfo[];
   apiKeys: Record<string, string>;
   modelLoading?: string;
+
+  // shown in front of the selects when more than one model is picked
+  label?: string;
 }
 
 export const ModelSelector = ({
@@ -24,6 +27,7 @@ export const ModelSelector = ({
   modelList,
   providerList,
   modelLoading,
+  label,
 }: ModelSelectorProps) => {
   const [modelSearchQuery, setModelSearchQuery] = useState('');
   const [isModelDropdownOpen, setIsModelDropdownOpen] = useState(false);
@@ -166,6 +170,9 @@ export const ModelSelector = ({
 
   return (
     <div className="mb-2 flex gap-2 flex-col sm:flex-row">
+      {label && (
+        <div className="flex items-center text-xs font-medium text-bolt-elements-textSecondary sm:w-14">{label}</div>
+      )}
       <select
         value={provider?.name ?? ''}
         onChange={(e) => {
@@ -0,0 +1,261 @@
+import { memo, useEffect, useMemo, useState } from 'react';
+import { toast } from 'react-toastify';
+import { Dialog, DialogButton, DialogDescription, DialogRoot, DialogTitle } from '~/components/ui/Dialog';
+import { InlineDiffComparison } from '~/components/workbench/DiffView';
+import { chatId, db, forkChat, getSnapshot, truncateChat } from '~/lib/persistence';
+import type { SnapshotFileMap } from '~/lib/stores/files';
+import { workbenchStore } from '~/lib/stores/workbench';
+import { classNames } from '~/utils/classNames';
+import { extractRelativePath } from '~/utils/diff';
+import { getLanguageFromExtension } from '~/utils/getLanguageFromExtension';
+import { createScopedLogger } from '~/utils/logger';
+import { diffSnapshots, hasSnapshotChanges, type SnapshotChanges } from '~/utils/snapshot';
+
+const logger = createScopedLogger('RestoreSnapshot');
+
+interface RestoreSnapshotDialogProps {
+  // the dialog is open while a message is set
+  messageId?: string;
+  onClose: () => void;
+}
+
+interface RestorePreview {
+  current: SnapshotFileMap;
+  target: SnapshotFileMap;
+  changes: SnapshotChanges;
+}
+
+interface ChangeEntry {
+  filePath: string;
+  label: string;
+  icon: string;
+}
+
+function getChangeEntries(changes: SnapshotChanges): ChangeEntry[] {
+  return [
+    ...changes.written.map((filePath) => ({ filePath, label: 'Restored', icon: 'i-ph:pencil-simple text-yellow-500' })),
+    ...changes.renamed.map(({ from, to }) => ({
+      filePath: to,
+      label: `Renamed from ${extractRelativePath(from)}`,
+      icon: 'i-ph:arrow-right text-blue-500',
+    })),
+    ...changes.deleted.map((filePath) => ({ filePath, label: 'Deleted', icon: 'i-ph:trash text-red-500' })),
+  ];
+}
+
+function getTextContent(files: SnapshotFileMap, filePath: string) {
+  const file = files[filePath];
+  return file?.type === 'file' && !file.isBinary ? file.content : '';
+}
+
+export const RestoreSnapshotDialog = memo(({ messageId, onClose }: RestoreSnapshotDialogProps) => {
+  const [preview, setPreview] = useState<RestorePreview>();
+  const [selectedFile, setSelectedFile] = useState<string>();
+  const [isBusy, setIsBusy] = useState(false);
+
+  useEffect(() => {
+    setPreview(undefined);
+    setSelectedFile(undefined);
+
+    if (!messageId) {
+      return undefined;
+    }
+
+    const id = chatId.get();
+
+    if (!db || !id) {
+      toast.error('Chat persistence is not available');
+      onClose();
+
+      return undefined;
+    }
+
+    let cancelled = false;
+
+    Promise.all([getSnapshot(db, id, messageId), workbenchStore.createSnapshot()])
+      .then(([snapshot, current]) => {
+        if (cancelled) {
+          return;
+        }
+
+        if (!snapshot) {
+          toast.error('No files were saved for this message');
+          onClose();
+
+          return;
+        }
+
+        const changes = diffSnapshots(current, snapshot.files);
+        setPreview({ current, target: snapshot.files, changes });
+        setSelectedFile(getChangeEntries(changes)[0]?.filePath);
+      })
+      .catch((error) => {
+        logger.error('Failed to load snapshot', error);
+        toast.error('Failed to load the files of this message');
+        onClose();
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [messageId]);
+
+  const entries = useMemo(() => (preview ? getChangeEntries(preview.changes) : []), [preview]);
+  const selectedEntry = entries.find((entry) => entry.filePath === selectedFile);
+
+  const restore = async () => {
+    if (!preview) {
+      return;
+    }
+
+    setIsBusy(true);
+
+    try {
+      await workbenchStore.applySnapshotChanges(preview.target, preview.changes);
+      toast.success('Files restored');
+      onClose();
+    } catch (error) {
+      logger.error('Failed to restore files', error);
+      toast.error('Failed to restore files: ' + (error as Error).message);
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  // reloading the chat restores the snapshot of its last message, which is the one we truncate to
+  const restoreAndTruncate = async () => {
+    if (!db || !messageId) {
+      return;
+    }
+
+    setIsBusy(true);
+
+    try {
+      await truncateChat(db, chatId.get()!, messageId);
+      window.location.reload();
+    } catch (error) {
+      toast.error('Failed to remove later messages: ' + (error as Error).message);
+      setIsBusy(false);
+    }
+  };
+
+  const restoreInFork = async () => {
+    if (!db || !messageId) {
+      return;
+    }
+
+    setIsBusy(true);
+
+    try {
+      const urlId = await forkChat(db, chatId.get()!, messageId);
+      window.location.href = `/chat/${urlId}`;
+    } catch (error) {
+      toast.error('Failed to fork chat: ' + (error as Error).message);
+      setIsBusy(false);
+    }
+  };
+
+  const renderDiff = () => {
+    if (!preview || !selectedEntry) {
+      return null;
+    }
+
+    const { filePath } = selectedEntry;
+    const target = preview.target[filePath];
+    const renamedFrom = preview.changes.renamed.find(({ to }) => to === filePath)?.from;
+    const current = preview.current[renamedFrom ?? filePath];
+
+    if ((target?.type === 'file' && target.isBinary) || (current?.type === 'file' && current.isBinary)) {
+      return (
+        <div className="flex h-full items-center justify-center text-sm text-bolt-elements-textSecondary">
+          Binary file
+        </div>
+      );
+    }
+
+    return (
+      <InlineDiffComparison
+        beforeCode={getTextContent(preview.current, renamedFrom ?? filePath)}
+        afterCode={getTextContent(preview.target, filePath)}
+        language={getLanguageFromExtension(filePath.split('.').pop() || '')}
+        filename={extractRelativePath(filePath)}
+        lightTheme="github-light"
+        darkTheme="github-dark"
+      />
+    );
+  };
+
+  return (
+    <DialogRoot open={!!messageId} onOpenChange={(open) => !open && onClose()}>
+      <Dialog className="w-[860px] max-w-[90vw]" onClose={onClose}>
+        <div className="p-6">
+          <DialogTitle>
+            <div className="i-ph:clock-counter-clockwise text-purple-500" />
+            Restore to here
+          </DialogTitle>
+          <DialogDescription>
+            {!preview
+              ? 'Comparing the workspace with the files of this message...'
+              : hasSnapshotChanges(preview.changes)
+                ? 'These changes bring the workspace back to how it was after this message.'
+                : 'The workspace already matches this message.'}
+          </DialogDescription>
+          {preview && entries.length > 0 && (
+            <div className="mt-4 flex h-[420px] gap-3">
+              <div className="w-64 shrink-0 overflow-y-auto rounded-md border border-bolt-elements-borderColor">
+                {entries.map((entry) => (
+                  <button
+                    key={entry.filePath}
+                    className={classNames(
+                      'flex w-full flex-col items-start px-3 py-2 text-left text-sm',
+                      entry.filePath === selectedFile
+                        ? 'bg-bolt-elements-item-backgroundAccent text-bolt-elements-item-contentAccent'
+                        : 'text-bolt-elements-textPrimary hover:bg-bolt-elements-background-depth-3',
+                    )}
+                    onClick={() => setSelectedFile(entry.filePath)}
+                  >
+                    <span className="flex w-full items-center gap-2">
+                      <div className={classNames(entry.icon, 'shrink-0')} />
+                      <span className="truncate">{extractRelativePath(entry.filePath)}</span>
+                    </span>
+                    <span className="text-xs text-bolt-elements-textTertiary">{entry.label}</span>
+                  </button>
+                ))}
+                {preview.changes.deletedFolders.map((folder) => (
+                  <div
+                    key={folder}
+                    className="flex items-center gap-2 px-3 py-2 text-sm text-bolt-elements-textSecondary"
+                  >
+                    <div className="i-ph:folder-minus shrink-0 text-red-500" />
+                    <span className="truncate">{extractRelativePath(folder)}</span>
+                  </div>
+                ))}
+              </div>
+              <div className="min-w-0 flex-1 overflow-hidden rounded-md border border-bolt-elements-borderColor">
+                {renderDiff()}
+              </div>
+            </div>
+          )}
+          <div className="mt-6 flex justify-end gap-2">
+            <DialogButton type="secondary" onClick={onClose}>
+              Cancel
+            </DialogButton>
+            <DialogButton type="secondary" onClick={restoreInFork} disabled={!preview || isBusy}>
+              Restore in a new chat
+            </DialogButton>
+            <DialogButton type="danger" onClick={restoreAndTruncate} disabled={!preview || isBusy}>
+              Restore and remove later messages
+            </DialogButton>
+            <DialogButton
+              type="primary"
+              onClick={restore}
+              disabled={!preview || !hasSnapshotChanges(preview.changes) || isBusy}
+            >
+              Restore files
+            </DialogButton>
+          </div>
+        </div>
+      </Dialog>
+    </DialogRoot>
+  );
+});
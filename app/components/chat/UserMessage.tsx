@@ -2,7 +2,7 @@
  * @ts-nocheck
  * Preventing TS checks with files presented in the video for a better presentation.
  */
-import { MODEL_REGEX, PROVIDER_REGEX } from '~/utils/constants';
+import { FILE_OPERATIONS_TAG_NAME, MODEL_REGEX, PROVIDER_REGEX, REVIEW_FEEDBACK_TAG_NAME } from '~/utils/constants';
 import { Markdown } from './Markdown';
 
 interface UserMessageProps {
@@ -44,5 +44,19 @@ export function UserMessage({ content }: UserMessageProps) {
 
 function stripMetadata(content: string) {
   const artifactRegex = /<boltArtifact\s+[^>]*>[\s\S]*?<\/boltArtifact>/gm;
-  return content.replace(MODEL_REGEX, '').replace(PROVIDER_REGEX, '').replace(artifactRegex, '');
+  const fileOperationsRegex = new RegExp(
+    `<${FILE_OPERATIONS_TAG_NAME}>[\\s\\S]*?<\\/${FILE_OPERATIONS_TAG_NAME}>\\s*`,
+    'g',
+  );
+  const reviewFeedbackRegex = new RegExp(
+    `<${REVIEW_FEEDBACK_TAG_NAME}>[\\s\\S]*?<\\/${REVIEW_FEEDBACK_TAG_NAME}>\\s*`,
+    'g',
+  );
+
+  return content
+    .replace(MODEL_REGEX, '')
+    .replace(PROVIDER_REGEX, '')
+    .replace(artifactRegex, '')
+    .replace(fileOperationsRegex, '')
+    .replace(reviewFeedbackRegex, '');
 }
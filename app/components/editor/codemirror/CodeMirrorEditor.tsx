@@ -24,6 +24,7 @@ import { createScopedLogger, renderLogger } from '~/utils/logger';
 import { BinaryContent } from './BinaryContent';
 import { getTheme, reconfigureTheme } from './cm-theme';
 import { indentKeyBinding } from './indent';
+import { languageServiceExtension, type LanguageService } from './language-service';
 import { getLanguage } from './languages';
 
 const logger = createScopedLogger('CodeMirrorEditor');
@@ -50,6 +51,14 @@ export interface ScrollPosition {
   left: number;
 }
 
+// a range to select and scroll to, `line` is 1-based and `column` 0-based
+export interface EditorLocation {
+  filePath: string;
+  line: number;
+  column: number;
+  length: number;
+}
+
 export interface EditorUpdate {
   selection: EditorSelection;
   content: string;
@@ -63,6 +72,8 @@ interface Props {
   theme: Theme;
   id?: unknown;
   doc?: EditorDocument;
+  location?: EditorLocation;
+  languageService?: LanguageService;
   editable?: boolean;
   debounceChange?: number;
   debounceScroll?: number;
@@ -119,6 +130,8 @@ export const CodeMirrorEditor = memo(
   ({
     id,
     doc,
+    location,
+    languageService,
     debounceScroll = 100,
     debounceChange = 150,
     autoFocusOnDocumentChange = false,
@@ -236,6 +249,7 @@ export const CodeMirrorEditor = memo(
       if (!state) {
         state = newEditorState(doc.value, theme, settings, onScrollRef, debounceScroll, onSaveRef, [
           languageCompartment.of([]),
+          languageService?.supports(doc.filePath) ? languageServiceExtension(doc.filePath, languageService) : [],
         ]);
 
         editorStates.set(doc.filePath, state);
@@ -253,6 +267,16 @@ export const CodeMirrorEditor = memo(
       );
     }, [doc?.value, editable, doc?.filePath, autoFocusOnDocumentChange]);
 
+    useEffect(() => {
+      const view = viewRef.current;
+
+      if (!view || !location || !doc || doc.isBinary || location.filePath !== doc.filePath) {
+        return;
+      }
+
+      revealLocation(view, location);
+    }, [location]);
+
     return (
       <div className={classNames('relative h-full', className)}>
         {doc?.isBinary && <BinaryContent />}
@@ -459,3 +483,22 @@ function getReadOnlyTooltip(state: EditorState) {
       };
     });
 }
+
+function revealLocation(view: EditorView, location: EditorLocation) {
+  // wait for `setEditorDocument` to restore the old scroll position so it doesn't override ours
+  getLanguage(location.filePath).then(() => {
+    requestAnimationFrame(() => {
+      const { doc } = view.state;
+      const line = doc.line(Math.min(Math.max(location.line, 1), doc.lines));
+      const from = Math.min(line.from + location.column, line.to);
+      const to = Math.min(from + location.length, line.to);
+
+      view.dispatch({
+        selection: { anchor: from, head: to },
+        effects: EditorView.scrollIntoView(from, { y: 'center' }),
+      });
+
+      view.focus();
+    });
+  });
+}
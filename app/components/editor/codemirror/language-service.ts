@@ -0,0 +1,363 @@
+import type { Completion, CompletionContext, CompletionResult } from '@codemirror/autocomplete';
+import { EditorState, RangeSet, StateEffect, StateField, type Extension } from '@codemirror/state';
+import {
+  Decoration,
+  EditorView,
+  hoverTooltip,
+  keymap,
+  ViewPlugin,
+  type DecorationSet,
+  type PluginValue,
+} from '@codemirror/view';
+import type { ReadableAtom } from 'nanostores';
+import { toast } from 'react-toastify';
+import type { CompletionEntry, DefinitionLocation, QuickInfo, TextEdit } from '~/types/languageService';
+import type { Problem } from '~/types/problems';
+import { createScopedLogger } from '~/utils/logger';
+import type { EditorLocation } from './CodeMirrorEditor';
+
+const logger = createScopedLogger('LanguageService');
+
+/**
+ * What the editor needs from a language service, offsets always refer to the `content` passed along.
+ */
+export interface LanguageService {
+  problems: ReadableAtom<Problem[]>;
+  supports(filePath: string): boolean;
+  getQuickInfo(filePath: string, content: string, offset: number): Promise<QuickInfo | undefined>;
+  getCompletions(filePath: string, content: string, offset: number): Promise<CompletionEntry[]>;
+  getDefinition(filePath: string, content: string, offset: number): Promise<DefinitionLocation | undefined>;
+  getRenameEdits(filePath: string, content: string, offset: number, newName: string): Promise<TextEdit[]>;
+  openLocation(location: EditorLocation): void;
+
+  // edits for files other than the one in the editor
+  applyEdits(edits: TextEdit[]): void;
+}
+
+const setProblemsEffect = StateEffect.define<Problem[]>();
+
+const problemsField = StateField.define<DecorationSet>({
+  create: () => Decoration.none,
+  update(decorations, transaction) {
+    for (const effect of transaction.effects) {
+      if (effect.is(setProblemsEffect)) {
+        return createProblemDecorations(effect.value, transaction.state.doc.length);
+      }
+    }
+
+    return decorations.map(transaction.changes);
+  },
+  provide: (field) => EditorView.decorations.from(field),
+});
+
+function createProblemDecorations(problems: Problem[], docLength: number): DecorationSet {
+  const ranges = problems
+    .filter((problem) => problem.from !== undefined && problem.from <= docLength)
+    .map((problem) => {
+      const from = problem.from!;
+
+      // empty ranges can't be underlined, so they mark the next character instead
+      const to = Math.min(Math.max(problem.to ?? from, from + 1), docLength);
+
+      return Decoration.mark({ class: `cm-problem cm-problem-${problem.severity}`, problem }).range(from, to);
+    })
+    .filter((range) => range.from < range.to)
+    .sort((a, b) => a.from - b.from);
+
+  return RangeSet.of(ranges, true);
+}
+
+function getProblemsAt(state: EditorState, pos: number) {
+  const problems: Problem[] = [];
+
+  state.field(problemsField).between(pos, pos, (from, to, decoration) => {
+    if (from <= pos && pos <= to) {
+      problems.push(decoration.spec.problem);
+    }
+  });
+
+  return problems;
+}
+
+function createTooltipDOM(problems: Problem[], info?: QuickInfo) {
+  const dom = document.createElement('div');
+
+  dom.className = 'cm-language-service-tooltip';
+
+  for (const problem of problems) {
+    const element = document.createElement('div');
+
+    element.className = `cm-language-service-problem cm-language-service-${problem.severity}`;
+    element.textContent = problem.code ? `${problem.message} (${problem.source} ${problem.code})` : problem.message;
+    dom.appendChild(element);
+  }
+
+  if (info) {
+    const signature = document.createElement('pre');
+
+    signature.className = 'cm-language-service-signature';
+    signature.textContent = info.signature;
+    dom.appendChild(signature);
+
+    if (info.documentation) {
+      const documentation = document.createElement('div');
+
+      documentation.className = 'cm-language-service-documentation';
+      documentation.textContent = info.documentation;
+      dom.appendChild(documentation);
+    }
+  }
+
+  return dom;
+}
+
+function getCompletionType(kind: string) {
+  switch (kind) {
+    case 'method':
+    case 'function':
+    case 'local function':
+    case 'construct':
+      return 'function';
+    case 'class':
+    case 'interface':
+    case 'type':
+    case 'enum':
+      return kind;
+    case 'module':
+    case 'external module name':
+      return 'namespace';
+    case 'property':
+    case 'getter':
+    case 'setter':
+      return 'property';
+    case 'keyword':
+      return 'keyword';
+    case 'const':
+      return 'constant';
+    default:
+      return 'variable';
+  }
+}
+
+async function goToDefinition(view: EditorView, filePath: string, service: LanguageService, pos: number) {
+  const definition = await service.getDefinition(filePath, view.state.doc.toString(), pos);
+
+  if (!definition) {
+    return;
+  }
+
+  if (definition.filePath !== filePath) {
+    service.openLocation(definition);
+    return;
+  }
+
+  const from = Math.min(definition.from, view.state.doc.length);
+  const to = Math.min(from + definition.length, view.state.doc.length);
+
+  view.dispatch({
+    selection: { anchor: from, head: to },
+    effects: EditorView.scrollIntoView(from, { y: 'center' }),
+  });
+}
+
+async function renameSymbol(view: EditorView, filePath: string, service: LanguageService) {
+  const pos = view.state.selection.main.head;
+  const word = view.state.wordAt(pos);
+  const newName = window.prompt('Rename symbol to', word ? view.state.sliceDoc(word.from, word.to) : '');
+
+  if (!newName) {
+    return;
+  }
+
+  const content = view.state.doc.toString();
+  const edits = await service.getRenameEdits(filePath, content, pos, newName);
+
+  // the edits no longer fit when the file was changed while waiting for them
+  if (view.state.doc.toString() !== content) {
+    return;
+  }
+
+  view.dispatch({
+    changes: edits
+      .filter((edit) => edit.filePath === filePath)
+      .map((edit) => ({ from: edit.from, to: edit.to, insert: edit.text })),
+  });
+
+  service.applyEdits(edits.filter((edit) => edit.filePath !== filePath));
+}
+
+const languageServiceTheme = EditorView.baseTheme({
+  '.cm-problem': {
+    backgroundRepeat: 'repeat-x',
+    backgroundPosition: 'left bottom',
+    paddingBottom: '0.7px',
+  },
+  '.cm-problem-error': {
+    backgroundImage: wavyUnderline('#f14c4c'),
+  },
+  '.cm-problem-warning': {
+    backgroundImage: wavyUnderline('#cca700'),
+  },
+  '.cm-problem-info': {
+    backgroundImage: wavyUnderline('#3794ff'),
+  },
+  '.cm-language-service-tooltip': {
+    maxWidth: '600px',
+    maxHeight: '300px',
+    overflow: 'auto',
+    padding: '4px 8px',
+    fontSize: '12px',
+  },
+  '.cm-language-service-problem': {
+    padding: '2px 0',
+    whiteSpace: 'pre-wrap',
+  },
+  '.cm-language-service-error': { color: '#f14c4c' },
+  '.cm-language-service-warning': { color: '#cca700' },
+  '.cm-language-service-signature': {
+    margin: '2px 0',
+    whiteSpace: 'pre-wrap',
+    fontFamily: 'var(--font-mono, monospace)',
+  },
+  '.cm-language-service-documentation': {
+    paddingTop: '4px',
+    whiteSpace: 'pre-wrap',
+    opacity: '0.8',
+  },
+});
+
+function wavyUnderline(color: string) {
+  const svg = `<svg xmlns="http://www.w3.org/2000/svg" width="6" height="3"><path d="m0 3 l2 -2 l1 0 l2 2 l1 0" stroke="${color}" fill="none" stroke-width=".7"/></svg>`;
+
+  return `url('data:image/svg+xml;base64,${btoa(svg)}')`;
+}
+
+/**
+ * Shows the diagnostics of `filePath` inline and adds hover information, completions,
+ * go to definition (F12 or Mod-click) and rename (F2) from the language service.
+ */
+export function languageServiceExtension(filePath: string, service: LanguageService): Extension {
+  const problemsPlugin = ViewPlugin.define((view): PluginValue => {
+    let destroyed = false;
+
+    const unsubscribe = service.problems.subscribe((problems) => {
+      // the store may emit while the view is in the middle of an update
+      queueMicrotask(() => {
+        if (destroyed) {
+          return;
+        }
+
+        view.dispatch({
+          effects: setProblemsEffect.of(problems.filter((problem) => problem.filePath === filePath)),
+        });
+      });
+    });
+
+    return {
+      destroy() {
+        destroyed = true;
+        unsubscribe();
+      },
+    };
+  });
+
+  const hover = hoverTooltip(async (view, pos) => {
+    const problems = getProblemsAt(view.state, pos);
+    const info = await service.getQuickInfo(filePath, view.state.doc.toString(), pos).catch((error) => {
+      logger.debug('Failed to get quick info', error);
+      return undefined;
+    });
+
+    if (problems.length === 0 && !info) {
+      return null;
+    }
+
+    return {
+      pos: info?.from ?? pos,
+      end: info?.to ?? pos,
+      above: true,
+      create: () => ({ dom: createTooltipDOM(problems, info) }),
+    };
+  });
+
+  const completionSource = async (context: CompletionContext): Promise<CompletionResult | null> => {
+    const word = context.matchBefore(/[\w$]*/);
+
+    if (
+      !context.explicit &&
+      (!word || word.from === word.to) &&
+      !/[.'"/]$/.test(context.state.sliceDoc(0, context.pos))
+    ) {
+      return null;
+    }
+
+    const entries = await service.getCompletions(filePath, context.state.doc.toString(), context.pos);
+
+    if (context.aborted || entries.length === 0) {
+      return null;
+    }
+
+    return {
+      from: word?.from ?? context.pos,
+      validFor: /^[\w$]*$/,
+      options: entries.map(
+        (entry, index): Completion => ({
+          label: entry.label,
+          apply: entry.insertText,
+          type: getCompletionType(entry.kind),
+
+          // keep the order of the language service, which already ranks the entries
+          boost: -Math.min(index, 99),
+        }),
+      ),
+    };
+  };
+
+  const runDefinition = (view: EditorView, pos: number) => {
+    goToDefinition(view, filePath, service, pos).catch((error) => logger.error('Failed to go to definition', error));
+    return true;
+  };
+
+  return [
+    problemsField,
+    problemsPlugin,
+    hover,
+    languageServiceTheme,
+    EditorState.languageData.of(() => [{ autocomplete: completionSource }]),
+    keymap.of([
+      { key: 'F12', run: (view) => runDefinition(view, view.state.selection.main.head) },
+      {
+        key: 'F2',
+        run: (view) => {
+          if (view.state.readOnly) {
+            return false;
+          }
+
+          renameSymbol(view, filePath, service).catch((error) => {
+            logger.error('Failed to rename', error);
+            toast.error(`Rename failed: ${error.message}`);
+          });
+
+          return true;
+        },
+      },
+    ]),
+    EditorView.domEventHandlers({
+      mousedown(event, view) {
+        if (!(event.metaKey || event.ctrlKey) || event.button !== 0) {
+          return false;
+        }
+
+        const pos = view.posAtCoords({ x: event.clientX, y: event.clientY });
+
+        if (pos === null) {
+          return false;
+        }
+
+        event.preventDefault();
+
+        return runDefinition(view, pos);
+      },
+    }),
+  ];
+}
@@ -5,15 +5,17 @@ import { type ChatHistoryItem } from '~/lib/persistence';
 import WithTooltip from '~/components/ui/Tooltip';
 import { useEditChatDescription } from '~/lib/hooks';
 import { forwardRef, type ForwardedRef } from 'react';
+import { formatCost, formatTokens, type UsageTotals } from '~/utils/usage';
 
 interface HistoryItemProps {
   item: ChatHistoryItem;
+  usage?: UsageTotals;
   onDelete?: (event: React.UIEvent) => void;
   onDuplicate?: (id: string) => void;
   exportChat: (id?: string) => void;
 }
 
-export function HistoryItem({ item, onDelete, onDuplicate, exportChat }: HistoryItemProps) {
+export function HistoryItem({ item, usage, onDelete, onDuplicate, exportChat }: HistoryItemProps) {
   const { id: urlId } = useParams();
   const isActiveChat = urlId === item.urlId;
 
@@ -59,6 +61,14 @@ export function HistoryItem({ item, onDelete, onDuplicate, exportChat }: History
               { 'bg-gray-50/80 dark:bg-gray-800/30': isActiveChat },
             )}
           >
+            {usage && (
+              <span
+                className="absolute right-2 text-xs text-gray-400 dark:text-gray-500 group-hover:opacity-0 transition-opacity"
+                title={`${usage.totalTokens} tokens in ${usage.requests} requests`}
+              >
+                {usage.cost > 0 ? formatCost(usage.cost) : `${formatTokens(usage.totalTokens)} tok`}
+              </span>
+            )}
             <div className="flex items-center gap-2.5 text-gray-400 dark:text-gray-500 opacity-0 group-hover:opacity-100 transition-opacity">
               <ChatActionButton
                 toolTipContent="Export"
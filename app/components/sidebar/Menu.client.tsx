@@ -1,5 +1,5 @@
 import { motion, type Variants } from 'framer-motion';
-import { useCallback, useEffect, useRef, useState } from 'react';
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
 import { toast } from 'react-toastify';
 import { Dialog, DialogButton, DialogDescription, DialogRoot, DialogTitle } from '~/components/ui/Dialog';
 import { ThemeSwitch } from '~/components/ui/ThemeSwitch';
@@ -9,6 +9,8 @@ import { db, deleteById, getAll, chatId, type ChatHistoryItem, useChatHistory }
 import { cubicEasingFn } from '~/utils/easings';
 import { logger } from '~/utils/logger';
 import { HistoryItem } from './HistoryItem';
+import { loadUsageRecords, priceOverridesStore, usageRecordsStore } from '~/lib/stores/usage';
+import { groupUsage, sumUsage, type UsageTotals } from '~/utils/usage';
 import { binDates } from './date-binning';
 import { useSearchFilter } from '~/lib/hooks/useSearchFilter';
 import { classNames } from '~/utils/classNames';
@@ -68,6 +70,18 @@ export const Menu = () => {
   const [dialogContent, setDialogContent] = useState<DialogContent>(null);
   const [isSettingsOpen, setIsSettingsOpen] = useState(false);
   const profile = useStore(profileStore);
+  const usageRecords = useStore(usageRecordsStore);
+  const priceOverrides = useStore(priceOverridesStore);
+
+  const chatUsage = useMemo(() => {
+    const totals: Record<string, UsageTotals> = {};
+
+    for (const [id, records] of Object.entries(groupUsage(usageRecords, (record) => record.chatId))) {
+      totals[id] = sumUsage(records, priceOverrides);
+    }
+
+    return totals;
+  }, [usageRecords, priceOverrides]);
 
   const { filteredItems: filteredList, handleSearchChange } = useSearchFilter({
     items: list,
@@ -80,6 +94,8 @@ export const Menu = () => {
         .then((list) => list.filter((item) => item.urlId && item.description))
         .then(setList)
         .catch((error) => toast.error(error.message));
+
+      loadUsageRecords(db);
     }
   }, []);
 
@@ -234,6 +250,7 @@ export const Menu = () => {
                       <HistoryItem
                         key={item.id}
                         item={item}
+                        usage={chatUsage[item.id]}
                         exportChat={exportChat}
                         onDelete={(event) => handleDeleteClick(event, item)}
                         onDuplicate={() => handleDuplicate(item.id)}
@@ -2,7 +2,11 @@ import { memo, useMemo, useState, useEffect, useCallback } from 'react';
 import { useStore } from '@nanostores/react';
 import { workbenchStore } from '~/lib/stores/workbench';
 import type { FileMap } from '~/lib/stores/files';
-import type { EditorDocument } from '~/components/editor/codemirror/CodeMirrorEditor';
+import {
+  CodeMirrorEditor,
+  type EditorDocument,
+  type EditorSettings,
+} from '~/components/editor/codemirror/CodeMirrorEditor';
 import { diffLines, type Change } from 'diff';
 import { getHighlighter } from 'shiki';
 import '~/styles/diff-view.css';
@@ -11,6 +15,16 @@ import { ActionRunner } from '~/lib/runtime/action-runner';
 import type { FileHistory } from '~/types/actions';
 import { getLanguageFromExtension } from '~/utils/getLanguageFromExtension';
 import { themeStore } from '~/lib/stores/theme';
+import type { ActionReview } from '~/types/review';
+import type { GitCommitDiff } from '~/types/git';
+import { shortOid } from '~/utils/git';
+import { WORK_DIR } from '~/utils/constants';
+import { path } from '~/utils/path';
+import { applyFilePatch, PatchApplyError } from '~/utils/patch';
+import { classNames } from '~/utils/classNames';
+import { hasConflictMarkers, type FileMerge } from '~/utils/merge';
+import type { UpstreamSync } from '~/lib/stores/upstream';
+import { toast } from 'react-toastify';
 
 interface CodeComparisonProps {
   beforeCode: string;
@@ -542,7 +556,7 @@ const FileInfo = memo(
   },
 );
 
-const InlineDiffComparison = memo(({ beforeCode, afterCode, filename, language }: CodeComparisonProps) => {
+export const InlineDiffComparison = memo(({ beforeCode, afterCode, filename, language }: CodeComparisonProps) => {
   const [isFullscreen, setIsFullscreen] = useState(false);
   const [highlighter, setHighlighter] = useState<any>(null);
   const theme = useStore(themeStore);
@@ -600,6 +614,322 @@ const InlineDiffComparison = memo(({ beforeCode, afterCode, filename, language }
   );
 });
 
+const reviewEditorSettings: EditorSettings = { tabSize: 2 };
+
+// the file content an action waiting for review would write, or why a patch does not apply
+function getProposedContent(review: ActionReview, currentContent: string) {
+  const { action } = review;
+
+  if (action.type !== 'patch') {
+    return { content: action.content };
+  }
+
+  try {
+    return { content: applyFilePatch(currentContent, action.content, action.filePath) };
+  } catch (error) {
+    return { content: currentContent, error: error instanceof PatchApplyError ? error.message : String(error) };
+  }
+}
+
+interface ReviewDiffProps {
+  review: ActionReview;
+  filePath: string;
+  currentContent: string;
+}
+
+/**
+ * Shows the change of a file or patch action waiting for review, which can be edited before it is accepted.
+ */
+const ReviewDiff = memo(({ review, filePath, currentContent }: ReviewDiffProps) => {
+  const theme = useStore(themeStore);
+  const [draft, setDraft] = useState<string>();
+
+  const proposed = useMemo(() => getProposedContent(review, currentContent), [review, currentContent]);
+  const language = getLanguageFromExtension(filePath.split('.').pop() || '');
+
+  const saveDraft = () => {
+    if (draft !== undefined && draft !== proposed.content) {
+      // an edited patch is applied as the full file content
+      workbenchStore.updateReview(review.id, { type: 'file', filePath: extractRelativePath(filePath), content: draft });
+    }
+
+    setDraft(undefined);
+  };
+
+  const buttonClasses =
+    'flex items-center gap-1 px-2 py-1 rounded-md text-xs bg-bolt-elements-button-secondary-background text-bolt-elements-button-secondary-text hover:bg-bolt-elements-button-secondary-backgroundHover';
+
+  return (
+    <div className="h-full flex flex-col overflow-hidden">
+      <div className="flex items-center gap-2 px-3 py-2 border-b border-bolt-elements-borderColor bg-bolt-elements-background-depth-2 text-sm text-bolt-elements-textPrimary">
+        <div className="i-ph:eye-duotone shrink-0" />
+        <span className="flex-1 truncate">
+          Review the proposed change{review.edited && ' (edited)'}
+          {proposed.error && <span className="ml-2 text-bolt-elements-icon-error">{proposed.error}</span>}
+        </span>
+        {draft === undefined ? (
+          <button className={buttonClasses} onClick={() => setDraft(proposed.content)}>
+            <div className="i-ph:pencil-simple" />
+            Edit
+          </button>
+        ) : (
+          <>
+            <button className={buttonClasses} onClick={() => setDraft(undefined)}>
+              Cancel
+            </button>
+            <button className={buttonClasses} onClick={saveDraft}>
+              <div className="i-ph:floppy-disk" />
+              Save
+            </button>
+          </>
+        )}
+        <button
+          className={buttonClasses}
+          disabled={draft !== undefined}
+          onClick={() => workbenchStore.rejectReview(review.id)}
+        >
+          <div className="i-ph:x" />
+          Reject
+        </button>
+        <button
+          className={classNames(
+            buttonClasses,
+            'bg-bolt-elements-button-primary-background text-bolt-elements-button-primary-text hover:bg-bolt-elements-button-primary-backgroundHover',
+          )}
+          disabled={draft !== undefined || !!proposed.error}
+          onClick={() => workbenchStore.acceptReview(review.id)}
+        >
+          <div className="i-ph:check" />
+          Accept
+        </button>
+      </div>
+      <div className="flex-1 overflow-hidden">
+        {draft === undefined ? (
+          <InlineDiffComparison
+            beforeCode={currentContent}
+            afterCode={proposed.content}
+            language={language}
+            filename={filePath}
+            lightTheme="github-light"
+            darkTheme="github-dark"
+          />
+        ) : (
+          <CodeMirrorEditor
+            theme={theme}
+            doc={{ filePath, value: draft, isBinary: false }}
+            editable
+            settings={reviewEditorSettings}
+            onChange={({ content }) => setDraft(content)}
+          />
+        )}
+      </div>
+    </div>
+  );
+});
+
+/**
+ * Shows the files a commit picked in the Git panel changed.
+ */
+const CommitDiff = memo(({ commitDiff }: { commitDiff: GitCommitDiff }) => {
+  const { commit, changes } = commitDiff;
+  const [selectedPath, setSelectedPath] = useState(changes[0]?.filePath);
+
+  const change = changes.find(({ filePath }) => filePath === selectedPath) ?? changes[0];
+
+  return (
+    <div className="h-full flex flex-col overflow-hidden">
+      <div className="flex items-center gap-2 px-3 py-2 border-b border-bolt-elements-borderColor bg-bolt-elements-background-depth-2 text-sm text-bolt-elements-textPrimary">
+        <div className="i-ph:git-commit shrink-0" />
+        <span className="shrink-0 font-mono text-xs text-bolt-elements-textTertiary">{shortOid(commit.oid)}</span>
+        <span className="flex-1 truncate" title={commit.message}>
+          {commit.message.split('\n')[0]}
+        </span>
+        {changes.length > 0 && (
+          <select
+            value={change?.filePath}
+            className="max-w-[40%] truncate rounded-md border border-bolt-elements-borderColor bg-bolt-elements-background-depth-1 px-2 py-1 text-xs focus:outline-none"
+            onChange={(event) => setSelectedPath(event.target.value)}
+          >
+            {changes.map(({ filePath, change }) => (
+              <option key={filePath} value={filePath}>
+                {filePath} ({change})
+              </option>
+            ))}
+          </select>
+        )}
+        <button
+          title="Close"
+          className="flex items-center p-1 rounded-md text-bolt-elements-textSecondary hover:text-bolt-elements-textPrimary"
+          onClick={() => workbenchStore.git.closeCommit()}
+        >
+          <div className="i-ph:x" />
+        </button>
+      </div>
+      <div className="flex-1 overflow-hidden">
+        {change ? (
+          <InlineDiffComparison
+            key={`${commit.oid}:${change.filePath}`}
+            beforeCode={change.before}
+            afterCode={change.after}
+            language={getLanguageFromExtension(change.filePath.split('.').pop() || '')}
+            filename={change.filePath}
+            lightTheme="github-light"
+            darkTheme="github-dark"
+          />
+        ) : (
+          <div className="flex h-full justify-center items-center text-bolt-elements-textSecondary">
+            The commit has no file changes
+          </div>
+        )}
+      </div>
+    </div>
+  );
+});
+
+const mergeButtonClasses =
+  'flex items-center gap-1 px-2 py-1 rounded-md text-xs bg-bolt-elements-button-secondary-background text-bolt-elements-button-secondary-text hover:bg-bolt-elements-button-secondary-backgroundHover disabled:opacity-50';
+
+const mergePrimaryButtonClasses = classNames(
+  mergeButtonClasses,
+  'bg-bolt-elements-button-primary-background text-bolt-elements-button-primary-text hover:bg-bolt-elements-button-primary-backgroundHover',
+);
+
+/**
+ * Shows what the merge does to one file, conflicts are resolved by picking a side or editing the merged content.
+ */
+const MergeFile = memo(({ merge }: { merge: FileMerge }) => {
+  const theme = useStore(themeStore);
+  const [draft, setDraft] = useState<string>();
+
+  const { filePath, conflict, ours, theirs, content } = merge;
+  const language = getLanguageFromExtension(filePath.split('.').pop() || '');
+  const canEdit = ours !== undefined && theirs !== undefined;
+
+  const resolve = (resolved: string | null) => {
+    workbenchStore.upstream.resolve(filePath, resolved);
+    setDraft(undefined);
+  };
+
+  return (
+    <div className="h-full flex flex-col overflow-hidden">
+      {conflict && (
+        <div className="flex items-center gap-2 px-3 py-1.5 border-b border-bolt-elements-borderColor text-xs text-bolt-elements-textSecondary">
+          <div className="i-ph:warning-duotone shrink-0 text-bolt-elements-icon-error" />
+          <span className="flex-1 truncate">
+            {canEdit
+              ? 'Both sides changed the same lines, edit the conflicts or pick a side'
+              : `${ours === undefined ? 'The file was deleted here' : 'Upstream deleted the file'}, pick a side`}
+          </span>
+          {draft === undefined ? (
+            <>
+              {canEdit && (
+                <button className={mergeButtonClasses} onClick={() => setDraft(content ?? '')}>
+                  <div className="i-ph:pencil-simple" />
+                  Edit
+                </button>
+              )}
+              <button className={mergeButtonClasses} onClick={() => resolve(ours ?? null)}>
+                Use mine
+              </button>
+              <button className={mergeButtonClasses} onClick={() => resolve(theirs ?? null)}>
+                Use upstream
+              </button>
+            </>
+          ) : (
+            <>
+              <button className={mergeButtonClasses} onClick={() => setDraft(undefined)}>
+                Cancel
+              </button>
+              <button
+                className={mergePrimaryButtonClasses}
+                disabled={hasConflictMarkers(draft)}
+                title={hasConflictMarkers(draft) ? 'Remove the conflict markers first' : undefined}
+                onClick={() => resolve(draft)}
+              >
+                <div className="i-ph:check" />
+                Mark as resolved
+              </button>
+            </>
+          )}
+        </div>
+      )}
+      <div className="flex-1 overflow-hidden">
+        {draft !== undefined ? (
+          <CodeMirrorEditor
+            theme={theme}
+            doc={{ filePath, value: draft, isBinary: false }}
+            editable
+            settings={reviewEditorSettings}
+            onChange={({ content }) => setDraft(content)}
+          />
+        ) : (
+          <InlineDiffComparison
+            key={`${filePath}:${conflict}`}
+            beforeCode={ours ?? ''}
+            afterCode={(conflict && !canEdit ? theirs : content) ?? ''}
+            language={language}
+            filename={filePath}
+            lightTheme="github-light"
+            darkTheme="github-dark"
+          />
+        )}
+      </div>
+    </div>
+  );
+});
+
+/**
+ * Shows the upstream changes a sync merges into the project, they are applied once every conflict is resolved.
+ */
+const UpstreamMerge = memo(({ sync }: { sync: UpstreamSync }) => {
+  const { commit, merges } = sync;
+  const [selectedPath, setSelectedPath] = useState((merges.find(({ conflict }) => conflict) ?? merges[0])?.filePath);
+
+  const merge = merges.find(({ filePath }) => filePath === selectedPath) ?? merges[0];
+  const conflicts = merges.filter(({ conflict }) => conflict).length;
+
+  const apply = () => {
+    workbenchStore.upstream.apply().catch((error) => {
+      toast.error(error instanceof Error ? error.message : 'Failed to apply the upstream changes');
+    });
+  };
+
+  return (
+    <div className="h-full flex flex-col overflow-hidden">
+      <div className="flex items-center gap-2 px-3 py-2 border-b border-bolt-elements-borderColor bg-bolt-elements-background-depth-2 text-sm text-bolt-elements-textPrimary">
+        <div className="i-ph:git-merge shrink-0" />
+        <span className="flex-1 truncate">
+          Upstream changes at <span className="font-mono text-xs">{shortOid(commit)}</span>
+          {conflicts > 0 && (
+            <span className="ml-2 text-bolt-elements-icon-error">
+              {conflicts} {conflicts === 1 ? 'conflict' : 'conflicts'}
+            </span>
+          )}
+        </span>
+        <select
+          value={merge?.filePath}
+          className="max-w-[40%] truncate rounded-md border border-bolt-elements-borderColor bg-bolt-elements-background-depth-1 px-2 py-1 text-xs focus:outline-none"
+          onChange={(event) => setSelectedPath(event.target.value)}
+        >
+          {merges.map(({ filePath, change, conflict }) => (
+            <option key={filePath} value={filePath}>
+              {filePath} ({conflict ? 'conflict' : change})
+            </option>
+          ))}
+        </select>
+        <button className={mergeButtonClasses} onClick={() => workbenchStore.upstream.cancel()}>
+          Cancel
+        </button>
+        <button className={mergePrimaryButtonClasses} disabled={conflicts > 0} onClick={apply}>
+          <div className="i-ph:check" />
+          Apply
+        </button>
+      </div>
+      <div className="flex-1 overflow-hidden">{merge && <MergeFile key={merge.filePath} merge={merge} />}</div>
+    </div>
+  );
+});
+
 interface DiffViewProps {
   fileHistory: Record<string, FileHistory>;
   setFileHistory: React.Dispatch<React.SetStateAction<Record<string, FileHistory>>>;
@@ -611,6 +941,9 @@ export const DiffView = memo(({ fileHistory, setFileHistory }: DiffViewProps) =>
   const selectedFile = useStore(workbenchStore.selectedFile);
   const currentDocument = useStore(workbenchStore.currentDocument) as EditorDocument;
   const unsavedFiles = useStore(workbenchStore.unsavedFiles);
+  const reviews = useStore(workbenchStore.actionReviews);
+  const commitDiff = useStore(workbenchStore.git.commitDiff);
+  const upstreamSync = useStore(workbenchStore.upstream.sync);
 
   useEffect(() => {
     if (selectedFile && currentDocument) {
@@ -694,6 +1027,32 @@ export const DiffView = memo(({ fileHistory, setFileHistory }: DiffViewProps) =>
     }
   }, [selectedFile, currentDocument?.value, files, setFileHistory, unsavedFiles]);
 
+  const review = Object.values(reviews).find(
+    ({ action }) =>
+      (action.type === 'file' || action.type === 'patch') && path.join(WORK_DIR, action.filePath) === selectedFile,
+  );
+
+  if (selectedFile && review) {
+    const file = files[selectedFile];
+
+    return (
+      <ReviewDiff
+        key={review.id}
+        review={review}
+        filePath={selectedFile}
+        currentContent={file?.type === 'file' ? file.content : ''}
+      />
+    );
+  }
+
+  if (upstreamSync) {
+    return <UpstreamMerge key={upstreamSync.commit} sync={upstreamSync} />;
+  }
+
+  if (commitDiff) {
+    return <CommitDiff key={commitDiff.commit.oid} commitDiff={commitDiff} />;
+  }
+
   if (!selectedFile || !currentDocument) {
     return (
       <div className="flex w-full h-full justify-center items-center bg-bolt-elements-background-depth-1 text-bolt-elements-textPrimary">
@@ -0,0 +1,128 @@
+import { useStore } from '@nanostores/react';
+import { memo, useMemo } from 'react';
+import {
+  CodeMirrorEditor,
+  type EditorDocument,
+  type EditorSettings,
+} from '~/components/editor/codemirror/CodeMirrorEditor';
+import { PanelHeader } from '~/components/ui/PanelHeader';
+import { PanelHeaderButton } from '~/components/ui/PanelHeaderButton';
+import type { FileMap } from '~/lib/stores/files';
+import { themeStore } from '~/lib/stores/theme';
+import { workbenchStore } from '~/lib/stores/workbench';
+import { classNames } from '~/utils/classNames';
+import { MAX_EDITOR_PANES, type EditorPane as EditorPaneState } from '~/utils/editorTabs';
+import { isMobile } from '~/utils/mobile';
+import { FileBreadcrumb } from './FileBreadcrumb';
+import { EditorTabs } from './EditorTabs';
+
+interface EditorPaneProps {
+  pane: EditorPaneState;
+  paneCount: number;
+  isActive: boolean;
+  files?: FileMap;
+  unsavedFiles?: Set<string>;
+  isStreaming?: boolean;
+  isOpenElsewhere: (filePath: string) => boolean;
+}
+
+const editorSettings: EditorSettings = { tabSize: 2 };
+
+export const EditorPane = memo(
+  ({ pane, paneCount, isActive, files, unsavedFiles, isStreaming, isOpenElsewhere }: EditorPaneProps) => {
+    const theme = useStore(themeStore);
+    const documents = useStore(workbenchStore.editorDocuments);
+    const editorLocation = useStore(workbenchStore.editorLocation);
+    const problems = useStore(workbenchStore.problems);
+
+    const activeTab = pane.tabs.find((tab) => tab.filePath === pane.activeFile);
+    const documentState = pane.activeFile ? documents[pane.activeFile] : undefined;
+
+    // the pane's own scroll position wins over the one shared by all panes
+    const editorDocument = useMemo<EditorDocument | undefined>(() => {
+      if (!documentState) {
+        return undefined;
+      }
+
+      return { ...documentState, scroll: activeTab?.scroll ?? documentState.scroll };
+    }, [documentState, activeTab?.scroll]);
+
+    const filePath = editorDocument?.filePath;
+    const isUnsaved = filePath !== undefined && unsavedFiles?.has(filePath);
+    const errorCount = problems.filter((problem) => problem.severity === 'error').length;
+
+    return (
+      <div
+        className={classNames('flex h-full flex-col', {
+          'opacity-90': paneCount > 1 && !isActive,
+        })}
+        onFocusCapture={() => workbenchStore.focusEditorPane(pane.id)}
+        onMouseDownCapture={() => workbenchStore.focusEditorPane(pane.id)}
+      >
+        <div className="flex h-[34px] shrink-0 items-center border-b border-bolt-elements-borderColor bg-bolt-elements-background-depth-2">
+          <EditorTabs
+            pane={pane}
+            unsavedFiles={unsavedFiles}
+            canSplit={paneCount < MAX_EDITOR_PANES}
+            isOpenElsewhere={isOpenElsewhere}
+          />
+          {isActive && problems.length > 0 && (
+            <div className="flex shrink-0 px-1.5">
+              <PanelHeaderButton onClick={() => workbenchStore.openProblems()}>
+                <div className="i-ph:warning-circle" title="Show problems" />
+                {`${errorCount} errors, ${problems.length - errorCount} warnings`}
+              </PanelHeaderButton>
+            </div>
+          )}
+          {paneCount < MAX_EDITOR_PANES && filePath && (
+            <div className="flex shrink-0 gap-1 px-1.5">
+              <PanelHeaderButton onClick={() => workbenchStore.splitEditor('horizontal')}>
+                <div className="i-ph:square-split-horizontal" title="Split right" />
+              </PanelHeaderButton>
+              <PanelHeaderButton onClick={() => workbenchStore.splitEditor('vertical')}>
+                <div className="i-ph:square-split-vertical" title="Split down" />
+              </PanelHeaderButton>
+            </div>
+          )}
+        </div>
+        {filePath && (
+          <PanelHeader className="overflow-x-auto">
+            <div className="flex items-center flex-1 text-sm">
+              <FileBreadcrumb
+                pathSegments={filePath.split('/')}
+                files={files}
+                onFileSelect={(selectedPath) => workbenchStore.openTab(pane.id, selectedPath)}
+              />
+              {isUnsaved && (
+                <div className="flex gap-1 ml-auto -mr-1.5">
+                  <PanelHeaderButton onClick={() => workbenchStore.saveFile(filePath)}>
+                    <div className="i-ph:floppy-disk-duotone" />
+                    Save
+                  </PanelHeaderButton>
+                  <PanelHeaderButton onClick={() => workbenchStore.resetFile(filePath)}>
+                    <div className="i-ph:clock-counter-clockwise-duotone" />
+                    Reset
+                  </PanelHeaderButton>
+                </div>
+              )}
+            </div>
+          </PanelHeader>
+        )}
+        <div className="h-full flex-1 overflow-hidden">
+          <CodeMirrorEditor
+            theme={theme}
+            editable={!isStreaming && editorDocument !== undefined}
+            settings={editorSettings}
+            doc={editorDocument}
+            location={isActive ? editorLocation : undefined}
+            languageService={workbenchStore.languageService}
+            autoFocusOnDocumentChange={isActive && !isMobile()}
+            onScroll={(position) => filePath && workbenchStore.setDocumentScrollPosition(filePath, position, pane.id)}
+            onChange={(update) => filePath && workbenchStore.setDocumentContent(filePath, update.content)}
+            onSave={() => filePath && workbenchStore.saveFile(filePath)}
+          />
+        </div>
+      </div>
+    );
+  },
+);
@@ -1,75 +1,45 @@
 import { useStore } from '@nanostores/react';
-import { memo, useMemo } from 'react';
+import { Fragment, memo, useState } from 'react';
 import { Panel, PanelGroup, PanelResizeHandle } from 'react-resizable-panels';
-import {
-  CodeMirrorEditor,
-  type EditorDocument,
-  type EditorSettings,
-  type OnChangeCallback as OnEditorChange,
-  type OnSaveCallback as OnEditorSave,
-  type OnScrollCallback as OnEditorScroll,
-} from '~/components/editor/codemirror/CodeMirrorEditor';
 import { PanelHeader } from '~/components/ui/PanelHeader';
 import { PanelHeaderButton } from '~/components/ui/PanelHeaderButton';
 import type { FileMap } from '~/lib/stores/files';
 import type { FileHistory } from '~/types/actions';
-import { themeStore } from '~/lib/stores/theme';
+import { classNames } from '~/utils/classNames';
 import { WORK_DIR } from '~/utils/constants';
 import { renderLogger } from '~/utils/logger';
-import { isMobile } from '~/utils/mobile';
-import { FileBreadcrumb } from './FileBreadcrumb';
+import { EditorPane } from './EditorPane';
 import { FileTree } from './FileTree';
+import { GitPanel } from './GitPanel';
+import { SearchPanel } from './SearchPanel';
 import { DEFAULT_TERMINAL_SIZE, TerminalTabs } from './terminal/TerminalTabs';
 import { workbenchStore } from '~/lib/stores/workbench';
 
 interface EditorPanelProps {
   files?: FileMap;
   unsavedFiles?: Set<string>;
-  editorDocument?: EditorDocument;
   selectedFile?: string | undefined;
   isStreaming?: boolean;
   fileHistory?: Record<string, FileHistory>;
-  onEditorChange?: OnEditorChange;
-  onEditorScroll?: OnEditorScroll;
+  setFileHistory?: React.Dispatch<React.SetStateAction<Record<string, FileHistory>>>;
   onFileSelect?: (value?: string) => void;
-  onFileSave?: OnEditorSave;
-  onFileReset?: () => void;
 }
 
-const DEFAULT_EDITOR_SIZE = 100 - DEFAULT_TERMINAL_SIZE;
+type SidebarView = 'files' | 'search' | 'git';
 
-const editorSettings: EditorSettings = { tabSize: 2 };
+const DEFAULT_EDITOR_SIZE = 100 - DEFAULT_TERMINAL_SIZE;
 
 export const EditorPanel = memo(
-  ({
-    files,
-    unsavedFiles,
-    editorDocument,
-    selectedFile,
-    isStreaming,
-    fileHistory,
-    onFileSelect,
-    onEditorChange,
-    onEditorScroll,
-    onFileSave,
-    onFileReset,
-  }: EditorPanelProps) => {
+  ({ files, unsavedFiles, selectedFile, isStreaming, fileHistory, setFileHistory, onFileSelect }: EditorPanelProps) => {
     renderLogger.trace('EditorPanel');
 
-    const theme = useStore(themeStore);
     const showTerminal = useStore(workbenchStore.showTerminal);
+    const editorLayout = useStore(workbenchStore.editorLayout);
+    const lockedPaths = useStore(workbenchStore.lockedPaths);
+    const [sidebarView, setSidebarView] = useState<SidebarView>('files');
 
-    const activeFileSegments = useMemo(() => {
-      if (!editorDocument) {
-        return undefined;
-      }
-
-      return editorDocument.filePath.split('/');
-    }, [editorDocument]);
-
-    const activeFileUnsaved = useMemo(() => {
-      return editorDocument !== undefined && unsavedFiles?.has(editorDocument.filePath);
-    }, [editorDocument, unsavedFiles]);
+    const isOpenInOtherPane = (paneId: string, filePath: string) =>
+      editorLayout.panes.some((pane) => pane.id !== paneId && pane.tabs.some((tab) => tab.filePath === filePath));
 
     return (
       <PanelGroup direction="vertical">
@@ -77,16 +47,44 @@ export const EditorPanel = memo(
           <PanelGroup direction="horizontal">
             <Panel defaultSize={20} minSize={10} collapsible>
               <div className="flex flex-col border-r border-bolt-elements-borderColor h-full">
-                <PanelHeader>
-                  <div className="i-ph:tree-structure-duotone shrink-0" />
-                  Files
+                <PanelHeader className="px-2">
+                  <PanelHeaderButton
+                    className={classNames({ 'text-bolt-elements-item-contentActive': sidebarView === 'files' })}
+                    onClick={() => setSidebarView('files')}
+                  >
+                    <div className="i-ph:tree-structure-duotone shrink-0" />
+                    Files
+                  </PanelHeaderButton>
+                  <PanelHeaderButton
+                    className={classNames({ 'text-bolt-elements-item-contentActive': sidebarView === 'search' })}
+                    onClick={() => setSidebarView('search')}
+                  >
+                    <div className="i-ph:magnifying-glass shrink-0" />
+                    Search
+                  </PanelHeaderButton>
+                  <PanelHeaderButton
+                    className={classNames({ 'text-bolt-elements-item-contentActive': sidebarView === 'git' })}
+                    onClick={() => setSidebarView('git')}
+                  >
+                    <div className="i-ph:git-branch shrink-0" />
+                    Git
+                  </PanelHeaderButton>
                 </PanelHeader>
+                {/* the search stays mounted so switching views keeps the query and results */}
+                <SearchPanel
+                  className={classNames('flex-1', { hidden: sidebarView !== 'search' })}
+                  allowReplace={!isStreaming}
+                />
+                {sidebarView === 'git' && <GitPanel className="flex-1" allowChanges={!isStreaming} />}
                 <FileTree
-                  className="h-full"
+                  className={classNames('h-full', { hidden: sidebarView !== 'files' })}
                   files={files}
                   hideRoot
                   unsavedFiles={unsavedFiles}
+                  lockedPaths={lockedPaths}
                   fileHistory={fileHistory}
+                  setFileHistory={setFileHistory}
+                  allowFileManagement={!isStreaming}
                   rootFolder={WORK_DIR}
                   selectedFile={selectedFile}
                   onFileSelect={onFileSelect}
@@ -95,37 +93,24 @@ export const EditorPanel = memo(
             </Panel>
             <PanelResizeHandle />
             <Panel className="flex flex-col" defaultSize={80} minSize={20}>
-              <PanelHeader className="overflow-x-auto">
-                {activeFileSegments?.length && (
-                  <div className="flex items-center flex-1 text-sm">
-                    <FileBreadcrumb pathSegments={activeFileSegments} files={files} onFileSelect={onFileSelect} />
-                    {activeFileUnsaved && (
-                      <div className="flex gap-1 ml-auto -mr-1.5">
-                        <PanelHeaderButton onClick={onFileSave}>
-                          <div className="i-ph:floppy-disk-duotone" />
-                          Save
-                        </PanelHeaderButton>
-                        <PanelHeaderButton onClick={onFileReset}>
-                          <div className="i-ph:clock-counter-clockwise-duotone" />
-                          Reset
-                        </PanelHeaderButton>
-                      </div>
-                    )}
-                  </div>
-                )}
-              </PanelHeader>
-              <div className="h-full flex-1 overflow-hidden">
-                <CodeMirrorEditor
-                  theme={theme}
-                  editable={!isStreaming && editorDocument !== undefined}
-                  settings={editorSettings}
-                  doc={editorDocument}
-                  autoFocusOnDocumentChange={!isMobile()}
-                  onScroll={onEditorScroll}
-                  onChange={onEditorChange}
-                  onSave={onFileSave}
-                />
-              </div>
+              <PanelGroup direction={editorLayout.split}>
+                {editorLayout.panes.map((pane, index) => (
+                  <Fragment key={pane.id}>
+                    {index > 0 && <PanelResizeHandle />}
+                    <Panel id={pane.id} order={index} minSize={15}>
+                      <EditorPane
+                        pane={pane}
+                        paneCount={editorLayout.panes.length}
+                        isActive={pane.id === editorLayout.activePane}
+                        files={files}
+                        unsavedFiles={unsavedFiles}
+                        isStreaming={isStreaming}
+                        isOpenElsewhere={(filePath) => isOpenInOtherPane(pane.id, filePath)}
+                      />
+                    </Panel>
+                  </Fragment>
+                ))}
+              </PanelGroup>
             </Panel>
           </PanelGroup>
         </Panel>
@@ -0,0 +1,119 @@
+import * as ContextMenu from '@radix-ui/react-context-menu';
+import { memo, type ReactNode } from 'react';
+import { workbenchStore } from '~/lib/stores/workbench';
+import { classNames } from '~/utils/classNames';
+import { extractRelativePath } from '~/utils/diff';
+import type { EditorPane, EditorTab, SplitDirection } from '~/utils/editorTabs';
+import { path } from '~/utils/path';
+
+interface EditorTabsProps {
+  pane: EditorPane;
+  unsavedFiles?: Set<string>;
+  canSplit: boolean;
+
+  // unsaved changes are only lost when no other pane shows the file
+  isOpenElsewhere: (filePath: string) => boolean;
+}
+
+function TabMenuItem({ onSelect, children }: { onSelect: () => void; children: ReactNode }) {
+  return (
+    <ContextMenu.Item
+      onSelect={onSelect}
+      className="flex items-center gap-2 px-2 py-1.5 outline-0 text-sm cursor-pointer ws-nowrap text-bolt-elements-item-contentDefault hover:text-bolt-elements-item-contentActive hover:bg-bolt-elements-item-backgroundActive rounded-md"
+    >
+      {children}
+    </ContextMenu.Item>
+  );
+}
+
+export const EditorTabs = memo(({ pane, unsavedFiles, canSplit, isOpenElsewhere }: EditorTabsProps) => {
+  const closeTab = (filePath: string) => {
+    if (unsavedFiles?.has(filePath) && !isOpenElsewhere(filePath)) {
+      if (!window.confirm(`${extractRelativePath(filePath)} has unsaved changes. Close it and discard them?`)) {
+        return;
+      }
+
+      workbenchStore.resetFile(filePath);
+    }
+
+    workbenchStore.closeTab(pane.id, filePath);
+  };
+
+  const split = (direction: SplitDirection, filePath: string) => {
+    workbenchStore.openTab(pane.id, filePath);
+    workbenchStore.splitEditor(direction);
+  };
+
+  const renderTab = (tab: EditorTab) => {
+    const isActive = tab.filePath === pane.activeFile;
+    const isUnsaved = !!unsavedFiles?.has(tab.filePath);
+
+    return (
+      <ContextMenu.Root key={tab.filePath}>
+        <ContextMenu.Trigger asChild>
+          <div
+            title={extractRelativePath(tab.filePath)}
+            className={classNames(
+              'group flex h-full shrink-0 cursor-pointer items-center gap-1.5 border-r border-bolt-elements-borderColor px-3 text-sm',
+              isActive
+                ? 'bg-bolt-elements-background-depth-1 text-bolt-elements-textPrimary'
+                : 'text-bolt-elements-textSecondary hover:text-bolt-elements-textPrimary',
+            )}
+            onClick={() => workbenchStore.openTab(pane.id, tab.filePath)}
+            onDoubleClick={() => workbenchStore.keepTab(tab.filePath)}
+            onAuxClick={(event) => {
+              if (event.button === 1) {
+                closeTab(tab.filePath);
+              }
+            }}
+          >
+            {tab.pinned && <div className="i-ph:push-pin-fill shrink-0 text-xs" />}
+            <span className={classNames('whitespace-nowrap', { italic: tab.preview })}>
+              {path.basename(tab.filePath)}
+            </span>
+            <button
+              title="Close"
+              className="relative flex size-4 items-center justify-center rounded hover:bg-bolt-elements-item-backgroundActive"
+              onClick={(event) => {
+                event.stopPropagation();
+                closeTab(tab.filePath);
+              }}
+            >
+              {isUnsaved && (
+                <div className="absolute size-2 rounded-full bg-bolt-elements-textPrimary group-hover:hidden" />
+              )}
+              <div
+                className={classNames('i-ph:x text-xs', {
+                  'invisible group-hover:visible': !isActive || isUnsaved,
+                })}
+              />
+            </button>
+          </div>
+        </ContextMenu.Trigger>
+        <ContextMenu.Portal>
+          <ContextMenu.Content
+            style={{ zIndex: 998 }}
+            className="w-48 rounded-md border border-bolt-elements-borderColor bg-bolt-elements-background-depth-1 p-1 dark:bg-bolt-elements-background-depth-2"
+          >
+            <TabMenuItem onSelect={() => closeTab(tab.filePath)}>Close</TabMenuItem>
+            <TabMenuItem onSelect={() => workbenchStore.closeOtherTabs(pane.id, tab.filePath)}>
+              Close others
+            </TabMenuItem>
+            <TabMenuItem onSelect={() => workbenchStore.pinTab(pane.id, tab.filePath, !tab.pinned)}>
+              {tab.pinned ? 'Unpin' : 'Pin'}
+            </TabMenuItem>
+            {tab.preview && <TabMenuItem onSelect={() => workbenchStore.keepTab(tab.filePath)}>Keep open</TabMenuItem>}
+            {canSplit && (
+              <>
+                <TabMenuItem onSelect={() => split('horizontal', tab.filePath)}>Split right</TabMenuItem>
+                <TabMenuItem onSelect={() => split('vertical', tab.filePath)}>Split down</TabMenuItem>
+              </>
+            )}
+          </ContextMenu.Content>
+        </ContextMenu.Portal>
+      </ContextMenu.Root>
+    );
+  };
+
+  return <div className="flex h-full min-w-0 flex-1 overflow-x-auto">{pane.tabs.map(renderTab)}</div>;
+});
@@ -1,7 +1,10 @@
-import { memo, useEffect, useMemo, useState, type ReactNode } from 'react';
+import { Fragment, memo, useEffect, useMemo, useRef, useState, type HTMLAttributes, type ReactNode } from 'react';
+import { toast } from 'react-toastify';
 import type { FileMap } from '~/lib/stores/files';
+import { workbenchStore } from '~/lib/stores/workbench';
 import { classNames } from '~/utils/classNames';
 import { createScopedLogger, renderLogger } from '~/utils/logger';
+import { isSubPath, path, replacePathPrefix } from '~/utils/path';
 import * as ContextMenu from '@radix-ui/react-context-menu';
 import type { FileHistory } from '~/types/actions';
 import { diffLines, type Change } from 'diff';
@@ -11,6 +14,9 @@ const logger = createScopedLogger('FileTree');
 const NODE_PADDING_LEFT = 8;
 const DEFAULT_HIDDEN_FILES = [/\/node_modules\//, /\/\.next/, /\/\.astro/];
 
+// data type of the paths dragged within the tree, keeps drops from outside the tree out
+const DRAG_DATA_TYPE = 'application/x-bolt-file-paths';
+
 interface Props {
   files?: FileMap;
   selectedFile?: string;
@@ -19,12 +25,28 @@ interface Props {
   hideRoot?: boolean;
   collapsed?: boolean;
   allowFolderSelection?: boolean;
+
+  // enables creating, renaming, moving, duplicating and deleting files as well as multi-select
+  allowFileManagement?: boolean;
   hiddenFiles?: Array<string | RegExp>;
   unsavedFiles?: Set<string>;
+
+  // files and folders the AI may not change, enables locking from the context menu
+  lockedPaths?: string[];
   fileHistory?: Record<string, FileHistory>;
+  setFileHistory?: React.Dispatch<React.SetStateAction<Record<string, FileHistory>>>;
   className?: string;
 }
 
+// a path is locked itself or lies inside a locked folder
+type LockState = 'locked' | 'inherited';
+
+type EditingState = { type: 'rename'; path: string } | { type: 'file' | 'folder'; parentPath: string };
+
+function isValidName(name: string) {
+  return name.length > 0 && name.split('/').every((segment) => segment && segment !== '.' && segment !== '..');
+}
+
 export const FileTree = memo(
   ({
     files = {},
@@ -34,10 +56,13 @@ export const FileTree = memo(
     hideRoot = false,
     collapsed = false,
     allowFolderSelection = false,
+    allowFileManagement = false,
     hiddenFiles,
     className,
     unsavedFiles,
+    lockedPaths,
     fileHistory = {},
+    setFileHistory,
   }: Props) => {
     renderLogger.trace('FileTree');
 
@@ -53,6 +78,11 @@ export const FileTree = memo(
         : new Set<string>();
     });
 
+    const [selectedPaths, setSelectedPaths] = useState(() => new Set<string>());
+    const [anchorPath, setAnchorPath] = useState<string>();
+    const [editing, setEditing] = useState<EditingState>();
+    const [dropTarget, setDropTarget] = useState<string>();
+
     useEffect(() => {
       if (collapsed) {
         setCollapsedFolders(new Set(fileList.filter((item) => item.kind === 'folder').map((item) => item.fullPath)));
@@ -72,6 +102,13 @@ export const FileTree = memo(
       });
     }, [fileList, collapsed]);
 
+    useEffect(() => {
+      if (selectedFile && !selectedPaths.has(selectedFile)) {
+        setSelectedPaths(new Set([selectedFile]));
+        setAnchorPath(selectedFile);
+      }
+    }, [selectedFile]);
+
     const filteredFileList = useMemo(() => {
       const list = [];
 
@@ -131,47 +168,331 @@ export const FileTree = memo(
       }
     };
 
+    const rootPath = rootFolder || '/';
+
+    const onNodeClick = (node: Node, event: React.MouseEvent) => {
+      if (allowFileManagement && (event.metaKey || event.ctrlKey)) {
+        setSelectedPaths((prevSet) => {
+          const newSet = new Set(prevSet);
+
+          if (newSet.has(node.fullPath)) {
+            newSet.delete(node.fullPath);
+          } else {
+            newSet.add(node.fullPath);
+          }
+
+          return newSet;
+        });
+        setAnchorPath(node.fullPath);
+
+        return;
+      }
+
+      const anchorIndex = filteredFileList.findIndex((item) => item.fullPath === anchorPath);
+
+      if (allowFileManagement && event.shiftKey && anchorIndex !== -1) {
+        const nodeIndex = filteredFileList.indexOf(node);
+        const range = filteredFileList.slice(Math.min(anchorIndex, nodeIndex), Math.max(anchorIndex, nodeIndex) + 1);
+        setSelectedPaths(new Set(range.map((item) => item.fullPath)));
+
+        return;
+      }
+
+      setSelectedPaths(new Set([node.fullPath]));
+      setAnchorPath(node.fullPath);
+
+      if (node.kind === 'file') {
+        onFileSelect?.(node.fullPath);
+      } else {
+        toggleCollapseState(node.fullPath);
+      }
+    };
+
+    // acts on the whole selection when the node is part of it, paths inside a selected folder go along with it
+    const getTargets = (node: Node) => {
+      const paths = selectedPaths.has(node.fullPath) ? [...selectedPaths] : [node.fullPath];
+      return paths.filter((filePath) => !paths.some((other) => filePath.startsWith(`${other}/`)));
+    };
+
+    const runOperation = async (errorMessage: string, operation: () => Promise<void>) => {
+      try {
+        await operation();
+      } catch (error) {
+        logger.error(errorMessage, error);
+        toast.error(`${errorMessage}: ${(error as Error).message}`);
+      }
+    };
+
+    // moves the history of renamed files, or drops it for deleted ones when there is no new path
+    const moveFileHistory = (oldPath: string, newPath?: string) => {
+      setFileHistory?.((prevHistory) => {
+        const newHistory: Record<string, FileHistory> = {};
+
+        for (const [filePath, history] of Object.entries(prevHistory)) {
+          const movedPath = replacePathPrefix(filePath, oldPath, newPath ?? oldPath);
+
+          if (movedPath === undefined) {
+            newHistory[filePath] = history;
+          } else if (newPath) {
+            newHistory[movedPath] = history;
+          }
+        }
+
+        return newHistory;
+      });
+    };
+
+    const renamePath = (oldPath: string, newPath: string) =>
+      runOperation('Failed to rename', async () => {
+        await workbenchStore.renamePath(oldPath, newPath);
+        moveFileHistory(oldPath, newPath);
+      });
+
+    const onMove = async (paths: string[], folderPath: string) => {
+      for (const filePath of paths) {
+        const newPath = path.join(folderPath, path.basename(filePath));
+
+        // nothing to do, or a folder dropped into itself
+        if (newPath === filePath || replacePathPrefix(folderPath, filePath, filePath) !== undefined) {
+          continue;
+        }
+
+        await renamePath(filePath, newPath);
+      }
+
+      setSelectedPaths(new Set());
+    };
+
+    const onDuplicate = (node: Node) =>
+      runOperation('Failed to duplicate', async () => {
+        for (const filePath of getTargets(node)) {
+          await workbenchStore.duplicatePath(filePath);
+        }
+      });
+
+    const onDelete = (node: Node) => {
+      const targets = getTargets(node);
+      const label = targets.length === 1 ? `"${path.basename(targets[0])}"` : `${targets.length} items`;
+
+      if (!window.confirm(`Delete ${label}? This cannot be undone.`)) {
+        return;
+      }
+
+      runOperation('Failed to delete', async () => {
+        for (const filePath of targets) {
+          await workbenchStore.deletePath(filePath);
+          moveFileHistory(filePath);
+        }
+
+        setSelectedPaths(new Set());
+      });
+    };
+
+    const startCreate = (type: 'file' | 'folder', node?: Node) => {
+      const parentPath = !node ? rootPath : node.kind === 'folder' ? node.fullPath : path.dirname(node.fullPath);
+
+      setCollapsedFolders((prevSet) => {
+        const newSet = new Set(prevSet);
+        newSet.delete(parentPath);
+
+        return newSet;
+      });
+      setEditing({ type, parentPath });
+    };
+
+    const onSubmitName = (name: string) => {
+      const currentEditing = editing;
+      setEditing(undefined);
+
+      if (!currentEditing) {
+        return;
+      }
+
+      if (!isValidName(name)) {
+        toast.error(`"${name}" is not a valid name`);
+        return;
+      }
+
+      if (currentEditing.type === 'rename') {
+        const newPath = path.join(path.dirname(currentEditing.path), name);
+
+        if (newPath !== currentEditing.path) {
+          renamePath(currentEditing.path, newPath);
+        }
+
+        return;
+      }
+
+      const newPath = path.join(currentEditing.parentPath, name);
+
+      if (currentEditing.type === 'file') {
+        runOperation('Failed to create file', async () => {
+          await workbenchStore.createFile(newPath);
+          onFileSelect?.(newPath);
+        });
+      } else {
+        runOperation('Failed to create folder', () => workbenchStore.createFolder(newPath));
+      }
+    };
+
+    const getDragProps = (node: Node): HTMLAttributes<HTMLButtonElement> | undefined => {
+      if (!allowFileManagement) {
+        return undefined;
+      }
+
+      const dragProps: HTMLAttributes<HTMLButtonElement> = {
+        draggable: true,
+        onDragStart: (event) => {
+          event.dataTransfer.setData(DRAG_DATA_TYPE, JSON.stringify(getTargets(node)));
+          event.dataTransfer.effectAllowed = 'move';
+        },
+      };
+
+      return node.kind === 'folder' ? { ...dragProps, ...getDropProps(node.fullPath) } : dragProps;
+    };
+
+    const getDropProps = (folderPath: string): HTMLAttributes<HTMLElement> => ({
+      onDragOver: (event) => {
+        if (event.dataTransfer.types.includes(DRAG_DATA_TYPE)) {
+          event.preventDefault();
+          event.stopPropagation();
+          setDropTarget(folderPath);
+        }
+      },
+      onDragLeave: () => setDropTarget((target) => (target === folderPath ? undefined : target)),
+      onDrop: (event) => {
+        const data = event.dataTransfer.getData(DRAG_DATA_TYPE);
+        setDropTarget(undefined);
+
+        if (!data) {
+          return;
+        }
+
+        event.preventDefault();
+        event.stopPropagation();
+        onMove(JSON.parse(data) as string[], folderPath);
+      },
+    });
+
+    const getOperations = (node: Node): FileOperationHandlers | undefined => {
+      if (!allowFileManagement) {
+        return undefined;
+      }
+
+      return {
+        onNewFile: () => startCreate('file', node),
+        onNewFolder: () => startCreate('folder', node),
+        onRename: () => setEditing({ type: 'rename', path: node.fullPath }),
+        onDuplicate: () => onDuplicate(node),
+        onDelete: () => onDelete(node),
+      };
+    };
+
+    const getLockState = (node: Node): LockState | undefined => {
+      if (lockedPaths?.includes(node.fullPath)) {
+        return 'locked';
+      }
+
+      return lockedPaths?.some((lockedPath) => isSubPath(node.fullPath, lockedPath)) ? 'inherited' : undefined;
+    };
+
+    const getLockToggle = (node: Node) => {
+      if (!lockedPaths || getLockState(node) === 'inherited') {
+        return undefined;
+      }
+
+      return () => workbenchStore.setPathLocked(node.fullPath, getLockState(node) !== 'locked');
+    };
+
+    const renderNameInput = (depth: number, type: 'file' | 'folder') => (
+      <NameInput
+        key="new-entry"
+        depth={depth}
+        iconClasses={type === 'file' ? 'i-ph:file-duotone' : 'i-ph:folder-simple-plus'}
+        onSubmit={onSubmitName}
+        onCancel={() => setEditing(undefined)}
+      />
+    );
+
+    const createsAtRoot =
+      editing && editing.type !== 'rename' && !filteredFileList.some((node) => node.fullPath === editing.parentPath);
+
     return (
-      <div className={classNames('text-sm', className, 'overflow-y-auto')}>
+      <div className={classNames('text-sm', className, 'overflow-y-auto', { 'flex flex-col': allowFileManagement })}>
+        {createsAtRoot && renderNameInput(hideRoot ? 0 : 1, editing.type)}
         {filteredFileList.map((fileOrFolder) => {
+          if (editing?.type === 'rename' && editing.path === fileOrFolder.fullPath) {
+            return (
+              <NameInput
+                key={fileOrFolder.id}
+                depth={fileOrFolder.depth}
+                iconClasses={fileOrFolder.kind === 'file' ? 'i-ph:file-duotone' : 'i-ph:folder-simple'}
+                defaultValue={fileOrFolder.name}
+                onSubmit={onSubmitName}
+                onCancel={() => setEditing(undefined)}
+              />
+            );
+          }
+
           switch (fileOrFolder.kind) {
             case 'file': {
               return (
                 <File
                   key={fileOrFolder.id}
-                  selected={selectedFile === fileOrFolder.fullPath}
+                  selected={selectedFile === fileOrFolder.fullPath || selectedPaths.has(fileOrFolder.fullPath)}
                   file={fileOrFolder}
                   unsavedChanges={unsavedFiles?.has(fileOrFolder.fullPath)}
+                  lockState={getLockState(fileOrFolder)}
+                  onToggleLock={getLockToggle(fileOrFolder)}
                   fileHistory={fileHistory}
+                  operations={getOperations(fileOrFolder)}
+                  dragProps={getDragProps(fileOrFolder)}
                   onCopyPath={() => {
                     onCopyPath(fileOrFolder);
                   }}
                   onCopyRelativePath={() => {
                     onCopyRelativePath(fileOrFolder);
                   }}
-                  onClick={() => {
-                    onFileSelect?.(fileOrFolder.fullPath);
+                  onClick={(event) => {
+                    onNodeClick(fileOrFolder, event);
                   }}
                 />
               );
             }
             case 'folder': {
+              const isCreatingHere =
+                editing && editing.type !== 'rename' && editing.parentPath === fileOrFolder.fullPath;
+
               return (
-                <Folder
-                  key={fileOrFolder.id}
-                  folder={fileOrFolder}
-                  selected={allowFolderSelection && selectedFile === fileOrFolder.fullPath}
-                  collapsed={collapsedFolders.has(fileOrFolder.fullPath)}
-                  onCopyPath={() => {
-                    onCopyPath(fileOrFolder);
-                  }}
-                  onCopyRelativePath={() => {
-                    onCopyRelativePath(fileOrFolder);
-                  }}
-                  onClick={() => {
-                    toggleCollapseState(fileOrFolder.fullPath);
-                  }}
-                />
+                <Fragment key={fileOrFolder.id}>
+                  <Folder
+                    folder={fileOrFolder}
+                    selected={
+                      (allowFolderSelection && selectedFile === fileOrFolder.fullPath) ||
+                      selectedPaths.has(fileOrFolder.fullPath)
+                    }
+                    collapsed={collapsedFolders.has(fileOrFolder.fullPath)}
+                    isDropTarget={dropTarget === fileOrFolder.fullPath}
+                    lockState={getLockState(fileOrFolder)}
+                    onToggleLock={getLockToggle(fileOrFolder)}
+                    operations={getOperations(fileOrFolder)}
+                    dragProps={getDragProps(fileOrFolder)}
+                    onCopyPath={() => {
+                      onCopyPath(fileOrFolder);
+                    }}
+                    onCopyRelativePath={() => {
+                      onCopyRelativePath(fileOrFolder);
+                    }}
+                    onClick={(event) => {
+                      if (allowFileManagement) {
+                        onNodeClick(fileOrFolder, event);
+                      } else {
+                        toggleCollapseState(fileOrFolder.fullPath);
+                      }
+                    }}
+                  />
+                  {isCreatingHere && renderNameInput(fileOrFolder.depth + 1, editing.type)}
+                </Fragment>
               );
             }
             default: {
@@ -179,6 +500,26 @@ export const FileTree = memo(
             }
           }
         })}
+        {allowFileManagement && (
+          <ContextMenu.Root>
+            <ContextMenu.Trigger asChild>
+              <div
+                className={classNames('flex-1 min-h-8', {
+                  'bg-bolt-elements-item-backgroundActive': dropTarget === rootPath,
+                })}
+                {...getDropProps(rootPath)}
+              />
+            </ContextMenu.Trigger>
+            <ContextMenu.Portal>
+              <ContextMenuContent>
+                <ContextMenu.Group className="p-1">
+                  <ContextMenuItem onSelect={() => startCreate('file')}>New file</ContextMenuItem>
+                  <ContextMenuItem onSelect={() => startCreate('folder')}>New folder</ContextMenuItem>
+                </ContextMenu.Group>
+              </ContextMenuContent>
+            </ContextMenu.Portal>
+          </ContextMenu.Root>
+        )}
       </div>
     );
   },
@@ -186,18 +527,34 @@ export const FileTree = memo(
 
 export default FileTree;
 
+interface FileOperationHandlers {
+  onNewFile: () => void;
+  onNewFolder: () => void;
+  onRename: () => void;
+  onDuplicate: () => void;
+  onDelete: () => void;
+}
+
 interface FolderProps {
   folder: FolderNode;
   collapsed: boolean;
   selected?: boolean;
+  isDropTarget?: boolean;
+  lockState?: LockState;
+  onToggleLock?: () => void;
+  operations?: FileOperationHandlers;
+  dragProps?: HTMLAttributes<HTMLButtonElement>;
   onCopyPath: () => void;
   onCopyRelativePath: () => void;
-  onClick: () => void;
+  onClick: (event: React.MouseEvent) => void;
 }
 
 interface FolderContextMenuProps {
   onCopyPath?: () => void;
   onCopyRelativePath?: () => void;
+  lockState?: LockState;
+  onToggleLock?: () => void;
+  operations?: FileOperationHandlers;
   children: ReactNode;
 }
 
@@ -213,42 +570,98 @@ function ContextMenuItem({ onSelect, children }: { onSelect?: () => void; childr
   );
 }
 
-function FileContextMenu({ onCopyPath, onCopyRelativePath, children }: FolderContextMenuProps) {
+function ContextMenuContent({ children }: { children: ReactNode }) {
+  return (
+    <ContextMenu.Content
+      style={{ zIndex: 998 }}
+      className="border border-bolt-elements-borderColor rounded-md z-context-menu bg-bolt-elements-background-depth-1 dark:bg-bolt-elements-background-depth-2 data-[state=open]:animate-in animate-duration-100 data-[state=open]:fade-in-0 data-[state=open]:zoom-in-98 w-56"
+    >
+      {children}
+    </ContextMenu.Content>
+  );
+}
+
+function FileContextMenu({
+  onCopyPath,
+  onCopyRelativePath,
+  lockState,
+  onToggleLock,
+  operations,
+  children,
+}: FolderContextMenuProps) {
   return (
     <ContextMenu.Root>
       <ContextMenu.Trigger>{children}</ContextMenu.Trigger>
       <ContextMenu.Portal>
-        <ContextMenu.Content
-          style={{ zIndex: 998 }}
-          className="border border-bolt-elements-borderColor rounded-md z-context-menu bg-bolt-elements-background-depth-1 dark:bg-bolt-elements-background-depth-2 data-[state=open]:animate-in animate-duration-100 data-[state=open]:fade-in-0 data-[state=open]:zoom-in-98 w-56"
-        >
+        <ContextMenuContent>
+          {operations && (
+            <ContextMenu.Group className="p-1 border-b-px border-solid border-bolt-elements-borderColor">
+              <ContextMenuItem onSelect={operations.onNewFile}>New file</ContextMenuItem>
+              <ContextMenuItem onSelect={operations.onNewFolder}>New folder</ContextMenuItem>
+            </ContextMenu.Group>
+          )}
           <ContextMenu.Group className="p-1 border-b-px border-solid border-bolt-elements-borderColor">
             <ContextMenuItem onSelect={onCopyPath}>Copy path</ContextMenuItem>
             <ContextMenuItem onSelect={onCopyRelativePath}>Copy relative path</ContextMenuItem>
           </ContextMenu.Group>
-        </ContextMenu.Content>
+          {onToggleLock && (
+            <ContextMenu.Group className="p-1 border-b-px border-solid border-bolt-elements-borderColor">
+              <ContextMenuItem onSelect={onToggleLock}>{lockState === 'locked' ? 'Unlock' : 'Lock'}</ContextMenuItem>
+            </ContextMenu.Group>
+          )}
+          {operations && (
+            <ContextMenu.Group className="p-1">
+              <ContextMenuItem onSelect={operations.onRename}>Rename</ContextMenuItem>
+              <ContextMenuItem onSelect={operations.onDuplicate}>Duplicate</ContextMenuItem>
+              <ContextMenuItem onSelect={operations.onDelete}>Delete</ContextMenuItem>
+            </ContextMenu.Group>
+          )}
+        </ContextMenuContent>
       </ContextMenu.Portal>
     </ContextMenu.Root>
   );
 }
 
-function Folder({ folder, collapsed, selected = false, onCopyPath, onCopyRelativePath, onClick }: FolderProps) {
+function Folder({
+  folder,
+  collapsed,
+  selected = false,
+  isDropTarget = false,
+  lockState,
+  onToggleLock,
+  operations,
+  dragProps,
+  onCopyPath,
+  onCopyRelativePath,
+  onClick,
+}: FolderProps) {
   return (
-    <FileContextMenu onCopyPath={onCopyPath} onCopyRelativePath={onCopyRelativePath}>
+    <FileContextMenu
+      onCopyPath={onCopyPath}
+      onCopyRelativePath={onCopyRelativePath}
+      lockState={lockState}
+      onToggleLock={onToggleLock}
+      operations={operations}
+    >
       <NodeButton
         className={classNames('group', {
           'bg-transparent text-bolt-elements-item-contentDefault hover:text-bolt-elements-item-contentActive hover:bg-bolt-elements-item-backgroundActive':
-            !selected,
+            !selected && !isDropTarget,
           'bg-bolt-elements-item-backgroundAccent text-bolt-elements-item-contentAccent': selected,
+          'bg-bolt-elements-item-backgroundActive border-bolt-elements-borderColorActive': isDropTarget,
         })}
         depth={folder.depth}
         iconClasses={classNames({
           'i-ph:caret-right scale-98': collapsed,
           'i-ph:caret-down scale-98': !collapsed,
         })}
+        dragProps={dragProps}
         onClick={onClick}
       >
-        {folder.name}
+        <div className="flex items-center">
+          <div className="flex-1 truncate pr-2">{folder.name}</div>
+          <LockIcon lockState={lockState} />
+        </div>
       </NodeButton>
     </FileContextMenu>
   );
@@ -258,10 +671,14 @@ interface FileProps {
   file: FileNode;
   selected: boolean;
   unsavedChanges?: boolean;
+  lockState?: LockState;
+  onToggleLock?: () => void;
   fileHistory?: Record<string, FileHistory>;
+  operations?: FileOperationHandlers;
+  dragProps?: HTMLAttributes<HTMLButtonElement>;
   onCopyPath: () => void;
   onCopyRelativePath: () => void;
-  onClick: () => void;
+  onClick: (event: React.MouseEvent) => void;
 }
 
 function File({
@@ -271,7 +688,11 @@ function File({
   onCopyRelativePath,
   selected,
   unsavedChanges = false,
+  lockState,
+  onToggleLock,
   fileHistory = {},
+  operations,
+  dragProps,
 }: FileProps) {
   const fileModifications = fileHistory[fullPath];
 
@@ -317,7 +738,13 @@ function File({
   const showStats = additions > 0 || deletions > 0;
 
   return (
-    <FileContextMenu onCopyPath={onCopyPath} onCopyRelativePath={onCopyRelativePath}>
+    <FileContextMenu
+      onCopyPath={onCopyPath}
+      onCopyRelativePath={onCopyRelativePath}
+      lockState={lockState}
+      onToggleLock={onToggleLock}
+      operations={operations}
+    >
       <NodeButton
         className={classNames('group', {
           'bg-transparent hover:bg-bolt-elements-item-backgroundActive text-bolt-elements-item-contentDefault':
@@ -328,6 +755,7 @@ function File({
         iconClasses={classNames('i-ph:file-duotone scale-98', {
           'group-hover:text-bolt-elements-item-contentActive': !selected,
         })}
+        dragProps={dragProps}
         onClick={onClick}
       >
         <div
@@ -343,6 +771,7 @@ function File({
                 {deletions > 0 && <span className="text-red-500">-{deletions}</span>}
               </div>
             )}
+            <LockIcon lockState={lockState} />
             {unsavedChanges && <span className="i-ph:circle-fill scale-68 shrink-0 text-orange-500" />}
           </div>
         </div>
@@ -351,15 +780,29 @@ function File({
   );
 }
 
+function LockIcon({ lockState }: { lockState?: LockState }) {
+  if (!lockState) {
+    return null;
+  }
+
+  return (
+    <span
+      title={lockState === 'locked' ? 'Locked, the AI will not change it' : 'Inside a locked folder'}
+      className={classNames('i-ph:lock-simple-duotone shrink-0', { 'opacity-50': lockState === 'inherited' })}
+    />
+  );
+}
+
 interface ButtonProps {
   depth: number;
   iconClasses: string;
   children: ReactNode;
   className?: string;
-  onClick?: () => void;
+  dragProps?: HTMLAttributes<HTMLButtonElement>;
+  onClick?: (event: React.MouseEvent) => void;
 }
 
-function NodeButton({ depth, iconClasses, onClick, className, children }: ButtonProps) {
+function NodeButton({ depth, iconClasses, onClick, className, dragProps, children }: ButtonProps) {
   return (
     <button
       className={classNames(
@@ -367,7 +810,8 @@ function NodeButton({ depth, iconClasses, onClick, className, children }: Button
         className,
       )}
       style={{ paddingLeft: `${6 + depth * NODE_PADDING_LEFT}px` }}
-      onClick={() => onClick?.()}
+      onClick={(event) => onClick?.(event)}
+      {...dragProps}
     >
       <div className={classNames('scale-120 shrink-0', iconClasses)}></div>
       <div className="truncate w-full text-left">{children}</div>
@@ -375,6 +819,65 @@ function NodeButton({ depth, iconClasses, onClick, className, children }: Button
   );
 }
 
+interface NameInputProps {
+  depth: number;
+  iconClasses: string;
+  defaultValue?: string;
+  onSubmit: (name: string) => void;
+  onCancel: () => void;
+}
+
+function NameInput({ depth, iconClasses, defaultValue = '', onSubmit, onCancel }: NameInputProps) {
+  const [value, setValue] = useState(defaultValue);
+
+  // blur fires once more when the input goes away after submitting with enter
+  const doneRef = useRef(false);
+
+  const finish = (submit: boolean) => {
+    if (doneRef.current) {
+      return;
+    }
+
+    doneRef.current = true;
+
+    const name = value.trim();
+
+    if (submit && name && name !== defaultValue) {
+      onSubmit(name);
+    } else {
+      onCancel();
+    }
+  };
+
+  return (
+    <div
+      className="flex items-center gap-1.5 w-full pr-2 py-0.5 border-2 border-transparent"
+      style={{ paddingLeft: `${6 + depth * NODE_PADDING_LEFT}px` }}
+    >
+      <div className={classNames('scale-120 shrink-0 text-bolt-elements-item-contentDefault', iconClasses)}></div>
+      <input
+        autoFocus
+        value={value}
+        className="w-full px-1 rounded-sm outline-none bg-bolt-elements-background-depth-1 text-bolt-elements-textPrimary border border-bolt-elements-borderColorActive"
+        onChange={(event) => setValue(event.target.value)}
+        onFocus={(event) => {
+          // select the name without its extension like most editors do
+          const extensionIndex = defaultValue.lastIndexOf('.');
+          event.target.setSelectionRange(0, extensionIndex > 0 ? extensionIndex : defaultValue.length);
+        }}
+        onKeyDown={(event) => {
+          if (event.key === 'Enter') {
+            finish(true);
+          } else if (event.key === 'Escape') {
+            finish(false);
+          }
+        }}
+        onBlur={() => finish(true)}
+      />
+    </div>
+  );
+}
+
 type Node = FileNode | FolderNode;
 
 interface BaseNode {
@@ -0,0 +1,337 @@
+import { useStore } from '@nanostores/react';
+import { memo, useEffect, useState } from 'react';
+import { toast } from 'react-toastify';
+import { PushToGitHostDialog } from '~/components/@settings/tabs/connections/components/PushToGitHostDialog';
+import { PushToGitHubDialog } from '~/components/@settings/tabs/connections/components/PushToGitHubDialog';
+import { chatMetadata } from '~/lib/persistence';
+import { workbenchStore } from '~/lib/stores/workbench';
+import type { GitChangeType, GitFileStatus } from '~/types/git';
+import { classNames } from '~/utils/classNames';
+import { WORK_DIR } from '~/utils/constants';
+import { shortOid } from '~/utils/git';
+import { createScopedLogger } from '~/utils/logger';
+
+const logger = createScopedLogger('GitPanel');
+
+// the status is read from every file, so file changes are only picked up after a pause
+const REFRESH_DELAY = 1000;
+
+interface GitPanelProps {
+  className?: string;
+
+  // git commands that change files are disabled while the AI is writing files
+  allowChanges?: boolean;
+}
+
+const changeLabels: Record<GitChangeType, { letter: string; className: string }> = {
+  added: { letter: 'A', className: 'text-green-500' },
+  modified: { letter: 'M', className: 'text-yellow-500' },
+  deleted: { letter: 'D', className: 'text-red-500' },
+  untracked: { letter: 'U', className: 'text-green-500' },
+};
+
+const buttonClasses =
+  'flex items-center gap-1 rounded px-1.5 py-0.5 text-xs text-bolt-elements-textSecondary enabled:hover:text-bolt-elements-textPrimary disabled:opacity-30';
+
+const primaryButtonClasses =
+  'flex items-center justify-center gap-1 rounded bg-bolt-elements-button-primary-background px-2 py-1 text-xs text-bolt-elements-button-primary-text enabled:hover:bg-bolt-elements-button-primary-backgroundHover disabled:opacity-30';
+
+async function runGitCommand(command: () => Promise<unknown>, successMessage?: string) {
+  try {
+    await command();
+
+    if (successMessage) {
+      toast.success(successMessage);
+    }
+  } catch (error) {
+    logger.error('Git command failed', error);
+    toast.error(`Git: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+interface FileListProps {
+  title: string;
+  files: GitFileStatus[];
+  actionIcon: string;
+  actionTitle: string;
+  disabled: boolean;
+  onAction: (filePaths: string[]) => void;
+}
+
+const FileList = memo(({ title, files, actionIcon, actionTitle, disabled, onAction }: FileListProps) => (
+  <div className="py-1">
+    <div className="flex items-center gap-1 px-2 py-0.5 text-xs uppercase text-bolt-elements-textTertiary">
+      <span className="flex-1">
+        {title} ({files.length})
+      </span>
+      <button
+        title={`${actionTitle} all`}
+        className={buttonClasses}
+        disabled={disabled || files.length === 0}
+        onClick={() => onAction(files.map(({ filePath }) => filePath))}
+      >
+        <div className={actionIcon} />
+      </button>
+    </div>
+    {files.map(({ filePath, change }) => (
+      <div
+        key={filePath}
+        className="group flex items-center gap-1.5 px-2 py-0.5 text-sm hover:bg-bolt-elements-item-backgroundActive"
+      >
+        <button
+          className="min-w-0 flex-1 truncate text-left text-bolt-elements-textSecondary"
+          disabled={change === 'deleted'}
+          onClick={() => workbenchStore.setSelectedFile(`${WORK_DIR}/${filePath}`)}
+        >
+          {filePath}
+        </button>
+        <button
+          title={actionTitle}
+          className={classNames(buttonClasses, 'opacity-0 group-hover:opacity-100')}
+          disabled={disabled}
+          onClick={() => onAction([filePath])}
+        >
+          <div className={actionIcon} />
+        </button>
+        <span className={classNames('w-3 shrink-0 text-xs font-medium', changeLabels[change].className)}>
+          {changeLabels[change].letter}
+        </span>
+      </div>
+    ))}
+  </div>
+));
+
+export const GitPanel = memo(({ className, allowChanges = true }: GitPanelProps) => {
+  const repository = useStore(workbenchStore.git.repository);
+  const status = useStore(workbenchStore.git.status);
+  const log = useStore(workbenchStore.git.log);
+  const busy = useStore(workbenchStore.git.busy);
+  const files = useStore(workbenchStore.files);
+  const metadata = useStore(chatMetadata);
+  const upstreamBusy = useStore(workbenchStore.upstream.busy);
+
+  const [message, setMessage] = useState('');
+  const [isPushDialogOpen, setIsPushDialogOpen] = useState(false);
+  const [isGitHubDialogOpen, setIsGitHubDialogOpen] = useState(false);
+
+  const git = workbenchStore.git;
+  const disabled = busy || !allowChanges;
+  const staged = status.filter((file) => file.staged);
+  const unstaged = status.filter((file) => file.unstaged);
+
+  useEffect(() => {
+    const timeout = setTimeout(() => runGitCommand(() => git.refresh()), REFRESH_DELAY);
+
+    return () => clearTimeout(timeout);
+  }, [files]);
+
+  const commit = () =>
+    runGitCommand(async () => {
+      await git.commit(message.trim());
+      setMessage('');
+    });
+
+  const createBranch = () => {
+    const name = window.prompt('Name of the new branch')?.trim();
+
+    if (name) {
+      runGitCommand(() => git.createBranch(name), `Switched to the new branch ${name}`);
+    }
+  };
+
+  const setRemote = () => {
+    const url = window.prompt('URL of the remote repository', repository.remoteUrl ?? 'https://github.com/')?.trim();
+
+    if (url) {
+      runGitCommand(() => git.setRemote(url));
+    }
+  };
+
+  const syncUpstream = () =>
+    runGitCommand(async () => {
+      if ((await workbenchStore.fetchUpstream()) === 0) {
+        toast.info('The project is up to date with upstream');
+      }
+    });
+
+  // chats imported from a repository pull its new changes, conflicts with the changes made here are merged
+  const upstreamButton = (label?: string) =>
+    metadata?.gitUrl && (
+      <button
+        title={`Pull the upstream changes of ${metadata.gitUrl}`}
+        className={buttonClasses}
+        disabled={!allowChanges || upstreamBusy}
+        onClick={syncUpstream}
+      >
+        <div className={upstreamBusy ? 'i-svg-spinners:90-ring-with-bg' : 'i-ph:git-merge'} />
+        {label}
+      </button>
+    );
+
+  const pushDialogs = (
+    <>
+      <PushToGitHostDialog isOpen={isPushDialogOpen} onClose={() => setIsPushDialogOpen(false)} />
+      <PushToGitHubDialog
+        isOpen={isGitHubDialogOpen}
+        onClose={() => setIsGitHubDialogOpen(false)}
+        onPush={(repoName, username, token, isPrivate, pullRequest) =>
+          workbenchStore.pushToGitHub(repoName, undefined, username, token, { isPrivate, pullRequest })
+        }
+      />
+    </>
+  );
+
+  if (!repository.initialized) {
+    return (
+      <div className={classNames('flex flex-col items-center gap-2 p-4 text-center text-sm', className)}>
+        <p className="text-bolt-elements-textSecondary">The project is not a git repository yet</p>
+        <button
+          className={primaryButtonClasses}
+          disabled={disabled}
+          onClick={() => runGitCommand(() => git.init(), 'Initialized a git repository')}
+        >
+          <div className="i-ph:git-branch" />
+          Initialize repository
+        </button>
+        <button className={buttonClasses} disabled={disabled} onClick={() => setIsPushDialogOpen(true)}>
+          <div className="i-ph:cloud-arrow-up" />
+          Push to a git host
+        </button>
+        <button className={buttonClasses} disabled={!allowChanges} onClick={() => setIsGitHubDialogOpen(true)}>
+          <div className="i-ph:github-logo" />
+          Push to GitHub
+        </button>
+        {upstreamButton('Sync with upstream')}
+        {pushDialogs}
+      </div>
+    );
+  }
+
+  return (
+    <div className={classNames('flex flex-col overflow-hidden text-sm', className)}>
+      <div className="flex items-center gap-1 border-b border-bolt-elements-borderColor px-2 py-1.5">
+        <div className="i-ph:git-branch shrink-0 text-bolt-elements-textTertiary" />
+        <select
+          value={repository.branch ?? ''}
+          disabled={disabled}
+          className="min-w-0 flex-1 truncate bg-transparent text-bolt-elements-textPrimary focus:outline-none"
+          onChange={(event) => runGitCommand(() => git.checkout(event.target.value))}
+        >
+          {!repository.branch && <option value="">(detached)</option>}
+          {repository.branches.map((branch) => (
+            <option key={branch} value={branch}>
+              {branch}
+            </option>
+          ))}
+        </select>
+        <button title="Create branch" className={buttonClasses} disabled={disabled} onClick={createBranch}>
+          <div className="i-ph:plus" />
+        </button>
+        <button title="Refresh" className={buttonClasses} disabled={busy} onClick={() => runGitCommand(git.refresh)}>
+          <div className={busy ? 'i-svg-spinners:90-ring-with-bg' : 'i-ph:arrows-clockwise'} />
+        </button>
+      </div>
+
+      <div className="flex items-center gap-1 border-b border-bolt-elements-borderColor px-2 py-1">
+        <button
+          title={repository.remoteUrl ?? 'Set the remote repository'}
+          className={classNames(buttonClasses, 'min-w-0 flex-1')}
+          disabled={busy}
+          onClick={setRemote}
+        >
+          <div className="i-ph:globe shrink-0" />
+          <span className="truncate">{repository.remoteUrl ?? 'Add remote'}</span>
+        </button>
+        <button
+          title="Pull"
+          className={buttonClasses}
+          disabled={disabled || !repository.remoteUrl || !repository.branch}
+          onClick={() => runGitCommand(() => git.pull(), 'Pulled the latest changes')}
+        >
+          <div className="i-ph:arrow-down" />
+        </button>
+        <button
+          title="Push"
+          className={buttonClasses}
+          disabled={busy || !repository.remoteUrl || !repository.branch}
+          onClick={() => runGitCommand(() => git.push(), `Pushed ${repository.branch}`)}
+        >
+          <div className="i-ph:arrow-up" />
+        </button>
+        {upstreamButton()}
+        <button
+          title="Push to a git host"
+          className={buttonClasses}
+          disabled={disabled}
+          onClick={() => setIsPushDialogOpen(true)}
+        >
+          <div className="i-ph:cloud-arrow-up" />
+        </button>
+        <button
+          title="Push to GitHub or open a pull request"
+          className={buttonClasses}
+          disabled={!allowChanges}
+          onClick={() => setIsGitHubDialogOpen(true)}
+        >
+          <div className="i-ph:github-logo" />
+        </button>
+        {pushDialogs}
+      </div>
+
+      <div className="flex flex-col gap-1.5 border-b border-bolt-elements-borderColor p-2">
+        <textarea
+          rows={2}
+          value={message}
+          placeholder="Commit message"
+          className="w-full resize-y rounded border border-bolt-elements-borderColor bg-bolt-elements-background-depth-2 px-2 py-1 text-sm text-bolt-elements-textPrimary placeholder-bolt-elements-textTertiary focus:outline-none"
+          onChange={(event) => setMessage(event.target.value)}
+        />
+        <button
+          className={primaryButtonClasses}
+          disabled={busy || staged.length === 0 || !message.trim()}
+          onClick={commit}
+        >
+          <div className="i-ph:check" />
+          Commit {staged.length > 0 && `${staged.length} ${staged.length === 1 ? 'file' : 'files'}`}
+        </button>
+      </div>
+
+      <div className="flex-1 overflow-y-auto">
+        <FileList
+          title="Staged"
+          files={staged}
+          actionIcon="i-ph:minus"
+          actionTitle="Unstage"
+          disabled={busy}
+          onAction={(filePaths) => runGitCommand(() => git.unstage(filePaths))}
+        />
+        <FileList
+          title="Changes"
+          files={unstaged}
+          actionIcon="i-ph:plus"
+          actionTitle="Stage"
+          disabled={busy}
+          onAction={(filePaths) => runGitCommand(() => git.stage(filePaths))}
+        />
+
+        <div className="py-1">
+          <div className="px-2 py-0.5 text-xs uppercase text-bolt-elements-textTertiary">History</div>
+          {log.length === 0 && <p className="px-2 text-xs text-bolt-elements-textTertiary">No commits yet</p>}
+          {log.map((commit) => (
+            <button
+              key={commit.oid}
+              title={commit.message}
+              className="flex w-full flex-col px-2 py-1 text-left hover:bg-bolt-elements-item-backgroundActive"
+              onClick={() => runGitCommand(() => workbenchStore.showCommit(commit))}
+            >
+              <span className="w-full truncate text-bolt-elements-textPrimary">{commit.message.split('\n')[0]}</span>
+              <span className="text-xs text-bolt-elements-textTertiary">
+                {shortOid(commit.oid)} · {commit.author} · {new Date(commit.timestamp).toLocaleString()}
+              </span>
+            </button>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+});
@@ -0,0 +1,120 @@
+import { useStore } from '@nanostores/react';
+import { memo, useMemo, useState } from 'react';
+import { workbenchStore } from '~/lib/stores/workbench';
+import type { Problem, ProblemSeverity } from '~/types/problems';
+import { classNames } from '~/utils/classNames';
+import { extractRelativePath } from '~/utils/diff';
+
+interface ProblemsPanelProps {
+  className?: string;
+
+  // fixing is disabled while the AI is still answering
+  allowFix?: boolean;
+}
+
+const severityIcons: Record<ProblemSeverity, string> = {
+  error: 'i-ph:x-circle text-red-500',
+  warning: 'i-ph:warning text-yellow-500',
+  info: 'i-ph:info text-blue-500',
+};
+
+function groupByFile(problems: Problem[]) {
+  const groups = new Map<string, Problem[]>();
+
+  for (const problem of problems) {
+    groups.set(problem.filePath, [...(groups.get(problem.filePath) ?? []), problem]);
+  }
+
+  return [...groups];
+}
+
+export const ProblemsPanel = memo(({ className, allowFix = true }: ProblemsPanelProps) => {
+  const problems = useStore(workbenchStore.problems);
+  const [collapsed, setCollapsed] = useState<Set<string>>(new Set());
+
+  const groups = useMemo(() => groupByFile(problems), [problems]);
+  const errorCount = problems.filter((problem) => problem.severity === 'error').length;
+
+  const toggleCollapsed = (filePath: string) => {
+    const newCollapsed = new Set(collapsed);
+
+    if (!newCollapsed.delete(filePath)) {
+      newCollapsed.add(filePath);
+    }
+
+    setCollapsed(newCollapsed);
+  };
+
+  const renderProblem = (problem: Problem, index: number) => (
+    <button
+      key={index}
+      className="flex w-full items-start gap-2 py-0.5 pl-9 pr-2 text-left hover:bg-bolt-elements-item-backgroundActive"
+      onClick={() =>
+        workbenchStore.openFileAt({
+          filePath: problem.filePath,
+          line: problem.line,
+          column: problem.column,
+          length: problem.from !== undefined && problem.to !== undefined ? problem.to - problem.from : 0,
+        })
+      }
+    >
+      <div className={classNames('mt-0.5 shrink-0', severityIcons[problem.severity])} />
+      <span className="min-w-0 flex-1 whitespace-pre-wrap break-words text-bolt-elements-textSecondary">
+        {problem.message}
+        <span className="ml-2 text-bolt-elements-textTertiary">
+          {problem.source}
+          {problem.code !== undefined && `(${problem.code})`} [{problem.line}, {problem.column + 1}]
+        </span>
+      </span>
+    </button>
+  );
+
+  return (
+    <div className={classNames('flex flex-col overflow-hidden bg-bolt-elements-background-depth-1 text-sm', className)}>
+      <div className="flex items-center gap-2 border-b border-bolt-elements-borderColor px-3 py-1.5 text-xs text-bolt-elements-textTertiary">
+        <span>
+          {problems.length === 0
+            ? 'No problems have been detected'
+            : `${errorCount} ${errorCount === 1 ? 'error' : 'errors'}, ${problems.length - errorCount} other`}
+        </span>
+        <button
+          title="Clear the problems reported by the terminal and the preview"
+          disabled={problems.length === 0}
+          className="ml-auto flex items-center gap-1 rounded px-1.5 py-0.5 enabled:hover:text-bolt-elements-textPrimary disabled:opacity-30"
+          onClick={() => workbenchStore.clearProblems()}
+        >
+          <div className="i-ph:broom" />
+          Clear
+        </button>
+        <button
+          disabled={!allowFix || problems.length === 0}
+          className="flex items-center gap-1 rounded bg-bolt-elements-button-primary-background px-1.5 py-0.5 text-bolt-elements-button-primary-text enabled:hover:bg-bolt-elements-button-primary-backgroundHover disabled:opacity-30"
+          onClick={() => workbenchStore.sendProblemsToChat(problems)}
+        >
+          <div className="i-ph:magic-wand" />
+          Fix all with AI
+        </button>
+      </div>
+      <div className="flex-1 overflow-y-auto py-1">
+        {groups.map(([filePath, fileProblems]) => (
+          <div key={filePath}>
+            <button
+              className="flex w-full items-center gap-1 px-2 py-0.5 text-bolt-elements-textPrimary hover:bg-bolt-elements-item-backgroundActive"
+              onClick={() => toggleCollapsed(filePath)}
+            >
+              <div
+                className={classNames('shrink-0', collapsed.has(filePath) ? 'i-ph:caret-right' : 'i-ph:caret-down')}
+              />
+              <div className="i-ph:file-duotone shrink-0" />
+              <span className="truncate">{extractRelativePath(filePath)}</span>
+              <span className="ml-auto shrink-0 rounded-full bg-bolt-elements-background-depth-3 px-1.5 text-xs text-bolt-elements-textSecondary">
+                {fileProblems.length}
+              </span>
+            </button>
+            {!collapsed.has(filePath) && fileProblems.map(renderProblem)}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+});
@@ -0,0 +1,323 @@
+import { useStore } from '@nanostores/react';
+import { memo, useEffect, useMemo, useRef, useState } from 'react';
+import { toast } from 'react-toastify';
+import { workbenchStore } from '~/lib/stores/workbench';
+import { classNames } from '~/utils/classNames';
+import { extractRelativePath } from '~/utils/diff';
+import { createScopedLogger } from '~/utils/logger';
+import {
+  createSearchRegex,
+  replaceInContent,
+  type FileSearchResult,
+  type SearchMatch,
+  type SearchOptions,
+  type SearchResults,
+} from '~/utils/search';
+
+const logger = createScopedLogger('SearchPanel');
+
+const SEARCH_DELAY = 200;
+
+interface SearchPanelProps {
+  className?: string;
+
+  // replacing is disabled while the AI is writing files
+  allowReplace?: boolean;
+}
+
+interface OptionToggleProps {
+  icon: string;
+  title: string;
+  active: boolean;
+  onToggle: () => void;
+}
+
+const OptionToggle = memo(({ icon, title, active, onToggle }: OptionToggleProps) => (
+  <button
+    title={title}
+    className={classNames('flex items-center rounded p-0.5', {
+      'bg-bolt-elements-item-backgroundAccent text-bolt-elements-item-contentAccent': active,
+      'text-bolt-elements-textTertiary hover:text-bolt-elements-textPrimary': !active,
+    })}
+    onClick={onToggle}
+  >
+    <div className={icon} />
+  </button>
+));
+
+const inputClasses =
+  'w-full min-w-0 bg-transparent px-2 py-1 text-sm text-bolt-elements-textPrimary placeholder-bolt-elements-textTertiary focus:outline-none';
+
+export const SearchPanel = memo(({ className, allowReplace = true }: SearchPanelProps) => {
+  const files = useStore(workbenchStore.files);
+
+  const [query, setQuery] = useState('');
+  const [replacement, setReplacement] = useState('');
+  const [showReplace, setShowReplace] = useState(false);
+  const [options, setOptions] = useState<SearchOptions>({ isRegex: false, caseSensitive: false, wholeWord: false });
+  const [results, setResults] = useState<SearchResults>();
+  const [error, setError] = useState<string>();
+  const [collapsed, setCollapsed] = useState(new Set<string>());
+  const [isReplacing, setIsReplacing] = useState(false);
+
+  // only the latest search may update the results
+  const searchIdRef = useRef(0);
+
+  useEffect(() => {
+    const searchId = ++searchIdRef.current;
+
+    if (!query) {
+      setResults(undefined);
+      setError(undefined);
+
+      return undefined;
+    }
+
+    const timeout = setTimeout(() => {
+      workbenchStore
+        .searchFiles(query, options)
+        .then((searchResults) => {
+          if (searchId === searchIdRef.current) {
+            setResults(searchResults);
+            setError(undefined);
+          }
+        })
+        .catch((searchError: Error) => {
+          if (searchId === searchIdRef.current) {
+            setResults(undefined);
+            setError(searchError.message);
+          }
+        });
+    }, SEARCH_DELAY);
+
+    return () => clearTimeout(timeout);
+  }, [query, options, files]);
+
+  const regex = useMemo(() => {
+    try {
+      return query ? createSearchRegex(query, options) : undefined;
+    } catch {
+      return undefined;
+    }
+  }, [query, options]);
+
+  const toggleOption = (option: keyof SearchOptions) => {
+    setOptions((previous) => ({ ...previous, [option]: !previous[option] }));
+  };
+
+  const toggleCollapsed = (filePath: string) => {
+    setCollapsed((previous) => {
+      const next = new Set(previous);
+
+      if (!next.delete(filePath)) {
+        next.add(filePath);
+      }
+
+      return next;
+    });
+  };
+
+  const getReplacementPreview = (matchedText: string) => {
+    if (!regex || !options.isRegex) {
+      return replacement;
+    }
+
+    // expand capture groups, lookarounds can't match the isolated text so those fall back to the raw input
+    const result = replaceInContent(matchedText, regex, replacement, true);
+
+    return result.count > 0 ? result.content : replacement;
+  };
+
+  const replaceIn = async (fileResults: FileSearchResult[]) => {
+    if (!regex || fileResults.length === 0) {
+      return;
+    }
+
+    const matchCount = fileResults.reduce((count, file) => count + file.matches.length, 0);
+    const fileLabel =
+      fileResults.length === 1 ? extractRelativePath(fileResults[0].filePath) : `${fileResults.length} files`;
+
+    if (!window.confirm(`Replace ${matchCount} ${matchCount === 1 ? 'match' : 'matches'} in ${fileLabel}?`)) {
+      return;
+    }
+
+    setIsReplacing(true);
+
+    try {
+      const { count, skipped } = await workbenchStore.replaceInFiles(
+        fileResults.map((file) => file.filePath),
+        regex,
+        replacement,
+        options.isRegex,
+      );
+
+      toast.success(`Replaced ${count} ${count === 1 ? 'match' : 'matches'}`);
+
+      if (skipped.length > 0) {
+        toast.warning(`Skipped ${skipped.length} file(s) with unsaved changes, save them and try again`);
+      }
+    } catch (replaceError) {
+      logger.error('Failed to replace', replaceError);
+      toast.error('Failed to replace: ' + (replaceError as Error).message);
+    } finally {
+      setIsReplacing(false);
+    }
+  };
+
+  const renderMatch = (file: FileSearchResult, match: SearchMatch, index: number) => {
+    const before = match.preview.slice(0, match.previewColumn);
+    const matchedText = match.preview.slice(match.previewColumn, match.previewColumn + match.length);
+    const after = match.preview.slice(match.previewColumn + match.length);
+    const showsReplacement = showReplace && allowReplace;
+
+    return (
+      <button
+        key={index}
+        title={`Line ${match.line}`}
+        className="flex w-full items-baseline gap-2 py-0.5 pl-7 pr-2 text-left hover:bg-bolt-elements-item-backgroundActive"
+        onClick={() =>
+          workbenchStore.openFileAt({
+            filePath: file.filePath,
+            line: match.line,
+            column: match.column,
+            length: match.length,
+          })
+        }
+      >
+        <span className="shrink-0 text-xs text-bolt-elements-textTertiary">{match.line}</span>
+        <span className="truncate whitespace-pre font-mono text-xs text-bolt-elements-textSecondary">
+          {before.trimStart()}
+          <span
+            className={classNames('rounded-sm text-bolt-elements-textPrimary', {
+              'bg-yellow-500/30': !showsReplacement,
+              'bg-red-500/30 line-through': showsReplacement,
+            })}
+          >
+            {matchedText}
+          </span>
+          {showsReplacement && (
+            <span className="rounded-sm bg-green-500/30 text-bolt-elements-textPrimary">
+              {getReplacementPreview(matchedText)}
+            </span>
+          )}
+          {after}
+        </span>
+      </button>
+    );
+  };
+
+  const renderSummary = () => {
+    if (error) {
+      return <span className="text-red-500">{error}</span>;
+    }
+
+    if (!results) {
+      return null;
+    }
+
+    if (results.matchCount === 0) {
+      return 'No results';
+    }
+
+    const summary = `${results.matchCount}${results.truncated ? '+' : ''} ${results.matchCount === 1 ? 'result' : 'results'} in ${results.files.length} ${results.files.length === 1 ? 'file' : 'files'}`;
+
+    return results.truncated ? `${summary}, refine the search to see everything` : summary;
+  };
+
+  return (
+    <div className={classNames('flex flex-col overflow-hidden text-sm', className)}>
+      <div className="flex flex-col gap-1 border-b border-bolt-elements-borderColor p-2">
+        <div className="flex items-start gap-1">
+          <button
+            title="Toggle replace"
+            className="mt-1 flex items-center text-bolt-elements-textTertiary hover:text-bolt-elements-textPrimary"
+            onClick={() => setShowReplace(!showReplace)}
+          >
+            <div className={showReplace ? 'i-ph:caret-down' : 'i-ph:caret-right'} />
+          </button>
+          <div className="flex min-w-0 flex-1 flex-col gap-1">
+            <div className="flex items-center rounded-md border border-bolt-elements-borderColor bg-bolt-elements-background-depth-1 pr-1 focus-within:border-bolt-elements-borderColorActive">
+              <input
+                className={inputClasses}
+                placeholder="Search"
+                value={query}
+                onChange={(event) => setQuery(event.target.value)}
+              />
+              <OptionToggle
+                icon="i-ph:text-aa"
+                title="Match case"
+                active={options.caseSensitive}
+                onToggle={() => toggleOption('caseSensitive')}
+              />
+              <OptionToggle
+                icon="i-ph:text-underline"
+                title="Match whole word"
+                active={options.wholeWord}
+                onToggle={() => toggleOption('wholeWord')}
+              />
+              <OptionToggle
+                icon="i-ph:asterisk"
+                title="Use regular expression"
+                active={options.isRegex}
+                onToggle={() => toggleOption('isRegex')}
+              />
+            </div>
+            {showReplace && (
+              <div className="flex items-center rounded-md border border-bolt-elements-borderColor bg-bolt-elements-background-depth-1 pr-1 focus-within:border-bolt-elements-borderColorActive">
+                <input
+                  className={inputClasses}
+                  placeholder="Replace"
+                  value={replacement}
+                  onChange={(event) => setReplacement(event.target.value)}
+                />
+                <button
+                  title="Replace all"
+                  disabled={!allowReplace || isReplacing || !results?.matchCount}
+                  className="flex items-center rounded p-0.5 text-bolt-elements-textTertiary enabled:hover:text-bolt-elements-textPrimary disabled:opacity-30"
+                  onClick={() => replaceIn(results?.files ?? [])}
+                >
+                  <div className="i-ph:swap" />
+                </button>
+              </div>
+            )}
+          </div>
+        </div>
+        <div className="px-5 text-xs text-bolt-elements-textTertiary">{renderSummary()}</div>
+      </div>
+      <div className="flex-1 overflow-y-auto py-1">
+        {results?.files.map((file) => (
+          <div key={file.filePath}>
+            <div className="group flex items-center gap-1 px-2 py-0.5 text-bolt-elements-textPrimary hover:bg-bolt-elements-item-backgroundActive">
+              <button className="flex min-w-0 flex-1 items-center gap-1" onClick={() => toggleCollapsed(file.filePath)}>
+                <div
+                  className={classNames(
+                    'shrink-0',
+                    collapsed.has(file.filePath) ? 'i-ph:caret-right' : 'i-ph:caret-down',
+                  )}
+                />
+                <div className="i-ph:file-duotone shrink-0" />
+                <span className="truncate" title={extractRelativePath(file.filePath)}>
+                  {extractRelativePath(file.filePath)}
+                </span>
+              </button>
+              {showReplace && allowReplace && (
+                <button
+                  title="Replace in this file"
+                  disabled={isReplacing}
+                  className="hidden items-center text-bolt-elements-textTertiary hover:text-bolt-elements-textPrimary group-hover:flex"
+                  onClick={() => replaceIn([file])}
+                >
+                  <div className="i-ph:swap" />
+                </button>
+              )}
+              <span className="shrink-0 rounded-full bg-bolt-elements-background-depth-3 px-1.5 text-xs text-bolt-elements-textSecondary">
+                {file.matches.length}
+              </span>
+            </div>
+            {!collapsed.has(file.filePath) && file.matches.map((match, index) => renderMatch(file, match, index))}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+});
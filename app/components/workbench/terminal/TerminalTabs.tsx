@@ -3,9 +3,11 @@ import React, { memo, useEffect, useRef, useState } from 'react';
 import { Panel, type ImperativePanelHandle } from 'react-resizable-panels';
 import { IconButton } from '~/components/ui/IconButton';
 import { shortcutEventEmitter } from '~/lib/hooks';
+import { streamingState } from '~/lib/stores/streaming';
 import { themeStore } from '~/lib/stores/theme';
 import { workbenchStore } from '~/lib/stores/workbench';
 import { classNames } from '~/utils/classNames';
+import { ProblemsPanel } from '~/components/workbench/ProblemsPanel';
 import { Terminal, type TerminalRef } from './Terminal';
 import { createScopedLogger } from '~/utils/logger';
 
@@ -16,6 +18,9 @@ export const DEFAULT_TERMINAL_SIZE = 25;
 
 export const TerminalTabs = memo(() => {
   const showTerminal = useStore(workbenchStore.showTerminal);
+  const showProblems = useStore(workbenchStore.showProblems);
+  const problems = useStore(workbenchStore.problems);
+  const isStreaming = useStore(streamingState);
   const theme = useStore(themeStore);
 
   const terminalRefs = useRef<Array<TerminalRef | null>>([]);
@@ -28,10 +33,15 @@ export const TerminalTabs = memo(() => {
   const addTerminal = () => {
     if (terminalCount < MAX_TERMINALS) {
       setTerminalCount(terminalCount + 1);
-      setActiveTerminal(terminalCount);
+      selectTerminal(terminalCount);
     }
   };
 
+  const selectTerminal = (index: number) => {
+    setActiveTerminal(index);
+    workbenchStore.showProblems.set(false);
+  };
+
   useEffect(() => {
     const { current: terminal } = terminalPanelRef;
 
@@ -88,7 +98,7 @@ export const TerminalTabs = memo(() => {
         <div className="bg-bolt-elements-terminals-background h-full flex flex-col">
           <div className="flex items-center bg-bolt-elements-background-depth-2 border-y border-bolt-elements-borderColor gap-1.5 min-h-[34px] p-2">
             {Array.from({ length: terminalCount + 1 }, (_, index) => {
-              const isActive = activeTerminal === index;
+              const isActive = !showProblems && activeTerminal === index;
 
               return (
                 <React.Fragment key={index}>
@@ -104,7 +114,7 @@ export const TerminalTabs = memo(() => {
                             !isActive,
                         },
                       )}
-                      onClick={() => setActiveTerminal(index)}
+                      onClick={() => selectTerminal(index)}
                     >
                       <div className="i-ph:terminal-window-duotone text-lg" />
                       Bolt Terminal
@@ -121,7 +131,7 @@ export const TerminalTabs = memo(() => {
                               !isActive,
                           },
                         )}
-                        onClick={() => setActiveTerminal(index)}
+                        onClick={() => selectTerminal(index)}
                       >
                         <div className="i-ph:terminal-window-duotone text-lg" />
                         Terminal {terminalCount > 1 && index}
@@ -132,6 +142,25 @@ export const TerminalTabs = memo(() => {
               );
             })}
             {terminalCount < MAX_TERMINALS && <IconButton icon="i-ph:plus" size="md" onClick={addTerminal} />}
+            <button
+              className={classNames(
+                'flex items-center text-sm cursor-pointer gap-1.5 px-3 py-2 h-full whitespace-nowrap rounded-full',
+                {
+                  'bg-bolt-elements-terminals-buttonBackground text-bolt-elements-textPrimary': showProblems,
+                  'bg-bolt-elements-background-depth-2 text-bolt-elements-textSecondary hover:bg-bolt-elements-terminals-buttonBackground':
+                    !showProblems,
+                },
+              )}
+              onClick={() => workbenchStore.showProblems.set(true)}
+            >
+              <div className="i-ph:warning-circle-duotone text-lg" />
+              Problems
+              {problems.length > 0 && (
+                <span className="rounded-full bg-bolt-elements-background-depth-3 px-1.5 text-xs">
+                  {problems.length}
+                </span>
+              )}
+            </button>
             <IconButton
               className="ml-auto"
               icon="i-ph:caret-down"
@@ -140,8 +169,9 @@ export const TerminalTabs = memo(() => {
               onClick={() => workbenchStore.toggleTerminal(false)}
             />
           </div>
+          <ProblemsPanel className={classNames('h-full', { hidden: !showProblems })} allowFix={!isStreaming} />
           {Array.from({ length: terminalCount + 1 }, (_, index) => {
-            const isActive = activeTerminal === index;
+            const isActive = !showProblems && activeTerminal === index;
 
             logger.debug(`Starting bolt terminal [${index}]`);
 
@@ -0,0 +1,109 @@
+import type { Deployment, DeployProvider, DeploySite } from '~/types/deploy';
+import { requestDeployApi, sha } from './request';
+
+const API_URL = 'https://api.cloudflare.com/client/v4';
+
+interface CloudflareResponse<T> {
+  result: T;
+}
+
+interface PagesProject {
+  name: string;
+  subdomain: string;
+}
+
+interface PagesDeployment {
+  id: string;
+  url: string;
+  latest_stage: { name: string; status: string };
+}
+
+async function request<T>(
+  settings: Record<string, string>,
+  path: string,
+  init: { method?: string; body?: object } = {},
+) {
+  const { result } = await requestDeployApi<CloudflareResponse<T>>('Cloudflare', `${API_URL}${path}`, {
+    ...init,
+    headers: { Authorization: `Bearer ${settings.token}` },
+  });
+
+  return result;
+}
+
+function projectPath(settings: Record<string, string>, name = '') {
+  return `/accounts/${settings.accountId}/pages/projects${name && `/${name}`}`;
+}
+
+function toSite(project: PagesProject): DeploySite {
+  // projects are addressed by their name
+  return { id: project.name, name: project.name, url: `https://${project.subdomain}` };
+}
+
+function toDeployment(deployment: PagesDeployment): Deployment {
+  const { name, status } = deployment.latest_stage;
+
+  if (status === 'failure' || status === 'canceled') {
+    return { id: deployment.id, state: 'error', error: `The ${name} stage of the deployment failed` };
+  }
+
+  return {
+    id: deployment.id,
+    state: name === 'deploy' && status === 'success' ? 'ready' : 'building',
+    url: deployment.url,
+  };
+}
+
+/**
+ * Cloudflare Pages through direct uploads, the build output is sent with the deployment.
+ */
+export const cloudflareProvider: DeployProvider = {
+  type: 'cloudflare',
+
+  async connect(settings) {
+    const account = await request<{ name: string }>(settings, `/accounts/${settings.accountId}`);
+    return account.name;
+  },
+
+  async getSite(settings, siteId) {
+    return toSite(await request<PagesProject>(settings, projectPath(settings, siteId)));
+  },
+
+  async createSite(settings, name) {
+    return toSite(
+      await request<PagesProject>(settings, projectPath(settings), {
+        method: 'POST',
+        body: { name, production_branch: 'main' },
+      }),
+    );
+  },
+
+  async upload(settings, site, files) {
+    // the manifest maps the paths to the form fields holding the files, named by a hash of their content
+    const manifest: Record<string, string> = {};
+    const form = new FormData();
+
+    for (const [filePath, content] of Object.entries(files)) {
+      const hash = (await sha('SHA-256', content)).slice(0, 32);
+
+      manifest[filePath] = hash;
+      form.set(hash, new Blob([content]), filePath.split('/').pop());
+    }
+
+    form.set('manifest', JSON.stringify(manifest));
+    form.set('branch', 'main');
+
+    const deployment = await request<PagesDeployment>(settings, `${projectPath(settings, site.id)}/deployments`, {
+      method: 'POST',
+      body: form,
+    });
+
+    return toDeployment(deployment);
+  },
+
+  async getStatus(settings, site, deploymentId) {
+    return toDeployment(
+      await request<PagesDeployment>(settings, `${projectPath(settings, site.id)}/deployments/${deploymentId}`),
+    );
+  },
+};
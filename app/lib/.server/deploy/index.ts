@@ -0,0 +1,63 @@
+import type { DeployProviderType, DeploySite } from '~/types/deploy';
+import { cloudflareProvider } from './cloudflare';
+import { netlifyProvider } from './netlify';
+import { findOnDeployApi, wait } from './request';
+import { s3Provider } from './s3';
+import { vercelProvider } from './vercel';
+import { webhookProvider } from './webhook';
+
+export { DeployApiError } from './request';
+
+const STATUS_ATTEMPTS = 120;
+
+export const deployProviders = [netlifyProvider, vercelProvider, cloudflareProvider, s3Provider, webhookProvider];
+
+export function getDeployProvider(type: DeployProviderType) {
+  const provider = deployProviders.find((provider) => provider.type === type);
+
+  if (!provider) {
+    throw new Error(`Unknown deployment target ${type}`);
+  }
+
+  return provider;
+}
+
+interface DeployOptions {
+  // the site of an earlier deployment of the chat, a new one is created without it or when it is gone
+  siteId?: string;
+  siteName: string;
+  files: Record<string, Uint8Array>;
+}
+
+/**
+ * Uploads the files to the site and waits until the deployment is live.
+ */
+export async function deploy(type: DeployProviderType, settings: Record<string, string>, options: DeployOptions) {
+  const provider = getDeployProvider(type);
+
+  let site: DeploySite | undefined;
+
+  if (options.siteId) {
+    const siteId = options.siteId;
+    site = await findOnDeployApi(() => provider.getSite(settings, siteId));
+  }
+
+  site ??= await provider.createSite(settings, options.siteName);
+
+  let deployment = await provider.upload(settings, site, options.files);
+
+  for (let attempt = 0; deployment.state === 'building'; attempt++) {
+    if (attempt >= STATUS_ATTEMPTS) {
+      throw new Error('The deployment timed out');
+    }
+
+    await wait(1000);
+    deployment = await provider.getStatus(settings, site, deployment.id);
+  }
+
+  if (deployment.state === 'error') {
+    throw new Error(deployment.error ?? 'The deployment failed');
+  }
+
+  return { site, deployment };
+}
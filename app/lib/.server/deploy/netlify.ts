@@ -0,0 +1,105 @@
+import type { Deployment, DeployProvider, DeploySite } from '~/types/deploy';
+import { requestDeployApi, sha, wait } from './request';
+
+const API_URL = 'https://api.netlify.com/api/v1';
+const PREPARE_ATTEMPTS = 60;
+
+interface NetlifySite {
+  id: string;
+  name: string;
+  url: string;
+  ssl_url?: string;
+}
+
+interface NetlifyDeploy {
+  id: string;
+  state: string;
+  required?: string[];
+  url?: string;
+  ssl_url?: string;
+  error_message?: string;
+}
+
+function request<T>(
+  settings: Record<string, string>,
+  path: string,
+  init: { method?: string; body?: object | BodyInit } = {},
+) {
+  return requestDeployApi<T>('Netlify', `${API_URL}${path}`, {
+    ...init,
+    headers: {
+      Authorization: `Bearer ${settings.token}`,
+      ...(init.body instanceof Uint8Array && { 'Content-Type': 'application/octet-stream' }),
+    },
+  });
+}
+
+function toSite(site: NetlifySite): DeploySite {
+  return { id: site.id, name: site.name, url: site.ssl_url || site.url };
+}
+
+function toDeployment(deploy: NetlifyDeploy): Deployment {
+  if (deploy.state === 'ready') {
+    return { id: deploy.id, state: 'ready', url: deploy.ssl_url || deploy.url };
+  }
+
+  if (deploy.state === 'error') {
+    return { id: deploy.id, state: 'error', error: deploy.error_message || 'The deployment failed' };
+  }
+
+  return { id: deploy.id, state: 'building' };
+}
+
+export const netlifyProvider: DeployProvider = {
+  type: 'netlify',
+
+  async connect(settings) {
+    const user = await request<{ full_name?: string; email: string }>(settings, '/user');
+    return user.full_name || user.email;
+  },
+
+  async getSite(settings, siteId) {
+    return toSite(await request<NetlifySite>(settings, `/sites/${siteId}`));
+  },
+
+  async createSite(settings, name) {
+    return toSite(await request<NetlifySite>(settings, '/sites', { method: 'POST', body: { name } }));
+  },
+
+  async upload(settings, site, files) {
+    const digests: Record<string, string> = {};
+
+    for (const [filePath, content] of Object.entries(files)) {
+      digests[filePath] = await sha('SHA-1', content);
+    }
+
+    let deploy = await request<NetlifyDeploy>(settings, `/sites/${site.id}/deploys`, {
+      method: 'POST',
+      body: { files: digests, async: true },
+    });
+
+    // the files Netlify does not have yet are known once the deploy is prepared
+    for (let attempt = 0; !['prepared', 'uploaded', 'ready', 'error'].includes(deploy.state); attempt++) {
+      if (attempt >= PREPARE_ATTEMPTS) {
+        throw new Error('Netlify took too long to prepare the deployment');
+      }
+
+      await wait(1000);
+      deploy = await request<NetlifyDeploy>(settings, `/sites/${site.id}/deploys/${deploy.id}`);
+    }
+
+    const required = deploy.required && new Set(deploy.required);
+
+    for (const [filePath, content] of Object.entries(files)) {
+      if (!required || required.has(digests[filePath])) {
+        await request(settings, `/deploys/${deploy.id}/files${encodeURI(filePath)}`, { method: 'PUT', body: content });
+      }
+    }
+
+    return toDeployment(deploy);
+  },
+
+  async getStatus(settings, site, deploymentId) {
+    return toDeployment(await request<NetlifyDeploy>(settings, `/sites/${site.id}/deploys/${deploymentId}`));
+  },
+};
@@ -0,0 +1,95 @@
+export class DeployApiError extends Error {
+  constructor(
+    message: string,
+    readonly status: number,
+  ) {
+    super(message);
+  }
+}
+
+interface RequestInit {
+  method?: string;
+  headers?: Record<string, string>;
+
+  // objects are sent as JSON, anything else as it is
+  body?: object | BodyInit;
+}
+
+function isJsonBody(body: RequestInit['body']) {
+  return (
+    body !== undefined &&
+    typeof body === 'object' &&
+    !(body instanceof Uint8Array) &&
+    !(body instanceof ArrayBuffer) &&
+    !(body instanceof Blob) &&
+    !(body instanceof FormData)
+  );
+}
+
+/**
+ * Calls the API of a deployment target, errors carry what the service answered. Answers that aren't JSON
+ * resolve with `undefined`.
+ */
+export async function requestDeployApi<T>(label: string, url: string, init: RequestInit = {}): Promise<T> {
+  const json = isJsonBody(init.body);
+
+  const response = await fetch(url, {
+    method: init.method ?? 'GET',
+    headers: {
+      Accept: 'application/json',
+      ...(json && { 'Content-Type': 'application/json' }),
+      ...init.headers,
+    },
+    body: json ? JSON.stringify(init.body) : (init.body as BodyInit | undefined),
+  });
+
+  if (!response.ok) {
+    const details = await response.text().catch(() => '');
+
+    throw new DeployApiError(
+      `${label} responded with ${response.status}${details ? `: ${details.slice(0, 200)}` : ''}`,
+      response.status,
+    );
+  }
+
+  // webhooks and storage APIs may answer with plain text or XML, only JSON answers carry a result
+  const text = await response.text();
+  const isJson = /\bjson\b/i.test(response.headers.get('Content-Type') ?? '');
+
+  return (text && isJson ? JSON.parse(text) : undefined) as T;
+}
+
+/**
+ * Returns `undefined` instead of throwing when the service answers 404.
+ */
+export async function findOnDeployApi<T>(request: () => Promise<T>): Promise<T | undefined> {
+  try {
+    return await request();
+  } catch (error) {
+    if (error instanceof DeployApiError && error.status === 404) {
+      return undefined;
+    }
+
+    throw error;
+  }
+}
+
+export async function sha(algorithm: 'SHA-1' | 'SHA-256', data: Uint8Array | string) {
+  const bytes = typeof data === 'string' ? new TextEncoder().encode(data) : data;
+  const digest = await crypto.subtle.digest(algorithm, bytes);
+
+  return [...new Uint8Array(digest)].map((byte) => byte.toString(16).padStart(2, '0')).join('');
+}
+
+// site names of most services only allow lowercase letters, digits and dashes
+export function toSiteName(name: string) {
+  return name
+    .toLowerCase()
+    .replace(/[^a-z0-9-]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+    .slice(0, 58);
+}
+
+export function wait(ms: number) {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
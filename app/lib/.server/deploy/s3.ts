@@ -0,0 +1,197 @@
+import type { DeployProvider, DeploySite } from '~/types/deploy';
+import { DeployApiError, sha } from './request';
+
+const SERVICE = 's3';
+const DEFAULT_REGION = 'us-east-1';
+
+// buckets serve objects with the type they were uploaded with, browsers need it to render the sites
+const CONTENT_TYPES: Record<string, string> = {
+  html: 'text/html; charset=utf-8',
+  css: 'text/css; charset=utf-8',
+  js: 'text/javascript; charset=utf-8',
+  mjs: 'text/javascript; charset=utf-8',
+  json: 'application/json',
+  svg: 'image/svg+xml',
+  png: 'image/png',
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  gif: 'image/gif',
+  webp: 'image/webp',
+  ico: 'image/x-icon',
+  txt: 'text/plain; charset=utf-8',
+  woff: 'font/woff',
+  woff2: 'font/woff2',
+  wasm: 'application/wasm',
+};
+
+interface S3Credentials {
+  region: string;
+  accessKeyId: string;
+  secretAccessKey: string;
+}
+
+interface S3Request {
+  method: string;
+  url: string;
+  headers?: Record<string, string>;
+
+  // hex SHA-256 of the body
+  payloadHash: string;
+}
+
+// encodes like S3 expects in canonical requests, which leaves fewer characters alone than `encodeURIComponent`
+function encodeRfc3986(value: string) {
+  return encodeURIComponent(value).replace(/[!'()*]/g, (char) => `%${char.charCodeAt(0).toString(16).toUpperCase()}`);
+}
+
+function encodePath(objectPath: string) {
+  return objectPath.split('/').map(encodeRfc3986).join('/');
+}
+
+async function hmac(key: Uint8Array | string, data: string) {
+  const keyBytes = typeof key === 'string' ? new TextEncoder().encode(key) : key;
+  const cryptoKey = await crypto.subtle.importKey('raw', keyBytes, { name: 'HMAC', hash: 'SHA-256' }, false, ['sign']);
+
+  return new Uint8Array(await crypto.subtle.sign('HMAC', cryptoKey, new TextEncoder().encode(data)));
+}
+
+function toHex(bytes: Uint8Array) {
+  return [...bytes].map((byte) => byte.toString(16).padStart(2, '0')).join('');
+}
+
+/**
+ * Signs a request with AWS Signature Version 4, returns the headers to send it with. The host is taken from
+ * the URL, fetch sets that header itself.
+ */
+export async function signS3Request(
+  request: S3Request,
+  credentials: S3Credentials,
+  now = new Date(),
+): Promise<Record<string, string>> {
+  const url = new URL(request.url);
+  const amzDate = now.toISOString().replace(/[-:]|\.\d{3}/g, '');
+  const date = amzDate.slice(0, 8);
+
+  const headers: Record<string, string> = {
+    ...request.headers,
+    'x-amz-content-sha256': request.payloadHash,
+    'x-amz-date': amzDate,
+  };
+
+  const canonicalHeaders = Object.entries({ ...headers, host: url.host })
+    .map(([name, value]) => [name.toLowerCase(), value.trim()])
+    .sort(([a], [b]) => (a < b ? -1 : 1));
+
+  const signedHeaders = canonicalHeaders.map(([name]) => name).join(';');
+
+  const canonicalQuery = [...url.searchParams]
+    .map(([key, value]) => `${encodeRfc3986(key)}=${encodeRfc3986(value)}`)
+    .sort()
+    .join('&');
+
+  const canonicalRequest = [
+    request.method,
+    encodePath(decodeURIComponent(url.pathname)),
+    canonicalQuery,
+    canonicalHeaders.map(([name, value]) => `${name}:${value}\n`).join(''),
+    signedHeaders,
+    request.payloadHash,
+  ].join('\n');
+
+  const scope = `${date}/${credentials.region}/${SERVICE}/aws4_request`;
+  const stringToSign = ['AWS4-HMAC-SHA256', amzDate, scope, await sha('SHA-256', canonicalRequest)].join('\n');
+
+  let signingKey = await hmac(`AWS4${credentials.secretAccessKey}`, date);
+
+  for (const part of [credentials.region, SERVICE, 'aws4_request']) {
+    signingKey = await hmac(signingKey, part);
+  }
+
+  const signature = toHex(await hmac(signingKey, stringToSign));
+
+  return {
+    ...headers,
+    Authorization: `AWS4-HMAC-SHA256 Credential=${credentials.accessKeyId}/${scope},SignedHeaders=${signedHeaders},Signature=${signature}`,
+  };
+}
+
+function getCredentials(settings: Record<string, string>): S3Credentials {
+  return {
+    region: settings.region || DEFAULT_REGION,
+    accessKeyId: settings.accessKeyId,
+    secretAccessKey: settings.secretAccessKey,
+  };
+}
+
+// buckets are addressed by path, which AWS and every S3-compatible server like MinIO support
+function getObjectUrl(settings: Record<string, string>, key = '') {
+  return `${settings.endpoint.replace(/\/+$/, '')}/${encodeRfc3986(settings.bucket)}/${encodePath(key)}`;
+}
+
+function getSite(settings: Record<string, string>, name: string): DeploySite {
+  const baseUrl = settings.publicUrl
+    ? `${settings.publicUrl.replace(/\/+$/, '')}/${encodePath(name)}`
+    : getObjectUrl(settings, name);
+  return { id: name, name, url: `${baseUrl}/index.html` };
+}
+
+async function send(
+  settings: Record<string, string>,
+  method: string,
+  url: string,
+  body?: Uint8Array,
+  headers?: Record<string, string>,
+) {
+  const signedHeaders = await signS3Request(
+    { method, url, headers, payloadHash: await sha('SHA-256', body ?? '') },
+    getCredentials(settings),
+  );
+
+  const response = await fetch(url, { method, headers: signedHeaders, body });
+
+  if (!response.ok) {
+    const details = await response.text().catch(() => '');
+
+    throw new DeployApiError(
+      `The bucket responded with ${response.status}${details ? `: ${details.slice(0, 200)}` : ''}`,
+      response.status,
+    );
+  }
+
+  return response;
+}
+
+/**
+ * A bucket of S3 or a compatible server like MinIO, each site is a folder the build output is copied to. The
+ * bucket has to allow public reads to serve the sites.
+ */
+export const s3Provider: DeployProvider = {
+  type: 's3',
+
+  async connect(settings) {
+    await send(settings, 'GET', `${getObjectUrl(settings)}?list-type=2&max-keys=1`);
+    return settings.bucket;
+  },
+
+  async getSite(settings, siteId) {
+    return getSite(settings, siteId);
+  },
+
+  async createSite(settings, name) {
+    return getSite(settings, name);
+  },
+
+  async upload(settings, site, files) {
+    for (const [filePath, content] of Object.entries(files)) {
+      await send(settings, 'PUT', getObjectUrl(settings, `${site.name}${filePath}`), content, {
+        'Content-Type': CONTENT_TYPES[filePath.split('.').pop()?.toLowerCase() ?? ''] ?? 'application/octet-stream',
+      });
+    }
+
+    return { id: `${Date.now()}`, state: 'ready', url: site.url };
+  },
+
+  async getStatus(_settings, site, deploymentId) {
+    return { id: deploymentId, state: 'ready', url: site.url };
+  },
+};
@@ -0,0 +1,94 @@
+import type { Deployment, DeployProvider, DeploySite } from '~/types/deploy';
+import { encodeBase64 } from '~/utils/base64';
+import { requestDeployApi } from './request';
+
+const API_URL = 'https://api.vercel.com';
+
+interface VercelProject {
+  id: string;
+  name: string;
+}
+
+interface VercelDeployment {
+  id: string;
+  url: string;
+  readyState: string;
+  alias?: string[];
+  errorMessage?: string;
+}
+
+function request<T>(settings: Record<string, string>, path: string, init: { method?: string; body?: object } = {}) {
+  const url = new URL(`${API_URL}${path}`);
+
+  if (settings.teamId) {
+    url.searchParams.set('teamId', settings.teamId);
+  }
+
+  return requestDeployApi<T>('Vercel', url.toString(), {
+    ...init,
+    headers: { Authorization: `Bearer ${settings.token}` },
+  });
+}
+
+function toSite(project: VercelProject): DeploySite {
+  return { id: project.id, name: project.name, url: `https://${project.name}.vercel.app` };
+}
+
+function toDeployment(deployment: VercelDeployment): Deployment {
+  const url = `https://${deployment.alias?.[0] ?? deployment.url}`;
+
+  switch (deployment.readyState) {
+    case 'READY':
+      return { id: deployment.id, state: 'ready', url };
+    case 'ERROR':
+    case 'CANCELED':
+      return { id: deployment.id, state: 'error', error: deployment.errorMessage || 'The deployment failed' };
+    default:
+      return { id: deployment.id, state: 'building', url };
+  }
+}
+
+/**
+ * Vercel, the build output is uploaded with the deployment and served as a static site.
+ */
+export const vercelProvider: DeployProvider = {
+  type: 'vercel',
+
+  async connect(settings) {
+    const { user } = await request<{ user: { username: string } }>(settings, '/v2/user');
+    return user.username;
+  },
+
+  async getSite(settings, siteId) {
+    return toSite(await request<VercelProject>(settings, `/v9/projects/${siteId}`));
+  },
+
+  async createSite(settings, name) {
+    return toSite(
+      await request<VercelProject>(settings, '/v10/projects', { method: 'POST', body: { name, framework: null } }),
+    );
+  },
+
+  async upload(settings, site, files) {
+    const deployment = await request<VercelDeployment>(settings, '/v13/deployments', {
+      method: 'POST',
+      body: {
+        name: site.name,
+        project: site.id,
+        target: 'production',
+        files: Object.entries(files).map(([filePath, content]) => ({
+          file: filePath.replace(/^\//, ''),
+          data: encodeBase64(content),
+          encoding: 'base64',
+        })),
+        projectSettings: { framework: null },
+      },
+    });
+
+    return toDeployment(deployment);
+  },
+
+  async getStatus(settings, _site, deploymentId) {
+    return toDeployment(await request<VercelDeployment>(settings, `/v13/deployments/${deploymentId}`));
+  },
+};
@@ -0,0 +1,68 @@
+import JSZip from 'jszip';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { deploy } from './index';
+
+describe('webhook deployments', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('should post the files as a zip and use the URL the webhook answers with', async () => {
+    const fetchMock = vi.fn(async () => Response.json({ id: 'build-1', url: 'https://sites.example.com/app' }));
+    vi.stubGlobal('fetch', fetchMock);
+
+    const { deployment } = await deploy(
+      'webhook',
+      { url: 'https://deploy.example.com/hook', secret: 'secret' },
+      {
+        siteName: 'bolt-diy-app',
+        files: {
+          '/index.html': new TextEncoder().encode('<h1>app</h1>'),
+          '/assets/app.js': new TextEncoder().encode('console.log(1)'),
+        },
+      },
+    );
+
+    expect(deployment).toEqual({ id: 'build-1', state: 'ready', url: 'https://sites.example.com/app' });
+
+    const [url, init] = fetchMock.mock.calls[0] as unknown as [string, RequestInit];
+
+    expect(url).toBe('https://deploy.example.com/hook');
+    expect(init.headers).toMatchObject({
+      'Content-Type': 'application/zip',
+      'X-Bolt-Site': 'bolt-diy-app',
+      Authorization: 'Bearer secret',
+    });
+
+    const zip = await JSZip.loadAsync(init.body as Uint8Array);
+
+    expect(Object.keys(zip.files).filter((name) => !zip.files[name].dir)).toEqual(['index.html', 'assets/app.js']);
+    expect(await zip.file('index.html')?.async('string')).toBe('<h1>app</h1>');
+  });
+
+  it('should deploy when the webhook answers with plain text', async () => {
+    vi.stubGlobal(
+      'fetch',
+      vi.fn(async () => new Response('OK', { headers: { 'Content-Type': 'text/plain' } })),
+    );
+
+    const { deployment } = await deploy(
+      'webhook',
+      { url: 'https://deploy.example.com/hook' },
+      { siteName: 'bolt-diy-app', files: { '/index.html': new TextEncoder().encode('<h1>app</h1>') } },
+    );
+
+    expect(deployment).toMatchObject({ id: expect.any(String), state: 'ready' });
+  });
+
+  it('should fail with the status the webhook answers with', async () => {
+    vi.stubGlobal(
+      'fetch',
+      vi.fn(async () => new Response('nope', { status: 403 })),
+    );
+
+    await expect(
+      deploy('webhook', { url: 'https://deploy.example.com/hook' }, { siteName: 'bolt-diy-app', files: {} }),
+    ).rejects.toMatchObject({ status: 403, message: 'The webhook responded with 403: nope' });
+  });
+});
@@ -0,0 +1,52 @@
+import JSZip from 'jszip';
+import type { DeployProvider } from '~/types/deploy';
+import { requestDeployApi } from './request';
+
+interface WebhookResponse {
+  id?: string;
+  url?: string;
+}
+
+/**
+ * POSTs the build output as a zip to a URL of your own, e.g. a server that unpacks it. The site name is sent in
+ * the `X-Bolt-Site` header, a JSON answer with a `url` is shown as the address of the deployment.
+ */
+export const webhookProvider: DeployProvider = {
+  type: 'webhook',
+
+  async connect(settings) {
+    return new URL(settings.url).host;
+  },
+
+  async getSite(_settings, siteId) {
+    return { id: siteId, name: siteId, url: '' };
+  },
+
+  async createSite(_settings, name) {
+    return { id: name, name, url: '' };
+  },
+
+  async upload(settings, site, files) {
+    const zip = new JSZip();
+
+    for (const [filePath, content] of Object.entries(files)) {
+      zip.file(filePath.replace(/^\//, ''), content);
+    }
+
+    const result = await requestDeployApi<WebhookResponse | undefined>('The webhook', settings.url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/zip',
+        'X-Bolt-Site': site.name,
+        ...(settings.secret && { Authorization: `Bearer ${settings.secret}` }),
+      },
+      body: await zip.generateAsync({ type: 'uint8array' }),
+    });
+
+    return { id: result?.id ?? `${Date.now()}`, state: 'ready', url: result?.url || site.url || undefined };
+  },
+
+  async getStatus(_settings, site, deploymentId) {
+    return { id: deploymentId, state: 'ready', url: site.url || undefined };
+  },
+};
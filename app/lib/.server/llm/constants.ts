@@ -1,9 +1,15 @@
 // see https://docs.anthropic.com/en/docs/about-claude/models
 export const MAX_TOKENS = 8000;
 
+// assumed context window for models that don't report one, kept small enough for local models
+export const DEFAULT_CONTEXT_WINDOW = 32768;
+
 // limits the number of model responses that can be returned in a single request
 export const MAX_RESPONSE_SEGMENTS = 2;
 
+// limits the number of tool call round-trips in native tool-calling mode
+export const MAX_TOOL_STEPS = 10;
+
 export interface File {
   type: 'file';
   content: string;
@@ -0,0 +1,49 @@
+import { describe, expect, it } from 'vitest';
+import { budgetContext, countTokens, outlineFile } from './context-budget';
+
+const smallFile = 'export const answer = 42;\n';
+const largeFile = Array.from(
+  { length: 400 },
+  (_, i) =>
+    `export function handler${i}(value: number) {\n  const doubled = value * 2;\n  const shifted = doubled + ${i};\n  console.log(shifted);\n  return shifted;\n}\n`,
+).join('\n');
+
+const file = (content: string) => ({ type: 'file' as const, content, isBinary: false });
+
+describe('budgetContext', () => {
+  it('should keep every file when the context window is large enough', () => {
+    const { contextFiles, report } = budgetContext({
+      contextFiles: { 'a.ts': file(smallFile), 'b.ts': file(largeFile) },
+      filePaths: ['/home/project/a.ts', '/home/project/b.ts'],
+      contextWindow: 200_000,
+      reservedTokens: 10_000,
+    });
+
+    expect(contextFiles['b.ts']).toEqual(file(largeFile));
+    expect(report).toMatchObject({ truncated: [], outlined: [], dropped: [], omittedPaths: 0 });
+  });
+
+  it('should truncate, outline and drop files in priority order once the budget runs out', () => {
+    const largeTokens = countTokens(largeFile);
+
+    const { contextFiles, report } = budgetContext({
+      contextFiles: { 'a.ts': file(largeFile), 'b.ts': file(largeFile), 'c.ts': file(largeFile) },
+      filePaths: ['/home/project/a.ts', '/home/project/b.ts', '/home/project/c.ts'],
+      contextWindow: Math.ceil((largeTokens * 1.3 + 1000) / 0.9),
+      reservedTokens: 1000,
+    });
+
+    expect(contextFiles['a.ts']?.type === 'file' && contextFiles['a.ts'].content).toBe(largeFile);
+    expect(report.outlined).toEqual(['b.ts']);
+    expect(report.dropped).toEqual(['c.ts']);
+    expect(report.usedTokens).toBeLessThanOrEqual(report.budget);
+  });
+});
+
+describe('outlineFile', () => {
+  it('should keep only declarations', () => {
+    expect(outlineFile('import a from "a";\n\nfunction run() {\n  return a;\n}')).toBe(
+      '// outline, 3 of 5 lines omitted\nimport a from "a";\nfunction run() {',
+    );
+  });
+});
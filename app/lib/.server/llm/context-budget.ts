@@ -0,0 +1,183 @@
+import { countTokens as countEncodedTokens } from 'gpt-tokenizer/encoding/cl100k_base';
+import type { FileMap } from './constants';
+import { WORK_DIR } from '~/utils/constants';
+
+/*
+ * cl100k is not the tokenizer of every model but is close enough to budget a prompt,
+ * provider tokenizers differ by ~10-20% which the reserve below absorbs
+ */
+const BUDGET_RESERVE = 0.1;
+
+// share of the budget the list of project files may take before it gets trimmed
+const FILE_LIST_SHARE = 0.2;
+
+// a truncated file is only worth sending when at least this much of it fits
+const MIN_TRUNCATED_TOKENS = 400;
+
+// the boltAction tag wrapping every file and the truncation marker
+const FILE_OVERHEAD_TOKENS = 30;
+
+// top level declarations plus indented class members and methods
+const OUTLINE_PATTERN =
+  /^(export\s|import\s|from\s|(async\s+)?function\s|class\s|interface\s|type\s|enum\s|const\s|let\s|var\s|def\s|fn\s|pub\s|@\w+)|^\s{2,4}(public\s|private\s|protected\s|static\s|async\s|def\s|fn\s|pub\s)/;
+
+export interface ContextBudgetReport {
+  contextWindow: number;
+  budget: number;
+  usedTokens: number;
+  truncated: string[];
+  outlined: string[];
+  dropped: string[];
+  omittedPaths: number;
+}
+
+export function countTokens(text: string) {
+  if (!text) {
+    return 0;
+  }
+
+  // file contents may contain special token markers like <|endoftext|>, count them as plain text
+  return countEncodedTokens(text, { disallowedSpecial: new Set() });
+}
+
+/**
+ * Counts the text of chat messages, images and other attachments are not part of the budget.
+ */
+export function countMessageTokens(messages: { content: unknown }[]) {
+  return messages.reduce<number>((total, { content }) => {
+    if (typeof content === 'string') {
+      return total + countTokens(content);
+    }
+
+    if (Array.isArray(content)) {
+      return total + content.reduce((sum, part) => sum + (part?.type === 'text' ? countTokens(part.text || '') : 0), 0);
+    }
+
+    return total;
+  }, 0);
+}
+
+/**
+ * Keeps only the lines declaring imports, exports, functions, classes and types so the model
+ * still knows what a file provides when its full content does not fit.
+ */
+export function outlineFile(content: string) {
+  const lines = content.split('\n');
+  const outline = lines.filter((line) => OUTLINE_PATTERN.test(line));
+
+  return `// outline, ${lines.length - outline.length} of ${lines.length} lines omitted\n${outline.join('\n')}`;
+}
+
+/**
+ * Keeps the head of a file up to the token limit.
+ */
+export function truncateFile(content: string, maxTokens: number) {
+  const lines = content.split('\n');
+  const kept: string[] = [];
+  let tokens = 0;
+
+  for (const line of lines) {
+    const lineTokens = countTokens(line) + 1;
+
+    if (tokens + lineTokens > maxTokens) {
+      break;
+    }
+
+    kept.push(line);
+    tokens += lineTokens;
+  }
+
+  return `${kept.join('\n')}\n// ... truncated, ${lines.length - kept.length} more lines`;
+}
+
+/**
+ * Fits the context files and the list of project files into what is left of the context window.
+ * Files are expected in priority order: each one is sent in full if it fits, otherwise it is
+ * truncated, reduced to an outline or dropped.
+ */
+export function budgetContext(options: {
+  contextFiles: FileMap;
+  filePaths: string[];
+  contextWindow: number;
+  reservedTokens: number;
+}) {
+  const { contextFiles, filePaths, contextWindow, reservedTokens } = options;
+  const budget = Math.max(0, Math.floor(contextWindow * (1 - BUDGET_RESERVE)) - reservedTokens);
+
+  const report: ContextBudgetReport = {
+    contextWindow,
+    budget,
+    usedTokens: 0,
+    truncated: [],
+    outlined: [],
+    dropped: [],
+    omittedPaths: 0,
+  };
+
+  let remaining = budget;
+
+  // the paths of the context files are always listed, other paths only while they fit
+  const contextPaths = new Set(Object.keys(contextFiles));
+  const listedPaths: string[] = [];
+  let listBudget = Math.floor(budget * FILE_LIST_SHARE);
+
+  for (const filePath of filePaths) {
+    const tokens = countTokens(filePath) + 1;
+    const isContextFile = contextPaths.has(filePath.replace(`${WORK_DIR}/`, ''));
+
+    if (!isContextFile && tokens > listBudget) {
+      report.omittedPaths++;
+      continue;
+    }
+
+    listedPaths.push(filePath);
+    listBudget -= tokens;
+    remaining -= tokens;
+  }
+
+  const budgetedFiles: FileMap = {};
+
+  for (const [filePath, dirent] of Object.entries(contextFiles)) {
+    if (!dirent || dirent.type !== 'file') {
+      continue;
+    }
+
+    const tokens = countTokens(dirent.content) + FILE_OVERHEAD_TOKENS;
+
+    if (tokens <= remaining) {
+      budgetedFiles[filePath] = dirent;
+      remaining -= tokens;
+      continue;
+    }
+
+    if (remaining >= Math.max(MIN_TRUNCATED_TOKENS, tokens / 2)) {
+      const content = truncateFile(dirent.content, remaining - FILE_OVERHEAD_TOKENS);
+      budgetedFiles[filePath] = { ...dirent, content };
+      remaining -= countTokens(content) + FILE_OVERHEAD_TOKENS;
+      report.truncated.push(filePath);
+      continue;
+    }
+
+    const outline = outlineFile(dirent.content);
+    const outlineTokens = countTokens(outline) + FILE_OVERHEAD_TOKENS;
+
+    if (outlineTokens <= remaining) {
+      budgetedFiles[filePath] = { ...dirent, content: outline };
+      remaining -= outlineTokens;
+      report.outlined.push(filePath);
+      continue;
+    }
+
+    report.dropped.push(filePath);
+  }
+
+  report.usedTokens = budget - remaining;
+
+  return { contextFiles: budgetedFiles, filePaths: listedPaths, report };
+}
+
+export function isContextTrimmed(report: ContextBudgetReport) {
+  return (
+    report.truncated.length > 0 || report.outlined.length > 0 || report.dropped.length > 0 || report.omittedPaths > 0
+  );
+}
@@ -0,0 +1,89 @@
+import { describe, expect, it } from 'vitest';
+import { applyEditorStepChanges, createEditorStepPrompt, parsePlan } from './create-plan';
+
+const planJson = JSON.stringify({
+  summary: 'Add a counter component',
+  files: [{ path: 'src/Counter.tsx', action: 'create' }],
+  steps: [
+    { title: 'Create the counter', description: 'Add src/Counter.tsx with a button', files: ['src/Counter.tsx'] },
+    { title: 'Render it', description: 'Use the counter in App.tsx' },
+  ],
+});
+
+describe('parsePlan', () => {
+  it('should read a plan wrapped in a code fence', () => {
+    const plan = parsePlan(`Here is the plan:\n\`\`\`json\n${planJson}\n\`\`\``);
+
+    expect(plan.summary).toBe('Add a counter component');
+    expect(plan.steps).toHaveLength(2);
+    expect(plan.steps[1].files).toEqual([]);
+  });
+
+  it('should fall back to a single step when the response is not a plan', () => {
+    const plan = parsePlan('Just add a counter to App.tsx');
+
+    expect(plan.steps).toEqual([
+      { title: 'Implement the request', description: 'Just add a counter to App.tsx', files: [] },
+    ]);
+  });
+});
+
+describe('createEditorStepPrompt', () => {
+  it('should mark earlier steps as done and ask for the current one only', () => {
+    const prompt = createEditorStepPrompt(parsePlan(planJson), 1);
+
+    expect(prompt).toContain('1. Create the counter (done)');
+    expect(prompt).toContain('Implement ONLY step 2: Render it');
+  });
+});
+
+describe('applyEditorStepChanges', () => {
+  const files = {
+    '/home/project/src/App.tsx': {
+      type: 'file' as const,
+      content: 'export const App = () => null;\n',
+      isBinary: false,
+    },
+  };
+
+  it('should apply the file actions and write_file calls of a step', () => {
+    const content = [
+      '<boltArtifact id="step" title="Step">',
+      '<boltAction type="file" filePath="src/Counter.tsx">export const Counter = () => 0;</boltAction>',
+      '</boltArtifact>',
+    ].join('\n');
+
+    const { files: updatedFiles, changedPaths } = applyEditorStepChanges(files, content, [
+      {
+        state: 'result',
+        toolCallId: '1',
+        toolName: 'write_file',
+        args: { path: 'src/App.tsx', content: 'export const App = () => <Counter />;\n' },
+        result: 'Queued for execution in the workbench.',
+      },
+    ]);
+
+    expect(changedPaths).toEqual(['src/Counter.tsx', 'src/App.tsx']);
+    expect(updatedFiles['/home/project/src/Counter.tsx']).toMatchObject({
+      content: 'export const Counter = () => 0;\n',
+    });
+    expect(updatedFiles['/home/project/src/App.tsx']).toMatchObject({
+      content: 'export const App = () => <Counter />;\n',
+    });
+  });
+
+  it('should keep files whose write was refused', () => {
+    const { files: updatedFiles, changedPaths } = applyEditorStepChanges(files, '', [
+      {
+        state: 'result',
+        toolCallId: '1',
+        toolName: 'write_file',
+        args: { path: 'src/App.tsx', content: '' },
+        result: 'Refused: src/App.tsx is locked by the user and must not be changed.',
+      },
+    ]);
+
+    expect(changedPaths).toEqual([]);
+    expect(updatedFiles).toEqual(files);
+  });
+});
@@ -0,0 +1,234 @@
+import { generateText, type CoreTool, type GenerateTextResult, type Message, type ToolInvocation } from 'ai';
+import { StreamingMessageParser } from '~/lib/runtime/message-parser';
+import { applyFilePatch } from '~/utils/patch';
+import { stripIndents } from '~/utils/stripIndent';
+import { WORK_DIR } from '~/utils/constants';
+import type { IProviderSetting } from '~/types/model';
+import type { ArchitectPlan } from '~/types/context';
+import { DEFAULT_MODEL, DEFAULT_PROVIDER, PROVIDER_LIST } from '~/utils/constants';
+import { createFilesContext, extractPropertiesFromMessage, simplifyBoltActions } from './utils';
+import { getFilePaths } from './select-context';
+import type { FileMap } from './constants';
+import { createScopedLogger } from '~/utils/logger';
+import { REFUSED_RESULT_PREFIX, resolveFilePath } from './tools';
+
+const logger = createScopedLogger('create-plan');
+
+// keeps a runaway plan from turning into dozens of editor calls
+const MAX_PLAN_STEPS = 8;
+
+const PLANNER_PROMPT = stripIndents`
+  You are a senior software architect. You plan the changes needed to fulfill the latest user request in a
+  project running in a WebContainer, another engineer will implement your plan one step at a time.
+
+  Respond ONLY with a JSON object of the following shape, without any other text:
+  {
+    "summary": "one or two sentences describing the approach",
+    "files": [{ "path": "relative/path.ts", "action": "create" | "modify" | "delete" }],
+    "steps": [{ "title": "short title", "description": "what to change and why, precise enough to implement", "files": ["relative/path.ts"] }]
+  }
+
+  RULES:
+  - Use between 1 and ${MAX_PLAN_STEPS} steps, each step must be implementable on its own in a single response.
+  - Order the steps so that every step only depends on the steps before it.
+  - Installing dependencies and starting the dev server belong in the steps like any other change.
+  - Do not write any code, the implementation is not your job.
+`;
+
+export function createEditorStepPrompt(plan: ArchitectPlan, stepIndex: number) {
+  const step = plan.steps[stepIndex];
+
+  return stripIndents`
+    An architect planned the changes for my last request:
+    ${plan.summary}
+
+    ${plan.steps.map((s, index) => `${index + 1}. ${s.title}${index < stepIndex ? ' (done)' : ''}`).join('\n')}
+
+    Implement ONLY step ${stepIndex + 1}: ${step.title}
+    ${step.description}
+    ${step.files.length ? `Files: ${step.files.join(', ')}` : ''}
+
+    Earlier steps are already implemented, do not repeat them and do not start on later steps.
+  `;
+}
+
+/**
+ * Applies the file changes of an editor step, written as actions in its text or as `write_file` calls, so
+ * the next step works on the current content. Returns the changed paths relative to the project root.
+ */
+export function applyEditorStepChanges(files: FileMap, content: string, toolInvocations: ToolInvocation[] = []) {
+  const updatedFiles: FileMap = { ...files };
+  const changedPaths = new Set<string>();
+
+  const writeFile = (filePath: string, fileContent: string) => {
+    const fullPath = resolveFilePath(filePath);
+
+    updatedFiles[fullPath] = { type: 'file', content: fileContent, isBinary: false };
+    changedPaths.add(fullPath.slice(WORK_DIR.length + 1));
+  };
+
+  const parser = new StreamingMessageParser({
+    callbacks: {
+      onActionClose: ({ action }) => {
+        if (action.type === 'file') {
+          writeFile(action.filePath, action.content);
+        } else if (action.type === 'patch') {
+          const dirent = updatedFiles[resolveFilePath(action.filePath)];
+
+          if (dirent?.type !== 'file') {
+            return;
+          }
+
+          try {
+            writeFile(action.filePath, applyFilePatch(dirent.content, action.content, action.filePath));
+          } catch (error: any) {
+            // the workbench reports the failed patch, the next step keeps the unpatched content
+            logger.warn(`Patch of ${action.filePath} does not apply: ${error?.message}`);
+          }
+        }
+      },
+    },
+  });
+
+  parser.parse('editor-step', content);
+
+  for (const invocation of toolInvocations) {
+    const refused = invocation.state === 'result' && String(invocation.result).startsWith(REFUSED_RESULT_PREFIX);
+
+    if (invocation.toolName === 'write_file' && !refused) {
+      writeFile(invocation.args.path, invocation.args.content);
+    }
+  }
+
+  return { files: updatedFiles, changedPaths: [...changedPaths] };
+}
+
+function isPlan(value: any): value is ArchitectPlan {
+  return (
+    value &&
+    typeof value.summary === 'string' &&
+    Array.isArray(value.files) &&
+    Array.isArray(value.steps) &&
+    value.steps.length > 0 &&
+    value.steps.every((step: any) => typeof step?.title === 'string' && typeof step?.description === 'string')
+  );
+}
+
+/**
+ * Reads the plan from the planner response, which is expected to be JSON but may be wrapped in a code
+ * fence or surrounded by text. Falls back to a single step carrying the whole response.
+ */
+export function parsePlan(text: string): ArchitectPlan {
+  const start = text.indexOf('{');
+  const end = text.lastIndexOf('}');
+
+  if (start !== -1 && end > start) {
+    try {
+      const plan = JSON.parse(text.slice(start, end + 1));
+
+      if (isPlan(plan)) {
+        return {
+          summary: plan.summary,
+          files: plan.files.filter((file) => typeof file?.path === 'string'),
+          steps: plan.steps.slice(0, MAX_PLAN_STEPS).map((step) => ({
+            title: step.title,
+            description: step.description,
+            files: Array.isArray(step.files) ? step.files.filter((file) => typeof file === 'string') : [],
+          })),
+        };
+      }
+    } catch (error) {
+      logger.warn('Failed to parse plan', error);
+    }
+  }
+
+  return {
+    summary: 'The planner did not return a structured plan',
+    files: [],
+    steps: [{ title: 'Implement the request', description: text.trim(), files: [] }],
+  };
+}
+
+export async function createPlan(props: {
+  messages: Message[];
+  env?: Env;
+  apiKeys?: Record<string, string>;
+  providerSettings?: Record<string, IProviderSetting>;
+  files?: FileMap;
+  contextFiles?: FileMap;
+  summary?: string;
+  onFinish?: (resp: GenerateTextResult<Record<string, CoreTool<any, any>>, never>) => void;
+}) {
+  const { messages, env: serverEnv, apiKeys, providerSettings, files, contextFiles, summary, onFinish } = props;
+  let currentModel = DEFAULT_MODEL;
+  let currentProvider = DEFAULT_PROVIDER.name;
+
+  const processedMessages = messages.map((message) => {
+    if (message.role === 'user') {
+      const { model, provider, content } = extractPropertiesFromMessage(message);
+      currentModel = model;
+      currentProvider = provider;
+
+      return { ...message, content };
+    } else if (message.role == 'assistant') {
+      let content = message.content;
+
+      content = simplifyBoltActions(content);
+      content = content.replace(/<div class=\\"__boltThought__\\">.*?<\/div>/s, '');
+      content = content.replace(/<think>.*?<\/think>/s, '');
+
+      return { ...message, content };
+    }
+
+    return message;
+  });
+
+  const provider = PROVIDER_LIST.find((p) => p.name === currentProvider) || DEFAULT_PROVIDER;
+
+  const extractTextContent = (message: Message) =>
+    Array.isArray(message.content)
+      ? (message.content.find((item) => item.type === 'text')?.text as string) || ''
+      : message.content;
+
+  let context = '';
+
+  if (files) {
+    context += `Files in the project:\n---\n${getFilePaths(files).join('\n')}\n---\n\n`;
+  }
+
+  if (contextFiles) {
+    context += `Relevant files:\n---\n${createFilesContext(contextFiles, true)}\n---\n\n`;
+  }
+
+  if (summary) {
+    context += `Summary of the chat so far:\n---\n${summary}\n---\n\n`;
+  }
+
+  logger.info(`Planning with ${provider.name} model ${currentModel}`);
+
+  const resp = await generateText({
+    system: PLANNER_PROMPT,
+    prompt: `${context}Conversation:
+---
+${processedMessages.map((x) => `---\n[${x.role}] ${extractTextContent(x)}\n---`).join('\n')}
+---
+
+Plan the changes for the latest user request.
+`,
+    model: provider.getModelInstance({
+      model: currentModel,
+      serverEnv,
+      apiKeys,
+      providerSettings,
+    }),
+  });
+
+  if (onFinish) {
+    onFinish(resp);
+  }
+
+  return {
+    plan: parsePlan(resp.text),
+    planner: { provider: provider.name, model: currentModel },
+  };
+}
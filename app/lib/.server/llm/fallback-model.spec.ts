@@ -0,0 +1,71 @@
+import { APICallError, type LanguageModelV1, type LanguageModelV1CallOptions } from 'ai';
+import { describe, expect, it, vi } from 'vitest';
+import { createFallbackModel, type FallbackCandidate } from './fallback-model';
+
+const callOptions: LanguageModelV1CallOptions = {
+  inputFormat: 'messages',
+  mode: { type: 'regular' },
+  prompt: [],
+};
+
+function createCandidate(model: string, doStream: LanguageModelV1['doStream']): FallbackCandidate {
+  return {
+    provider: 'Test',
+    model,
+    maxTokens: 1000,
+    instance: {
+      specificationVersion: 'v1',
+      provider: 'test',
+      modelId: model,
+      defaultObjectGenerationMode: undefined,
+      doGenerate: vi.fn(),
+      doStream,
+    },
+  };
+}
+
+function createApiError(statusCode: number) {
+  return new APICallError({
+    message: `Status ${statusCode}`,
+    url: 'http://localhost',
+    requestBodyValues: {},
+    statusCode,
+  });
+}
+
+describe('createFallbackModel', () => {
+  it('should fall back to the next model on rate limits and report it', async () => {
+    const response = { stream: new ReadableStream(), rawCall: { rawPrompt: null, rawSettings: {} } };
+    const primary = createCandidate('primary', vi.fn().mockRejectedValue(createApiError(429)));
+    const fallback = createCandidate('fallback', vi.fn().mockResolvedValue(response));
+    const onModelSelected = vi.fn();
+
+    const model = createFallbackModel([primary, fallback], onModelSelected);
+
+    await expect(model.doStream(callOptions)).resolves.toBe(response);
+    expect(onModelSelected).toHaveBeenCalledWith({ provider: 'Test', model: 'fallback', isFallback: true });
+  });
+
+  it('should report the model once while it answers every step', async () => {
+    const response = { stream: new ReadableStream(), rawCall: { rawPrompt: null, rawSettings: {} } };
+    const primary = createCandidate('primary', vi.fn().mockResolvedValue(response));
+    const onModelSelected = vi.fn();
+
+    const model = createFallbackModel([primary], onModelSelected);
+
+    await model.doStream(callOptions);
+    await model.doStream(callOptions);
+
+    expect(onModelSelected).toHaveBeenCalledTimes(1);
+  });
+
+  it('should not fall back on client errors', async () => {
+    const primary = createCandidate('primary', vi.fn().mockRejectedValue(createApiError(400)));
+    const fallback = createCandidate('fallback', vi.fn());
+
+    const model = createFallbackModel([primary, fallback]);
+
+    await expect(model.doStream(callOptions)).rejects.toThrow('Status 400');
+    expect(fallback.instance.doStream).not.toHaveBeenCalled();
+  });
+});
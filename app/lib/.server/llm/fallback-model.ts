@@ -0,0 +1,147 @@
+import { APICallError, type LanguageModelV1, type LanguageModelV1CallOptions } from 'ai';
+import type { FallbackModel, IProviderSetting } from '~/types/model';
+import { PROVIDER_LIST } from '~/utils/constants';
+import { LLMManager } from '~/lib/modules/llm/manager';
+import { createScopedLogger } from '~/utils/logger';
+import { MAX_TOKENS } from './constants';
+
+const logger = createScopedLogger('fallback-model');
+
+export interface FallbackCandidate extends FallbackModel {
+  instance: LanguageModelV1;
+  maxTokens: number;
+}
+
+export interface ModelSelection extends FallbackModel {
+  isFallback: boolean;
+}
+
+/**
+ * Rate limits, server errors and unreachable servers move on to the next model of the chain,
+ * other client errors (bad request, invalid key, ...) are returned as they are.
+ */
+export function isFailoverError(error: unknown) {
+  if (error instanceof Error && error.name === 'AbortError') {
+    return false;
+  }
+
+  if (APICallError.isInstance(error)) {
+    return error.isRetryable || error.statusCode === undefined;
+  }
+
+  // connection errors, e.g. a local Ollama or LMStudio server that isn't running
+  return true;
+}
+
+export function resolveFallbackCandidates(
+  chain: (FallbackModel & { maxTokens?: number })[],
+  options: {
+    serverEnv?: Env;
+    apiKeys?: Record<string, string>;
+    providerSettings?: Record<string, IProviderSetting>;
+
+    // the system prompt tells the model to call the tools, models without them can't follow it
+    requireToolCalling?: boolean;
+  },
+): FallbackCandidate[] {
+  const candidates: FallbackCandidate[] = [];
+
+  for (const entry of chain) {
+    const provider = PROVIDER_LIST.find((p) => p.name === entry.provider);
+
+    if (!provider) {
+      logger.warn(`Skipping fallback model ${entry.model}: provider ${entry.provider} not found`);
+      continue;
+    }
+
+    if (options.requireToolCalling && !provider.supportsToolCalling) {
+      logger.warn(`Skipping fallback model ${entry.model}: ${provider.name} does not support tool calling`);
+      continue;
+    }
+
+    const modelDetails = LLMManager.getInstance()
+      .getStaticModelListFromProvider(provider)
+      .find((m) => m.name === entry.model);
+
+    try {
+      candidates.push({
+        provider: provider.name,
+        model: entry.model,
+        instance: provider.getModelInstance({ model: entry.model, ...options }),
+        maxTokens: entry.maxTokens ?? modelDetails?.maxTokenAllowed ?? MAX_TOKENS,
+      });
+    } catch (error: any) {
+      logger.warn(`Skipping fallback model ${entry.provider}/${entry.model}: ${error?.message}`);
+    }
+  }
+
+  return candidates;
+}
+
+function getCallOptions(options: LanguageModelV1CallOptions, candidate: FallbackCandidate) {
+  return {
+    ...options,
+    maxTokens: Math.min(options.maxTokens ?? candidate.maxTokens, candidate.maxTokens),
+  };
+}
+
+/**
+ * Wraps an ordered chain of models into a single model. A request is sent to the next model of the
+ * chain when the previous one fails before it starts to respond. Errors raised while a response is
+ * already streaming are not retried. `onModelSelected` is called when a step is answered by another
+ * model than the step before.
+ */
+export function createFallbackModel(
+  candidates: FallbackCandidate[],
+  onModelSelected?: (selection: ModelSelection) => void,
+): LanguageModelV1 {
+  if (candidates.length === 0) {
+    throw new Error('No models available in the fallback chain');
+  }
+
+  const [primary] = candidates;
+
+  // every tool step calls the model again
+  let selected: FallbackCandidate | undefined;
+
+  const callWithFallback = async <T>(
+    options: LanguageModelV1CallOptions,
+    call: (candidate: FallbackCandidate, options: LanguageModelV1CallOptions) => PromiseLike<T>,
+  ) => {
+    for (const [index, candidate] of candidates.entries()) {
+      try {
+        const result = await call(candidate, getCallOptions(options, candidate));
+
+        if (selected !== candidate) {
+          selected = candidate;
+          onModelSelected?.({ provider: candidate.provider, model: candidate.model, isFallback: index > 0 });
+        }
+
+        return result;
+      } catch (error: any) {
+        const next = candidates[index + 1];
+
+        if (!next || !isFailoverError(error)) {
+          throw error;
+        }
+
+        logger.warn(
+          `${candidate.provider}/${candidate.model} failed (${error?.message}), falling back to ${next.provider}/${next.model}`,
+        );
+      }
+    }
+
+    // unreachable, the last candidate either returns or throws
+    throw new Error('No models available in the fallback chain');
+  };
+
+  return {
+    specificationVersion: 'v1',
+    provider: primary.instance.provider,
+    modelId: primary.instance.modelId,
+    defaultObjectGenerationMode: primary.instance.defaultObjectGenerationMode,
+    supportsImageUrls: primary.instance.supportsImageUrls,
+    doGenerate: (options) => callWithFallback(options, (candidate, opts) => candidate.instance.doGenerate(opts)),
+    doStream: (options) => callWithFallback(options, (candidate, opts) => candidate.instance.doStream(opts)),
+  };
+}
@@ -1,14 +1,23 @@
 import { convertToCoreMessages, streamText as _streamText, type Message } from 'ai';
-import { MAX_TOKENS, type FileMap } from './constants';
-import { getSystemPrompt } from '~/lib/common/prompts/prompts';
+import { DEFAULT_CONTEXT_WINDOW, MAX_TOKENS, MAX_TOOL_STEPS, type FileMap } from './constants';
+import { getSystemPrompt, TOOL_CALLING_PROMPT } from '~/lib/common/prompts/prompts';
 import { DEFAULT_MODEL, DEFAULT_PROVIDER, MODIFICATIONS_TAG_NAME, PROVIDER_LIST, WORK_DIR } from '~/utils/constants';
-import type { IProviderSetting } from '~/types/model';
+import type { FallbackModel, IProviderSetting } from '~/types/model';
 import { PromptLibrary } from '~/lib/common/prompt-library';
 import { allowedHTMLElements } from '~/utils/markdown';
 import { LLMManager } from '~/lib/modules/llm/manager';
 import { createScopedLogger } from '~/utils/logger';
 import { createFilesContext, extractPropertiesFromMessage } from './utils';
 import { getFilePaths } from './select-context';
+import { createBoltTools } from './tools';
+import { createFallbackModel, resolveFallbackCandidates, type ModelSelection } from './fallback-model';
+import {
+  budgetContext,
+  countMessageTokens,
+  countTokens,
+  isContextTrimmed,
+  type ContextBudgetReport,
+} from './context-budget';
 
 export type Messages = Message[];
 
@@ -28,6 +37,13 @@ export async function streamText(props: {
   contextFiles?: FileMap;
   summary?: string;
   messageSliceId?: number;
+  toolCalling?: boolean;
+  fallbackModels?: FallbackModel[];
+
+  // absolute paths of the files and folders the user locked against changes
+  lockedPaths?: string[];
+  onModelSelected?: (selection: ModelSelection) => void;
+  onContextBudget?: (report: ContextBudgetReport) => void;
 }) {
   const {
     messages,
@@ -40,6 +56,11 @@ export async function streamText(props: {
     contextOptimization,
     contextFiles,
     summary,
+    toolCalling,
+    fallbackModels,
+    lockedPaths,
+    onModelSelected,
+    onContextBudget,
   } = props;
   let currentModel = DEFAULT_MODEL;
   let currentProvider = DEFAULT_PROVIDER.name;
@@ -55,7 +76,8 @@ export async function streamText(props: {
       content = content.replace(/<div class=\\"__boltThought__\\">.*?<\/div>/s, '');
       content = content.replace(/<think>.*?<\/think>/s, '');
 
-      return { ...message, content };
+      // `parts` would take precedence over the cleaned content when converting to core messages
+      return { ...message, content, parts: undefined };
     }
 
     return message;
@@ -92,6 +114,19 @@ export async function streamText(props: {
 
   const dynamicMaxTokens = modelDetails && modelDetails.maxTokenAllowed ? modelDetails.maxTokenAllowed : MAX_TOKENS;
 
+  const useTools = !!toolCalling && !!provider.supportsToolCalling;
+
+  if (toolCalling && !useTools) {
+    logger.info(`Provider ${provider.name} does not support tool calling, falling back to artifact protocol`);
+  }
+
+  if (!useTools) {
+    // tool invocations from earlier turns can't be sent to a model without tools
+    processedMessages = processedMessages.map((message) =>
+      message.role === 'assistant' ? { ...message, toolInvocations: undefined } : message,
+    );
+  }
+
   let systemPrompt =
     PromptLibrary.getPropmtFromLibrary(promptId || 'default', {
       cwd: WORK_DIR,
@@ -99,14 +134,62 @@ export async function streamText(props: {
       modificationTagName: MODIFICATIONS_TAG_NAME,
     }) ?? getSystemPrompt();
 
+  if (useTools) {
+    systemPrompt = `${systemPrompt}\n${TOOL_CALLING_PROMPT}`;
+  }
+
+  if (lockedPaths?.length) {
+    systemPrompt = `${systemPrompt}
+LOCKED FILES:
+The user locked the files and folders below. Do NOT create, modify, patch or delete anything at or inside these paths,
+any such change is rejected. This includes shell commands: never run \`rm\`, \`mv\`, \`sed -i\` or redirects like
+\`>\` on them. If a request requires changing them, put the change in a new file instead and tell the
+user which locked file would need to be updated by hand.
+---
+${lockedPaths.map((lockedPath) => lockedPath.replace(`${WORK_DIR}/`, '')).join('\n')}
+---
+`;
+  }
+
   if (files && contextFiles && contextOptimization) {
-    const codeContext = createFilesContext(contextFiles, true);
-    const filePaths = getFilePaths(files);
+    if (summary) {
+      if (props.messageSliceId) {
+        processedMessages = processedMessages.slice(props.messageSliceId);
+      } else {
+        const lastMessage = processedMessages.pop();
+
+        if (lastMessage) {
+          processedMessages = [lastMessage];
+        }
+      }
+    }
+
+    const budgeted = budgetContext({
+      contextFiles,
+      filePaths: getFilePaths(files),
+      contextWindow: modelDetails.contextWindow || DEFAULT_CONTEXT_WINDOW,
+      reservedTokens:
+        dynamicMaxTokens +
+        countTokens(systemPrompt) +
+        countTokens(summary || '') +
+        countMessageTokens(processedMessages),
+    });
+
+    if (isContextTrimmed(budgeted.report)) {
+      logger.warn(`Context trimmed to fit ${budgeted.report.contextWindow} tokens`, JSON.stringify(budgeted.report));
+    }
+
+    onContextBudget?.(budgeted.report);
+
+    const codeContext = createFilesContext(budgeted.contextFiles, true);
+    const omittedPaths = budgeted.report.omittedPaths
+      ? `\n... and ${budgeted.report.omittedPaths} more files not listed to save space`
+      : '';
 
     systemPrompt = `${systemPrompt}
 Below are all the files present in the project:
 ---
-${filePaths.join('\n')}
+${budgeted.filePaths.join('\n')}${omittedPaths}
 ---
 
 Below is the artifact containing the context loaded into context buffer for you to have knowledge of and might need changes to fullfill current user request.
@@ -124,33 +207,53 @@ CHAT SUMMARY:
 ${props.summary}
 ---
 `;
-
-      if (props.messageSliceId) {
-        processedMessages = processedMessages.slice(props.messageSliceId);
-      } else {
-        const lastMessage = processedMessages.pop();
-
-        if (lastMessage) {
-          processedMessages = [lastMessage];
-        }
-      }
     }
   }
 
-  logger.info(`Sending llm call to ${provider.name} with model ${modelDetails.name}`);
+  const toolOptions: Partial<StreamingOptions> = useTools
+    ? { tools: createBoltTools(files, lockedPaths), toolChoice: 'auto', maxSteps: MAX_TOOL_STEPS }
+    : {};
 
-  // console.log(systemPrompt,processedMessages);
+  const fallbackChain = (fallbackModels || []).filter(
+    (entry) => entry.provider !== provider.name || entry.model !== modelDetails.name,
+  );
 
-  return await _streamText({
-    model: provider.getModelInstance({
+  let model;
+
+  if (fallbackChain.length) {
+    logger.info(
+      `Sending llm call to ${provider.name} with model ${modelDetails.name}, falling back to ${fallbackChain
+        .map((entry) => `${entry.provider}/${entry.model}`)
+        .join(', ')}`,
+    );
+
+    const candidates = resolveFallbackCandidates(
+      [{ provider: provider.name, model: modelDetails.name, maxTokens: dynamicMaxTokens }, ...fallbackChain],
+      { serverEnv, apiKeys, providerSettings, requireToolCalling: useTools },
+    );
+
+    model = createFallbackModel(candidates, onModelSelected);
+  } else {
+    logger.info(`Sending llm call to ${provider.name} with model ${modelDetails.name}`);
+
+    model = provider.getModelInstance({
       model: modelDetails.name,
       serverEnv,
       apiKeys,
       providerSettings,
-    }),
+    });
+  }
+
+  // console.log(systemPrompt,processedMessages);
+
+  return await _streamText({
+    model,
     system: systemPrompt,
     maxTokens: dynamicMaxTokens,
     messages: convertToCoreMessages(processedMessages as any),
     ...options,
+
+    // tool calling overrides the `toolChoice` of the options, the steps of the tool calls need the tools
+    ...toolOptions,
   });
 }
@@ -0,0 +1,109 @@
+import { jsonSchema, tool } from 'ai';
+import type { FileMap } from './constants';
+import type { CommandToolArgs, ReadFileToolArgs, WriteFileToolArgs } from '~/types/tools';
+import { WORK_DIR } from '~/utils/constants';
+import { findLockedPathInCommand } from '~/utils/commandPolicy';
+import { isSubPath } from '~/utils/path';
+
+/*
+ * The file and shell tools are executed in the browser's WebContainer, so on the server they only
+ * acknowledge the call. The client turns every call into a regular bolt action (see `StreamingMessageParser`).
+ */
+const QUEUED_RESULT = 'Queued for execution in the workbench.';
+
+// starts the results of calls the server turned down, the workbench doesn't run them either
+export const REFUSED_RESULT_PREFIX = 'Refused:';
+
+export function resolveFilePath(path: string) {
+  if (path.startsWith(WORK_DIR)) {
+    return path;
+  }
+
+  return `${WORK_DIR}/${path.replace(/^\.?\/+/, '')}`;
+}
+
+export function createBoltTools(files?: FileMap, lockedPaths: string[] = []) {
+  return {
+    write_file: tool({
+      description:
+        'Create a new file or overwrite an existing file with the full content. Paths are relative to the project root.',
+      parameters: jsonSchema<WriteFileToolArgs>({
+        type: 'object',
+        properties: {
+          path: { type: 'string', description: 'File path relative to the project root' },
+          content: { type: 'string', description: 'The complete content of the file' },
+        },
+        required: ['path', 'content'],
+        additionalProperties: false,
+      }),
+      execute: async ({ path }) => {
+        const filePath = resolveFilePath(path);
+
+        // the workbench refuses the write as well, answering here lets the model change course right away
+        if (lockedPaths.some((lockedPath) => isSubPath(filePath, lockedPath))) {
+          return `${REFUSED_RESULT_PREFIX} ${path} is locked by the user and must not be changed. Put the change in a new file instead.`;
+        }
+
+        return QUEUED_RESULT;
+      },
+    }),
+    run_shell: tool({
+      description:
+        'Run a shell command in the project directory, e.g. to install dependencies. Do NOT use it to start a dev server.',
+      parameters: jsonSchema<CommandToolArgs>({
+        type: 'object',
+        properties: {
+          command: { type: 'string', description: 'The shell command to run' },
+        },
+        required: ['command'],
+        additionalProperties: false,
+      }),
+      execute: async ({ command }) => {
+        const lockedPath = findLockedPathInCommand(command, lockedPaths, WORK_DIR);
+
+        if (lockedPath) {
+          return `${REFUSED_RESULT_PREFIX} the command changes ${lockedPath.replace(`${WORK_DIR}/`, '')}, which is locked by the user. Leave locked files alone.`;
+        }
+
+        return QUEUED_RESULT;
+      },
+    }),
+    start_server: tool({
+      description:
+        'Start the development server. Only call this if the server is not running yet or new dependencies were added.',
+      parameters: jsonSchema<CommandToolArgs>({
+        type: 'object',
+        properties: {
+          command: { type: 'string', description: 'The command that starts the dev server, e.g. "npm run dev"' },
+        },
+        required: ['command'],
+        additionalProperties: false,
+      }),
+      execute: async () => QUEUED_RESULT,
+    }),
+    read_file: tool({
+      description: 'Read the current content of a file in the project.',
+      parameters: jsonSchema<ReadFileToolArgs>({
+        type: 'object',
+        properties: {
+          path: { type: 'string', description: 'File path relative to the project root' },
+        },
+        required: ['path'],
+        additionalProperties: false,
+      }),
+      execute: async ({ path }) => {
+        const dirent = files?.[resolveFilePath(path)];
+
+        if (!dirent || dirent.type !== 'file') {
+          return `File not found: ${path}`;
+        }
+
+        if (dirent.isBinary) {
+          return `File is binary and cannot be read: ${path}`;
+        }
+
+        return dirent.content;
+      },
+    }),
+  };
+}
@@ -60,7 +60,12 @@ export function useMessageParser() {
 
     for (const [index, message] of messages.entries()) {
       if (message.role === 'assistant' || message.role === 'user') {
-        const newParsedContent = messageParser.parse(message.id, extractTextContent(message));
+        let newParsedContent = messageParser.parse(message.id, extractTextContent(message));
+
+        if (message.toolInvocations?.length) {
+          newParsedContent += messageParser.parseToolInvocations(message.id, message.toolInvocations);
+        }
+
         setParsedMessages((prevParsed) => ({
           ...prevParsed,
           [index]: !reset ? (prevParsed[index] || '') + newParsedContent : newParsedContent,
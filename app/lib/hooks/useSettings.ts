@@ -7,6 +7,17 @@ import {
   latestBranchStore,
   autoSelectStarterTemplate,
   enableContextOptimizationStore,
+  enableToolCallingStore,
+  enableAutoFixStore,
+  autoFixMaxAttemptsStore,
+  fallbackModelsStore,
+  contextSelectionModeStore,
+  embeddingSettingsStore,
+  architectModeStore,
+  reviewModeStore,
+  commandPolicyStore,
+  gitAutoCommitStore,
+  editorModelStore,
   tabConfigurationStore,
   updateTabConfiguration as updateTabConfig,
   resetTabConfiguration as resetTabConfig,
@@ -14,13 +25,27 @@ import {
   updateLatestBranch,
   updateAutoSelectTemplate,
   updateContextOptimization,
+  updateToolCalling,
+  updateAutoFix,
+  updateAutoFixMaxAttempts,
+  updateFallbackModels,
+  updateContextSelectionMode,
+  updateEmbeddingSettings,
+  updateArchitectMode,
+  updateReviewMode,
+  updateCommandPolicy,
+  updateGitAutoCommit,
+  updateEditorModel,
   updateEventLogs,
+  type ContextSelectionMode,
+  type EmbeddingSettings,
   updatePromptId,
 } from '~/lib/stores/settings';
 import { useCallback, useEffect, useState } from 'react';
 import Cookies from 'js-cookie';
-import type { IProviderSetting, ProviderInfo, IProviderConfig } from '~/types/model';
+import type { IProviderSetting, ProviderInfo, IProviderConfig, FallbackModel, EditorModel } from '~/types/model';
 import type { TabWindowConfig, TabVisibilityConfig } from '~/components/@settings/core/types';
+import type { CommandPolicy } from '~/types/commandPolicy';
 import { logStore } from '~/lib/stores/logs';
 import { getLocalStorage, setLocalStorage } from '~/lib/persistence';
 
@@ -59,6 +84,28 @@ export interface UseSettingsReturn {
   setAutoSelectTemplate: (enabled: boolean) => void;
   contextOptimizationEnabled: boolean;
   enableContextOptimization: (enabled: boolean) => void;
+  toolCallingEnabled: boolean;
+  enableToolCalling: (enabled: boolean) => void;
+  autoFixEnabled: boolean;
+  enableAutoFix: (enabled: boolean) => void;
+  autoFixMaxAttempts: number;
+  setAutoFixMaxAttempts: (attempts: number) => void;
+  fallbackModels: FallbackModel[];
+  setFallbackModels: (models: FallbackModel[]) => void;
+  contextSelectionMode: ContextSelectionMode;
+  setContextSelectionMode: (mode: ContextSelectionMode) => void;
+  embeddingSettings: EmbeddingSettings;
+  setEmbeddingSettings: (settings: EmbeddingSettings) => void;
+  architectModeEnabled: boolean;
+  enableArchitectMode: (enabled: boolean) => void;
+  editorModel: EditorModel;
+  setEditorModel: (model: EditorModel) => void;
+  reviewModeEnabled: boolean;
+  enableReviewMode: (enabled: boolean) => void;
+  commandPolicy: CommandPolicy;
+  setCommandPolicy: (policy: CommandPolicy) => void;
+  gitAutoCommitEnabled: boolean;
+  enableGitAutoCommit: (enabled: boolean) => void;
 
   // Tab configuration
   tabConfiguration: TabWindowConfig;
@@ -80,6 +127,17 @@ export function useSettings(): UseSettingsReturn {
   const autoSelectTemplate = useStore(autoSelectStarterTemplate);
   const [activeProviders, setActiveProviders] = useState<ProviderInfo[]>([]);
   const contextOptimizationEnabled = useStore(enableContextOptimizationStore);
+  const toolCallingEnabled = useStore(enableToolCallingStore);
+  const autoFixEnabled = useStore(enableAutoFixStore);
+  const autoFixMaxAttempts = useStore(autoFixMaxAttemptsStore);
+  const fallbackModels = useStore(fallbackModelsStore);
+  const contextSelectionMode = useStore(contextSelectionModeStore);
+  const embeddingSettings = useStore(embeddingSettingsStore);
+  const architectModeEnabled = useStore(architectModeStore);
+  const editorModel = useStore(editorModelStore);
+  const reviewModeEnabled = useStore(reviewModeStore);
+  const commandPolicy = useStore(commandPolicyStore);
+  const gitAutoCommitEnabled = useStore(gitAutoCommitStore);
   const tabConfiguration = useStore(tabConfigurationStore);
   const [settings, setSettings] = useState<Settings>(() => {
     const storedSettings = getLocalStorage('settings');
@@ -145,6 +203,63 @@ export function useSettings(): UseSettingsReturn {
     logStore.logSystem(`Context optimization ${enabled ? 'enabled' : 'disabled'}`);
   }, []);
 
+  const enableToolCalling = useCallback((enabled: boolean) => {
+    updateToolCalling(enabled);
+    logStore.logSystem(`Native tool calling ${enabled ? 'enabled' : 'disabled'}`);
+  }, []);
+
+  const enableAutoFix = useCallback((enabled: boolean) => {
+    updateAutoFix(enabled);
+    logStore.logSystem(`Auto-fix ${enabled ? 'enabled' : 'disabled'}`);
+  }, []);
+
+  const setAutoFixMaxAttempts = useCallback((attempts: number) => {
+    updateAutoFixMaxAttempts(attempts);
+    logStore.logSystem(`Auto-fix attempts set to ${attempts}`);
+  }, []);
+
+  const setFallbackModels = useCallback((models: FallbackModel[]) => {
+    updateFallbackModels(models);
+    logStore.logProvider('Fallback chain updated', {
+      chain: models.map((entry) => `${entry.provider}/${entry.model}`),
+    });
+  }, []);
+
+  const setContextSelectionMode = useCallback((mode: ContextSelectionMode) => {
+    updateContextSelectionMode(mode);
+    logStore.logSystem(`Context selection set to ${mode === 'embeddings' ? 'embeddings' : 'LLM'}`);
+  }, []);
+
+  const setEmbeddingSettings = useCallback((settings: EmbeddingSettings) => {
+    updateEmbeddingSettings(settings);
+    logStore.logProvider('Embedding model updated', { ...settings });
+  }, []);
+
+  const enableArchitectMode = useCallback((enabled: boolean) => {
+    updateArchitectMode(enabled);
+    logStore.logSystem(`Architect mode ${enabled ? 'enabled' : 'disabled'}`);
+  }, []);
+
+  const enableReviewMode = useCallback((enabled: boolean) => {
+    updateReviewMode(enabled);
+    logStore.logSystem(`Review mode ${enabled ? 'enabled' : 'disabled'}`);
+  }, []);
+
+  const setCommandPolicy = useCallback((policy: CommandPolicy) => {
+    updateCommandPolicy(policy);
+    logStore.logSystem('Command policy updated', { ...policy });
+  }, []);
+
+  const enableGitAutoCommit = useCallback((enabled: boolean) => {
+    updateGitAutoCommit(enabled);
+    logStore.logSystem(`Git auto-commit ${enabled ? 'enabled' : 'disabled'}`);
+  }, []);
+
+  const setEditorModel = useCallback((model: EditorModel) => {
+    updateEditorModel(model);
+    logStore.logProvider('Editor model updated', { ...model });
+  }, []);
+
   const setTheme = useCallback(
     (theme: Settings['theme']) => {
       saveSettings({ theme });
@@ -199,6 +314,28 @@ export function useSettings(): UseSettingsReturn {
     setAutoSelectTemplate,
     contextOptimizationEnabled,
     enableContextOptimization,
+    toolCallingEnabled,
+    enableToolCalling,
+    autoFixEnabled,
+    enableAutoFix,
+    autoFixMaxAttempts,
+    setAutoFixMaxAttempts,
+    fallbackModels,
+    setFallbackModels,
+    contextSelectionMode,
+    setContextSelectionMode,
+    embeddingSettings,
+    setEmbeddingSettings,
+    architectModeEnabled,
+    enableArchitectMode,
+    editorModel,
+    reviewModeEnabled,
+    enableReviewMode,
+    commandPolicy,
+    setCommandPolicy,
+    gitAutoCommitEnabled,
+    enableGitAutoCommit,
+    setEditorModel,
     setTheme,
     setLanguage,
     setNotifications,
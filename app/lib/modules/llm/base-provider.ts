@@ -1,4 +1,4 @@
-import type { LanguageModelV1 } from 'ai';
+import type { EmbeddingModel, LanguageModelV1 } from 'ai';
 import type { ProviderInfo, ProviderConfig, ModelInfo } from './types';
 import type { IProviderSetting } from '~/types/model';
 import { createOpenAI } from '@ai-sdk/openai';
@@ -17,6 +17,12 @@ export abstract class BaseProvider implements ProviderInfo {
   labelForGetApiKey?: string;
   icon?: string;
 
+  // providers with reliable function calling can use native tools instead of the boltArtifact protocol
+  supportsToolCalling?: boolean;
+
+  // set by providers that implement getEmbeddingModelInstance, used for retrieval based context selection
+  defaultEmbeddingModel?: string;
+
   getProviderBaseUrlAndKey(options: {
     apiKeys?: Record<string, string>;
     providerSettings?: IProviderSetting;
@@ -115,6 +121,13 @@ export abstract class BaseProvider implements ProviderInfo {
     apiKeys?: Record<string, string>;
     providerSettings?: Record<string, IProviderSetting>;
   }): LanguageModelV1;
+
+  getEmbeddingModelInstance?(options: {
+    model: string;
+    serverEnv?: Env;
+    apiKeys?: Record<string, string>;
+    providerSettings?: Record<string, IProviderSetting>;
+  }): EmbeddingModel<string>;
 }
 
 type OptionalApiKey = string | undefined;
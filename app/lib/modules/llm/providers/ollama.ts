@@ -1,8 +1,8 @@
 import { BaseProvider } from '~/lib/modules/llm/base-provider';
 import type { ModelInfo } from '~/lib/modules/llm/types';
 import type { IProviderSetting } from '~/types/model';
-import type { LanguageModelV1 } from 'ai';
-import { ollama } from 'ollama-ai-provider';
+import type { EmbeddingModel, LanguageModelV1 } from 'ai';
+import { createOllama, ollama } from 'ollama-ai-provider';
 import { logger } from '~/utils/logger';
 
 interface OllamaModelDetails {
@@ -34,12 +34,15 @@ export default class OllamaProvider extends BaseProvider {
   getApiKeyLink = 'https://ollama.com/download';
   labelForGetApiKey = 'Download Ollama';
   icon = 'i-ph:cloud-arrow-down';
+  defaultEmbeddingModel = 'nomic-embed-text';
 
   config = {
     baseUrlKey: 'OLLAMA_API_BASE_URL',
   };
 
-  staticModels: ModelInfo[] = [{ name: 'llama3', label: 'llama3', provider: 'Ollama', maxTokenAllowed: 8000 }];
+  staticModels: ModelInfo[] = [
+    { name: 'llama3', label: 'llama3', provider: 'Ollama', maxTokenAllowed: 8000, contextWindow: DEFAULT_NUM_CTX },
+  ];
 
   async getDynamicModels(
     apiKeys?: Record<string, string>,
@@ -79,15 +82,17 @@ export default class OllamaProvider extends BaseProvider {
       label: `${model.name} (${model.details.parameter_size})`,
       provider: this.name,
       maxTokenAllowed: 8000,
+
+      // requests are sent with num_ctx set to DEFAULT_NUM_CTX, anything beyond it is silently cut off
+      contextWindow: DEFAULT_NUM_CTX,
     }));
   }
-  getModelInstance: (options: {
-    model: string;
+  private _getServerBaseUrl(options: {
     serverEnv?: Env;
     apiKeys?: Record<string, string>;
     providerSettings?: Record<string, IProviderSetting>;
-  }) => LanguageModelV1 = (options) => {
-    const { apiKeys, providerSettings, serverEnv, model } = options;
+  }) {
+    const { apiKeys, providerSettings, serverEnv } = options;
     let { baseUrl } = this.getProviderBaseUrlAndKey({
       apiKeys,
       providerSettings: providerSettings?.[this.name],
@@ -105,9 +110,20 @@ export default class OllamaProvider extends BaseProvider {
     baseUrl = isDocker ? baseUrl.replace('localhost', 'host.docker.internal') : baseUrl;
     baseUrl = isDocker ? baseUrl.replace('127.0.0.1', 'host.docker.internal') : baseUrl;
 
+    return baseUrl;
+  }
+
+  getModelInstance: (options: {
+    model: string;
+    serverEnv?: Env;
+    apiKeys?: Record<string, string>;
+    providerSettings?: Record<string, IProviderSetting>;
+  }) => LanguageModelV1 = (options) => {
+    const baseUrl = this._getServerBaseUrl(options);
+
     logger.debug('Ollama Base Url used: ', baseUrl);
 
-    const ollamaInstance = ollama(model, {
+    const ollamaInstance = ollama(options.model, {
       numCtx: DEFAULT_NUM_CTX,
     }) as LanguageModelV1 & { config: any };
 
@@ -115,4 +131,15 @@ export default class OllamaProvider extends BaseProvider {
 
     return ollamaInstance;
   };
+
+  getEmbeddingModelInstance(options: {
+    model: string;
+    serverEnv?: Env;
+    apiKeys?: Record<string, string>;
+    providerSettings?: Record<string, IProviderSetting>;
+  }): EmbeddingModel<string> {
+    const baseUrl = this._getServerBaseUrl(options);
+
+    return createOllama({ baseURL: `${baseUrl}/api` }).textEmbeddingModel(options.model);
+  }
 }
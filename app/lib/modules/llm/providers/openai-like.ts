@@ -1,11 +1,13 @@
 import { BaseProvider, getOpenAILikeModel } from '~/lib/modules/llm/base-provider';
 import type { ModelInfo } from '~/lib/modules/llm/types';
 import type { IProviderSetting } from '~/types/model';
-import type { LanguageModelV1 } from 'ai';
+import type { EmbeddingModel, LanguageModelV1 } from 'ai';
+import { createOpenAI } from '@ai-sdk/openai';
 
 export default class OpenAILikeProvider extends BaseProvider {
   name = 'OpenAILike';
   getApiKeyLink = undefined;
+  defaultEmbeddingModel = 'text-embedding-3-small';
 
   config = {
     baseUrlKey: 'OPENAI_LIKE_API_BASE_URL',
@@ -69,4 +71,27 @@ export default class OpenAILikeProvider extends BaseProvider {
 
     return getOpenAILikeModel(baseUrl, apiKey, model);
   }
+
+  getEmbeddingModelInstance(options: {
+    model: string;
+    serverEnv?: Env;
+    apiKeys?: Record<string, string>;
+    providerSettings?: Record<string, IProviderSetting>;
+  }): EmbeddingModel<string> {
+    const { model, serverEnv, apiKeys, providerSettings } = options;
+
+    const { baseUrl, apiKey } = this.getProviderBaseUrlAndKey({
+      apiKeys,
+      providerSettings: providerSettings?.[this.name],
+      serverEnv: serverEnv as any,
+      defaultBaseUrlKey: 'OPENAI_LIKE_API_BASE_URL',
+      defaultApiTokenKey: 'OPENAI_LIKE_API_KEY',
+    });
+
+    if (!baseUrl || !apiKey) {
+      throw new Error(`Missing configuration for ${this.name} provider`);
+    }
+
+    return createOpenAI({ baseURL: baseUrl, apiKey }).textEmbeddingModel(model);
+  }
 }
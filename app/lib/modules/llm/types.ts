@@ -6,6 +6,9 @@ export interface ModelInfo {
   label: string;
   provider: string;
   maxTokenAllowed: number;
+
+  // total tokens the model accepts for prompt and completion, used to budget the context
+  contextWindow?: number;
 }
 
 export interface ProviderInfo {
@@ -25,6 +28,8 @@ export interface ProviderInfo {
   getApiKeyLink?: string;
   labelForGetApiKey?: string;
   icon?: string;
+  supportsToolCalling?: boolean;
+  defaultEmbeddingModel?: string;
 }
 export interface ProviderConfig {
   baseUrlKey?: string;
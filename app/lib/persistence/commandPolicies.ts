@@ -0,0 +1,39 @@
+import type { CommandPolicy } from '~/types/commandPolicy';
+import { getLocalStorage, setLocalStorage } from './localStorage';
+
+// command policy overrides per chat id
+const COMMAND_POLICIES_KEY = 'bolt_command_policies';
+
+function getCommandPolicies(): Record<string, CommandPolicy> {
+  return getLocalStorage(COMMAND_POLICIES_KEY) ?? {};
+}
+
+export function getChatCommandPolicy(chatId: string): CommandPolicy | undefined {
+  return getCommandPolicies()[chatId];
+}
+
+export function setChatCommandPolicy(chatId: string, policy: CommandPolicy) {
+  const policies = getCommandPolicies();
+  const isEmpty = policy.allow.length === 0 && policy.deny.length === 0 && policy.confirm.length === 0;
+
+  if (isEmpty) {
+    if (!(chatId in policies)) {
+      return;
+    }
+
+    delete policies[chatId];
+  } else {
+    policies[chatId] = policy;
+  }
+
+  setLocalStorage(COMMAND_POLICIES_KEY, policies);
+}
+
+export function deleteChatCommandPolicy(chatId: string) {
+  const policies = getCommandPolicies();
+
+  if (chatId in policies) {
+    delete policies[chatId];
+    setLocalStorage(COMMAND_POLICIES_KEY, policies);
+  }
+}
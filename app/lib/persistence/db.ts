@@ -1,11 +1,60 @@
 import type { Message } from 'ai';
 import { createScopedLogger } from '~/utils/logger';
+import type { SnapshotFileMap } from '~/lib/stores/files';
+import type { DeployProviderType } from '~/types/deploy';
 import type { ChatHistoryItem } from './useChatHistory';
+import { deleteEditorLayout } from './editorLayouts';
+import { deleteLockedPaths } from './lockedFiles';
+import { deleteChatCommandPolicy } from './commandPolicies';
+
+// the pull request later pushes of the chat update
+export interface ChatPullRequest {
+  // `owner/name` of the repository on GitHub
+  repository: string;
+  number: number;
+  url: string;
+  branch: string;
+  base: string;
+  state: 'open' | 'closed' | 'merged';
+}
+
+// a deployment of the chat, the last one to a connection tells which site the next one updates
+export interface ChatDeployment {
+  provider: DeployProviderType;
+  connectionId: string;
+  siteId: string;
+  siteName: string;
+  url?: string;
+  deploymentId: string;
+  timestamp: string;
+}
 
 export interface IChatMetadata {
   gitUrl: string;
   gitBranch?: string;
-  netlifySiteId?: string;
+  pullRequest?: ChatPullRequest;
+  deployments?: ChatDeployment[];
+}
+
+export interface UsageRecord {
+  // id of the assistant message the usage belongs to
+  id: string;
+  chatId: string;
+  provider: string;
+  model: string;
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+  timestamp: string;
+}
+
+export interface Snapshot {
+  chatId: string;
+
+  // id of the assistant message the files belong to
+  messageId: string;
+  files: SnapshotFileMap;
+  timestamp: string;
 }
 
 const logger = createScopedLogger('ChatHistory');
@@ -18,7 +67,8 @@ export async function openDatabase(): Promise<IDBDatabase | undefined> {
   }
 
   return new Promise((resolve) => {
-    const request = indexedDB.open('boltHistory', 1);
+    // v2 added the usage records, v3 the workspace snapshots. Existing stores are kept on upgrade
+    const request = indexedDB.open('boltHistory', 3);
 
     request.onupgradeneeded = (event: IDBVersionChangeEvent) => {
       const db = (event.target as IDBOpenDBRequest).result;
@@ -28,6 +78,17 @@ export async function openDatabase(): Promise<IDBDatabase | undefined> {
         store.createIndex('id', 'id', { unique: true });
         store.createIndex('urlId', 'urlId', { unique: true });
       }
+
+      if (!db.objectStoreNames.contains('usage')) {
+        const store = db.createObjectStore('usage', { keyPath: 'id' });
+        store.createIndex('chatId', 'chatId', { unique: false });
+        store.createIndex('timestamp', 'timestamp', { unique: false });
+      }
+
+      if (!db.objectStoreNames.contains('snapshots')) {
+        const store = db.createObjectStore('snapshots', { keyPath: ['chatId', 'messageId'] });
+        store.createIndex('chatId', 'chatId', { unique: false });
+      }
     };
 
     request.onsuccess = (event: Event) => {
@@ -112,6 +173,11 @@ export async function getMessagesById(db: IDBDatabase, id: string): Promise<Chat
 }
 
 export async function deleteById(db: IDBDatabase, id: string): Promise<void> {
+  await deleteSnapshots(db, id);
+  deleteEditorLayout(id);
+  deleteLockedPaths(id);
+  deleteChatCommandPolicy(id);
+
   return new Promise((resolve, reject) => {
     const transaction = db.transaction('chats', 'readwrite');
     const store = transaction.objectStore('chats');
@@ -195,7 +261,56 @@ export async function forkChat(db: IDBDatabase, chatId: string, messageId: strin
   // Get messages up to and including the selected message
   const messages = chat.messages.slice(0, messageIndex + 1);
 
-  return createChatFromMessages(db, chat.description ? `${chat.description} (fork)` : 'Forked chat', messages);
+  const urlId = await createChatFromMessages(
+    db,
+    chat.description ? `${chat.description} (fork)` : 'Forked chat',
+    messages,
+  );
+
+  // the fork opens with the files of the message it was forked from
+  const fork = await getMessagesByUrlId(db, urlId);
+  await copySnapshots(
+    db,
+    chat.id,
+    fork.id,
+    messages.map((message) => message.id),
+  );
+
+  return urlId;
+}
+
+/**
+ * Drops every message after `messageId` together with their snapshots.
+ */
+export async function truncateChat(db: IDBDatabase, chatId: string, messageId: string): Promise<void> {
+  const chat = await getMessages(db, chatId);
+
+  if (!chat) {
+    throw new Error('Chat not found');
+  }
+
+  const messageIndex = chat.messages.findIndex((msg) => msg.id === messageId);
+
+  if (messageIndex === -1) {
+    throw new Error('Message not found');
+  }
+
+  const droppedMessages = chat.messages.slice(messageIndex + 1);
+
+  await setMessages(
+    db,
+    chat.id,
+    chat.messages.slice(0, messageIndex + 1),
+    chat.urlId,
+    chat.description,
+    undefined,
+    chat.metadata,
+  );
+  await deleteSnapshots(
+    db,
+    chat.id,
+    droppedMessages.map((message) => message.id),
+  );
 }
 
 export async function duplicateChat(db: IDBDatabase, id: string): Promise<string> {
@@ -205,7 +320,16 @@ export async function duplicateChat(db: IDBDatabase, id: string): Promise<string
     throw new Error('Chat not found');
   }
 
-  return createChatFromMessages(db, `${chat.description || 'Chat'} (copy)`, chat.messages);
+  const urlId = await createChatFromMessages(db, `${chat.description || 'Chat'} (copy)`, chat.messages);
+  const copy = await getMessagesByUrlId(db, urlId);
+  await copySnapshots(
+    db,
+    chat.id,
+    copy.id,
+    chat.messages.map((message) => message.id),
+  );
+
+  return urlId;
 }
 
 export async function createChatFromMessages(
@@ -257,3 +381,154 @@ export async function updateChatMetadata(
 
   await setMessages(db, id, chat.messages, chat.urlId, chat.description, chat.timestamp, metadata);
 }
+
+// resolves to false when the usage of this message has already been recorded
+export async function addUsageRecord(db: IDBDatabase, record: UsageRecord): Promise<boolean> {
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction('usage', 'readwrite');
+    const store = transaction.objectStore('usage');
+    const request = store.add(record);
+
+    request.onsuccess = () => resolve(true);
+
+    request.onerror = (event) => {
+      if (request.error?.name === 'ConstraintError') {
+        event.preventDefault();
+        resolve(false);
+
+        return;
+      }
+
+      reject(request.error);
+    };
+  });
+}
+
+export async function getAllUsageRecords(db: IDBDatabase): Promise<UsageRecord[]> {
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction('usage', 'readonly');
+    const store = transaction.objectStore('usage');
+    const request = store.getAll();
+
+    request.onsuccess = () => resolve(request.result as UsageRecord[]);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+export async function clearUsageRecords(db: IDBDatabase): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction('usage', 'readwrite');
+    const store = transaction.objectStore('usage');
+    const request = store.clear();
+
+    request.onsuccess = () => resolve();
+    request.onerror = () => reject(request.error);
+  });
+}
+
+export async function getSnapshot(db: IDBDatabase, chatId: string, messageId: string): Promise<Snapshot | undefined> {
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction('snapshots', 'readonly');
+    const store = transaction.objectStore('snapshots');
+    const request = store.get([chatId, messageId]);
+
+    request.onsuccess = () => resolve(request.result as Snapshot | undefined);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+export async function setSnapshot(db: IDBDatabase, snapshot: Snapshot): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction('snapshots', 'readwrite');
+    const store = transaction.objectStore('snapshots');
+    const request = store.put(snapshot);
+
+    request.onsuccess = () => resolve();
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/**
+ * Finds the snapshot of the last message in `messageIds` that has one, only that snapshot is read.
+ */
+export async function getLatestSnapshot(
+  db: IDBDatabase,
+  chatId: string,
+  messageIds: string[],
+): Promise<Snapshot | undefined> {
+  const keys = await new Promise<IDBValidKey[]>((resolve, reject) => {
+    const transaction = db.transaction('snapshots', 'readonly');
+    const store = transaction.objectStore('snapshots');
+    const request = store.index('chatId').getAllKeys(chatId);
+
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+  const snapshotIds = new Set(keys.map((key) => (key as [string, string])[1]));
+  const messageId = messageIds.findLast((id) => snapshotIds.has(id));
+
+  return messageId ? getSnapshot(db, chatId, messageId) : undefined;
+}
+
+export async function copySnapshots(
+  db: IDBDatabase,
+  fromChatId: string,
+  toChatId: string,
+  messageIds: string[],
+): Promise<void> {
+  const ids = new Set(messageIds);
+
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction('snapshots', 'readwrite');
+    const store = transaction.objectStore('snapshots');
+    const request = store.index('chatId').openCursor(IDBKeyRange.only(fromChatId));
+
+    request.onsuccess = () => {
+      const cursor = request.result;
+
+      if (!cursor) {
+        return;
+      }
+
+      const snapshot = cursor.value as Snapshot;
+
+      if (ids.has(snapshot.messageId)) {
+        store.put({ ...snapshot, chatId: toChatId });
+      }
+
+      cursor.continue();
+    };
+
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+  });
+}
+
+// deletes the snapshots of the given messages, or all snapshots of the chat
+export async function deleteSnapshots(db: IDBDatabase, chatId: string, messageIds?: string[]): Promise<void> {
+  const ids = messageIds && new Set(messageIds);
+
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction('snapshots', 'readwrite');
+    const store = transaction.objectStore('snapshots');
+    const request = store.index('chatId').openKeyCursor(IDBKeyRange.only(chatId));
+
+    request.onsuccess = () => {
+      const cursor = request.result;
+
+      if (!cursor) {
+        return;
+      }
+
+      if (!ids || ids.has((cursor.primaryKey as [string, string])[1])) {
+        store.delete(cursor.primaryKey);
+      }
+
+      cursor.continue();
+    };
+
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+  });
+}
@@ -0,0 +1,26 @@
+import type { EditorLayout } from '~/utils/editorTabs';
+import { getLocalStorage, setLocalStorage } from './localStorage';
+
+// open tabs and split panes per chat id, small enough for local storage
+const EDITOR_LAYOUTS_KEY = 'bolt_editor_layouts';
+
+function getEditorLayouts(): Record<string, EditorLayout> {
+  return getLocalStorage(EDITOR_LAYOUTS_KEY) ?? {};
+}
+
+export function getEditorLayout(chatId: string): EditorLayout | undefined {
+  return getEditorLayouts()[chatId];
+}
+
+export function setEditorLayout(chatId: string, layout: EditorLayout) {
+  setLocalStorage(EDITOR_LAYOUTS_KEY, { ...getEditorLayouts(), [chatId]: layout });
+}
+
+export function deleteEditorLayout(chatId: string) {
+  const layouts = getEditorLayouts();
+
+  if (chatId in layouts) {
+    delete layouts[chatId];
+    setLocalStorage(EDITOR_LAYOUTS_KEY, layouts);
+  }
+}
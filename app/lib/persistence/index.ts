@@ -1,3 +1,6 @@
 export * from './localStorage';
 export * from './db';
+export * from './editorLayouts';
+export * from './lockedFiles';
+export * from './commandPolicies';
 export * from './useChatHistory';
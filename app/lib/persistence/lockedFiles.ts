@@ -0,0 +1,32 @@
+import { getLocalStorage, setLocalStorage } from './localStorage';
+
+// files and folders the user locked against changes by the AI, per chat id
+const LOCKED_FILES_KEY = 'bolt_locked_files';
+
+function getAllLockedPaths(): Record<string, string[]> {
+  return getLocalStorage(LOCKED_FILES_KEY) ?? {};
+}
+
+export function getLockedPaths(chatId: string): string[] {
+  return getAllLockedPaths()[chatId] ?? [];
+}
+
+export function setLockedPaths(chatId: string, paths: string[]) {
+  const lockedPaths = getAllLockedPaths();
+
+  if (paths.length === 0) {
+    if (!(chatId in lockedPaths)) {
+      return;
+    }
+
+    delete lockedPaths[chatId];
+  } else {
+    lockedPaths[chatId] = paths;
+  }
+
+  setLocalStorage(LOCKED_FILES_KEY, lockedPaths);
+}
+
+export function deleteLockedPaths(chatId: string) {
+  setLockedPaths(chatId, []);
+}
@@ -5,16 +5,24 @@ import type { Message } from 'ai';
 import { toast } from 'react-toastify';
 import { workbenchStore } from '~/lib/stores/workbench';
 import { logStore } from '~/lib/stores/logs'; // Import logStore
+import { recordUsage } from '~/lib/stores/usage';
+import type { UsageAnnotation } from '~/types/context';
+import { debounce } from '~/utils/debounce';
 import {
+  getLatestSnapshot,
   getMessages,
   getNextId,
   getUrlId,
   openDatabase,
   setMessages,
+  setSnapshot,
   duplicateChat,
   createChatFromMessages,
   type IChatMetadata,
 } from './db';
+import { getEditorLayout, setEditorLayout } from './editorLayouts';
+import { getLockedPaths, setLockedPaths } from './lockedFiles';
+import { getChatCommandPolicy, setChatCommandPolicy } from './commandPolicies';
 
 export interface ChatHistoryItem {
   id: string;
@@ -32,6 +40,75 @@ export const db = persistenceEnabled ? await openDatabase() : undefined;
 export const chatId = atom<string | undefined>(undefined);
 export const description = atom<string | undefined>(undefined);
 export const chatMetadata = atom<IChatMetadata | undefined>(undefined);
+
+// pending snapshots keyed by chat and message, a quick next message must not drop the snapshot of the previous one
+const snapshotTimers = new Map<string, ReturnType<typeof setTimeout>>();
+
+/*
+ * waits for the message to settle and for its actions to run so the snapshot holds the files the message
+ * produced, later calls for the same message overwrite the snapshot
+ */
+function saveSnapshot(id: string, messageId: string) {
+  const key = `${id}/${messageId}`;
+
+  clearTimeout(snapshotTimers.get(key));
+  snapshotTimers.set(
+    key,
+    setTimeout(() => {
+      snapshotTimers.delete(key);
+
+      // the actions of the message are added once the queue gets here, they are waited for outside of it
+      workbenchStore.addToExecutionQueue(async () => {
+        writeSnapshot(id, messageId);
+      });
+    }, 1000),
+  );
+}
+
+async function writeSnapshot(id: string, messageId: string) {
+  if (!db) {
+    return;
+  }
+
+  try {
+    await workbenchStore.waitForMessageActions(messageId);
+
+    const files = await workbenchStore.createSnapshot();
+
+    if (Object.keys(files).length === 0) {
+      return;
+    }
+
+    await setSnapshot(db, { chatId: id, messageId, files, timestamp: new Date().toISOString() });
+  } catch (error) {
+    logStore.logError('Failed to save workspace snapshot', error);
+  }
+}
+
+const saveEditorLayout = debounce(() => {
+  const id = chatId.get();
+
+  if (id) {
+    setEditorLayout(id, workbenchStore.editorLayout.get());
+  }
+}, 500);
+
+function saveLockedPaths() {
+  const id = chatId.get();
+
+  if (id) {
+    setLockedPaths(id, workbenchStore.lockedPaths.get());
+  }
+}
+
+function saveCommandPolicy() {
+  const id = chatId.get();
+
+  if (id) {
+    setChatCommandPolicy(id, workbenchStore.chatCommandPolicy.get());
+  }
+}
+
 export function useChatHistory() {
   const navigate = useNavigate();
   const { id: mixedId } = useLoaderData<{ id?: string }>();
@@ -41,6 +118,10 @@ export function useChatHistory() {
   const [ready, setReady] = useState<boolean>(false);
   const [urlId, setUrlId] = useState<string | undefined>();
 
+  useEffect(() => workbenchStore.editorLayout.listen(() => saveEditorLayout()), []);
+  useEffect(() => workbenchStore.lockedPaths.listen(() => saveLockedPaths()), []);
+  useEffect(() => workbenchStore.chatCommandPolicy.listen(() => saveCommandPolicy()), []);
+
   useEffect(() => {
     if (!db) {
       setReady(true);
@@ -56,13 +137,37 @@ export function useChatHistory() {
 
     if (mixedId) {
       getMessages(db, mixedId)
-        .then((storedMessages) => {
+        .then(async (storedMessages) => {
           if (storedMessages && storedMessages.messages.length > 0) {
             const rewindId = searchParams.get('rewindTo');
             const filteredMessages = rewindId
               ? storedMessages.messages.slice(0, storedMessages.messages.findIndex((m) => m.id === rewindId) + 1)
               : storedMessages.messages;
 
+            const messageIds = filteredMessages.map((m) => m.id);
+            const snapshot = await getLatestSnapshot(db!, storedMessages.id, messageIds).catch((error) => {
+              logStore.logError('Failed to load workspace snapshot', error);
+              return undefined;
+            });
+
+            if (snapshot) {
+              // only messages after the snapshot still write their files through the replayed artifacts
+              workbenchStore.restoreSnapshot(
+                snapshot.files,
+                messageIds.slice(0, messageIds.indexOf(snapshot.messageId) + 1),
+              );
+            } else {
+              // chats saved before snapshots existed get one once their artifacts have been replayed
+              const lastAssistantMessage = filteredMessages.findLast((m) => m.role === 'assistant');
+
+              if (lastAssistantMessage) {
+                saveSnapshot(storedMessages.id, lastAssistantMessage.id);
+              }
+            }
+
+            workbenchStore.restoreEditorLayout(getEditorLayout(storedMessages.id));
+            workbenchStore.restoreLockedPaths(getLockedPaths(storedMessages.id));
+            workbenchStore.restoreChatCommandPolicy(getChatCommandPolicy(storedMessages.id));
             setInitialMessages(filteredMessages);
             setUrlId(storedMessages.urlId);
             description.set(storedMessages.description);
@@ -122,12 +227,42 @@ export function useChatHistory() {
 
         chatId.set(nextId);
 
+        // paths locked and commands allowed before the first message had no chat to be stored with
+        saveLockedPaths();
+        saveCommandPolicy();
+
         if (!urlId) {
           navigateChat(nextId);
         }
       }
 
       await setMessages(db, chatId.get() as string, messages, urlId, description.get(), undefined, chatMetadata.get());
+
+      const lastMessage = messages[messages.length - 1];
+
+      if (lastMessage.role === 'assistant') {
+        saveSnapshot(chatId.get() as string, lastMessage.id);
+      }
+
+      // an editor run reports the usage of its planner separately, every model is charged at its own price
+      const usages = (lastMessage.annotations?.filter(
+        (annotation) => (annotation as UsageAnnotation | undefined)?.type === 'usage',
+      ) ?? []) as UsageAnnotation[];
+
+      for (const usage of usages) {
+        if (lastMessage.role !== 'assistant' || !usage.provider || !usage.model) {
+          continue;
+        }
+
+        await recordUsage(db, {
+          id: usage.role ? `${lastMessage.id}-${usage.role}` : lastMessage.id,
+          chatId: chatId.get() as string,
+          provider: usage.provider,
+          model: usage.model,
+          ...usage.value,
+          timestamp: new Date().toISOString(),
+        }).catch((error) => logStore.logError('Failed to record token usage', error));
+      }
     },
     duplicateCurrentChat: async (listItemId: string) => {
       if (!db || (!mixedId && !listItemId)) {
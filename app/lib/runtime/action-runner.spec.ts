@@ -0,0 +1,57 @@
+import type { WebContainer, WebContainerProcess } from '@webcontainer/api';
+import { describe, expect, it, vi } from 'vitest';
+import type { BoltAction } from '~/types/actions';
+import type { ITerminal } from '~/types/terminal';
+import { BoltShell, type ExecutionResult } from '~/utils/shell';
+import { withResolvers } from '~/utils/promises';
+import { ActionRunner } from './action-runner';
+import { ActionScheduler } from './action-scheduler';
+
+function createShell() {
+  const shell = new BoltShell();
+
+  vi.spyOn(shell, 'ready').mockResolvedValue();
+  vi.spyOn(shell, 'terminal', 'get').mockReturnValue({} as ITerminal);
+  vi.spyOn(shell, 'process', 'get').mockReturnValue({} as WebContainerProcess);
+
+  return shell;
+}
+
+function createRunner(shell: BoltShell, scheduler: ActionScheduler) {
+  return new ActionRunner(Promise.resolve({} as WebContainer), () => shell, undefined, undefined, undefined, scheduler);
+}
+
+function runCommand(runner: ActionRunner, messageId: string, content: string) {
+  const action: BoltAction = { type: 'shell', content };
+  const data = { messageId, artifactId: messageId, actionId: '0', action };
+
+  runner.addAction(data);
+
+  return runner.runAction(data);
+}
+
+describe('ActionRunner', () => {
+  it('should run a command in a subshell while another runner keeps the shared shell busy', async () => {
+    const shell = createShell();
+    const scheduler = new ActionScheduler();
+    const install = withResolvers<ExecutionResult>();
+
+    const executeCommand = vi.spyOn(shell, 'executeCommand').mockReturnValue(install.promise);
+    const executeInSubshell = vi.spyOn(shell, 'executeInSubshell').mockResolvedValue({ output: '', exitCode: 0 });
+
+    const first = runCommand(createRunner(shell, scheduler), 'message-1', 'cd client && npm install');
+
+    await vi.waitFor(() => expect(executeCommand).toHaveBeenCalledTimes(1));
+
+    await runCommand(createRunner(shell, scheduler), 'message-2', 'cd server && npm install');
+
+    expect(executeInSubshell).toHaveBeenCalledWith('cd server && npm install', expect.anything(), expect.anything());
+    expect(executeCommand).toHaveBeenCalledTimes(1);
+    expect(shell.isBusy).toBe(true);
+
+    install.resolve({ output: '', exitCode: 0 });
+    await first;
+
+    expect(shell.isBusy).toBe(false);
+  });
+});
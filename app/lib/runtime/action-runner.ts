@@ -1,15 +1,32 @@
 import type { WebContainer } from '@webcontainer/api';
 import { path as nodePath } from '~/utils/path';
 import { atom, map, type MapStore } from 'nanostores';
-import type { ActionAlert, BoltAction, FileHistory } from '~/types/actions';
+import type { ActionAlert, BoltAction, FileHistory, PromptAnswer } from '~/types/actions';
 import { createScopedLogger } from '~/utils/logger';
 import { unreachable } from '~/utils/unreachable';
 import type { ActionCallbackData } from './message-parser';
-import type { BoltShell } from '~/utils/shell';
+import type { BoltShell, PromptHandler } from '~/utils/shell';
+import { encodePromptAnswer, findPromptAnswer } from '~/utils/shellPrompts';
+import { applyFilePatch, PatchApplyError } from '~/utils/patch';
+import { logStore } from '~/lib/stores/logs';
+import type { CommandPolicyResult } from '~/types/commandPolicy';
+import { ActionScheduler } from './action-scheduler';
 
 const logger = createScopedLogger('ActionRunner');
 
-export type ActionStatus = 'pending' | 'running' | 'complete' | 'aborted' | 'failed';
+/*
+ * `review` actions wait for the user to accept them, `rejected` ones never run and `waiting` commands
+ * asked a question the user has to answer in the terminal
+ */
+export type ActionStatus =
+  | 'pending'
+  | 'review'
+  | 'running'
+  | 'waiting'
+  | 'complete'
+  | 'aborted'
+  | 'rejected'
+  | 'failed';
 
 export type BaseActionState = BoltAction & {
   status: Exclude<ActionStatus, 'failed'>;
@@ -22,6 +39,9 @@ export type FailedActionState = BoltAction &
   Omit<BaseActionState, 'status'> & {
     status: Extract<ActionStatus, 'failed'>;
     error: string;
+
+    // why the command policy refused to run the command
+    blockedReason?: string;
   };
 
 export type ActionState = BaseActionState | FailedActionState;
@@ -30,7 +50,7 @@ type BaseActionUpdate = Partial<Pick<BaseActionState, 'status' | 'abort' | 'exec
 
 export type ActionStateUpdate =
   | BaseActionUpdate
-  | (Omit<BaseActionUpdate, 'status'> & { status: 'failed'; error: string });
+  | (Omit<BaseActionUpdate, 'status'> & { status: 'failed'; error: string; blockedReason?: string });
 
 type ActionsMap = MapStore<Record<string, ActionState>>;
 
@@ -63,23 +83,57 @@ class ActionCommandError extends Error {
   }
 }
 
+// raised for commands the command policy does not allow
+class CommandBlockedError extends Error {
+  constructor(readonly reason: string) {
+    super(`Command blocked: ${reason}`);
+
+    Object.setPrototypeOf(this, CommandBlockedError.prototype);
+
+    this.name = 'CommandBlockedError';
+  }
+}
+
+// raised for writes to files the user locked against changes by the AI
+class LockedPathError extends Error {
+  constructor(readonly filePath: string) {
+    super(`${filePath} is locked`);
+
+    Object.setPrototypeOf(this, LockedPathError.prototype);
+
+    this.name = 'LockedPathError';
+  }
+}
+
+function isUnsettled({ type, status }: ActionState) {
+  return status === 'pending' || (status === 'running' && type !== 'start');
+}
+
 export class ActionRunner {
   #webcontainer: Promise<WebContainer>;
-  #currentExecutionPromise: Promise<void> = Promise.resolve();
+  #scheduler: ActionScheduler;
   #shellTerminal: () => BoltShell;
   runnerId = atom<string>(`${Date.now()}`);
   actions: ActionsMap = map({});
   onAlert?: (alert: ActionAlert) => void;
+  isPathLocked?: (filePath: string) => boolean;
+  checkCommand?: (command: string) => CommandPolicyResult;
   buildOutput?: { path: string; exitCode: number; output: string };
 
   constructor(
     webcontainerPromise: Promise<WebContainer>,
     getShellTerminal: () => BoltShell,
     onAlert?: (alert: ActionAlert) => void,
+    isPathLocked?: (filePath: string) => boolean,
+    checkCommand?: (command: string) => CommandPolicyResult,
+    scheduler: ActionScheduler = new ActionScheduler(),
   ) {
     this.#webcontainer = webcontainerPromise;
+    this.#scheduler = scheduler;
     this.#shellTerminal = getShellTerminal;
     this.onAlert = onAlert;
+    this.isPathLocked = isPathLocked;
+    this.checkCommand = checkCommand;
   }
 
   addAction(data: ActionCallbackData) {
@@ -105,10 +159,6 @@ export class ActionRunner {
       },
       abortSignal: abortController.signal,
     });
-
-    this.#currentExecutionPromise.then(() => {
-      this.#updateAction(actionId, { status: 'running' });
-    });
   }
 
   async runAction(data: ActionCallbackData, isStreaming: boolean = false) {
@@ -129,17 +179,72 @@ export class ActionRunner {
 
     this.#updateAction(actionId, { ...action, ...data.action, executed: !isStreaming });
 
-    this.#currentExecutionPromise = this.#currentExecutionPromise
-      .then(() => {
-        return this.#executeAction(actionId, isStreaming);
-      })
+    // the action waits for the earlier ones it depends on, it is scheduled before this returns a promise
+    await this.#scheduler
+      .schedule(data.action, () => this.#executeAction(actionId, isStreaming))
       .catch((error) => {
         console.error('Action failed:', error);
       });
+  }
+
+  /**
+   * Resolves with the status of the action once it stops being pending or running. Start actions keep running
+   * while their server is up, they count as settled once they run.
+   */
+  waitForAction(actionId: string) {
+    return new Promise<ActionStatus | undefined>((resolve) => {
+      const check = () => {
+        const action = this.actions.get()[actionId];
+
+        if (action && isUnsettled(action)) {
+          return false;
+        }
+
+        resolve(action?.status);
+
+        return true;
+      };
+
+      if (check()) {
+        return;
+      }
+
+      const unlisten = this.actions.listen(() => {
+        if (check()) {
+          unlisten();
+        }
+      });
+    });
+  }
+
+  /**
+   * Marks an action as done without running it, used when its result is already part of a restored snapshot.
+   */
+  skipAction(actionId: string) {
+    if (!this.actions.get()[actionId]) {
+      unreachable(`Action ${actionId} not found`);
+    }
+
+    this.#updateAction(actionId, { executed: true, status: 'complete' });
+  }
+
+  /**
+   * Keeps the action from running until it is accepted with `runAction` or rejected with `rejectAction`.
+   */
+  holdAction(actionId: string) {
+    if (!this.actions.get()[actionId]) {
+      unreachable(`Action ${actionId} not found`);
+    }
 
-    await this.#currentExecutionPromise;
+    this.#updateAction(actionId, { status: 'review' });
+  }
+
+  rejectAction(actionId: string) {
+    if (!this.actions.get()[actionId]) {
+      unreachable(`Action ${actionId} not found`);
+    }
 
-    return;
+    this.#updateAction(actionId, { executed: true, status: 'rejected' });
   }
 
   async #executeAction(actionId: string, isStreaming: boolean = false) {
@@ -148,15 +253,23 @@ export class ActionRunner {
     this.#updateAction(actionId, { status: 'running' });
 
     try {
+      if (action.type === 'shell' || action.type === 'start') {
+        this.#assertCommandAllowed(action.content);
+      }
+
       switch (action.type) {
         case 'shell': {
-          await this.#runShellAction(action);
+          await this.#runShellAction(actionId, action);
           break;
         }
         case 'file': {
           await this.#runFileAction(action);
           break;
         }
+        case 'patch': {
+          await this.#runPatchAction(action);
+          break;
+        }
         case 'build': {
           const buildOutput = await this.#runBuildAction(action);
 
@@ -186,6 +299,7 @@ export class ActionRunner {
                 title: 'Dev Server Failed',
                 description: err.header,
                 content: err.output,
+                action: { type: action.type, content: action.content },
               });
             });
 
@@ -207,9 +321,40 @@ export class ActionRunner {
         return;
       }
 
+      if (error instanceof CommandBlockedError) {
+        this.#updateAction(actionId, { status: 'failed', error: error.message, blockedReason: error.reason });
+        logStore.logWarning('Blocked a command of the model', { command: action.content, reason: error.reason });
+
+        return;
+      }
+
       this.#updateAction(actionId, { status: 'failed', error: 'Action failed' });
       logger.error(`[${action.type}]:Action failed\n\n`, error);
 
+      if (error instanceof PatchApplyError && action.type === 'patch') {
+        this.onAlert?.({
+          type: 'error',
+          title: 'Patch Failed',
+          description: `${action.filePath}: ${error.message}`,
+          content: error.block,
+          source: 'patch',
+        });
+
+        throw error;
+      }
+
+      if (error instanceof LockedPathError) {
+        this.onAlert?.({
+          type: 'error',
+          title: 'File Locked',
+          description: `${error.filePath} is locked and was not changed`,
+          content: error.filePath,
+          source: 'locked',
+        });
+
+        throw error;
+      }
+
       if (!(error instanceof ActionCommandError)) {
         return;
       }
@@ -219,6 +364,10 @@ export class ActionRunner {
         title: 'Dev Server Failed',
         description: error.header,
         content: error.output,
+        action:
+          action.type === 'shell' || action.type === 'build'
+            ? { type: action.type, content: action.content }
+            : undefined,
       });
 
       // re-throw the error to be caught in the promise chain
@@ -226,7 +375,7 @@ export class ActionRunner {
     }
   }
 
-  async #runShellAction(action: ActionState) {
+  async #runShellAction(actionId: string, action: ActionState) {
     if (action.type !== 'shell') {
       unreachable('Expected shell action');
     }
@@ -238,10 +387,24 @@ export class ActionRunner {
       unreachable('Shell terminal not found');
     }
 
-    const resp = await shell.executeCommand(this.runnerId.get(), action.content, () => {
-      logger.debug(`[${action.type}]:Aborting Action\n\n`, action);
-      action.abort();
-    });
+    // the shell is shared by all runners, a command of another artifact may keep it busy
+    const useSubshell = shell.isBusy;
+    const prompts = this.#createPromptHandler(actionId, action.answers ?? []);
+
+    const resp = await shell.trackCommand(() =>
+      useSubshell
+        ? shell.executeInSubshell(action.content, action.abortSignal, prompts)
+        : shell.executeCommand(
+            this.runnerId.get(),
+            action.content,
+            () => {
+              logger.debug(`[${action.type}]:Aborting Action\n\n`, action);
+              action.abort();
+            },
+            prompts,
+          ),
+    );
+
     logger.debug(`${action.type} Shell Response: [exit code:${resp?.exitCode}]`);
 
     if (resp?.exitCode != 0) {
@@ -265,10 +428,13 @@ export class ActionRunner {
       unreachable('Shell terminal not found');
     }
 
-    const resp = await shell.executeCommand(this.runnerId.get(), action.content, () => {
-      logger.debug(`[${action.type}]:Aborting Action\n\n`, action);
-      action.abort();
-    });
+    const resp = await shell.trackCommand(() =>
+      shell.executeCommand(this.runnerId.get(), action.content, () => {
+        logger.debug(`[${action.type}]:Aborting Action\n\n`, action);
+        action.abort();
+      }),
+    );
+
     logger.debug(`${action.type} Shell Response: [exit code:${resp?.exitCode}]`);
 
     if (resp?.exitCode != 0) {
@@ -284,6 +450,8 @@ export class ActionRunner {
     }
 
     const webcontainer = await this.#webcontainer;
+    this.#assertNotLocked(webcontainer.workdir, action.filePath);
+
     const relativePath = nodePath.relative(webcontainer.workdir, action.filePath);
 
     let folder = nodePath.dirname(relativePath);
@@ -308,6 +476,73 @@ export class ActionRunner {
     }
   }
 
+  async #runPatchAction(action: ActionState) {
+    if (action.type !== 'patch') {
+      unreachable('Expected patch action');
+    }
+
+    const webcontainer = await this.#webcontainer;
+    this.#assertNotLocked(webcontainer.workdir, action.filePath);
+
+    const relativePath = nodePath.relative(webcontainer.workdir, action.filePath);
+
+    let originalContent: string;
+
+    try {
+      originalContent = await webcontainer.fs.readFile(relativePath, 'utf-8');
+    } catch {
+      throw new PatchApplyError('File does not exist, use a file action to create it', action.content);
+    }
+
+    const patchedContent = applyFilePatch(originalContent, action.content, action.filePath);
+
+    await webcontainer.fs.writeFile(relativePath, patchedContent);
+    logger.debug(`File patched ${relativePath}`);
+  }
+
+  // each declared answer is only used once, a question asked again goes to the user
+  #createPromptHandler(actionId: string, answers: PromptAnswer[]): PromptHandler {
+    const remainingAnswers = [...answers];
+
+    return {
+      answer: (prompt) => {
+        const answer = findPromptAnswer(prompt, remainingAnswers);
+
+        if (!answer) {
+          logger.debug(`No answer for prompt '${prompt}'`);
+          return undefined;
+        }
+
+        remainingAnswers.splice(remainingAnswers.indexOf(answer), 1);
+
+        return encodePromptAnswer(answer.answer);
+      },
+      onWaitingForInput: (waiting) => {
+        // the action may have been aborted in the meantime
+        if (this.actions.get()[actionId].status === (waiting ? 'running' : 'waiting')) {
+          this.#updateAction(actionId, { status: waiting ? 'waiting' : 'running' });
+        }
+      },
+    };
+  }
+
+  // commands to confirm were accepted by the user before they got here
+  #assertCommandAllowed(command: string) {
+    const result = this.checkCommand?.(command);
+
+    if (result?.decision === 'deny') {
+      throw new CommandBlockedError(result.reason ?? 'not allowed by the command policy');
+    }
+  }
+
+  #assertNotLocked(workdir: string, filePath: string) {
+    const fullPath = filePath.startsWith(`${workdir}/`) ? filePath : nodePath.join(workdir, filePath);
+
+    if (this.isPathLocked?.(fullPath)) {
+      throw new LockedPathError(nodePath.relative(workdir, fullPath));
+    }
+  }
+
   #updateAction(id: string, newState: ActionStateUpdate) {
     const actions = this.actions.get();
 
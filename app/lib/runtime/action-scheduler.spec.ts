@@ -0,0 +1,62 @@
+import { describe, expect, it } from 'vitest';
+import { ActionScheduler, getActionScope, scopesConflict } from './action-scheduler';
+import type { BoltAction } from '~/types/actions';
+
+const file = (filePath: string): BoltAction => ({ type: 'file', filePath, content: '' });
+const shell = (content: string): BoltAction => ({ type: 'shell', content });
+
+describe('getActionScope', () => {
+  it('should limit commands to the directory they change into', () => {
+    expect(getActionScope(file('/home/project/src/App.tsx'))).toEqual({ type: 'file', filePath: 'src/App.tsx' });
+    expect(getActionScope(shell('cd client && npm install'))).toEqual({ type: 'directory', dir: 'client' });
+    expect(getActionScope(shell('npm install'))).toEqual({ type: 'directory', dir: '.' });
+    expect(getActionScope(shell('cd client && cp ../shared/a.ts .'))).toEqual({ type: 'directory', dir: '.' });
+    expect(getActionScope({ type: 'start', content: 'npm run dev' })).toEqual({ type: 'barrier' });
+  });
+});
+
+describe('scopesConflict', () => {
+  it('should keep the order of actions that touch the same files', () => {
+    const scope = (action: BoltAction) => getActionScope(action);
+
+    expect(scopesConflict(scope(file('a.ts')), scope(file('b.ts')))).toBe(false);
+    expect(scopesConflict(scope(file('a.ts')), scope(file('/home/project/a.ts')))).toBe(true);
+    expect(scopesConflict(scope(shell('cd client && npm i')), scope(shell('cd server && npm i')))).toBe(false);
+    expect(scopesConflict(scope(shell('cd client && npm i')), scope(file('client/package.json')))).toBe(true);
+    expect(scopesConflict(scope(shell('npm i')), scope(file('server/index.js')))).toBe(true);
+  });
+});
+
+describe('ActionScheduler', () => {
+  it('should run independent actions at the same time and dependent ones in order', async () => {
+    const scheduler = new ActionScheduler();
+    const events: string[] = [];
+
+    const run = (name: string, ms: number) => async () => {
+      events.push(`start ${name}`);
+      await new Promise((resolve) => setTimeout(resolve, ms));
+      events.push(`end ${name}`);
+    };
+
+    scheduler.schedule(file('a.ts'), run('a', 20));
+    scheduler.schedule(file('b.ts'), run('b', 5));
+    scheduler.schedule(file('a.ts'), async () => {
+      await run('a again', 0)();
+      throw new Error('failed');
+    });
+    scheduler.schedule({ type: 'start', content: 'npm run dev' }, run('start', 0));
+
+    await scheduler.idle();
+
+    expect(events).toEqual([
+      'start a',
+      'start b',
+      'end b',
+      'end a',
+      'start a again',
+      'end a again',
+      'start start',
+      'end start',
+    ]);
+  });
+});
@@ -0,0 +1,124 @@
+import type { BoltAction } from '~/types/actions';
+import { WORK_DIR } from '~/utils/constants';
+import { isSubPath, path } from '~/utils/path';
+
+/**
+ * What an action touches: a single file, everything below a directory for commands, or the whole
+ * project for dev servers and builds, which have to wait for everything before them.
+ */
+export type ActionScope = { type: 'file'; filePath: string } | { type: 'directory'; dir: string } | { type: 'barrier' };
+
+// only a command that starts with `cd <dir> &&` and stays inside that directory is limited to it
+const CD_PREFIX_REGEX = /^\s*cd\s+(['"]?)([\w@.\-/]+)\1\s*&&\s*(.*)$/s;
+
+const ROOT_DIR = '.';
+
+function toProjectPath(filePath: string) {
+  const relativePath = filePath.startsWith(`${WORK_DIR}/`) ? filePath.slice(WORK_DIR.length + 1) : filePath;
+
+  return path.normalize(relativePath).replace(/^\.\//, '').replace(/\/+$/, '');
+}
+
+function getCommandDirectory(command: string) {
+  const match = command.match(CD_PREFIX_REGEX);
+
+  if (!match) {
+    return ROOT_DIR;
+  }
+
+  const [, , dir, rest] = match;
+  const projectDir = toProjectPath(dir);
+
+  if (projectDir.startsWith('..') || path.isAbsolute(projectDir) || /(^|[\s;&|])cd\s|\.\.\//.test(rest)) {
+    return ROOT_DIR;
+  }
+
+  return projectDir;
+}
+
+export function getActionScope(action: BoltAction): ActionScope {
+  switch (action.type) {
+    case 'file':
+    case 'patch': {
+      return { type: 'file', filePath: toProjectPath(action.filePath) };
+    }
+    case 'shell': {
+      return { type: 'directory', dir: getCommandDirectory(action.content) };
+    }
+    default: {
+      return { type: 'barrier' };
+    }
+  }
+}
+
+function isInDirectory(filePath: string, dir: string) {
+  return dir === ROOT_DIR || isSubPath(filePath, dir);
+}
+
+/**
+ * Whether two actions have to run in the order the model wrote them.
+ */
+export function scopesConflict(a: ActionScope, b: ActionScope) {
+  if (a.type === 'barrier' || b.type === 'barrier') {
+    return true;
+  }
+
+  if (a.type === 'file' && b.type === 'file') {
+    return a.filePath === b.filePath;
+  }
+
+  if (a.type === 'directory' && b.type === 'directory') {
+    return isInDirectory(a.dir, b.dir) || isInDirectory(b.dir, a.dir);
+  }
+
+  const [file, directory] = a.type === 'file' ? [a, b] : [b, a];
+
+  return file.type === 'file' && directory.type === 'directory' && isInDirectory(file.filePath, directory.dir);
+}
+
+interface ScheduledTask {
+  scope: ActionScope;
+  done: Promise<void>;
+}
+
+/**
+ * Runs actions as soon as the earlier actions they depend on have finished, so writes to different
+ * files and commands in different directories run at the same time. Actions still run when one of
+ * their dependencies failed, like they did one after another.
+ */
+export class ActionScheduler {
+  #tasks = new Set<ScheduledTask>();
+
+  /**
+   * Dependencies are taken from the actions scheduled so far, actions must be scheduled in the order
+   * the model wrote them.
+   */
+  schedule(action: BoltAction, run: () => Promise<void>): Promise<void> {
+    const scope = getActionScope(action);
+
+    const dependencies = [...this.#tasks].filter((task) => scopesConflict(scope, task.scope)).map((task) => task.done);
+
+    const result = Promise.all(dependencies).then(() => run());
+
+    // later actions only wait for this one to settle
+    const task: ScheduledTask = {
+      scope,
+      done: result.then(
+        () => undefined,
+        () => undefined,
+      ),
+    };
+
+    this.#tasks.add(task);
+    task.done.then(() => this.#tasks.delete(task));
+
+    return result;
+  }
+
+  /**
+   * Resolves when every action scheduled so far has finished.
+   */
+  async idle() {
+    await Promise.all([...this.#tasks].map((task) => task.done));
+  }
+}
@@ -1,3 +1,4 @@
+import type { ToolInvocation } from 'ai';
 import { describe, expect, it, vi } from 'vitest';
 import { StreamingMessageParser, type ActionCallback, type ArtifactCallback } from './message-parser';
 
@@ -156,6 +157,90 @@ describe('StreamingMessageParser', () => {
       runTest(input, expected);
     });
   });
+
+  it('should parse the answers of shell actions', () => {
+    const onActionClose = vi.fn<ActionCallback>();
+    const parser = new StreamingMessageParser({ artifactElement: () => '', callbacks: { onActionClose } });
+
+    parser.parse(
+      'message_1',
+      '<boltArtifact title="Some title" id="artifact_1"><boltAction type="shell" answers="Project name=my-app;Select a framework={down}{down}">npm create vite@latest</boltAction></boltArtifact>',
+    );
+
+    expect(onActionClose.mock.calls[0][0].action).toEqual({
+      type: 'shell',
+      content: 'npm create vite@latest',
+      answers: [
+        { question: 'Project name', answer: 'my-app' },
+        { question: 'Select a framework', answer: '{down}{down}' },
+      ],
+    });
+  });
+
+  describe('tool invocations', () => {
+    it('should map completed tool calls to actions once', () => {
+      const onArtifactOpen = vi.fn<ArtifactCallback>();
+      const onActionClose = vi.fn<ActionCallback>();
+      const parser = new StreamingMessageParser({
+        artifactElement: () => '[artifact]',
+        callbacks: { onArtifactOpen, onActionClose },
+      });
+
+      const invocations: ToolInvocation[] = [
+        { state: 'call', toolCallId: '1', toolName: 'write_file', args: { path: 'index.js', content: 'foo' } },
+        { state: 'result', toolCallId: '2', toolName: 'read_file', args: { path: 'index.js' }, result: 'foo' },
+        { state: 'partial-call', toolCallId: '3', toolName: 'run_shell', args: {} },
+      ];
+
+      expect(parser.parseToolInvocations('message_1', invocations)).toBe('[artifact]');
+
+      invocations[2] = { state: 'call', toolCallId: '3', toolName: 'run_shell', args: { command: 'npm install' } };
+
+      expect(parser.parseToolInvocations('message_1', invocations)).toBe('');
+      expect(onArtifactOpen).toHaveBeenCalledTimes(1);
+      expect(onActionClose.mock.calls.map(([data]) => [data.actionId, data.action])).toEqual([
+        ['0', { type: 'file', filePath: 'index.js', content: 'foo' }],
+        ['1', { type: 'shell', content: 'npm install' }],
+      ]);
+    });
+
+    it('should reuse the artifact opened by the message text', () => {
+      const onArtifactOpen = vi.fn<ArtifactCallback>();
+      const parser = new StreamingMessageParser({ artifactElement: () => '[artifact]', callbacks: { onArtifactOpen } });
+
+      parser.parse('message_1', '<boltArtifact title="Some title" id="artifact_1">');
+
+      const output = parser.parseToolInvocations('message_1', [
+        { state: 'call', toolCallId: '1', toolName: 'start_server', args: { command: 'npm run dev' } },
+      ]);
+
+      expect(output).toBe('');
+      expect(onArtifactOpen).toHaveBeenCalledTimes(1);
+    });
+
+    it('should open the tool artifact after the artifact of the message text closed', () => {
+      const onArtifactOpen = vi.fn<ArtifactCallback>();
+      const onActionClose = vi.fn<ActionCallback>();
+      const parser = new StreamingMessageParser({
+        artifactElement: () => '[artifact]',
+        callbacks: { onArtifactOpen, onActionClose },
+      });
+
+      parser.parse('message_1', '<boltArtifact title="Some title" id="artifact_1"></boltArtifact>');
+
+      for (const toolCallId of ['1', '2']) {
+        parser.parseToolInvocations('message_1', [
+          { state: 'call', toolCallId, toolName: 'run_shell', args: { command: 'npm install' } },
+        ]);
+      }
+
+      expect(onArtifactOpen.mock.calls.map(([data]) => data.id)).toEqual(['artifact_1', 'workspace-changes']);
+      expect(onActionClose.mock.calls.map(([data]) => data.artifactId)).toEqual([
+        'workspace-changes',
+        'workspace-changes',
+      ]);
+    });
+  });
 });
 
 function runTest(input: string | string[], outputOrExpectedResult: string | ExpectedResult) {
@@ -1,13 +1,19 @@
-import type { ActionType, BoltAction, BoltActionData, FileAction, ShellAction } from '~/types/actions';
+import type { ToolInvocation } from 'ai';
+import type { ActionType, BoltAction, BoltActionData, FileAction, PatchAction, ShellAction } from '~/types/actions';
 import type { BoltArtifactData } from '~/types/artifact';
+import type { BoltToolName, CommandToolArgs, WriteFileToolArgs } from '~/types/tools';
 import { createScopedLogger } from '~/utils/logger';
 import { unreachable } from '~/utils/unreachable';
+import { parsePromptAnswers } from '~/utils/shellPrompts';
 
 const ARTIFACT_TAG_OPEN = '<boltArtifact';
 const ARTIFACT_TAG_CLOSE = '</boltArtifact>';
 const ARTIFACT_ACTION_TAG_OPEN = '<boltAction';
 const ARTIFACT_ACTION_TAG_CLOSE = '</boltAction>';
 
+const TOOL_ARTIFACT_ID = 'workspace-changes';
+const TOOL_ARTIFACT_TITLE = 'Workspace Changes';
+
 const logger = createScopedLogger('MessageParser');
 
 export interface ArtifactCallbackData extends BoltArtifactData {
@@ -50,6 +56,9 @@ interface MessageState {
   currentArtifact?: BoltArtifactData;
   currentAction: BoltActionData;
   actionId: number;
+  artifactRendered: boolean;
+  toolArtifactOpened: boolean;
+  handledToolCalls: Set<string>;
 }
 
 function cleanoutMarkdownSyntax(content: string) {
@@ -74,19 +83,7 @@ export class StreamingMessageParser {
   constructor(private _options: StreamingMessageParserOptions = {}) {}
 
   parse(messageId: string, input: string) {
-    let state = this.#messages.get(messageId);
-
-    if (!state) {
-      state = {
-        position: 0,
-        insideAction: false,
-        insideArtifact: false,
-        currentAction: { content: '' },
-        actionId: 0,
-      };
-
-      this.#messages.set(messageId, state);
-    }
+    const state = this.#getState(messageId);
 
     let output = '';
     let i = state.position;
@@ -118,6 +115,9 @@ export class StreamingMessageParser {
               }
 
               content += '\n';
+            } else if ('type' in currentAction && currentAction.type === 'patch') {
+              content = cleanoutMarkdownSyntax(content);
+              content = cleanEscapedTags(content);
             }
 
             currentAction.content = content;
@@ -231,6 +231,7 @@ export class StreamingMessageParser {
               }
 
               state.insideArtifact = true;
+              state.artifactRendered = true;
 
               const currentArtifact = {
                 id: artifactId,
@@ -279,10 +280,106 @@ export class StreamingMessageParser {
     return output;
   }
 
+  /**
+   * Turns completed native tool calls into the same action callbacks that the `<boltAction>` tags produce.
+   * Returns the artifact element the first time a message needs one, otherwise an empty string.
+   */
+  parseToolInvocations(messageId: string, toolInvocations: ToolInvocation[]) {
+    const state = this.#getState(messageId);
+
+    let output = '';
+
+    for (const invocation of toolInvocations) {
+      if (invocation.state === 'partial-call' || state.handledToolCalls.has(invocation.toolCallId)) {
+        continue;
+      }
+
+      const action = this.#toolInvocationToAction(invocation.toolName as BoltToolName, invocation.args);
+
+      if (!action) {
+        // read-only tools are answered on the server and don't produce actions
+        state.handledToolCalls.add(invocation.toolCallId);
+        continue;
+      }
+
+      let artifact = state.currentArtifact;
+
+      // outside of an open text artifact the actions go to an artifact of their own, opened once per message
+      if (!artifact) {
+        artifact = { id: TOOL_ARTIFACT_ID, title: TOOL_ARTIFACT_TITLE };
+
+        if (!state.toolArtifactOpened) {
+          state.toolArtifactOpened = true;
+          this._options.callbacks?.onArtifactOpen?.({ messageId, ...artifact });
+        }
+      }
+
+      if (!state.artifactRendered) {
+        state.artifactRendered = true;
+
+        const artifactFactory = this._options.artifactElement ?? createArtifactElement;
+
+        output += artifactFactory({ messageId });
+      }
+
+      const actionId = String(state.actionId++);
+
+      this._options.callbacks?.onActionOpen?.({ artifactId: artifact.id, messageId, actionId, action });
+      this._options.callbacks?.onActionClose?.({ artifactId: artifact.id, messageId, actionId, action });
+
+      state.handledToolCalls.add(invocation.toolCallId);
+    }
+
+    return output;
+  }
+
   reset() {
     this.#messages.clear();
   }
 
+  #getState(messageId: string) {
+    let state = this.#messages.get(messageId);
+
+    if (!state) {
+      state = {
+        position: 0,
+        insideAction: false,
+        insideArtifact: false,
+        currentAction: { content: '' },
+        actionId: 0,
+        artifactRendered: false,
+        toolArtifactOpened: false,
+        handledToolCalls: new Set(),
+      };
+
+      this.#messages.set(messageId, state);
+    }
+
+    return state;
+  }
+
+  #toolInvocationToAction(toolName: BoltToolName, args: unknown): BoltAction | undefined {
+    switch (toolName) {
+      case 'write_file': {
+        const { path, content } = args as WriteFileToolArgs;
+        return { type: 'file', filePath: path, content };
+      }
+      case 'run_shell': {
+        return { type: 'shell', content: (args as CommandToolArgs).command };
+      }
+      case 'start_server': {
+        return { type: 'start', content: (args as CommandToolArgs).command };
+      }
+      case 'read_file': {
+        return undefined;
+      }
+      default: {
+        logger.warn(`Unknown tool '${toolName}'`);
+        return undefined;
+      }
+    }
+  }
+
   #parseActionTag(input: string, actionOpenIndex: number, actionEndIndex: number) {
     const actionTag = input.slice(actionOpenIndex, actionEndIndex + 1);
 
@@ -301,11 +398,25 @@ export class StreamingMessageParser {
       }
 
       (actionAttributes as FileAction).filePath = filePath;
-    } else if (!['shell', 'start'].includes(actionType)) {
+    } else if (actionType === 'patch') {
+      const filePath = this.#extractAttribute(actionTag, 'filePath') as string;
+
+      if (!filePath) {
+        logger.debug('Patch file path not specified');
+      }
+
+      (actionAttributes as PatchAction).filePath = filePath;
+    } else if (actionType === 'shell') {
+      const answers = parsePromptAnswers(this.#extractAttribute(actionTag, 'answers'));
+
+      if (answers.length > 0) {
+        (actionAttributes as ShellAction).answers = answers;
+      }
+    } else if (actionType !== 'start') {
       logger.warn(`Unknown action type '${actionType}'`);
     }
 
-    return actionAttributes as FileAction | ShellAction;
+    return actionAttributes as FileAction | PatchAction | ShellAction;
   }
 
   #extractAttribute(tag: string, attributeName: string): string | undefined {
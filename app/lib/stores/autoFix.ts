@@ -0,0 +1,68 @@
+import { map } from 'nanostores';
+import type { ActionAlert, BoltAction } from '~/types/actions';
+
+export interface AutoFixState {
+  active: boolean;
+  attempt: number;
+  maxAttempts: number;
+
+  // the budget ran out, errors are left to the user until they send a message themselves
+  exhausted: boolean;
+
+  // the shell/build/start action that failed and should be re-run once the fix has been applied
+  failedAction?: BoltAction;
+}
+
+export const autoFixStore = map<AutoFixState>({
+  active: false,
+  attempt: 0,
+  maxAttempts: 0,
+  exhausted: false,
+});
+
+export function startAutoFixAttempt(alert: ActionAlert, maxAttempts: number) {
+  const { attempt } = autoFixStore.get();
+
+  autoFixStore.set({
+    active: true,
+    attempt: attempt + 1,
+    maxAttempts,
+    exhausted: false,
+    failedAction: alert.action,
+  });
+}
+
+// keeps the attempt count so that the next error continues the same budget
+export function finishAutoFixAttempt() {
+  autoFixStore.setKey('active', false);
+  autoFixStore.setKey('failedAction', undefined);
+}
+
+// keeps the attempt count, only `stopAutoFix` starts a fresh budget
+export function exhaustAutoFix() {
+  autoFixStore.set({ ...autoFixStore.get(), active: false, exhausted: true, failedAction: undefined });
+}
+
+export function stopAutoFix() {
+  autoFixStore.set({ active: false, attempt: 0, maxAttempts: 0, exhausted: false });
+}
+
+export function getAutoFixPrompt(alert: ActionAlert, attempt: number, maxAttempts: number) {
+  const label =
+    alert.source === 'preview'
+      ? 'preview error'
+      : alert.source === 'patch'
+        ? 'failed patch'
+        : alert.source === 'locked'
+          ? 'change to a locked file, make it without modifying locked files'
+          : 'terminal error';
+  const language =
+    alert.source === 'preview' ? 'js' : alert.source === 'patch' ? 'diff' : alert.source === 'locked' ? 'text' : 'sh';
+  const failedCommand = alert.action?.content;
+
+  return [
+    `*Auto-fix attempt ${attempt} of ${maxAttempts}: fix this ${label}*`,
+    failedCommand ? `\nThe failed command \`${failedCommand}\` will be re-run automatically after your fix.` : '',
+    `\n\`\`\`${language}\n${alert.description}\n\n${alert.content}\n\`\`\`\n`,
+  ].join('\n');
+}
@@ -1,7 +1,14 @@
-import { map } from 'nanostores';
+import type { Message } from 'ai';
+import { atom, map } from 'nanostores';
 
 export const chatStore = map({
   started: false,
   aborted: false,
   showChat: true,
 });
+
+// a message for the chat to send once it is not busy, e.g. from the problems panel
+export const pendingChatMessage = atom<string | undefined>(undefined);
+
+// an assistant message for the chat to add without sending anything, e.g. the changes pulled from upstream
+export const pendingAssistantMessage = atom<Message | undefined>(undefined);
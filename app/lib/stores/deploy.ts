@@ -0,0 +1,258 @@
+import { atom } from 'nanostores';
+import { chatId, chatMetadata, db, updateChatMetadata, type ChatDeployment } from '~/lib/persistence';
+import type { ActionCallbackData } from '~/lib/runtime/message-parser';
+import { webcontainer } from '~/lib/webcontainer';
+import type { DeployConnection, Deployment, DeployProviderInfo, DeployProviderType, DeploySite } from '~/types/deploy';
+import { encodeBase64 } from '~/utils/base64';
+import { WORK_DIR } from '~/utils/constants';
+import { path } from '~/utils/path';
+import { logStore } from './logs';
+import { netlifyConnection } from './netlify';
+import { workbenchStore } from './workbench';
+
+const STORAGE_KEY = 'deploy_connections';
+
+// the history of a chat keeps the latest deployments only
+const MAX_DEPLOYMENTS = 20;
+
+export const deployProviderInfos: DeployProviderInfo[] = [
+  {
+    type: 'netlify',
+    label: 'Netlify',
+    icon: 'i-ph:cloud-arrow-up',
+    fields: [{ key: 'token', label: 'Access token', secret: true }],
+    hint: 'Personal access token from User settings > Applications',
+  },
+  {
+    type: 'vercel',
+    label: 'Vercel',
+    icon: 'i-ph:triangle',
+    fields: [
+      { key: 'token', label: 'Access token', secret: true },
+      { key: 'teamId', label: 'Team ID', placeholder: 'team_...', optional: true },
+    ],
+    hint: 'Token from Account settings > Tokens, the team ID deploys to a team instead of your account',
+  },
+  {
+    type: 'cloudflare',
+    label: 'Cloudflare Pages',
+    icon: 'i-ph:cloud',
+    fields: [
+      { key: 'accountId', label: 'Account ID' },
+      { key: 'token', label: 'API token', secret: true },
+    ],
+    hint: 'API token with the Cloudflare Pages edit and Account settings read permissions',
+  },
+  {
+    type: 's3',
+    label: 'S3-compatible bucket',
+    icon: 'i-ph:hard-drives',
+    fields: [
+      { key: 'endpoint', label: 'Endpoint', placeholder: 'https://s3.us-east-1.amazonaws.com' },
+      { key: 'region', label: 'Region', placeholder: 'us-east-1', optional: true },
+      { key: 'bucket', label: 'Bucket' },
+      { key: 'accessKeyId', label: 'Access key' },
+      { key: 'secretAccessKey', label: 'Secret key', secret: true },
+      { key: 'publicUrl', label: 'Public URL', placeholder: 'https://cdn.example.com', optional: true },
+    ],
+    hint: 'AWS S3, MinIO or another S3-compatible server, the bucket must allow public reads to serve the sites',
+  },
+  {
+    type: 'webhook',
+    label: 'Webhook',
+    icon: 'i-ph:webhooks-logo',
+    fields: [
+      { key: 'url', label: 'URL', placeholder: 'https://deploy.example.com/hooks/bolt' },
+      { key: 'secret', label: 'Secret', secret: true, optional: true },
+    ],
+    hint: 'Receives the build output as a zip in a POST request, the secret is sent as a bearer token',
+  },
+];
+
+export function getDeployProviderInfo(type: DeployProviderType) {
+  return deployProviderInfos.find((info) => info.type === type) ?? deployProviderInfos[0];
+}
+
+function loadConnections(): DeployConnection[] {
+  if (typeof window === 'undefined') {
+    return [];
+  }
+
+  try {
+    return JSON.parse(localStorage.getItem(STORAGE_KEY) || '[]');
+  } catch {
+    return [];
+  }
+}
+
+export const deployConnections = atom<DeployConnection[]>(loadConnections());
+export const isDeploying = atom(false);
+
+function saveConnections(connections: DeployConnection[]) {
+  deployConnections.set(connections);
+
+  if (typeof window !== 'undefined') {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(connections));
+  }
+}
+
+/**
+ * Adds a connection, or replaces the one with the same id.
+ */
+export function saveDeployConnection(connection: DeployConnection) {
+  const connections = deployConnections.get().filter(({ id }) => id !== connection.id);
+
+  saveConnections([...connections, connection]);
+}
+
+export function removeDeployConnection(id: string) {
+  saveConnections(deployConnections.get().filter((connection) => connection.id !== id));
+}
+
+/**
+ * The Netlify account connected in its own settings card, `undefined` while there is none.
+ */
+export function getNetlifyDeployConnection(): DeployConnection | undefined {
+  const { user, token } = netlifyConnection.get();
+
+  return user && token ? { id: 'netlify', type: 'netlify', name: 'Netlify', settings: { token } } : undefined;
+}
+
+async function requestDeploy<T>(body: object): Promise<T> {
+  const response = await fetch('/api/deploy', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+  });
+
+  const data = (await response.json()) as T & { error?: string };
+
+  if (!response.ok) {
+    throw new Error(data.error || `Deployment failed with ${response.status}`);
+  }
+
+  return data;
+}
+
+/**
+ * Checks the settings of a new connection, returns the name of the account.
+ */
+export async function connectDeployTarget(type: DeployProviderType, settings: Record<string, string>) {
+  const { account } = await requestDeploy<{ account: string }>({ intent: 'connect', provider: type, settings });
+  return account;
+}
+
+export function getChatDeployments() {
+  return chatMetadata.get()?.deployments ?? [];
+}
+
+async function buildProject() {
+  const artifact = workbenchStore.firstArtifact;
+
+  if (!artifact) {
+    throw new Error('No active project found');
+  }
+
+  const actionData: ActionCallbackData = {
+    messageId: 'deploy build',
+    artifactId: artifact.id,
+    actionId: `build-${Date.now()}`,
+    action: { type: 'build', content: 'npm run build' },
+  };
+
+  artifact.runner.addAction(actionData);
+  await artifact.runner.runAction(actionData);
+
+  if (!artifact.runner.buildOutput) {
+    throw new Error('Build failed');
+  }
+
+  const container = await webcontainer;
+  const buildPath = path.relative(WORK_DIR, artifact.runner.buildOutput.path);
+  const files: Record<string, string> = {};
+
+  // files are keyed by their path in the build output, starting with a slash
+  async function readFolder(folder: string) {
+    for (const entry of await container.fs.readdir(folder, { withFileTypes: true })) {
+      const entryPath = path.join(folder, entry.name);
+
+      if (entry.isDirectory()) {
+        await readFolder(entryPath);
+      } else if (entry.isFile()) {
+        files[`/${path.relative(buildPath, entryPath)}`] = encodeBase64(await container.fs.readFile(entryPath));
+      }
+    }
+  }
+
+  await readFolder(buildPath);
+
+  return files;
+}
+
+async function saveDeployment(deployment: ChatDeployment) {
+  const id = chatId.get();
+  const metadata = chatMetadata.get();
+  const updatedMetadata = {
+    ...metadata,
+    gitUrl: metadata?.gitUrl ?? '',
+    deployments: [...(metadata?.deployments ?? []), deployment].slice(-MAX_DEPLOYMENTS),
+  };
+
+  chatMetadata.set(updatedMetadata);
+
+  if (db && id) {
+    await updateChatMetadata(db, id, updatedMetadata).catch((error) => {
+      logStore.logError('Failed to save the deployment of the chat', { error });
+    });
+  }
+}
+
+/**
+ * Builds the project and deploys it to the target of the connection. The site of the last deployment of the
+ * chat to the same connection is reused.
+ */
+export async function deployProject(connection: DeployConnection) {
+  const currentChatId = chatId.get();
+
+  if (!currentChatId) {
+    throw new Error('No active chat found');
+  }
+
+  isDeploying.set(true);
+
+  try {
+    const files = await buildProject();
+
+    // sites of Netlify deployments made before the history existed
+    const siteId =
+      getChatDeployments().findLast(({ connectionId }) => connectionId === connection.id)?.siteId ??
+      (connection.type === 'netlify'
+        ? (localStorage.getItem(`netlify-site-${currentChatId}`) ?? undefined)
+        : undefined);
+
+    const { site, deployment } = await requestDeploy<{ site: DeploySite; deployment: Deployment }>({
+      intent: 'deploy',
+      provider: connection.type,
+      settings: connection.settings,
+      siteId,
+      chatId: currentChatId,
+      files,
+    });
+
+    const url = deployment.url || site.url || undefined;
+
+    await saveDeployment({
+      provider: connection.type,
+      connectionId: connection.id,
+      siteId: site.id,
+      siteName: site.name,
+      deploymentId: deployment.id,
+      url,
+      timestamp: new Date().toISOString(),
+    });
+
+    return url;
+  } finally {
+    isDeploying.set(false);
+  }
+}
@@ -1,6 +1,23 @@
 import { atom, computed, map, type MapStore, type WritableAtom } from 'nanostores';
-import type { EditorDocument, ScrollPosition } from '~/components/editor/codemirror/CodeMirrorEditor';
+import type { EditorDocument, EditorLocation, ScrollPosition } from '~/components/editor/codemirror/CodeMirrorEditor';
 import type { FileMap, FilesStore } from './files';
+import { replacePathPrefix } from '~/utils/path';
+import {
+  closeOtherTabs,
+  closeTab,
+  createEditorLayout,
+  focusPane,
+  getActivePane,
+  keepTab,
+  openTab,
+  pinTab,
+  removeTabs,
+  renameTabs,
+  setTabScroll,
+  splitPane,
+  type EditorLayout,
+  type SplitDirection,
+} from '~/utils/editorTabs';
 
 export type EditorDocuments = Record<string, EditorDocument>;
 
@@ -11,6 +28,8 @@ export class EditorStore {
 
   selectedFile: SelectedFile = import.meta.hot?.data.selectedFile ?? atom<string | undefined>();
   documents: MapStore<EditorDocuments> = import.meta.hot?.data.documents ?? map({});
+  layout: WritableAtom<EditorLayout> = import.meta.hot?.data.layout ?? atom(createEditorLayout());
+  location = atom<EditorLocation | undefined>();
 
   currentDocument = computed([this.documents, this.selectedFile], (documents, selectedFile) => {
     if (!selectedFile) {
@@ -26,6 +45,7 @@ export class EditorStore {
     if (import.meta.hot) {
       import.meta.hot.data.documents = this.documents;
       import.meta.hot.data.selectedFile = this.selectedFile;
+      import.meta.hot.data.layout = this.layout;
     }
   }
 
@@ -54,13 +74,96 @@ export class EditorStore {
           .filter(Boolean) as Array<[string, EditorDocument]>,
       ),
     );
+
+    // close the tabs of deleted files, restored tabs may point to files that are still being loaded
+    this.#setLayout(
+      removeTabs(this.layout.get(), (filePath) => !!previousDocuments?.[filePath] && files[filePath]?.type !== 'file'),
+    );
+  }
+
+  /**
+   * Moves the documents of a renamed file or folder, unsaved changes and scroll positions move along.
+   */
+  renameDocuments(oldPath: string, newPath: string) {
+    const documents: EditorDocuments = {};
+
+    for (const [filePath, documentState] of Object.entries(this.documents.get())) {
+      const movedPath = replacePathPrefix(filePath, oldPath, newPath) ?? filePath;
+      documents[movedPath] = { ...documentState, filePath: movedPath };
+    }
+
+    this.documents.set(documents);
+    this.#setLayout(renameTabs(this.layout.get(), oldPath, newPath));
+  }
+
+  removeDocuments(removedPath: string) {
+    const isRemoved = (filePath: string) => replacePathPrefix(filePath, removedPath, removedPath) !== undefined;
+
+    this.documents.set(
+      Object.fromEntries(Object.entries(this.documents.get()).filter(([filePath]) => !isRemoved(filePath))),
+    );
+    this.#setLayout(removeTabs(this.layout.get(), isRemoved));
+  }
+
+  /**
+   * Shows the file in the active pane, as a preview tab unless it is already open.
+   */
+  setSelectedFile(filePath: string | undefined, preview = true) {
+    if (!filePath) {
+      const layout = this.layout.get();
+      const { id } = getActivePane(layout);
+
+      this.#setLayout({
+        ...layout,
+        panes: layout.panes.map((pane) => (pane.id === id ? { ...pane, activeFile: undefined } : pane)),
+      });
+
+      return;
+    }
+
+    this.#setLayout(openTab(this.layout.get(), filePath, { preview }));
+  }
+
+  openTab(paneId: string, filePath: string) {
+    this.#setLayout(openTab(this.layout.get(), filePath, { preview: false, paneId }));
+  }
+
+  keepTab(filePath: string) {
+    this.#setLayout(keepTab(this.layout.get(), filePath));
   }
 
-  setSelectedFile(filePath: string | undefined) {
-    this.selectedFile.set(filePath);
+  pinTab(paneId: string, filePath: string, pinned: boolean) {
+    this.#setLayout(pinTab(this.layout.get(), paneId, filePath, pinned));
   }
 
-  updateScrollPosition(filePath: string, position: ScrollPosition) {
+  closeTab(paneId: string, filePath: string) {
+    this.#setLayout(closeTab(this.layout.get(), paneId, filePath));
+  }
+
+  closeOtherTabs(paneId: string, filePath: string) {
+    this.#setLayout(closeOtherTabs(this.layout.get(), paneId, filePath));
+  }
+
+  splitPane(direction: SplitDirection) {
+    this.#setLayout(splitPane(this.layout.get(), direction));
+  }
+
+  focusPane(paneId: string) {
+    this.#setLayout(focusPane(this.layout.get(), paneId));
+  }
+
+  restoreLayout(layout: EditorLayout | undefined) {
+    this.#setLayout(layout?.panes?.length ? layout : createEditorLayout());
+  }
+
+  openLocation(location: EditorLocation) {
+    this.setSelectedFile(location.filePath);
+
+    // always a new object so opening the same match twice scrolls to it again
+    this.location.set({ ...location });
+  }
+
+  updateScrollPosition(filePath: string, position: ScrollPosition, paneId?: string) {
     const documents = this.documents.get();
     const documentState = documents[filePath];
 
@@ -72,6 +175,10 @@ export class EditorStore {
       ...documentState,
       scroll: position,
     });
+
+    if (paneId) {
+      this.layout.set(setTabScroll(this.layout.get(), paneId, filePath, position));
+    }
   }
 
   updateFile(filePath: string, newContent: string) {
@@ -92,4 +199,19 @@ export class EditorStore {
       });
     }
   }
+
+  // the selected file always follows the active tab of the active pane
+  #setLayout(layout: EditorLayout) {
+    if (layout === this.layout.get()) {
+      return;
+    }
+
+    this.layout.set(layout);
+
+    const { activeFile } = getActivePane(layout);
+
+    if (this.selectedFile.get() !== activeFile) {
+      this.selectedFile.set(activeFile);
+    }
+  }
 }
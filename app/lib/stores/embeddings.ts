@@ -0,0 +1,259 @@
+import { map, type MapStore } from 'nanostores';
+import type { FileMap } from './files';
+import type { EmbeddingSettings } from './settings';
+import { chunkFile, estimateTokens, selectFilesBySimilarity, type EmbeddedChunk } from '~/utils/embeddings';
+import { shouldIncludeFile } from '~/utils/fileUtils';
+import { WORK_DIR } from '~/utils/constants';
+import { createScopedLogger } from '~/utils/logger';
+
+const logger = createScopedLogger('EmbeddingIndex');
+
+const DB_NAME = 'boltEmbeddings';
+const CHUNK_STORE = 'chunks';
+const BATCH_SIZE = 32;
+const MAX_FILE_SIZE = 100 * 1024;
+const MAX_INDEXING_WAIT = 10_000;
+const LOCK_FILES = ['package-lock.json', 'pnpm-lock.yaml', 'yarn.lock', 'bun.lockb'];
+
+export const RETRIEVAL_TOKEN_BUDGET = 12_000;
+
+export interface EmbeddingIndexStatus {
+  indexing: boolean;
+  indexedFiles: number;
+  totalFiles: number;
+  error?: string;
+}
+
+interface IndexedFile {
+  hash: string;
+  tokens: number;
+  chunks: EmbeddedChunk[];
+}
+
+interface CachedChunks {
+  key: string;
+  chunks: EmbeddedChunk[];
+}
+
+async function hashContent(content: string) {
+  const digest = await crypto.subtle.digest('SHA-1', new TextEncoder().encode(content));
+  return Array.from(new Uint8Array(digest), (byte) => byte.toString(16).padStart(2, '0')).join('');
+}
+
+function openCache(): Promise<IDBDatabase | undefined> {
+  if (typeof indexedDB === 'undefined') {
+    return Promise.resolve(undefined);
+  }
+
+  return new Promise((resolve) => {
+    const request = indexedDB.open(DB_NAME, 1);
+
+    request.onupgradeneeded = () => {
+      request.result.createObjectStore(CHUNK_STORE, { keyPath: 'key' });
+    };
+
+    request.onsuccess = () => resolve(request.result);
+
+    request.onerror = () => {
+      logger.error('Failed to open embedding cache', request.error);
+      resolve(undefined);
+    };
+  });
+}
+
+function getCachedChunks(db: IDBDatabase, key: string): Promise<EmbeddedChunk[] | undefined> {
+  return new Promise((resolve) => {
+    const request = db.transaction(CHUNK_STORE, 'readonly').objectStore(CHUNK_STORE).get(key);
+
+    request.onsuccess = () => resolve((request.result as CachedChunks | undefined)?.chunks);
+    request.onerror = () => resolve(undefined);
+  });
+}
+
+function putCachedChunks(db: IDBDatabase, entry: CachedChunks): Promise<void> {
+  return new Promise((resolve) => {
+    const request = db.transaction(CHUNK_STORE, 'readwrite').objectStore(CHUNK_STORE).put(entry);
+
+    request.onsuccess = () => resolve();
+    request.onerror = () => resolve();
+  });
+}
+
+async function embed(settings: EmbeddingSettings, values: string[]): Promise<number[][]> {
+  const response = await fetch('/api/embeddings', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ provider: settings.provider, model: settings.model, values }),
+  });
+
+  if (!response.ok) {
+    throw new Error(`Embedding request failed: ${(await response.text()) || response.statusText}`);
+  }
+
+  const { embeddings } = await response.json<{ embeddings: number[][] }>();
+
+  return embeddings;
+}
+
+function isIndexable(filePath: string, content: string) {
+  const relativePath = filePath.replace(`${WORK_DIR}/`, '');
+
+  return (
+    content.length > 0 &&
+    content.length <= MAX_FILE_SIZE &&
+    shouldIncludeFile(relativePath) &&
+    !LOCK_FILES.some((lockFile) => relativePath.endsWith(lockFile))
+  );
+}
+
+/**
+ * Keeps an embedding index of the project files in sync with the workbench so that the files
+ * sent as context can be picked by semantic similarity instead of an extra LLM call.
+ */
+export class EmbeddingIndexStore {
+  status: MapStore<EmbeddingIndexStatus> = map({ indexing: false, indexedFiles: 0, totalFiles: 0 });
+
+  #files = new Map<string, IndexedFile>();
+  #cache = openCache();
+  #settingsKey?: string;
+  #pending?: { files: FileMap; settings: EmbeddingSettings };
+  #running?: Promise<void>;
+
+  /**
+   * Schedules an update of the index. Only the latest snapshot of the files is indexed when updates
+   * come in faster than they can be embedded.
+   */
+  update(files: FileMap, settings: EmbeddingSettings) {
+    this.#pending = { files, settings };
+
+    if (!this.#running) {
+      this.#running = this.#drain().finally(() => {
+        this.#running = undefined;
+      });
+    }
+
+    return this.#running;
+  }
+
+  /**
+   * Returns the paths, relative to the project root, of the files most similar to the query.
+   */
+  async retrieve(query: string, files: FileMap, settings: EmbeddingSettings) {
+    const indexing = this.update(files, settings);
+
+    await Promise.race([indexing, new Promise((resolve) => setTimeout(resolve, MAX_INDEXING_WAIT))]);
+
+    const { error } = this.status.get();
+
+    if (error) {
+      throw new Error(error);
+    }
+
+    const [queryEmbedding] = await embed(settings, [query]);
+
+    const index = new Map<string, EmbeddedChunk[]>();
+
+    for (const [filePath, indexed] of this.#files) {
+      index.set(filePath, indexed.chunks);
+    }
+
+    return selectFilesBySimilarity({
+      queryEmbedding,
+      index,
+      getTokenCount: (filePath) => this.#files.get(filePath)?.tokens ?? 0,
+      tokenBudget: RETRIEVAL_TOKEN_BUDGET,
+    }).map((filePath) => filePath.replace(`${WORK_DIR}/`, ''));
+  }
+
+  async #drain() {
+    while (this.#pending) {
+      const { files, settings } = this.#pending;
+      this.#pending = undefined;
+
+      try {
+        await this.#index(files, settings);
+      } catch (error) {
+        logger.error('Failed to index files', error);
+        this.status.setKey('error', error instanceof Error ? error.message : String(error));
+      }
+    }
+
+    this.status.setKey('indexing', false);
+  }
+
+  async #index(files: FileMap, settings: EmbeddingSettings) {
+    const settingsKey = `${settings.provider}:${settings.model}`;
+
+    if (settingsKey !== this.#settingsKey) {
+      // embeddings of different models are not comparable
+      this.#files.clear();
+      this.#settingsKey = settingsKey;
+    }
+
+    const candidates = new Map<string, string>();
+
+    for (const [filePath, dirent] of Object.entries(files)) {
+      if (dirent?.type === 'file' && !dirent.isBinary && isIndexable(filePath, dirent.content)) {
+        candidates.set(filePath, dirent.content);
+      }
+    }
+
+    for (const filePath of this.#files.keys()) {
+      if (!candidates.has(filePath)) {
+        this.#files.delete(filePath);
+      }
+    }
+
+    this.status.set({ indexing: true, indexedFiles: this.#files.size, totalFiles: candidates.size });
+
+    const cache = await this.#cache;
+
+    for (const [filePath, content] of candidates) {
+      if (this.#pending) {
+        // a newer snapshot is waiting, index that one instead
+        return;
+      }
+
+      const hash = await hashContent(content);
+
+      if (this.#files.get(filePath)?.hash === hash) {
+        continue;
+      }
+
+      const cacheKey = `${settingsKey}:${hash}`;
+      let chunks = cache ? await getCachedChunks(cache, cacheKey) : undefined;
+
+      if (!chunks) {
+        chunks = await this.#embedFile(filePath.replace(`${WORK_DIR}/`, ''), content, settings);
+
+        if (cache) {
+          await putCachedChunks(cache, { key: cacheKey, chunks });
+        }
+      }
+
+      this.#files.set(filePath, { hash, tokens: estimateTokens(content), chunks });
+      this.status.set({ indexing: true, indexedFiles: this.#files.size, totalFiles: candidates.size });
+    }
+  }
+
+  async #embedFile(relativePath: string, content: string, settings: EmbeddingSettings) {
+    const textChunks = chunkFile(relativePath, content);
+    const chunks: EmbeddedChunk[] = [];
+
+    for (let i = 0; i < textChunks.length; i += BATCH_SIZE) {
+      const batch = textChunks.slice(i, i + BATCH_SIZE);
+      const embeddings = await embed(
+        settings,
+        batch.map((chunk) => chunk.text),
+      );
+
+      batch.forEach((chunk, index) => {
+        chunks.push({ startLine: chunk.startLine, endLine: chunk.endLine, embedding: embeddings[index] });
+      });
+    }
+
+    return chunks;
+  }
+}
+
+export const embeddingIndexStore = new EmbeddingIndexStore();
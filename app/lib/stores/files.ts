@@ -2,12 +2,13 @@ import type { PathWatcherEvent, WebContainer } from '@webcontainer/api';
 import { getEncoding } from 'istextorbinary';
 import { map, type MapStore } from 'nanostores';
 import { Buffer } from 'node:buffer';
-import { path } from '~/utils/path';
+import { getCopyPath, path, replacePathPrefix } from '~/utils/path';
 import { bufferWatchEvents } from '~/utils/buffer';
 import { WORK_DIR } from '~/utils/constants';
 import { computeFileModifications } from '~/utils/diff';
 import { createScopedLogger } from '~/utils/logger';
 import { unreachable } from '~/utils/unreachable';
+import type { SnapshotChanges } from '~/utils/snapshot';
 
 const logger = createScopedLogger('FilesStore');
 
@@ -27,6 +28,16 @@ type Dirent = File | Folder;
 
 export type FileMap = Record<string, Dirent | undefined>;
 
+export type FileOperation =
+  | { type: 'create'; path: string; isFolder: boolean }
+  | { type: 'delete'; path: string }
+  | { type: 'rename'; path: string; newPath: string };
+
+/**
+ * A `FileMap` that also carries the bytes of binary files, the store itself only keeps their paths.
+ */
+export type SnapshotFileMap = Record<string, (File & { data?: Uint8Array }) | Folder | undefined>;
+
 export class FilesStore {
   #webcontainer: Promise<WebContainer>;
 
@@ -42,6 +53,11 @@ export class FilesStore {
    */
   #modifiedFiles: Map<string, string> = import.meta.hot?.data.modifiedFiles ?? new Map();
 
+  /**
+   * Files the user created, deleted or renamed since the last user message, sent along with it.
+   */
+  #fileOperations: FileOperation[] = [];
+
   /**
    * Map of files that matches the state of WebContainer.
    */
@@ -99,8 +115,13 @@ export class FilesStore {
     return modifiedFiles;
   }
 
+  getFileOperations() {
+    return [...this.#fileOperations];
+  }
+
   resetFileModifications() {
     this.#modifiedFiles.clear();
+    this.#fileOperations = [];
   }
 
   async saveFile(filePath: string, content: string) {
@@ -136,6 +157,258 @@ export class FilesStore {
     }
   }
 
+  /**
+   * Writes a file, creating its folder when needed. Text changes to existing files are tracked like
+   * edits in the editor so the model learns about them with the next message.
+   */
+  async writeFile(filePath: string, content: string | Uint8Array) {
+    const webcontainer = await this.#webcontainer;
+    const relativePath = path.relative(webcontainer.workdir, filePath);
+
+    if (!relativePath) {
+      throw new Error(`EINVAL: invalid file path, write '${relativePath}'`);
+    }
+
+    const folder = path.dirname(relativePath);
+
+    if (folder !== '.') {
+      await webcontainer.fs.mkdir(folder, { recursive: true });
+    }
+
+    await webcontainer.fs.writeFile(relativePath, content);
+
+    const oldFile = this.getFile(filePath);
+
+    if (typeof content === 'string' && oldFile && !oldFile.isBinary && !this.#modifiedFiles.has(filePath)) {
+      this.#modifiedFiles.set(filePath, oldFile.content);
+    }
+  }
+
+  async createFile(filePath: string, content = '') {
+    if (this.files.get()[filePath]) {
+      throw new Error(`EEXIST: file already exists, '${filePath}'`);
+    }
+
+    await this.writeFile(filePath, content);
+
+    // an empty original makes the content part of the modified files sent with the next message
+    this.#modifiedFiles.set(filePath, '');
+    this.files.setKey(filePath, { type: 'file', content, isBinary: false });
+    this.#fileOperations.push({ type: 'create', path: filePath, isFolder: false });
+  }
+
+  async createFolder(folderPath: string) {
+    if (this.files.get()[folderPath]) {
+      throw new Error(`EEXIST: folder already exists, '${folderPath}'`);
+    }
+
+    const webcontainer = await this.#webcontainer;
+
+    await webcontainer.fs.mkdir(path.relative(webcontainer.workdir, folderPath), { recursive: true });
+
+    this.files.setKey(folderPath, { type: 'folder' });
+    this.#fileOperations.push({ type: 'create', path: folderPath, isFolder: true });
+  }
+
+  /**
+   * Deletes a file or a folder with all its content.
+   */
+  async deletePath(filePath: string) {
+    const webcontainer = await this.#webcontainer;
+
+    await webcontainer.fs.rm(path.relative(webcontainer.workdir, filePath), { recursive: true, force: true });
+
+    for (const direntPath of Object.keys(this.files.get())) {
+      if (replacePathPrefix(direntPath, filePath, filePath) !== undefined) {
+        this.files.setKey(direntPath, undefined);
+        this.#modifiedFiles.delete(direntPath);
+      }
+    }
+
+    this.#fileOperations.push({ type: 'delete', path: filePath });
+  }
+
+  /**
+   * Renames or moves a file or a folder, the content of a folder moves along with it.
+   */
+  async renamePath(oldPath: string, newPath: string) {
+    if (this.files.get()[newPath]) {
+      throw new Error(`EEXIST: '${newPath}' already exists`);
+    }
+
+    const webcontainer = await this.#webcontainer;
+    const relativePath = path.relative(webcontainer.workdir, newPath);
+    const folder = path.dirname(relativePath);
+
+    if (folder !== '.') {
+      await webcontainer.fs.mkdir(folder, { recursive: true });
+    }
+
+    await webcontainer.fs.rename(path.relative(webcontainer.workdir, oldPath), relativePath);
+
+    for (const [direntPath, dirent] of Object.entries(this.files.get())) {
+      const movedPath = replacePathPrefix(direntPath, oldPath, newPath);
+
+      if (movedPath === undefined) {
+        continue;
+      }
+
+      this.files.setKey(direntPath, undefined);
+      this.files.setKey(movedPath, dirent);
+
+      const originalContent = this.#modifiedFiles.get(direntPath);
+
+      if (originalContent !== undefined) {
+        this.#modifiedFiles.delete(direntPath);
+        this.#modifiedFiles.set(movedPath, originalContent);
+      }
+    }
+
+    this.#fileOperations.push({ type: 'rename', path: oldPath, newPath });
+  }
+
+  /**
+   * Copies a file or a folder next to itself and returns the path of the copy.
+   */
+  async duplicatePath(filePath: string) {
+    const webcontainer = await this.#webcontainer;
+    const files = this.files.get();
+    const copyPath = getCopyPath(filePath, (candidate) => files[candidate] !== undefined);
+
+    for (const [direntPath, dirent] of Object.entries(files)) {
+      const targetPath = replacePathPrefix(direntPath, filePath, copyPath);
+
+      if (targetPath === undefined || !dirent) {
+        continue;
+      }
+
+      if (dirent.type === 'folder') {
+        await webcontainer.fs.mkdir(path.relative(webcontainer.workdir, targetPath), { recursive: true });
+        this.files.setKey(targetPath, dirent);
+
+        continue;
+      }
+
+      const content = dirent.isBinary
+        ? await webcontainer.fs.readFile(path.relative(webcontainer.workdir, direntPath))
+        : dirent.content;
+
+      await this.writeFile(targetPath, content);
+      this.files.setKey(targetPath, dirent);
+    }
+
+    this.#fileOperations.push({ type: 'create', path: copyPath, isFolder: files[filePath]?.type === 'folder' });
+
+    return copyPath;
+  }
+
+  /**
+   * Applies the changes computed by `diffSnapshots` to turn the workspace into `target`.
+   */
+  async applySnapshotChanges(target: SnapshotFileMap, changes: SnapshotChanges) {
+    const webcontainer = await this.#webcontainer;
+
+    for (const folder of changes.createdFolders) {
+      await webcontainer.fs.mkdir(path.relative(webcontainer.workdir, folder), { recursive: true });
+    }
+
+    for (const { from, to } of changes.renamed) {
+      await this.renamePath(from, to);
+    }
+
+    for (const filePath of changes.written) {
+      const file = target[filePath];
+
+      if (file?.type === 'file') {
+        await this.writeFile(filePath, file.data ?? file.content);
+      }
+    }
+
+    for (const filePath of [...changes.deleted, ...changes.deletedFolders]) {
+      await this.deletePath(filePath);
+    }
+
+    logger.info('Snapshot changes applied');
+  }
+
+  /**
+   * Captures all files and folders, binary files are read back from the WebContainer.
+   */
+  async createSnapshot() {
+    const webcontainer = await this.#webcontainer;
+    const snapshot: SnapshotFileMap = {};
+
+    for (const [filePath, dirent] of Object.entries(this.files.get())) {
+      if (!dirent) {
+        continue;
+      }
+
+      if (dirent.type === 'file' && dirent.isBinary) {
+        try {
+          const data = await webcontainer.fs.readFile(path.relative(webcontainer.workdir, filePath));
+          snapshot[filePath] = { ...dirent, data };
+        } catch (error) {
+          logger.error(`Failed to read binary file ${filePath}\n\n`, error);
+        }
+
+        continue;
+      }
+
+      snapshot[filePath] = dirent;
+    }
+
+    return snapshot;
+  }
+
+  /**
+   * Makes the WebContainer match a snapshot, files and folders that are not part of it are removed.
+   * Never rejects so it can run in the workbench execution queue.
+   */
+  async restoreSnapshot(snapshot: SnapshotFileMap) {
+    const webcontainer = await this.#webcontainer;
+
+    for (const [filePath, dirent] of Object.entries(this.files.get())) {
+      if (!dirent || snapshot[filePath]) {
+        continue;
+      }
+
+      try {
+        await webcontainer.fs.rm(path.relative(webcontainer.workdir, filePath), { recursive: true, force: true });
+      } catch (error) {
+        logger.error(`Failed to remove ${filePath}\n\n`, error);
+      }
+    }
+
+    // sorting puts every folder before its content
+    for (const filePath of Object.keys(snapshot).sort()) {
+      const dirent = snapshot[filePath];
+      const relativePath = path.relative(webcontainer.workdir, filePath);
+
+      if (!dirent || !relativePath) {
+        continue;
+      }
+
+      try {
+        if (dirent.type === 'folder') {
+          await webcontainer.fs.mkdir(relativePath, { recursive: true });
+          continue;
+        }
+
+        const folder = path.dirname(relativePath);
+
+        if (folder !== '.') {
+          await webcontainer.fs.mkdir(folder, { recursive: true });
+        }
+
+        await webcontainer.fs.writeFile(relativePath, dirent.data ?? dirent.content);
+      } catch (error) {
+        logger.error(`Failed to restore ${filePath}\n\n`, error);
+      }
+    }
+
+    logger.info('Snapshot restored');
+  }
+
   async #init() {
     const webcontainer = await this.#webcontainer;
 
@@ -0,0 +1,323 @@
+import type { WebContainer } from '@webcontainer/api';
+import git, { TREE, type PromiseFsClient, type WalkerEntry } from 'isomorphic-git';
+import http from 'isomorphic-git/http/web';
+import { atom, type WritableAtom } from 'nanostores';
+import type { GitCommit, GitCommitDiff, GitCommitFileChange, GitFileStatus } from '~/types/git';
+import { DEFAULT_GITIGNORE, getGitFileStatus } from '~/utils/git';
+import { getCorsProxy, getFs, gitAuthCallbacks } from '~/utils/gitClient';
+import { createScopedLogger } from '~/utils/logger';
+import { profileStore } from './profile';
+
+const logger = createScopedLogger('GitStore');
+
+const LOG_DEPTH = 50;
+const REMOTE = 'origin';
+const AUTHOR_EMAIL = 'bolt.diy@localhost';
+
+export interface GitRepositoryState {
+  initialized: boolean;
+  branch?: string;
+  branches: string[];
+  remoteUrl?: string;
+}
+
+async function readContent(entry: WalkerEntry | null) {
+  if (!entry) {
+    return '';
+  }
+
+  const content = await entry.content();
+
+  return content ? new TextDecoder().decode(content) : '';
+}
+
+/**
+ * A git repository in the project folder of the WebContainer, backed by isomorphic-git.
+ */
+export class GitStore {
+  #webcontainer: Promise<WebContainer>;
+  #fs?: PromiseFsClient;
+
+  // git commands change the index and refs, they must not run at the same time
+  #queue = Promise.resolve();
+
+  repository: WritableAtom<GitRepositoryState> =
+    import.meta.hot?.data.gitRepository ?? atom<GitRepositoryState>({ initialized: false, branches: [] });
+  status: WritableAtom<GitFileStatus[]> = import.meta.hot?.data.gitStatus ?? atom<GitFileStatus[]>([]);
+  log: WritableAtom<GitCommit[]> = import.meta.hot?.data.gitLog ?? atom<GitCommit[]>([]);
+  busy: WritableAtom<boolean> = import.meta.hot?.data.gitBusy ?? atom(false);
+
+  // the commit shown in the diff view
+  commitDiff: WritableAtom<GitCommitDiff | undefined> =
+    import.meta.hot?.data.gitCommitDiff ?? atom<GitCommitDiff | undefined>(undefined);
+
+  constructor(webcontainerPromise: Promise<WebContainer>) {
+    this.#webcontainer = webcontainerPromise;
+
+    if (import.meta.hot) {
+      import.meta.hot.data.gitRepository = this.repository;
+      import.meta.hot.data.gitStatus = this.status;
+      import.meta.hot.data.gitLog = this.log;
+      import.meta.hot.data.gitBusy = this.busy;
+      import.meta.hot.data.gitCommitDiff = this.commitDiff;
+    }
+  }
+
+  refresh() {
+    return this.#run(async (options) => {
+      await this.#refresh(options);
+    });
+  }
+
+  init() {
+    return this.#run(async (options) => {
+      await git.init({ ...options, defaultBranch: 'main' });
+
+      try {
+        await options.fs.promises.stat(`${options.dir}/.gitignore`);
+      } catch {
+        await options.fs.promises.writeFile(`${options.dir}/.gitignore`, DEFAULT_GITIGNORE, { encoding: 'utf8' });
+      }
+
+      await this.#refresh(options);
+    });
+  }
+
+  stage(filePaths: string[]) {
+    return this.#run(async (options) => {
+      const status = this.status.get();
+
+      for (const filePath of filePaths) {
+        const deleted = status.find((entry) => entry.filePath === filePath)?.change === 'deleted';
+
+        if (deleted) {
+          await git.remove({ ...options, filepath: filePath });
+        } else {
+          await git.add({ ...options, filepath: filePath });
+        }
+      }
+
+      await this.#refresh(options);
+    });
+  }
+
+  unstage(filePaths: string[]) {
+    return this.#run(async (options) => {
+      for (const filePath of filePaths) {
+        await git.resetIndex({ ...options, filepath: filePath });
+      }
+
+      await this.#refresh(options);
+    });
+  }
+
+  /**
+   * Commits the staged changes, or every change with `all`. Returns the new commit or `undefined` when
+   * there was nothing to commit.
+   */
+  commit(message: string, all = false) {
+    return this.#run(async (options) => {
+      if (all) {
+        await this.#refresh(options);
+
+        for (const { filePath, change, unstaged } of this.status.get()) {
+          if (!unstaged) {
+            continue;
+          }
+
+          if (change === 'deleted') {
+            await git.remove({ ...options, filepath: filePath });
+          } else {
+            await git.add({ ...options, filepath: filePath });
+          }
+        }
+
+        await this.#refresh(options);
+      }
+
+      if (!this.status.get().some(({ staged }) => staged)) {
+        return undefined;
+      }
+
+      const name = profileStore.get().username || 'bolt.diy';
+      const oid = await git.commit({ ...options, message, author: { name, email: AUTHOR_EMAIL } });
+
+      await this.#refresh(options);
+
+      return oid;
+    });
+  }
+
+  createBranch(name: string) {
+    return this.#run(async (options) => {
+      await git.branch({ ...options, ref: name, checkout: true });
+      await this.#refresh(options);
+    });
+  }
+
+  checkout(branch: string) {
+    return this.#run(async (options) => {
+      await git.checkout({ ...options, ref: branch });
+      await this.#refresh(options);
+    });
+  }
+
+  setRemote(url: string) {
+    return this.#run(async (options) => {
+      await git.addRemote({ ...options, remote: REMOTE, url, force: true });
+      await this.#refresh(options);
+    });
+  }
+
+  push() {
+    return this.#run(async (options) => {
+      const result = await git.push({
+        ...options,
+        ...gitAuthCallbacks,
+        http,
+        remote: REMOTE,
+        ref: this.repository.get().branch,
+        corsProxy: getCorsProxy(this.repository.get().remoteUrl),
+      });
+
+      if (!result.ok) {
+        throw new Error(result.error ?? 'Push was rejected');
+      }
+    });
+  }
+
+  pull() {
+    return this.#run(async (options) => {
+      const name = profileStore.get().username || 'bolt.diy';
+
+      await git.pull({
+        ...options,
+        ...gitAuthCallbacks,
+        http,
+        remote: REMOTE,
+        ref: this.repository.get().branch,
+        singleBranch: true,
+        author: { name, email: AUTHOR_EMAIL },
+        corsProxy: getCorsProxy(this.repository.get().remoteUrl),
+      });
+
+      await this.#refresh(options);
+    });
+  }
+
+  /**
+   * Loads the files a commit changed compared to its first parent and shows them in the diff view.
+   */
+  showCommit(commit: GitCommit) {
+    return this.#run(async (options) => {
+      const [parent] = commit.parents;
+      const trees = parent ? [TREE({ ref: parent }), TREE({ ref: commit.oid })] : [TREE({ ref: commit.oid })];
+
+      const changes: GitCommitFileChange[] = await git.walk({
+        ...options,
+        trees,
+        map: async (filePath, entries) => {
+          const [before, after] = parent ? entries : [null, entries[0]];
+
+          if (filePath === '.') {
+            return undefined;
+          }
+
+          const [beforeOid, afterOid] = await Promise.all([before?.oid(), after?.oid()]);
+
+          if (beforeOid === afterOid) {
+            // unchanged folders are skipped with everything inside them
+            return null;
+          }
+
+          const types = await Promise.all([before?.type(), after?.type()]);
+
+          if (types.includes('tree')) {
+            return undefined;
+          }
+
+          return {
+            filePath,
+            change: !before ? 'added' : !after ? 'deleted' : 'modified',
+            before: await readContent(before),
+            after: await readContent(after),
+          };
+        },
+      });
+
+      this.commitDiff.set({ commit, changes });
+    });
+  }
+
+  closeCommit() {
+    this.commitDiff.set(undefined);
+  }
+
+  async #run<T>(callback: (options: { fs: PromiseFsClient; dir: string }) => Promise<T>): Promise<T> {
+    const webcontainer = await this.#webcontainer;
+
+    this.#fs ??= getFs(webcontainer) as PromiseFsClient;
+
+    const options = { fs: this.#fs, dir: webcontainer.workdir };
+    const result = this.#queue.then(() => {
+      this.busy.set(true);
+      return callback(options);
+    });
+
+    this.#queue = result.then(
+      () => this.busy.set(false),
+      (error) => {
+        logger.error('Git command failed', error);
+        this.busy.set(false);
+      },
+    );
+
+    return result;
+  }
+
+  async #refresh(options: { fs: PromiseFsClient; dir: string }) {
+    try {
+      await options.fs.promises.stat(`${options.dir}/.git`);
+    } catch {
+      this.repository.set({ initialized: false, branches: [] });
+      this.status.set([]);
+      this.log.set([]);
+
+      return;
+    }
+
+    const [branch, branches, remotes] = await Promise.all([
+      git.currentBranch(options),
+      git.listBranches(options),
+      git.listRemotes(options),
+    ]);
+
+    this.repository.set({
+      initialized: true,
+      branch: branch ?? undefined,
+      branches,
+      remoteUrl: remotes.find(({ remote }) => remote === REMOTE)?.url,
+    });
+
+    const matrix = await git.statusMatrix(options);
+
+    this.status.set(matrix.map((row) => getGitFileStatus(row)).filter((status) => status !== undefined));
+
+    try {
+      const commits = await git.log({ ...options, depth: LOG_DEPTH });
+
+      this.log.set(
+        commits.map(({ oid, commit }) => ({
+          oid,
+          message: commit.message.trim(),
+          author: commit.author.name,
+          timestamp: commit.author.timestamp * 1000,
+          parents: commit.parent,
+        })),
+      );
+    } catch {
+      // a new repository has no commits yet
+      this.log.set([]);
+    }
+  }
+}
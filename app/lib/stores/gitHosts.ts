@@ -0,0 +1,60 @@
+import { atom } from 'nanostores';
+import type { GitHostConnection } from '~/types/gitHost';
+
+const STORAGE_KEY = 'git_host_connections';
+
+function loadConnections(): GitHostConnection[] {
+  if (typeof window === 'undefined') {
+    return [];
+  }
+
+  try {
+    return JSON.parse(localStorage.getItem(STORAGE_KEY) || '[]');
+  } catch {
+    return [];
+  }
+}
+
+export const gitHostConnections = atom<GitHostConnection[]>(loadConnections());
+
+function saveConnections(connections: GitHostConnection[]) {
+  gitHostConnections.set(connections);
+
+  if (typeof window !== 'undefined') {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(connections));
+  }
+}
+
+/**
+ * Adds a connection, or replaces the one with the same id.
+ */
+export function saveGitHostConnection(connection: GitHostConnection) {
+  const connections = gitHostConnections.get().filter(({ id }) => id !== connection.id);
+
+  saveConnections([...connections, connection]);
+}
+
+export function removeGitHostConnection(id: string) {
+  saveConnections(gitHostConnections.get().filter((connection) => connection.id !== id));
+}
+
+/**
+ * Finds the connection whose host serves `url`, e.g. a clone URL or a remote of the project.
+ */
+export function getGitHostConnectionForUrl(url: string) {
+  let host: string;
+
+  try {
+    host = new URL(url).host;
+  } catch {
+    return undefined;
+  }
+
+  return gitHostConnections.get().find((connection) => {
+    try {
+      return new URL(connection.baseUrl).host === host;
+    } catch {
+      return false;
+    }
+  });
+}
@@ -0,0 +1,73 @@
+import { atom, computed, type ReadableAtom } from 'nanostores';
+import type { Problem } from '~/types/problems';
+import { debounce } from '~/utils/debounce';
+import { mergeProblems, parseProblems, stripTerminalCodes } from '~/utils/problems';
+import type { BoltShell } from '~/utils/shell';
+
+// only the tail of a long running command like the dev server is kept
+const MAX_OUTPUT_LENGTH = 100_000;
+const MAX_PREVIEW_PROBLEMS = 50;
+
+// dev servers print one of these once a change was applied, errors printed before are stale then
+const RECOVERY_REGEX = /\bhmr update\b|\bpage reload\b|\bready in\b|\bbuilt in\b/;
+
+/**
+ * Collects the problems of the language service, the output of the command running in the bolt terminal
+ * and errors thrown in the preview into one list.
+ */
+export class ProblemsStore {
+  #terminalOutput = '';
+  #terminalProblems = atom<Problem[]>([]);
+  #previewProblems = atom<Problem[]>([]);
+
+  problems: ReadableAtom<Problem[]>;
+
+  constructor(boltShell: BoltShell, languageServiceProblems: ReadableAtom<Problem[]>) {
+    this.problems = computed(
+      [languageServiceProblems, this.#terminalProblems, this.#previewProblems],
+      (languageService, terminal, preview) => mergeProblems(languageService, terminal, preview),
+    );
+
+    boltShell.onOutput((data) => {
+      this.#terminalOutput = (this.#terminalOutput + data).slice(-MAX_OUTPUT_LENGTH);
+      this.#parseTerminalOutput();
+    });
+
+    // a new command replaces the problems of the previous one, which may have been the dev server
+    boltShell.executionState.listen((state) => {
+      if (state?.active) {
+        this.#terminalOutput = '';
+        this.clear();
+      }
+    });
+  }
+
+  reportPreviewError(stack: string) {
+    const problems = parseProblems(stack).map((problem) => ({ ...problem, source: 'preview' }));
+
+    if (problems.length > 0) {
+      this.#previewProblems.set([...problems, ...this.#previewProblems.get()].slice(0, MAX_PREVIEW_PROBLEMS));
+    }
+  }
+
+  /**
+   * Clears the problems reported by the terminal and the preview, those of the language service stay
+   * until they are fixed.
+   */
+  clear() {
+    this.#terminalProblems.set([]);
+    this.#previewProblems.set([]);
+  }
+
+  #parseTerminalOutput = debounce(() => {
+    const lines = stripTerminalCodes(this.#terminalOutput).split('\n');
+    const recoveryIndex = lines.findLastIndex((line) => RECOVERY_REGEX.test(line));
+
+    if (recoveryIndex !== -1) {
+      this.#terminalOutput = lines.slice(recoveryIndex + 1).join('\n');
+      this.#previewProblems.set([]);
+    }
+
+    this.#terminalProblems.set(parseProblems(this.#terminalOutput));
+  }, 300);
+}
@@ -0,0 +1,62 @@
+import { map, type MapStore } from 'nanostores';
+import type { ActionCallbackData } from '~/lib/runtime/message-parser';
+import type { BoltAction } from '~/types/actions';
+import type { ActionReview, ReviewFeedback } from '~/types/review';
+
+/**
+ * Holds the actions waiting for the user's review and the decisions the model has not been told about yet.
+ */
+export class ReviewStore {
+  #feedback: ReviewFeedback[] = [];
+
+  // in the order the actions were proposed
+  reviews: MapStore<Record<string, ActionReview>> = import.meta.hot?.data.reviews ?? map({});
+
+  constructor() {
+    if (import.meta.hot) {
+      import.meta.hot.data.reviews = this.reviews;
+    }
+  }
+
+  add({ messageId, artifactId, actionId, action }: ActionCallbackData, reason?: string) {
+    const id = `${messageId}:${actionId}`;
+
+    this.reviews.setKey(id, { id, messageId, artifactId, actionId, action, edited: false, reason });
+  }
+
+  update(id: string, action: BoltAction) {
+    const review = this.reviews.get()[id];
+
+    if (review) {
+      this.reviews.setKey(id, { ...review, action, edited: true });
+    }
+  }
+
+  /**
+   * Removes the review once the user decided, rejections and edits are remembered for the model.
+   */
+  resolve(id: string, accepted: boolean) {
+    const { [id]: review, ...reviews } = this.reviews.get();
+
+    if (!review) {
+      return undefined;
+    }
+
+    this.reviews.set(reviews);
+
+    if (!accepted) {
+      this.#feedback.push({ decision: 'rejected', action: review.action });
+    } else if (review.edited) {
+      this.#feedback.push({ decision: 'edited', action: review.action });
+    }
+
+    return review;
+  }
+
+  takeFeedback() {
+    const feedback = this.#feedback;
+    this.#feedback = [];
+
+    return feedback;
+  }
+}
@@ -0,0 +1,112 @@
+import type { FilesStore } from './files';
+import type { SearchWorkerRequest, SearchWorkerResponse } from '~/lib/workers/search.worker';
+import { extractRelativePath } from '~/utils/diff';
+import { ig } from '~/utils/fileUtils';
+import { createScopedLogger } from '~/utils/logger';
+import type { SearchOptions, SearchResults } from '~/utils/search';
+
+const logger = createScopedLogger('SearchStore');
+
+interface PendingSearch {
+  resolve: (results: SearchResults) => void;
+  reject: (error: Error) => void;
+}
+
+export class SearchStore {
+  #filesStore: FilesStore;
+  #worker?: Worker;
+  #requestId = 0;
+  #pending = new Map<number, PendingSearch>();
+
+  // the content the worker currently knows about, used to only send what changed
+  #indexed = new Map<string, string>();
+
+  constructor(filesStore: FilesStore) {
+    this.#filesStore = filesStore;
+  }
+
+  search(query: string, options: SearchOptions): Promise<SearchResults> {
+    const worker = this.#getWorker();
+
+    this.#updateIndex(worker);
+
+    const id = ++this.#requestId;
+
+    return new Promise((resolve, reject) => {
+      this.#pending.set(id, { resolve, reject });
+      this.#post(worker, { type: 'search', id, query, options });
+    });
+  }
+
+  #getWorker() {
+    if (this.#worker) {
+      return this.#worker;
+    }
+
+    const worker = new Worker(new URL('../workers/search.worker.ts', import.meta.url), { type: 'module' });
+
+    worker.addEventListener('message', (event: MessageEvent<SearchWorkerResponse>) => {
+      const response = event.data;
+      const pending = this.#pending.get(response.id);
+
+      this.#pending.delete(response.id);
+
+      if (response.type === 'results') {
+        pending?.resolve(response.results);
+      } else {
+        pending?.reject(new Error(response.message));
+      }
+    });
+
+    worker.addEventListener('error', (event) => {
+      logger.error('Search worker failed', event.message);
+
+      for (const pending of this.#pending.values()) {
+        pending.reject(new Error('Search failed'));
+      }
+
+      // start over with a fresh worker and index on the next search
+      this.#pending.clear();
+      this.#indexed.clear();
+      this.#worker = undefined;
+      worker.terminate();
+    });
+
+    this.#worker = worker;
+
+    return worker;
+  }
+
+  #updateIndex(worker: Worker) {
+    const changes: Array<[string, string | null]> = [];
+    const files = this.#filesStore.files.get();
+
+    for (const [filePath, dirent] of Object.entries(files)) {
+      if (dirent?.type !== 'file' || dirent.isBinary || ig.ignores(extractRelativePath(filePath))) {
+        continue;
+      }
+
+      if (this.#indexed.get(filePath) !== dirent.content) {
+        this.#indexed.set(filePath, dirent.content);
+        changes.push([filePath, dirent.content]);
+      }
+    }
+
+    for (const filePath of this.#indexed.keys()) {
+      const dirent = files[filePath];
+
+      if (dirent?.type !== 'file' || dirent.isBinary) {
+        this.#indexed.delete(filePath);
+        changes.push([filePath, null]);
+      }
+    }
+
+    if (changes.length > 0) {
+      this.#post(worker, { type: 'update', files: changes });
+    }
+  }
+
+  #post(worker: Worker, request: SearchWorkerRequest) {
+    worker.postMessage(request);
+  }
+}
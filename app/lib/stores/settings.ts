@@ -1,6 +1,8 @@
 import { atom, map } from 'nanostores';
 import { PROVIDER_LIST } from '~/utils/constants';
-import type { IProviderConfig } from '~/types/model';
+import type { EditorModel, FallbackModel, IProviderConfig } from '~/types/model';
+import type { CommandPolicy } from '~/types/commandPolicy';
+import { DEFAULT_COMMAND_POLICY } from '~/utils/commandPolicy';
 import type {
   TabVisibilityConfig,
   TabWindowConfig,
@@ -34,6 +36,14 @@ export const LOCAL_PROVIDERS = ['OpenAILike', 'LMStudio', 'Ollama'];
 
 export type ProviderSetting = Record<string, IProviderConfig>;
 
+// how context optimization picks the files sent to the model
+export type ContextSelectionMode = 'llm' | 'embeddings';
+
+export interface EmbeddingSettings {
+  provider: string;
+  model: string;
+}
+
 // Simplified shortcuts store with only theme toggle
 export const shortcutsStore = map<Shortcuts>({
   toggleTheme: {
@@ -131,6 +141,18 @@ const SETTINGS_KEYS = {
   EVENT_LOGS: 'isEventLogsEnabled',
   PROMPT_ID: 'promptId',
   DEVELOPER_MODE: 'isDeveloperMode',
+  TOOL_CALLING: 'toolCallingEnabled',
+  AUTO_FIX: 'autoFixEnabled',
+  AUTO_FIX_MAX_ATTEMPTS: 'autoFixMaxAttempts',
+  FALLBACK_MODELS: 'fallbackModels',
+  CONTEXT_SELECTION_MODE: 'contextSelectionMode',
+  EMBEDDING_PROVIDER: 'embeddingProvider',
+  EMBEDDING_MODEL: 'embeddingModel',
+  ARCHITECT_MODE: 'architectMode',
+  EDITOR_MODEL: 'editorModel',
+  REVIEW_MODE: 'reviewModeEnabled',
+  COMMAND_POLICY: 'commandPolicy',
+  GIT_AUTO_COMMIT: 'gitAutoCommit',
 } as const;
 
 // Initialize settings from localStorage or defaults
@@ -153,6 +175,63 @@ const getInitialSettings = () => {
     }
   };
 
+  const getStoredNumber = (key: string, defaultValue: number): number => {
+    if (!isBrowser) {
+      return defaultValue;
+    }
+
+    const stored = Number(localStorage.getItem(key));
+
+    return Number.isFinite(stored) && stored > 0 ? stored : defaultValue;
+  };
+
+  const getStoredString = (key: string, defaultValue: string): string => {
+    if (!isBrowser) {
+      return defaultValue;
+    }
+
+    return localStorage.getItem(key) || defaultValue;
+  };
+
+  const getStoredEditorModel = (): EditorModel => {
+    const defaultValue = { provider: '', model: '' };
+
+    if (!isBrowser) {
+      return defaultValue;
+    }
+
+    try {
+      return JSON.parse(localStorage.getItem(SETTINGS_KEYS.EDITOR_MODEL) || 'null') || defaultValue;
+    } catch {
+      return defaultValue;
+    }
+  };
+
+  const getStoredCommandPolicy = (): CommandPolicy => {
+    if (!isBrowser) {
+      return DEFAULT_COMMAND_POLICY;
+    }
+
+    try {
+      return { ...DEFAULT_COMMAND_POLICY, ...JSON.parse(localStorage.getItem(SETTINGS_KEYS.COMMAND_POLICY) || '{}') };
+    } catch {
+      return DEFAULT_COMMAND_POLICY;
+    }
+  };
+
+  const getStoredFallbackModels = (): FallbackModel[] => {
+    if (!isBrowser) {
+      return [];
+    }
+
+    try {
+      const stored = JSON.parse(localStorage.getItem(SETTINGS_KEYS.FALLBACK_MODELS) || '[]');
+      return Array.isArray(stored) ? stored : [];
+    } catch {
+      return [];
+    }
+  };
+
   return {
     latestBranch: getStoredBoolean(SETTINGS_KEYS.LATEST_BRANCH, false),
     autoSelectTemplate: getStoredBoolean(SETTINGS_KEYS.AUTO_SELECT_TEMPLATE, true),
@@ -160,6 +239,20 @@ const getInitialSettings = () => {
     eventLogs: getStoredBoolean(SETTINGS_KEYS.EVENT_LOGS, true),
     promptId: isBrowser ? localStorage.getItem(SETTINGS_KEYS.PROMPT_ID) || 'default' : 'default',
     developerMode: getStoredBoolean(SETTINGS_KEYS.DEVELOPER_MODE, false),
+    toolCalling: getStoredBoolean(SETTINGS_KEYS.TOOL_CALLING, false),
+    autoFix: getStoredBoolean(SETTINGS_KEYS.AUTO_FIX, false),
+    autoFixMaxAttempts: getStoredNumber(SETTINGS_KEYS.AUTO_FIX_MAX_ATTEMPTS, 3),
+    fallbackModels: getStoredFallbackModels(),
+    contextSelectionMode: getStoredString(SETTINGS_KEYS.CONTEXT_SELECTION_MODE, 'llm') as ContextSelectionMode,
+    embeddingSettings: {
+      provider: getStoredString(SETTINGS_KEYS.EMBEDDING_PROVIDER, 'Ollama'),
+      model: getStoredString(SETTINGS_KEYS.EMBEDDING_MODEL, ''),
+    },
+    architectMode: getStoredBoolean(SETTINGS_KEYS.ARCHITECT_MODE, false),
+    editorModel: getStoredEditorModel(),
+    reviewMode: getStoredBoolean(SETTINGS_KEYS.REVIEW_MODE, false),
+    commandPolicy: getStoredCommandPolicy(),
+    gitAutoCommit: getStoredBoolean(SETTINGS_KEYS.GIT_AUTO_COMMIT, false),
   };
 };
 
@@ -171,6 +264,27 @@ export const autoSelectStarterTemplate = atom<boolean>(initialSettings.autoSelec
 export const enableContextOptimizationStore = atom<boolean>(initialSettings.contextOptimization);
 export const isEventLogsEnabled = atom<boolean>(initialSettings.eventLogs);
 export const promptStore = atom<string>(initialSettings.promptId);
+export const enableToolCallingStore = atom<boolean>(initialSettings.toolCalling);
+export const enableAutoFixStore = atom<boolean>(initialSettings.autoFix);
+export const autoFixMaxAttemptsStore = atom<number>(initialSettings.autoFixMaxAttempts);
+
+// ordered provider/model pairs tried when the selected model fails
+export const fallbackModelsStore = atom<FallbackModel[]>(initialSettings.fallbackModels);
+export const contextSelectionModeStore = atom<ContextSelectionMode>(initialSettings.contextSelectionMode);
+export const embeddingSettingsStore = map<EmbeddingSettings>(initialSettings.embeddingSettings);
+export const architectModeStore = atom<boolean>(initialSettings.architectMode);
+
+// an empty editor model means the selected model implements its own plan
+export const editorModelStore = atom<EditorModel>(initialSettings.editorModel);
+
+// file and shell actions wait for the user to accept them before they run
+export const reviewModeStore = atom<boolean>(initialSettings.reviewMode);
+
+// which commands of the model may run, chats can override it
+export const commandPolicyStore = atom<CommandPolicy>(initialSettings.commandPolicy);
+
+// the changes of each assistant message are committed to the git repository of the project
+export const gitAutoCommitStore = atom<boolean>(initialSettings.gitAutoCommit);
 
 // Helper functions to update settings with persistence
 export const updateLatestBranch = (enabled: boolean) => {
@@ -198,6 +312,62 @@ export const updatePromptId = (id: string) => {
   localStorage.setItem(SETTINGS_KEYS.PROMPT_ID, id);
 };
 
+export const updateToolCalling = (enabled: boolean) => {
+  enableToolCallingStore.set(enabled);
+  localStorage.setItem(SETTINGS_KEYS.TOOL_CALLING, JSON.stringify(enabled));
+};
+
+export const updateAutoFix = (enabled: boolean) => {
+  enableAutoFixStore.set(enabled);
+  localStorage.setItem(SETTINGS_KEYS.AUTO_FIX, JSON.stringify(enabled));
+};
+
+export const updateAutoFixMaxAttempts = (attempts: number) => {
+  autoFixMaxAttemptsStore.set(attempts);
+  localStorage.setItem(SETTINGS_KEYS.AUTO_FIX_MAX_ATTEMPTS, JSON.stringify(attempts));
+};
+
+export const updateFallbackModels = (models: FallbackModel[]) => {
+  fallbackModelsStore.set(models);
+  localStorage.setItem(SETTINGS_KEYS.FALLBACK_MODELS, JSON.stringify(models));
+};
+
+export const updateContextSelectionMode = (mode: ContextSelectionMode) => {
+  contextSelectionModeStore.set(mode);
+  localStorage.setItem(SETTINGS_KEYS.CONTEXT_SELECTION_MODE, mode);
+};
+
+export const updateEmbeddingSettings = (settings: EmbeddingSettings) => {
+  embeddingSettingsStore.set(settings);
+  localStorage.setItem(SETTINGS_KEYS.EMBEDDING_PROVIDER, settings.provider);
+  localStorage.setItem(SETTINGS_KEYS.EMBEDDING_MODEL, settings.model);
+};
+
+export const updateArchitectMode = (enabled: boolean) => {
+  architectModeStore.set(enabled);
+  localStorage.setItem(SETTINGS_KEYS.ARCHITECT_MODE, JSON.stringify(enabled));
+};
+
+export const updateEditorModel = (model: EditorModel) => {
+  editorModelStore.set(model);
+  localStorage.setItem(SETTINGS_KEYS.EDITOR_MODEL, JSON.stringify(model));
+};
+
+export const updateReviewMode = (enabled: boolean) => {
+  reviewModeStore.set(enabled);
+  localStorage.setItem(SETTINGS_KEYS.REVIEW_MODE, JSON.stringify(enabled));
+};
+
+export const updateCommandPolicy = (policy: CommandPolicy) => {
+  commandPolicyStore.set(policy);
+  localStorage.setItem(SETTINGS_KEYS.COMMAND_POLICY, JSON.stringify(policy));
+};
+
+export const updateGitAutoCommit = (enabled: boolean) => {
+  gitAutoCommitStore.set(enabled);
+  localStorage.setItem(SETTINGS_KEYS.GIT_AUTO_COMMIT, JSON.stringify(enabled));
+};
+
 // Initialize tab configuration from localStorage or defaults
 const getInitialTabConfiguration = (): TabWindowConfig => {
   const defaultConfig: TabWindowConfig = {
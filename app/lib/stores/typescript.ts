@@ -0,0 +1,393 @@
+import type { WebContainer } from '@webcontainer/api';
+import { atom, onMount, type WritableAtom } from 'nanostores';
+import type { LanguageService } from '~/components/editor/codemirror/language-service';
+import type {
+  TypeScriptWorkerRequest,
+  TypeScriptWorkerResponse,
+  TypeScriptWorkerResults,
+} from '~/lib/workers/typescript.worker';
+import type { TextEdit } from '~/types/languageService';
+import type { Problem } from '~/types/problems';
+import { WORK_DIR } from '~/utils/constants';
+import { debounce } from '~/utils/debounce';
+import { createScopedLogger } from '~/utils/logger';
+import type { EditorStore } from './editor';
+import type { FilesStore } from './files';
+
+const logger = createScopedLogger('TypeScriptStore');
+
+const SUPPORTED_FILE_REGEX = /\.(?:[cm]?[jt]s|[jt]sx)$/;
+const CONFIG_FILES = [`${WORK_DIR}/tsconfig.json`, `${WORK_DIR}/package.json`];
+
+// keeps huge dependency trees from flooding the worker
+const MAX_TYPE_FILES = 4000;
+const MAX_TYPE_BYTES = 40 * 1024 * 1024;
+
+type Request = TypeScriptWorkerRequest extends infer R ? (R extends { id: number } ? Omit<R, 'id'> : never) : never;
+
+interface PendingRequest {
+  resolve: (result: unknown) => void;
+  reject: (error: Error) => void;
+}
+
+interface TypeDefinitionBudget {
+  files: number;
+  bytes: number;
+}
+
+/**
+ * Feeds the project files into a TypeScript language service running in a worker. The worker starts once
+ * something listens to the problems, unsaved editor changes take precedence over the files.
+ */
+export class TypeScriptStore implements LanguageService {
+  #webcontainer: Promise<WebContainer>;
+  #filesStore: FilesStore;
+  #editorStore: EditorStore;
+  #setDocumentContent: (filePath: string, content: string) => void;
+
+  #worker?: Worker;
+  #requestId = 0;
+  #pending = new Map<number, PendingRequest>();
+
+  // the content the worker currently knows about, used to only send what changed
+  #synced = new Map<string, string>();
+  #packageJson?: string;
+  #diagnosticsRunning = false;
+  #diagnosticsQueued = false;
+
+  problems: WritableAtom<Problem[]> = atom([]);
+
+  constructor(
+    webcontainer: Promise<WebContainer>,
+    filesStore: FilesStore,
+    editorStore: EditorStore,
+    setDocumentContent: (filePath: string, content: string) => void,
+  ) {
+    this.#webcontainer = webcontainer;
+    this.#filesStore = filesStore;
+    this.#editorStore = editorStore;
+    this.#setDocumentContent = setDocumentContent;
+
+    onMount(this.problems, () => {
+      this.#getWorker();
+    });
+  }
+
+  supports(filePath: string) {
+    return SUPPORTED_FILE_REGEX.test(filePath) && filePath.startsWith(`${WORK_DIR}/`);
+  }
+
+  getQuickInfo(filePath: string, content: string, offset: number) {
+    return this.#request('quickInfo', { type: 'quickInfo', filePath, offset }, [filePath, content]);
+  }
+
+  getCompletions(filePath: string, content: string, offset: number) {
+    return this.#request('completions', { type: 'completions', filePath, offset }, [filePath, content]);
+  }
+
+  async getDefinition(filePath: string, content: string, offset: number) {
+    const [definition] = await this.#request('definition', { type: 'definition', filePath, offset }, [
+      filePath,
+      content,
+    ]);
+
+    return definition;
+  }
+
+  getRenameEdits(filePath: string, content: string, offset: number, newName: string) {
+    return this.#request('rename', { type: 'rename', filePath, offset, newName }, [filePath, content]);
+  }
+
+  openLocation(location: { filePath: string; line: number; column: number; length: number }) {
+    this.#editorStore.openLocation(location);
+  }
+
+  /**
+   * Applies edits to files that are not open in the calling editor, they show up as unsaved changes.
+   */
+  applyEdits(edits: TextEdit[]) {
+    const documents = this.#editorStore.documents.get();
+    const editsByFile = new Map<string, TextEdit[]>();
+
+    for (const edit of edits) {
+      editsByFile.set(edit.filePath, [...(editsByFile.get(edit.filePath) ?? []), edit]);
+    }
+
+    for (const [filePath, fileEdits] of editsByFile) {
+      let content = documents[filePath]?.value ?? this.#filesStore.getFile(filePath)?.content;
+
+      if (content === undefined) {
+        continue;
+      }
+
+      // apply from the end so the offsets of the remaining edits stay valid
+      for (const edit of [...fileEdits].sort((a, b) => b.from - a.from)) {
+        content = content.slice(0, edit.from) + edit.text + content.slice(edit.to);
+      }
+
+      this.#setDocumentContent(filePath, content);
+    }
+  }
+
+  async reloadTypeDefinitions() {
+    const worker = this.#getWorker();
+    const webcontainer = await this.#webcontainer;
+    const definitions: Array<[string, string]> = [];
+    const budget: TypeDefinitionBudget = { files: 0, bytes: 0 };
+    const visited = new Set<string>();
+
+    let packages: string[] = [];
+
+    try {
+      const packageJson = JSON.parse(this.#packageJson ?? '{}');
+      packages = Object.keys({ ...packageJson.dependencies, ...packageJson.devDependencies });
+    } catch {
+      // an invalid package.json gets reported by the package manager, not here
+    }
+
+    try {
+      const typesPackages = await webcontainer.fs.readdir('node_modules/@types');
+      packages.push(...typesPackages.map((name) => `@types/${name}`));
+    } catch {
+      // no @types installed
+    }
+
+    for (const packageName of packages) {
+      await this.#collectPackageTypes(webcontainer, packageName, definitions, budget, visited);
+    }
+
+    logger.debug(`Loaded ${definitions.length} type definition files`);
+
+    // replace what was loaded before, dependencies may have been removed
+    const loaded = new Set(definitions.map(([filePath]) => filePath));
+    const removed = [...this.#synced.keys()]
+      .filter((filePath) => filePath.includes('/node_modules/') && !loaded.has(filePath))
+      .map((filePath): [string, null] => [filePath, null]);
+
+    for (const [filePath, content] of definitions) {
+      this.#synced.set(filePath, content);
+    }
+
+    for (const [filePath] of removed) {
+      this.#synced.delete(filePath);
+    }
+
+    this.#post(worker, { type: 'update', files: [...definitions, ...removed] });
+    this.#scheduleDiagnostics();
+  }
+
+  async #collectPackageTypes(
+    webcontainer: WebContainer,
+    packageName: string,
+    definitions: Array<[string, string]>,
+    budget: TypeDefinitionBudget,
+    visited: Set<string>,
+  ) {
+    if (visited.has(packageName)) {
+      return;
+    }
+
+    visited.add(packageName);
+
+    const packageDir = `node_modules/${packageName}`;
+
+    let dependencies: string[] = [];
+
+    try {
+      const packageJson = JSON.parse(await webcontainer.fs.readFile(`${packageDir}/package.json`, 'utf-8'));
+      dependencies = Object.keys({ ...packageJson.dependencies, ...packageJson.peerDependencies });
+    } catch {
+      // not installed (yet)
+      return;
+    }
+
+    await this.#collectDefinitionFiles(webcontainer, packageDir, definitions, budget);
+
+    // the types of a package often import the types of its own dependencies
+    for (const dependency of dependencies) {
+      await this.#collectPackageTypes(webcontainer, dependency, definitions, budget, visited);
+    }
+  }
+
+  async #collectDefinitionFiles(
+    webcontainer: WebContainer,
+    dir: string,
+    definitions: Array<[string, string]>,
+    budget: TypeDefinitionBudget,
+  ) {
+    let entries;
+
+    try {
+      entries = await webcontainer.fs.readdir(dir, { withFileTypes: true });
+    } catch {
+      return;
+    }
+
+    for (const entry of entries) {
+      if (budget.files >= MAX_TYPE_FILES || budget.bytes >= MAX_TYPE_BYTES) {
+        return;
+      }
+
+      const entryPath = `${dir}/${entry.name}`;
+
+      if (entry.isDirectory()) {
+        // nested node_modules hold other versions of dependencies, which are skipped
+        if (entry.name !== 'node_modules') {
+          await this.#collectDefinitionFiles(webcontainer, entryPath, definitions, budget);
+        }
+      } else if (entry.name === 'package.json' || /\.d\.[cm]?ts$/.test(entry.name)) {
+        try {
+          const content = await webcontainer.fs.readFile(entryPath, 'utf-8');
+
+          definitions.push([`${WORK_DIR}/${entryPath}`, content]);
+          budget.files++;
+          budget.bytes += content.length;
+        } catch (error) {
+          logger.debug(`Failed to read ${entryPath}`, error);
+        }
+      }
+    }
+  }
+
+  #getWorker() {
+    if (this.#worker) {
+      return this.#worker;
+    }
+
+    const worker = new Worker(new URL('../workers/typescript.worker.ts', import.meta.url), { type: 'module' });
+
+    worker.addEventListener('message', (event: MessageEvent<TypeScriptWorkerResponse>) => {
+      const { id, result, error } = event.data;
+      const pending = this.#pending.get(id);
+
+      this.#pending.delete(id);
+
+      if (error !== undefined) {
+        pending?.reject(new Error(error));
+      } else {
+        pending?.resolve(result);
+      }
+    });
+
+    worker.addEventListener('error', (event) => {
+      logger.error('TypeScript worker failed', event.message);
+
+      for (const pending of this.#pending.values()) {
+        pending.reject(new Error('TypeScript worker failed'));
+      }
+
+      this.#pending.clear();
+    });
+
+    this.#worker = worker;
+    this.#post(worker, { type: 'configure', root: WORK_DIR });
+
+    const syncFiles = debounce(() => this.#syncFiles(), 300);
+
+    this.#filesStore.files.subscribe(syncFiles);
+    this.#editorStore.documents.subscribe(syncFiles);
+    this.#syncFiles();
+
+    return worker;
+  }
+
+  // sends changed project files, `override` is the content of the editor that makes a request
+  #syncFiles(override?: [string, string]) {
+    const worker = this.#getWorker();
+    const files = this.#filesStore.files.get();
+    const documents = this.#editorStore.documents.get();
+    const current = new Map<string, string>();
+
+    for (const [filePath, dirent] of Object.entries(files)) {
+      if (dirent?.type === 'file' && !dirent.isBinary && (this.supports(filePath) || CONFIG_FILES.includes(filePath))) {
+        current.set(filePath, documents[filePath]?.value ?? dirent.content);
+      }
+    }
+
+    if (override) {
+      current.set(...override);
+    }
+
+    const changes: Array<[string, string | null]> = [];
+
+    for (const [filePath, content] of current) {
+      if (this.#synced.get(filePath) !== content) {
+        this.#synced.set(filePath, content);
+        changes.push([filePath, content]);
+      }
+    }
+
+    for (const filePath of this.#synced.keys()) {
+      if (!current.has(filePath) && !filePath.includes('/node_modules/')) {
+        this.#synced.delete(filePath);
+        changes.push([filePath, null]);
+      }
+    }
+
+    if (changes.length === 0) {
+      return;
+    }
+
+    this.#post(worker, { type: 'update', files: changes });
+    this.#scheduleDiagnostics();
+
+    const packageJson = current.get(`${WORK_DIR}/package.json`);
+
+    if (packageJson !== this.#packageJson) {
+      this.#packageJson = packageJson;
+      this.#reloadTypesSoon();
+    }
+  }
+
+  // installing the dependencies takes a while after package.json changed
+  #reloadTypesSoon = debounce(() => {
+    this.reloadTypeDefinitions().catch((error) => logger.error('Failed to load type definitions', error));
+  }, 5000);
+
+  #scheduleDiagnostics = debounce(() => this.#updateDiagnostics(), 1000);
+
+  // only one diagnostics run at a time, changes made meanwhile trigger one more run
+  async #updateDiagnostics() {
+    if (this.#diagnosticsRunning) {
+      this.#diagnosticsQueued = true;
+      return;
+    }
+
+    this.#diagnosticsRunning = true;
+
+    try {
+      this.problems.set(await this.#request('diagnostics', { type: 'diagnostics' }));
+    } catch (error) {
+      logger.error('Failed to get diagnostics', error);
+    } finally {
+      this.#diagnosticsRunning = false;
+    }
+
+    if (this.#diagnosticsQueued) {
+      this.#diagnosticsQueued = false;
+      this.#updateDiagnostics();
+    }
+  }
+
+  #request<T extends keyof TypeScriptWorkerResults>(
+    _type: T,
+    request: Extract<Request, { type: T }>,
+    override?: [string, string],
+  ): Promise<TypeScriptWorkerResults[T]> {
+    const worker = this.#getWorker();
+
+    this.#syncFiles(override);
+
+    const id = ++this.#requestId;
+
+    return new Promise<TypeScriptWorkerResults[T]>((resolve, reject) => {
+      // the worker answers every request with the result of its type
+      this.#pending.set(id, { resolve: (result) => resolve(result as TypeScriptWorkerResults[T]), reject });
+      this.#post(worker, { ...request, id } as TypeScriptWorkerRequest);
+    });
+  }
+
+  #post(worker: Worker, request: TypeScriptWorkerRequest) {
+    worker.postMessage(request);
+  }
+}
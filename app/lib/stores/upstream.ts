@@ -0,0 +1,320 @@
+import type { Message } from 'ai';
+import ignore from 'ignore';
+import git, { TREE } from 'isomorphic-git';
+import http from 'isomorphic-git/http/web';
+import { atom, type WritableAtom } from 'nanostores';
+import { chatId, chatMetadata, db, getMessages, getSnapshot, setSnapshot } from '~/lib/persistence';
+import { StreamingMessageParser } from '~/lib/runtime/message-parser';
+import type { SnapshotFileMap } from '~/lib/stores/files';
+import { extractRelativePath } from '~/utils/diff';
+import { generateId, IGNORE_PATTERNS } from '~/utils/fileUtils';
+import { shortOid } from '~/utils/git';
+import { getCorsProxy, gitAuthCallbacks } from '~/utils/gitClient';
+import { createMemoryFs } from '~/utils/memoryFs';
+import { mergeFiles, type FileMerge } from '~/utils/merge';
+import { escapeBoltTags } from '~/utils/projectCommands';
+import { createScopedLogger } from '~/utils/logger';
+import type { FilesStore } from './files';
+import { pendingAssistantMessage } from './chat';
+
+const logger = createScopedLogger('UpstreamStore');
+
+// the files an import skips, they are neither merged nor written
+const ig = ignore().add([...IGNORE_PATTERNS, '.github/**', '**/*lock.json', '**/*lock.yaml']);
+const MAX_FILE_SIZE = 100 * 1024;
+
+const IMPORT_ARTIFACT_ID = 'imported-files';
+const SYNC_ARTIFACT_ID = 'upstream-sync';
+
+export interface UpstreamSync {
+  url: string;
+  branch?: string;
+  commit: string;
+
+  // the upstream files at `commit`, the base the next sync merges against
+  files: Record<string, string>;
+  merges: FileMerge[];
+}
+
+// the file actions write trimmed content, all versions are compared that way
+function normalizeContent(content: string) {
+  return `${content.trim()}\n`;
+}
+
+function quote(filePath: string) {
+  return `'${filePath.replace(/'/g, `'\\''`)}'`;
+}
+
+// the upstream files of a sync are stored next to the snapshot of its message
+function getBaseSnapshotId(messageId: string) {
+  return `upstream:${messageId}`;
+}
+
+function getImportedFiles(message: Message) {
+  const files: Record<string, string> = {};
+
+  const parser = new StreamingMessageParser({
+    callbacks: {
+      onActionClose: ({ artifactId, action }) => {
+        if (artifactId === IMPORT_ARTIFACT_ID && action.type === 'file') {
+          files[action.filePath] = normalizeContent(action.content);
+        }
+      },
+    },
+  });
+
+  parser.parse(message.id, message.content);
+
+  return files;
+}
+
+/**
+ * The message recording a sync, its artifact writes the merged files so the model and replays of the chat
+ * see them.
+ */
+function createSyncMessage({ url, branch, commit, merges }: UpstreamSync): Message {
+  const changed = merges.filter(({ content, ours }) => content !== (ours ?? null));
+  const written = changed.filter(({ content }) => content !== null);
+  const deleted = changed.filter(({ content }) => content === null).map(({ filePath }) => quote(filePath));
+
+  const changes = merges.map(({ filePath, change, ours, theirs, content }) => {
+    let note = '';
+
+    if (content === (ours ?? null)) {
+      note = ' (kept the local version)';
+    } else if (ours !== undefined && theirs !== undefined && content !== theirs) {
+      note = ' (merged with local changes)';
+    }
+
+    return `- ${change} \`${filePath}\`${note}`;
+  });
+
+  return {
+    id: generateId(),
+    role: 'assistant',
+    content: `Pulled the upstream changes of ${url}${branch ? ` (${branch})` : ''} at ${shortOid(commit)}, the files below changed:
+${changes.join('\n')}
+
+<boltArtifact id="${SYNC_ARTIFACT_ID}" title="Upstream Changes" type="bundled">
+${written
+  .map(
+    ({ filePath, content }) => `<boltAction type="file" filePath="${filePath}">
+${escapeBoltTags(content ?? '')}
+</boltAction>`,
+  )
+  .join('\n')}
+${deleted.length > 0 ? `<boltAction type="shell">rm -f ${deleted.join(' ')}</boltAction>` : ''}
+</boltArtifact>`,
+    createdAt: new Date(),
+  };
+}
+
+/**
+ * Pulls the changes of the repository a chat was imported from, merged with the changes made since.
+ */
+export class UpstreamStore {
+  #filesStore: FilesStore;
+
+  // the merge waiting for its conflicts to be resolved in the diff view
+  sync: WritableAtom<UpstreamSync | undefined> =
+    import.meta.hot?.data.upstreamSync ?? atom<UpstreamSync | undefined>(undefined);
+  busy: WritableAtom<boolean> = import.meta.hot?.data.upstreamBusy ?? atom(false);
+
+  constructor(filesStore: FilesStore) {
+    this.#filesStore = filesStore;
+
+    if (import.meta.hot) {
+      import.meta.hot.data.upstreamSync = this.sync;
+      import.meta.hot.data.upstreamBusy = this.busy;
+    }
+  }
+
+  /**
+   * Fetches the upstream files and merges them, the merge is kept in `sync` for review. Returns the number of
+   * changed files, nothing changes without any.
+   */
+  async fetch() {
+    const metadata = chatMetadata.get();
+
+    if (!metadata?.gitUrl) {
+      throw new Error('The chat was not imported from a git repository');
+    }
+
+    this.busy.set(true);
+
+    try {
+      const [url, urlBranch] = metadata.gitUrl.split('#');
+      const branch = metadata.gitBranch ?? urlBranch;
+      const [{ commit, files }, base] = await Promise.all([this.#fetchFiles(url, branch), this.#getBase()]);
+
+      const merges = mergeFiles(base, this.#getFiles(), files);
+
+      this.sync.set(merges.length > 0 ? { url, branch, commit, files, merges } : undefined);
+
+      return merges.length;
+    } finally {
+      this.busy.set(false);
+    }
+  }
+
+  resolve(filePath: string, content: string | null) {
+    const sync = this.sync.get();
+
+    if (!sync) {
+      return;
+    }
+
+    this.sync.set({
+      ...sync,
+      merges: sync.merges.map((merge) =>
+        merge.filePath === filePath ? { ...merge, content, conflict: false } : merge,
+      ),
+    });
+  }
+
+  cancel() {
+    this.sync.set(undefined);
+  }
+
+  /**
+   * Adds the message writing the merged files to the chat and keeps the upstream files for the next sync.
+   */
+  async apply() {
+    const sync = this.sync.get();
+
+    if (!sync) {
+      return;
+    }
+
+    if (sync.merges.some(({ conflict }) => conflict)) {
+      throw new Error('Resolve all conflicts before applying the upstream changes');
+    }
+
+    const message = createSyncMessage(sync);
+    const id = chatId.get();
+
+    if (db && id) {
+      const files: SnapshotFileMap = {};
+
+      for (const [filePath, content] of Object.entries(sync.files)) {
+        files[filePath] = { type: 'file', content, isBinary: false };
+      }
+
+      await setSnapshot(db, {
+        chatId: id,
+        messageId: getBaseSnapshotId(message.id),
+        files,
+        timestamp: new Date().toISOString(),
+      });
+    }
+
+    pendingAssistantMessage.set(message);
+    this.sync.set(undefined);
+  }
+
+  async #fetchFiles(url: string, branch?: string) {
+    const fs = createMemoryFs();
+    const dir = '/upstream';
+
+    await git.clone({
+      fs,
+      http,
+      dir,
+      url,
+      ref: branch,
+      depth: 1,
+      singleBranch: true,
+      noCheckout: true,
+      corsProxy: getCorsProxy(url),
+      headers: { 'User-Agent': 'bolt.diy' },
+      ...gitAuthCallbacks,
+    });
+
+    const commit = await git.resolveRef({ fs, dir, ref: 'HEAD' });
+    const files: Record<string, string> = {};
+
+    await git.walk({
+      fs,
+      dir,
+      trees: [TREE({ ref: commit })],
+      map: async (filePath, [entry]) => {
+        if (filePath === '.') {
+          return undefined;
+        }
+
+        if (ig.ignores(filePath) || !entry) {
+          return null;
+        }
+
+        if ((await entry.type()) !== 'blob') {
+          return undefined;
+        }
+
+        const content = await entry.content();
+
+        if (content && content.length <= MAX_FILE_SIZE && !content.includes(0)) {
+          files[filePath] = normalizeContent(new TextDecoder().decode(content));
+        }
+
+        return undefined;
+      },
+    });
+
+    return { commit, files };
+  }
+
+  // the upstream files of the last sync, or the files of the import before the first one
+  async #getBase(): Promise<Record<string, string>> {
+    const id = chatId.get();
+
+    if (!db || !id) {
+      return {};
+    }
+
+    const chat = await getMessages(db, id);
+
+    for (const message of [...(chat?.messages ?? [])].reverse()) {
+      if (message.role !== 'assistant') {
+        continue;
+      }
+
+      if (message.content.includes(`<boltArtifact id="${SYNC_ARTIFACT_ID}"`)) {
+        const snapshot = await getSnapshot(db, id, getBaseSnapshotId(message.id));
+
+        if (snapshot) {
+          const files: Record<string, string> = {};
+
+          for (const [filePath, file] of Object.entries(snapshot.files)) {
+            if (file?.type === 'file') {
+              files[filePath] = file.content;
+            }
+          }
+
+          return files;
+        }
+
+        logger.warn('The upstream files of the last sync are missing, merging against the import');
+      }
+
+      if (message.content.includes(`<boltArtifact id="${IMPORT_ARTIFACT_ID}"`)) {
+        return getImportedFiles(message);
+      }
+    }
+
+    return {};
+  }
+
+  #getFiles() {
+    const files: Record<string, string> = {};
+
+    for (const [filePath, dirent] of Object.entries(this.#filesStore.files.get())) {
+      const relativePath = extractRelativePath(filePath);
+
+      if (dirent?.type === 'file' && !dirent.isBinary && !ig.ignores(relativePath)) {
+        files[relativePath] = normalizeContent(dirent.content);
+      }
+    }
+
+    return files;
+  }
+}
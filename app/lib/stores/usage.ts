@@ -0,0 +1,95 @@
+import { atom } from 'nanostores';
+import { toast } from 'react-toastify';
+import { addUsageRecord, clearUsageRecords, getAllUsageRecords, type UsageRecord } from '~/lib/persistence/db';
+import { calculateCost, formatCost, getUsageDay, type ModelPrice, type ModelPriceTable } from '~/utils/usage';
+import { createScopedLogger } from '~/utils/logger';
+import { logStore } from './logs';
+
+const logger = createScopedLogger('UsageStore');
+
+const PRICE_OVERRIDES_KEY = 'modelPriceOverrides';
+const DAILY_BUDGET_KEY = 'dailyUsageBudget';
+
+const isBrowser = typeof window !== 'undefined';
+
+const getStoredPriceOverrides = (): ModelPriceTable => {
+  if (!isBrowser) {
+    return {};
+  }
+
+  try {
+    return JSON.parse(localStorage.getItem(PRICE_OVERRIDES_KEY) || '{}');
+  } catch {
+    return {};
+  }
+};
+
+export const usageRecordsStore = atom<UsageRecord[]>([]);
+export const priceOverridesStore = atom<ModelPriceTable>(getStoredPriceOverrides());
+
+// daily spend limit in USD, 0 disables the warning
+export const dailyBudgetStore = atom<number>(isBrowser ? Number(localStorage.getItem(DAILY_BUDGET_KEY)) || 0 : 0);
+
+export async function loadUsageRecords(db: IDBDatabase) {
+  try {
+    usageRecordsStore.set(await getAllUsageRecords(db));
+  } catch (error) {
+    logger.error('Failed to load usage records', error);
+  }
+}
+
+export function getDailySpend(day: string = getUsageDay(new Date())) {
+  const overrides = priceOverridesStore.get();
+
+  return usageRecordsStore
+    .get()
+    .filter((record) => getUsageDay(record.timestamp) === day)
+    .reduce((total, record) => total + calculateCost(record, overrides), 0);
+}
+
+export async function recordUsage(db: IDBDatabase, record: UsageRecord) {
+  if (usageRecordsStore.get().length === 0) {
+    // make sure today's spend includes requests from earlier sessions
+    await loadUsageRecords(db);
+  }
+
+  const spendBefore = getDailySpend();
+  const added = await addUsageRecord(db, record);
+
+  if (!added) {
+    return;
+  }
+
+  usageRecordsStore.set([...usageRecordsStore.get(), record]);
+
+  const budget = dailyBudgetStore.get();
+  const spendAfter = getDailySpend();
+
+  if (budget > 0 && spendBefore <= budget && spendAfter > budget) {
+    toast.warning(`Daily budget of ${formatCost(budget)} exceeded, ${formatCost(spendAfter)} spent today`);
+    logStore.logWarning('Daily usage budget exceeded', { budget, spend: spendAfter });
+  }
+}
+
+export async function resetUsageRecords(db: IDBDatabase) {
+  await clearUsageRecords(db);
+  usageRecordsStore.set([]);
+}
+
+export function updateModelPrice(model: string, price: ModelPrice | undefined) {
+  const overrides = { ...priceOverridesStore.get() };
+
+  if (price) {
+    overrides[model] = price;
+  } else {
+    delete overrides[model];
+  }
+
+  priceOverridesStore.set(overrides);
+  localStorage.setItem(PRICE_OVERRIDES_KEY, JSON.stringify(overrides));
+}
+
+export function updateDailyBudget(budget: number) {
+  dailyBudgetStore.set(budget);
+  localStorage.setItem(DAILY_BUDGET_KEY, JSON.stringify(budget));
+}
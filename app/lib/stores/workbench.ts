@@ -1,23 +1,42 @@
 import { atom, map, type MapStore, type ReadableAtom, type WritableAtom } from 'nanostores';
-import type { EditorDocument, ScrollPosition } from '~/components/editor/codemirror/CodeMirrorEditor';
-import { ActionRunner } from '~/lib/runtime/action-runner';
+import type { EditorDocument, EditorLocation, ScrollPosition } from '~/components/editor/codemirror/CodeMirrorEditor';
+import { ActionRunner, type ActionStatus } from '~/lib/runtime/action-runner';
+import { ActionScheduler } from '~/lib/runtime/action-scheduler';
 import type { ActionCallbackData, ArtifactCallbackData } from '~/lib/runtime/message-parser';
 import { webcontainer } from '~/lib/webcontainer';
 import type { ITerminal } from '~/types/terminal';
 import { unreachable } from '~/utils/unreachable';
-import { EditorStore } from './editor';
-import { FilesStore, type FileMap } from './files';
+import { EditorStore, type EditorDocuments } from './editor';
+import { FilesStore, type FileMap, type SnapshotFileMap } from './files';
+import { GitStore } from './git';
 import { PreviewsStore } from './previews';
+import { ProblemsStore } from './problems';
+import { ReviewStore } from './review';
+import { SearchStore } from './search';
 import { TerminalStore } from './terminal';
+import { TypeScriptStore } from './typescript';
+import { UpstreamStore } from './upstream';
 import JSZip from 'jszip';
 import fileSaver from 'file-saver';
 import { Octokit, type RestEndpointMethodTypes } from '@octokit/rest';
-import { path } from '~/utils/path';
+import { isSubPath, path, replacePathPrefix } from '~/utils/path';
 import { extractRelativePath } from '~/utils/diff';
-import { description } from '~/lib/persistence';
+import { description, type ChatPullRequest } from '~/lib/persistence';
+import { pendingChatMessage } from './chat';
+import { commandPolicyStore, reviewModeStore } from './settings';
 import Cookies from 'js-cookie';
 import { createSampler } from '~/utils/sampler';
-import type { ActionAlert } from '~/types/actions';
+import type { ActionAlert, BoltAction } from '~/types/actions';
+import type { SnapshotChanges } from '~/utils/snapshot';
+import { replaceInContent, type SearchOptions } from '~/utils/search';
+import type { EditorLayout, SplitDirection } from '~/utils/editorTabs';
+import type { Problem } from '~/types/problems';
+import type { ActionReview, ReviewFeedback } from '~/types/review';
+import type { CommandPolicy, CommandPolicyResult } from '~/types/commandPolicy';
+import type { GitCommit } from '~/types/git';
+import { EMPTY_COMMAND_POLICY, evaluateCommandPolicy, findLockedPathInCommand } from '~/utils/commandPolicy';
+import { formatProblems } from '~/utils/problems';
+import { WORK_DIR } from '~/utils/constants';
 
 const { saveAs } = fileSaver;
 
@@ -35,18 +54,57 @@ type Artifacts = MapStore<Record<string, ArtifactState>>;
 
 export type WorkbenchViewType = 'code' | 'diff' | 'preview';
 
+export interface GitHubPullRequestOptions {
+  branch: string;
+  title: string;
+  body: string;
+
+  // the branch the pull request merges into and a new branch starts from, the default branch if not set
+  base?: string;
+
+  // the pull request of an earlier push of the chat
+  existing?: ChatPullRequest;
+}
+
+export interface GitHubPushResult {
+  repoUrl: string;
+  pullRequest?: ChatPullRequest;
+}
+
+const MAX_PROBLEMS_IN_CHAT = 50;
+
 export class WorkbenchStore {
   #previewsStore = new PreviewsStore(webcontainer);
   #filesStore = new FilesStore(webcontainer);
   #editorStore = new EditorStore(this.#filesStore);
   #terminalStore = new TerminalStore(webcontainer);
+  #searchStore = new SearchStore(this.#filesStore);
+  #typescriptStore = new TypeScriptStore(webcontainer, this.#filesStore, this.#editorStore, (filePath, content) =>
+    this.setDocumentContent(filePath, content),
+  );
+  #problemsStore = new ProblemsStore(this.#terminalStore.boltTerminal, this.#typescriptStore.problems);
+  #reviewStore = new ReviewStore();
+  #gitStore = new GitStore(webcontainer);
+  #upstreamStore = new UpstreamStore(this.#filesStore);
+
+  // shared by the runners of all artifacts so the actions of a message wait for those before it
+  #actionScheduler = new ActionScheduler();
 
   #reloadedMessages = new Set<string>();
+  #restoredMessages = new Set<string>();
 
   artifacts: Artifacts = import.meta.hot?.data.artifacts ?? map({});
 
   showWorkbench: WritableAtom<boolean> = import.meta.hot?.data.showWorkbench ?? atom(false);
   currentView: WritableAtom<WorkbenchViewType> = import.meta.hot?.data.currentView ?? atom('code');
+  showProblems: WritableAtom<boolean> = import.meta.hot?.data.showProblems ?? atom(false);
+
+  // files and folders the AI must not change, sorted
+  lockedPaths: WritableAtom<string[]> = import.meta.hot?.data.lockedPaths ?? atom<string[]>([]);
+
+  // overrides of the global command policy for the current chat
+  chatCommandPolicy: WritableAtom<CommandPolicy> =
+    import.meta.hot?.data.chatCommandPolicy ?? atom<CommandPolicy>(EMPTY_COMMAND_POLICY);
   unsavedFiles: WritableAtom<Set<string>> = import.meta.hot?.data.unsavedFiles ?? atom(new Set<string>());
   actionAlert: WritableAtom<ActionAlert | undefined> =
     import.meta.hot?.data.unsavedFiles ?? atom<ActionAlert | undefined>(undefined);
@@ -59,14 +117,124 @@ export class WorkbenchStore {
       import.meta.hot.data.unsavedFiles = this.unsavedFiles;
       import.meta.hot.data.showWorkbench = this.showWorkbench;
       import.meta.hot.data.currentView = this.currentView;
+      import.meta.hot.data.showProblems = this.showProblems;
+      import.meta.hot.data.lockedPaths = this.lockedPaths;
+      import.meta.hot.data.chatCommandPolicy = this.chatCommandPolicy;
       import.meta.hot.data.actionAlert = this.actionAlert;
     }
   }
 
+  /**
+   * Queued callbacks run one after another. Queued actions are only scheduled in that order, they run as
+   * soon as the earlier actions they depend on are done, use `waitForActions` to wait for them.
+   */
   addToExecutionQueue(callback: () => Promise<void>) {
     this.#globalExecutionQueue = this.#globalExecutionQueue.then(() => callback());
   }
 
+  waitForActions() {
+    return this.#actionScheduler.idle();
+  }
+
+  /**
+   * Resolves once the actions of the artifact of `messageId` are done, the actions of other messages may
+   * still run.
+   */
+  async waitForMessageActions(messageId: string) {
+    const artifact = this.#getArtifact(messageId);
+
+    if (!artifact) {
+      return;
+    }
+
+    const actionIds = Object.keys(artifact.runner.actions.get());
+
+    await Promise.all(actionIds.map((actionId) => artifact.runner.waitForAction(actionId)));
+  }
+
+  get git() {
+    return this.#gitStore;
+  }
+
+  get upstream() {
+    return this.#upstreamStore;
+  }
+
+  /**
+   * Merges the upstream changes of the repository the chat was imported from, conflicts are shown in the
+   * diff view. Returns the number of files the merge changes.
+   */
+  async fetchUpstream() {
+    await this.waitForActions();
+
+    const count = await this.#upstreamStore.fetch();
+
+    if (count > 0) {
+      this.#gitStore.closeCommit();
+      this.showWorkbench.set(true);
+      this.currentView.set('diff');
+    }
+
+    return count;
+  }
+
+  async showCommit(commit: GitCommit) {
+    await this.#gitStore.showCommit(commit);
+    this.showWorkbench.set(true);
+    this.currentView.set('diff');
+  }
+
+  /**
+   * Commits what the actions of an assistant message changed once they are done, with the title of its
+   * artifact as the message. Nothing is committed without a repository.
+   */
+  commitMessageChanges(messageId: string) {
+    const artifact = this.#getArtifact(messageId);
+
+    if (!artifact) {
+      return;
+    }
+
+    this.addToExecutionQueue(async () => {
+      await this.waitForActions();
+
+      if (!this.#gitStore.repository.get().initialized) {
+        await this.#gitStore.refresh();
+      }
+
+      if (!this.#gitStore.repository.get().initialized) {
+        return;
+      }
+
+      try {
+        await this.#gitStore.commit(artifact.title, true);
+      } catch (error) {
+        console.error('Failed to commit the changes of the message:', error);
+      }
+    });
+  }
+
+  /**
+   * Commits every change and pushes the project to `remoteUrl`, creating the repository first if needed.
+   */
+  async pushToGitRemote(remoteUrl: string, commitMessage: string) {
+    await this.waitForActions();
+    await this.#gitStore.refresh();
+
+    if (!this.#gitStore.repository.get().initialized) {
+      await this.#gitStore.init();
+    }
+
+    await this.#gitStore.commit(commitMessage, true);
+
+    if (this.#gitStore.log.get().length === 0) {
+      throw new Error('There are no files to push');
+    }
+
+    await this.#gitStore.setRemote(remoteUrl);
+    await this.#gitStore.push();
+  }
+
   get previews() {
     return this.#previewsStore.previews;
   }
@@ -83,6 +251,30 @@ export class WorkbenchStore {
     return this.#editorStore.selectedFile;
   }
 
+  get editorDocuments(): ReadableAtom<EditorDocuments> {
+    return this.#editorStore.documents;
+  }
+
+  get editorLayout(): ReadableAtom<EditorLayout> {
+    return this.#editorStore.layout;
+  }
+
+  get editorLocation(): ReadableAtom<EditorLocation | undefined> {
+    return this.#editorStore.location;
+  }
+
+  get languageService() {
+    return this.#typescriptStore;
+  }
+
+  get problems(): ReadableAtom<Problem[]> {
+    return this.#problemsStore.problems;
+  }
+
+  get actionReviews(): ReadableAtom<Record<string, ActionReview>> {
+    return this.#reviewStore.reviews;
+  }
+
   get firstArtifact(): ArtifactState | undefined {
     return this.#getArtifact(this.artifactIdList[0]);
   }
@@ -104,6 +296,32 @@ export class WorkbenchStore {
     this.actionAlert.set(undefined);
   }
 
+  /**
+   * Asks the AI to fix the problems in the next chat message, the summary is capped to keep the prompt small.
+   */
+  sendProblemsToChat(problems: Problem[] = this.problems.get()) {
+    if (problems.length === 0) {
+      return;
+    }
+
+    pendingChatMessage.set(
+      `*Fix these problems in the project*\n\`\`\`text\n${formatProblems(problems, MAX_PROBLEMS_IN_CHAT)}\n\`\`\`\n`,
+    );
+  }
+
+  clearProblems() {
+    this.#problemsStore.clear();
+  }
+
+  reportPreviewError(stack: string) {
+    this.#problemsStore.reportPreviewError(stack);
+  }
+
+  openProblems() {
+    this.showProblems.set(true);
+    this.#terminalStore.toggleTerminal(true);
+  }
+
   toggleTerminal(value?: boolean) {
     this.#terminalStore.toggleTerminal(value);
   }
@@ -122,7 +340,8 @@ export class WorkbenchStore {
   setDocuments(files: FileMap) {
     this.#editorStore.setDocuments(files);
 
-    if (this.#filesStore.filesCount > 0 && this.currentDocument.get() === undefined) {
+    // a restored tab may be waiting for its file to be written
+    if (this.#filesStore.filesCount > 0 && this.currentDocument.get() === undefined && !this.selectedFile.get()) {
       // we find the first file and select it
       for (const [filePath, dirent] of Object.entries(files)) {
         if (dirent?.type === 'file') {
@@ -144,30 +363,35 @@ export class WorkbenchStore {
       return;
     }
 
+    this.setDocumentContent(filePath, newContent);
+  }
+
+  setDocumentContent(filePath: string, newContent: string) {
     const originalContent = this.#filesStore.getFile(filePath)?.content;
     const unsavedChanges = originalContent !== undefined && originalContent !== newContent;
 
     this.#editorStore.updateFile(filePath, newContent);
 
-    const currentDocument = this.currentDocument.get();
+    if (unsavedChanges) {
+      // an edited preview tab stays open when the next file is opened
+      this.#editorStore.keepTab(filePath);
+    }
 
-    if (currentDocument) {
-      const previousUnsavedFiles = this.unsavedFiles.get();
+    const previousUnsavedFiles = this.unsavedFiles.get();
 
-      if (unsavedChanges && previousUnsavedFiles.has(currentDocument.filePath)) {
-        return;
-      }
+    if (unsavedChanges && previousUnsavedFiles.has(filePath)) {
+      return;
+    }
 
-      const newUnsavedFiles = new Set(previousUnsavedFiles);
+    const newUnsavedFiles = new Set(previousUnsavedFiles);
 
-      if (unsavedChanges) {
-        newUnsavedFiles.add(currentDocument.filePath);
-      } else {
-        newUnsavedFiles.delete(currentDocument.filePath);
-      }
-
-      this.unsavedFiles.set(newUnsavedFiles);
+    if (unsavedChanges) {
+      newUnsavedFiles.add(filePath);
+    } else {
+      newUnsavedFiles.delete(filePath);
     }
+
+    this.unsavedFiles.set(newUnsavedFiles);
   }
 
   setCurrentDocumentScrollPosition(position: ScrollPosition) {
@@ -182,8 +406,87 @@ export class WorkbenchStore {
     this.#editorStore.updateScrollPosition(filePath, position);
   }
 
-  setSelectedFile(filePath: string | undefined) {
-    this.#editorStore.setSelectedFile(filePath);
+  setDocumentScrollPosition(filePath: string, position: ScrollPosition, paneId: string) {
+    this.#editorStore.updateScrollPosition(filePath, position, paneId);
+  }
+
+  setSelectedFile(filePath: string | undefined, preview = true) {
+    this.#editorStore.setSelectedFile(filePath, preview);
+  }
+
+  openTab(paneId: string, filePath: string) {
+    this.#editorStore.openTab(paneId, filePath);
+  }
+
+  keepTab(filePath: string) {
+    this.#editorStore.keepTab(filePath);
+  }
+
+  pinTab(paneId: string, filePath: string, pinned: boolean) {
+    this.#editorStore.pinTab(paneId, filePath, pinned);
+  }
+
+  closeTab(paneId: string, filePath: string) {
+    this.#editorStore.closeTab(paneId, filePath);
+  }
+
+  closeOtherTabs(paneId: string, filePath: string) {
+    this.#editorStore.closeOtherTabs(paneId, filePath);
+  }
+
+  splitEditor(direction: SplitDirection) {
+    this.#editorStore.splitPane(direction);
+  }
+
+  focusEditorPane(paneId: string) {
+    this.#editorStore.focusPane(paneId);
+  }
+
+  restoreEditorLayout(layout: EditorLayout | undefined) {
+    this.#editorStore.restoreLayout(layout);
+  }
+
+  openFileAt(location: EditorLocation) {
+    this.#editorStore.openLocation(location);
+  }
+
+  searchFiles(query: string, options: SearchOptions) {
+    return this.#searchStore.search(query, options);
+  }
+
+  /**
+   * Replaces the matches of `regex` in the given files and saves them. Files with unsaved editor changes
+   * are skipped so those changes don't get lost.
+   */
+  async replaceInFiles(filePaths: string[], regex: RegExp, replacement: string, expand: boolean) {
+    const unsavedFiles = this.unsavedFiles.get();
+    const skipped: string[] = [];
+    let count = 0;
+
+    for (const filePath of filePaths) {
+      const file = this.#filesStore.getFile(filePath);
+
+      if (!file || file.isBinary) {
+        continue;
+      }
+
+      if (unsavedFiles.has(filePath)) {
+        skipped.push(filePath);
+        continue;
+      }
+
+      const result = replaceInContent(file.content, regex, replacement, expand);
+
+      if (result.count === 0) {
+        continue;
+      }
+
+      await this.#filesStore.saveFile(filePath, result.content);
+      this.#editorStore.updateFile(filePath, result.content);
+      count += result.count;
+    }
+
+    return { count, skipped };
   }
 
   async saveFile(filePath: string) {
@@ -219,14 +522,17 @@ export class WorkbenchStore {
       return;
     }
 
-    const { filePath } = currentDocument;
+    this.resetFile(currentDocument.filePath);
+  }
+
+  resetFile(filePath: string) {
     const file = this.#filesStore.getFile(filePath);
 
     if (!file) {
       return;
     }
 
-    this.setCurrentDocumentContent(file.content);
+    this.setDocumentContent(filePath, file.content);
   }
 
   async saveAllFiles() {
@@ -254,6 +560,151 @@ export class WorkbenchStore {
     this.#reloadedMessages = new Set(messages);
   }
 
+  /**
+   * Writes a stored snapshot into the WebContainer before any queued action runs. The file actions of
+   * `messages` are already part of the snapshot and are skipped when replayed, their commands still run.
+   */
+  restoreSnapshot(files: SnapshotFileMap, messages: string[]) {
+    this.#restoredMessages = new Set(messages);
+    this.addToExecutionQueue(async () => {
+      // actions queued before still write files, the snapshot must not be overwritten by them
+      await this.waitForActions();
+      await this.#filesStore.restoreSnapshot(files);
+    });
+  }
+
+  createSnapshot() {
+    return this.#filesStore.createSnapshot();
+  }
+
+  async applySnapshotChanges(target: SnapshotFileMap, changes: SnapshotChanges) {
+    for (const { from, to } of changes.renamed) {
+      this.#editorStore.renameDocuments(from, to);
+      this.#moveUnsavedFiles(from, to);
+    }
+
+    for (const filePath of [...changes.deleted, ...changes.deletedFolders]) {
+      this.#editorStore.removeDocuments(filePath);
+      this.#moveUnsavedFiles(filePath);
+    }
+
+    await this.#filesStore.applySnapshotChanges(target, changes);
+  }
+
+  getFileOperations() {
+    return this.#filesStore.getFileOperations();
+  }
+
+  createFile(filePath: string, content = '') {
+    return this.#filesStore.createFile(filePath, content);
+  }
+
+  createFolder(folderPath: string) {
+    return this.#filesStore.createFolder(folderPath);
+  }
+
+  duplicatePath(filePath: string) {
+    return this.#filesStore.duplicatePath(filePath);
+  }
+
+  async renamePath(oldPath: string, newPath: string) {
+    await this.#filesStore.renamePath(oldPath, newPath);
+    this.#editorStore.renameDocuments(oldPath, newPath);
+    this.#moveUnsavedFiles(oldPath, newPath);
+    this.#moveLockedPaths(oldPath, newPath);
+  }
+
+  async deletePath(filePath: string) {
+    await this.#filesStore.deletePath(filePath);
+    this.#editorStore.removeDocuments(filePath);
+    this.#moveUnsavedFiles(filePath);
+    this.#moveLockedPaths(filePath);
+  }
+
+  /**
+   * Whether the AI may not change `filePath` because it or one of its folders is locked.
+   */
+  isPathLocked(filePath: string) {
+    return this.lockedPaths.get().some((lockedPath) => isSubPath(filePath, lockedPath));
+  }
+
+  setPathLocked(filePath: string, locked: boolean) {
+    const lockedPaths = this.lockedPaths.get().filter((lockedPath) => lockedPath !== filePath);
+
+    if (locked) {
+      lockedPaths.push(filePath);
+    }
+
+    this.lockedPaths.set(lockedPaths.sort());
+  }
+
+  restoreLockedPaths(paths: string[]) {
+    this.lockedPaths.set([...paths].sort());
+  }
+
+  checkCommand(command: string): CommandPolicyResult {
+    const lockedPath = findLockedPathInCommand(command, this.lockedPaths.get(), WORK_DIR);
+
+    if (lockedPath) {
+      return { decision: 'deny', reason: `changes the locked \`${extractRelativePath(lockedPath)}\`` };
+    }
+
+    return evaluateCommandPolicy(command, commandPolicyStore.get(), this.chatCommandPolicy.get());
+  }
+
+  setChatCommandPolicy(policy: CommandPolicy) {
+    this.chatCommandPolicy.set(policy);
+  }
+
+  restoreChatCommandPolicy(policy: CommandPolicy | undefined) {
+    this.chatCommandPolicy.set(policy ?? EMPTY_COMMAND_POLICY);
+  }
+
+  allowCommandInChat(command: string) {
+    const policy = this.chatCommandPolicy.get();
+
+    if (!policy.allow.includes(command)) {
+      this.chatCommandPolicy.set({ ...policy, allow: [...policy.allow, command] });
+    }
+  }
+
+  // moves the unsaved state of renamed files, or drops it for deleted ones when there is no new path
+  #moveUnsavedFiles(oldPath: string, newPath?: string) {
+    const unsavedFiles = new Set<string>();
+
+    for (const filePath of this.unsavedFiles.get()) {
+      const movedPath = replacePathPrefix(filePath, oldPath, newPath ?? oldPath);
+
+      if (movedPath === undefined) {
+        unsavedFiles.add(filePath);
+      } else if (newPath) {
+        unsavedFiles.add(movedPath);
+      }
+    }
+
+    this.unsavedFiles.set(unsavedFiles);
+  }
+
+  #moveLockedPaths(oldPath: string, newPath?: string) {
+    const lockedPaths = this.lockedPaths.get();
+
+    if (!lockedPaths.some((lockedPath) => isSubPath(lockedPath, oldPath))) {
+      return;
+    }
+
+    const movedPaths = lockedPaths.flatMap((lockedPath) => {
+      const movedPath = replacePathPrefix(lockedPath, oldPath, newPath ?? oldPath);
+
+      if (movedPath === undefined) {
+        return [lockedPath];
+      }
+
+      return newPath ? [movedPath] : [];
+    });
+
+    this.lockedPaths.set(movedPaths.sort());
+  }
+
   addArtifact({ messageId, title, id, type }: ArtifactCallbackData) {
     const artifact = this.#getArtifact(messageId);
 
@@ -280,6 +731,9 @@ export class WorkbenchStore {
 
           this.actionAlert.set(alert);
         },
+        (filePath) => this.isPathLocked(filePath),
+        (command) => this.checkCommand(command),
+        this.#actionScheduler,
       ),
     });
   }
@@ -317,7 +771,13 @@ export class WorkbenchStore {
       this.addToExecutionQueue(() => this._runAction(data, isStreaming));
     }
   }
-  async _runAction(data: ActionCallbackData, isStreaming: boolean = false) {
+
+  /**
+   * Resolves once the action is scheduled, not once it is done, so that the next queued action is scheduled
+   * right away and runs in parallel when it doesn't depend on this one. Callers that need the outcome wait
+   * with `waitForActions` or the `waitForAction` of the runner, streamed file writes are still awaited.
+   */
+  async _runAction(data: ActionCallbackData, isStreaming: boolean = false, reviewed: boolean = false) {
     const { messageId } = data;
 
     const artifact = this.#getArtifact(messageId);
@@ -332,10 +792,36 @@ export class WorkbenchStore {
       return;
     }
 
+    if (this.#restoredMessages.has(messageId) && (data.action.type === 'file' || data.action.type === 'patch')) {
+      artifact.runner.skipAction(data.actionId);
+      return;
+    }
+
+    const review = reviewed ? undefined : this.#getReview(artifact, data);
+
+    if (review) {
+      // streamed content isn't shown in the editor either, the change is looked at in the diff view
+      if (!isStreaming) {
+        artifact.runner.holdAction(data.actionId);
+        this.#reviewStore.add(data, review.reason);
+      }
+
+      return;
+    }
+
     if (data.action.type === 'file') {
       const wc = await webcontainer;
       const fullPath = path.join(wc.workdir, data.action.filePath);
 
+      // the runner refuses the write and raises an alert, the editor must not show the content either
+      if (this.isPathLocked(fullPath)) {
+        if (!isStreaming) {
+          artifact.runner.runAction(data);
+        }
+
+        return;
+      }
+
       if (this.selectedFile.value !== fullPath) {
         this.setSelectedFile(fullPath);
       }
@@ -346,21 +832,123 @@ export class WorkbenchStore {
 
       const doc = this.#editorStore.documents.get()[fullPath];
 
-      if (!doc) {
+      if (!doc && isStreaming) {
         await artifact.runner.runAction(data, isStreaming);
       }
 
       this.#editorStore.updateFile(fullPath, data.action.content);
 
       if (!isStreaming) {
-        await artifact.runner.runAction(data);
-        this.resetAllFileModifications();
+        artifact.runner.runAction(data).then(() => this.resetAllFileModifications());
       }
     } else {
-      await artifact.runner.runAction(data);
+      artifact.runner.runAction(data);
+    }
+  }
+
+  // replayed messages and imported templates were accepted before, builds only run for deployments
+  #getReview(artifact: ArtifactState, { messageId, action }: ActionCallbackData): { reason?: string } | undefined {
+    if (artifact.type === 'bundled' || this.#reloadedMessages.has(messageId) || action.type === 'build') {
+      return undefined;
+    }
+
+    if (action.type === 'shell' || action.type === 'start') {
+      const { decision, reason } = this.checkCommand(action.content);
+
+      if (decision === 'confirm') {
+        return { reason: `This command ${reason}` };
+      }
+    }
+
+    return reviewModeStore.get() ? {} : undefined;
+  }
+
+  updateReview(id: string, action: BoltAction) {
+    this.#reviewStore.update(id, action);
+  }
+
+  acceptReview(id: string) {
+    const review = this.#reviewStore.resolve(id, true);
+
+    if (!review) {
+      return;
+    }
+
+    const { messageId, artifactId, actionId, action } = review;
+
+    this.addToExecutionQueue(() => this._runAction({ messageId, artifactId, actionId, action }, false, true));
+  }
+
+  rejectReview(id: string) {
+    const review = this.#reviewStore.resolve(id, false);
+
+    if (review) {
+      this.#getArtifact(review.messageId)?.runner.rejectAction(review.actionId);
+    }
+  }
+
+  acceptAllReviews(messageId?: string) {
+    for (const review of Object.values(this.actionReviews.get())) {
+      if (!messageId || review.messageId === messageId) {
+        this.acceptReview(review.id);
+      }
+    }
+  }
+
+  rejectAllReviews(messageId?: string) {
+    for (const review of Object.values(this.actionReviews.get())) {
+      if (!messageId || review.messageId === messageId) {
+        this.rejectReview(review.id);
+      }
     }
   }
 
+  /**
+   * Returns the review decisions the model has not been told about yet, they are only reported once.
+   */
+  takeReviewFeedback(): ReviewFeedback[] {
+    return this.#reviewStore.takeFeedback();
+  }
+
+  /**
+   * Re-runs a previously failed command inside the artifact of `messageId`, after everything already
+   * queued has finished. Skipped when that artifact already runs the same command itself.
+   */
+  rerunAction(messageId: string, action: BoltAction) {
+    return new Promise<ActionStatus | undefined>((resolve) => {
+      this.addToExecutionQueue(async () => {
+        resolve(await this._rerunAction(messageId, action));
+      });
+    });
+  }
+  async _rerunAction(messageId: string, action: BoltAction) {
+    const artifact = this.#getArtifact(messageId);
+
+    if (!artifact) {
+      return undefined;
+    }
+
+    const existingActions = Object.entries(artifact.runner.actions.get());
+    const sameAction = existingActions.find(([, a]) => a.type === action.type && a.content === action.content);
+
+    if (sameAction) {
+      // the fix runs the command itself, its outcome decides whether the fix worked
+      return artifact.runner.waitForAction(sameAction[0]);
+    }
+
+    const data: ActionCallbackData = {
+      artifactId: artifact.id,
+      messageId,
+      actionId: `rerun-${existingActions.length}`,
+      action,
+    };
+
+    artifact.runner.addAction(data);
+    await artifact.runner.runAction(data);
+
+    return artifact.runner.actions.get()[data.actionId]?.status;
+  }
+
   actionStreamSampler = createSampler(async (data: ActionCallbackData, isStreaming: boolean = false) => {
     return await this._runAction(data, isStreaming);
   }, 100); // TODO: remove this magic number to have it configurable
@@ -439,7 +1027,18 @@ export class WorkbenchStore {
     return syncedFiles;
   }
 
-  async pushToGitHub(repoName: string, commitMessage?: string, githubUsername?: string, ghToken?: string) {
+  /**
+   * Pushes the files of the project to a GitHub repository, creating it if needed. Without `pullRequest` the
+   * commit goes onto the default branch; with it the commit goes onto `pullRequest.branch` and a pull
+   * request into its base is opened, or `pullRequest.existing` is updated while it is open.
+   */
+  async pushToGitHub(
+    repoName: string,
+    commitMessage?: string,
+    githubUsername?: string,
+    ghToken?: string,
+    options: { isPrivate?: boolean; pullRequest?: GitHubPullRequestOptions } = {},
+  ): Promise<GitHubPushResult> {
     try {
       // Use cookies if username and token are not provided
       const githubToken = ghToken || Cookies.get('githubToken');
@@ -463,7 +1062,7 @@ export class WorkbenchStore {
           // Repository doesn't exist, so create a new one
           const { data: newRepo } = await octokit.repos.createForAuthenticatedUser({
             name: repoName,
-            private: false,
+            private: options.isPrivate ?? false,
             auto_init: true,
           });
           repo = newRepo;
@@ -503,13 +1102,29 @@ export class WorkbenchStore {
         throw new Error('No valid files to push');
       }
 
-      // Get the latest commit SHA (assuming main branch, update dynamically if needed)
-      const { data: ref } = await octokit.git.getRef({
+      const { pullRequest } = options;
+      const baseBranch = pullRequest?.base || repo.default_branch || 'main';
+      const targetBranch = pullRequest?.branch ?? baseBranch;
+
+      // the branch of a pull request continues from its last push, a new one starts at the default branch
+      const { data: baseRef } = await octokit.git.getRef({
         owner: repo.owner.login,
         repo: repo.name,
-        ref: `heads/${repo.default_branch || 'main'}`, // Handle dynamic branch
+        ref: `heads/${baseBranch}`,
       });
-      const latestCommitSha = ref.object.sha;
+      const targetRef = pullRequest
+        ? await octokit.git
+            .getRef({ owner: repo.owner.login, repo: repo.name, ref: `heads/${targetBranch}` })
+            .then(({ data }) => data)
+            .catch((error) => {
+              if (error instanceof Error && 'status' in error && error.status === 404) {
+                return undefined;
+              }
+
+              throw error;
+            })
+        : baseRef;
+      const latestCommitSha = (targetRef ?? baseRef).object.sha;
 
       // Create a new tree
       const { data: newTree } = await octokit.git.createTree({
@@ -528,25 +1143,72 @@ export class WorkbenchStore {
       const { data: newCommit } = await octokit.git.createCommit({
         owner: repo.owner.login,
         repo: repo.name,
-        message: commitMessage || 'Initial commit from your app',
+        message: commitMessage || pullRequest?.title || 'Initial commit from your app',
         tree: newTree.sha,
         parents: [latestCommitSha],
       });
 
-      // Update the reference
-      await octokit.git.updateRef({
-        owner: repo.owner.login,
-        repo: repo.name,
-        ref: `heads/${repo.default_branch || 'main'}`, // Handle dynamic branch
-        sha: newCommit.sha,
-      });
+      if (targetRef) {
+        // Update the reference
+        await octokit.git.updateRef({
+          owner: repo.owner.login,
+          repo: repo.name,
+          ref: `heads/${targetBranch}`,
+          sha: newCommit.sha,
+        });
+      } else {
+        await octokit.git.createRef({
+          owner: repo.owner.login,
+          repo: repo.name,
+          ref: `refs/heads/${targetBranch}`,
+          sha: newCommit.sha,
+        });
+      }
 
-      alert(`Repository created and code pushed: ${repo.html_url}`);
+      if (!pullRequest) {
+        return { repoUrl: repo.html_url };
+      }
+
+      return {
+        repoUrl: repo.html_url,
+        pullRequest: await this.#openPullRequest(octokit, repo.owner.login, repo.name, baseBranch, pullRequest),
+      };
     } catch (error) {
       console.error('Error pushing to GitHub:', error);
       throw error; // Rethrow the error for further handling
     }
   }
+
+  async #openPullRequest(
+    octokit: Octokit,
+    owner: string,
+    repo: string,
+    base: string,
+    { branch, title, body, existing }: GitHubPullRequestOptions,
+  ): Promise<ChatPullRequest> {
+    const repository = `${owner}/${repo}`;
+
+    if (existing?.repository === repository && existing.branch === branch) {
+      const { data: current } = await octokit.pulls.get({ owner, repo, pull_number: existing.number });
+
+      if (current.state === 'open') {
+        const { data: updated } = await octokit.pulls.update({ owner, repo, pull_number: existing.number, body });
+
+        return {
+          repository,
+          number: updated.number,
+          url: updated.html_url,
+          branch,
+          base: updated.base.ref,
+          state: 'open',
+        };
+      }
+    }
+
+    const { data: created } = await octokit.pulls.create({ owner, repo, head: branch, base, title, body });
+
+    return { repository, number: created.number, url: created.html_url, branch, base, state: 'open' };
+  }
 }
 
 export const workbenchStore = new WorkbenchStore();
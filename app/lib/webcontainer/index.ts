@@ -41,6 +41,7 @@ if (!import.meta.env.SSR) {
           // Handle both uncaught exceptions and unhandled promise rejections
           if (message.type === 'PREVIEW_UNCAUGHT_EXCEPTION' || message.type === 'PREVIEW_UNHANDLED_REJECTION') {
             const isPromise = message.type === 'PREVIEW_UNHANDLED_REJECTION';
+            workbenchStore.reportPreviewError(message.stack || '');
             workbenchStore.actionAlert.set({
               type: 'preview',
               title: isPromise ? 'Unhandled Promise Rejection' : 'Uncaught Exception',
@@ -0,0 +1,43 @@
+import { createSearchRegex, searchFiles, type SearchOptions, type SearchResults } from '~/utils/search';
+
+/**
+ * Keeps a copy of the project's text files so searching never blocks the main thread.
+ * The main thread only sends the files that changed since the last update.
+ */
+
+export type SearchWorkerRequest =
+  | { type: 'update'; files: Array<[string, string | null]> }
+  | { type: 'search'; id: number; query: string; options: SearchOptions };
+
+export type SearchWorkerResponse =
+  | { type: 'results'; id: number; results: SearchResults }
+  | { type: 'error'; id: number; message: string };
+
+const index = new Map<string, string>();
+
+function respond(response: SearchWorkerResponse) {
+  self.postMessage(response);
+}
+
+self.addEventListener('message', (event: MessageEvent<SearchWorkerRequest>) => {
+  const request = event.data;
+
+  if (request.type === 'update') {
+    for (const [filePath, content] of request.files) {
+      if (content === null) {
+        index.delete(filePath);
+      } else {
+        index.set(filePath, content);
+      }
+    }
+
+    return;
+  }
+
+  try {
+    const regex = createSearchRegex(request.query, request.options);
+    respond({ type: 'results', id: request.id, results: searchFiles(index, regex) });
+  } catch (error) {
+    respond({ type: 'error', id: request.id, message: (error as Error).message });
+  }
+});
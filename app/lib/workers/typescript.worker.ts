@@ -0,0 +1,291 @@
+import ts from 'typescript';
+import type { CompletionEntry, DefinitionLocation, QuickInfo, TextEdit } from '~/types/languageService';
+import type { Problem, ProblemSeverity } from '~/types/problems';
+import { unreachable } from '~/utils/unreachable';
+
+/**
+ * Runs a TypeScript language service over the project files and the type definitions of its
+ * dependencies. The main thread sends file changes as they happen and asks for results by id.
+ */
+
+export type TypeScriptWorkerRequest =
+  | { type: 'configure'; root: string }
+  | { type: 'update'; files: Array<[string, string | null]> }
+  | { type: 'diagnostics'; id: number }
+  | { type: 'quickInfo'; id: number; filePath: string; offset: number }
+  | { type: 'completions'; id: number; filePath: string; offset: number }
+  | { type: 'definition'; id: number; filePath: string; offset: number }
+  | { type: 'rename'; id: number; filePath: string; offset: number; newName: string };
+
+export interface TypeScriptWorkerResults {
+  diagnostics: Problem[];
+  quickInfo: QuickInfo | undefined;
+  completions: CompletionEntry[];
+  definition: DefinitionLocation[];
+  rename: TextEdit[];
+}
+
+export type TypeScriptWorkerResponse = { id: number; result?: unknown; error?: string };
+
+const LIB_DIR = '/typescript-lib';
+const MAX_COMPLETIONS = 300;
+const SOURCE_FILE_REGEX = /\.(?:[cm]?[jt]s|[jt]sx)$/;
+
+const libFiles = new Map(
+  Object.entries(
+    import.meta.glob<string>('/node_modules/typescript/lib/lib.*.d.ts', {
+      query: '?raw',
+      import: 'default',
+      eager: true,
+    }),
+  ).map(([filePath, content]) => [`${LIB_DIR}/${filePath.split('/').pop()}`, content]),
+);
+
+const files = new Map<string, { content: string; version: number }>();
+let directories = new Set<string>();
+let root = '/home/project';
+let compilerOptions: ts.CompilerOptions | undefined;
+
+function isProjectFile(filePath: string) {
+  return filePath.startsWith(`${root}/`) && !filePath.includes('/node_modules/');
+}
+
+function getRootFileNames() {
+  return [...files.keys()].filter((filePath) => isProjectFile(filePath) && SOURCE_FILE_REGEX.test(filePath));
+}
+
+function updateDirectories() {
+  directories = new Set([LIB_DIR]);
+
+  for (const filePath of files.keys()) {
+    let index = filePath.lastIndexOf('/');
+
+    while (index > 0) {
+      const directory = filePath.slice(0, index);
+
+      if (directories.has(directory)) {
+        break;
+      }
+
+      directories.add(directory);
+      index = directory.lastIndexOf('/');
+    }
+  }
+}
+
+function getCompilerOptions(): ts.CompilerOptions {
+  if (compilerOptions) {
+    return compilerOptions;
+  }
+
+  const defaults: ts.CompilerOptions = {
+    target: ts.ScriptTarget.ESNext,
+    module: ts.ModuleKind.ESNext,
+    moduleResolution: ts.ModuleResolutionKind.Bundler,
+    jsx: ts.JsxEmit.ReactJSX,
+    allowJs: true,
+    esModuleInterop: true,
+    resolveJsonModule: true,
+    allowImportingTsExtensions: true,
+  };
+
+  const tsconfigPath = `${root}/tsconfig.json`;
+  const tsconfig = files.get(tsconfigPath);
+  const { config } = tsconfig ? ts.parseConfigFileTextToJson(tsconfigPath, tsconfig.content) : { config: undefined };
+  const { options } = ts.convertCompilerOptionsFromJson(config?.compilerOptions ?? {}, root);
+
+  // nothing gets emitted and errors inside dependencies are not the user's to fix
+  compilerOptions = { ...defaults, ...options, noEmit: true, skipLibCheck: true };
+
+  return compilerOptions;
+}
+
+const host: ts.LanguageServiceHost = {
+  getCompilationSettings: getCompilerOptions,
+  getScriptFileNames: getRootFileNames,
+  getScriptVersion: (fileName) => String(files.get(fileName)?.version ?? 0),
+  getScriptSnapshot: (fileName) => {
+    const content = files.get(fileName)?.content ?? libFiles.get(fileName);
+    return content === undefined ? undefined : ts.ScriptSnapshot.fromString(content);
+  },
+  getCurrentDirectory: () => root,
+  getDefaultLibFileName: (options) => `${LIB_DIR}/${ts.getDefaultLibFileName(options)}`,
+  fileExists: (fileName) => files.has(fileName) || libFiles.has(fileName),
+  readFile: (fileName) => files.get(fileName)?.content ?? libFiles.get(fileName),
+  directoryExists: (directoryName) => directories.has(directoryName.replace(/\/$/, '')),
+  getDirectories: (directoryName) => {
+    const prefix = `${directoryName.replace(/\/$/, '')}/`;
+
+    return [...directories]
+      .filter((directory) => directory.startsWith(prefix) && !directory.slice(prefix.length).includes('/'))
+      .map((directory) => directory.slice(prefix.length));
+  },
+};
+
+const service = ts.createLanguageService(host, ts.createDocumentRegistry());
+
+function getSeverity(category: ts.DiagnosticCategory): ProblemSeverity {
+  switch (category) {
+    case ts.DiagnosticCategory.Error:
+      return 'error';
+    case ts.DiagnosticCategory.Warning:
+      return 'warning';
+    default:
+      return 'info';
+  }
+}
+
+function getDiagnostics(): Problem[] {
+  const problems: Problem[] = [];
+
+  for (const fileName of getRootFileNames()) {
+    const diagnostics = [...service.getSyntacticDiagnostics(fileName), ...service.getSemanticDiagnostics(fileName)];
+
+    for (const diagnostic of diagnostics) {
+      if (!diagnostic.file || diagnostic.start === undefined) {
+        continue;
+      }
+
+      const { line, character } = diagnostic.file.getLineAndCharacterOfPosition(diagnostic.start);
+
+      problems.push({
+        filePath: fileName,
+        from: diagnostic.start,
+        to: diagnostic.start + (diagnostic.length ?? 0),
+        line: line + 1,
+        column: character,
+        severity: getSeverity(diagnostic.category),
+        message: ts.flattenDiagnosticMessageText(diagnostic.messageText, '\n'),
+        code: diagnostic.code,
+        source: 'typescript',
+      });
+    }
+  }
+
+  return problems;
+}
+
+function getQuickInfo(filePath: string, offset: number): QuickInfo | undefined {
+  const info = service.getQuickInfoAtPosition(filePath, offset);
+
+  if (!info) {
+    return undefined;
+  }
+
+  return {
+    from: info.textSpan.start,
+    to: info.textSpan.start + info.textSpan.length,
+    signature: ts.displayPartsToString(info.displayParts),
+    documentation: ts.displayPartsToString(info.documentation) || undefined,
+  };
+}
+
+function getCompletions(filePath: string, offset: number): CompletionEntry[] {
+  const completions = service.getCompletionsAtPosition(filePath, offset, {
+    includeCompletionsWithInsertText: true,
+  });
+
+  return (completions?.entries ?? [])
+    .slice()
+    .sort((a, b) => a.sortText.localeCompare(b.sortText))
+    .slice(0, MAX_COMPLETIONS)
+    .map((entry) => ({
+      label: entry.name,
+      kind: entry.kind,
+      insertText: entry.insertText,
+      sortText: entry.sortText,
+    }));
+}
+
+// only definitions in the project can be opened, the files in node_modules are not part of the editor
+function getDefinition(filePath: string, offset: number): DefinitionLocation[] {
+  return (service.getDefinitionAtPosition(filePath, offset) ?? [])
+    .filter((definition) => isProjectFile(definition.fileName))
+    .map((definition) => {
+      const sourceFile = service.getProgram()?.getSourceFile(definition.fileName);
+      const { line, character } = sourceFile
+        ? sourceFile.getLineAndCharacterOfPosition(definition.textSpan.start)
+        : { line: 0, character: 0 };
+
+      return {
+        filePath: definition.fileName,
+        line: line + 1,
+        column: character,
+        length: definition.textSpan.length,
+        from: definition.textSpan.start,
+      };
+    });
+}
+
+function getRenameEdits(filePath: string, offset: number, newName: string): TextEdit[] {
+  const info = service.getRenameInfo(filePath, offset, {});
+
+  if (!info.canRename) {
+    throw new Error(info.localizedErrorMessage);
+  }
+
+  const locations = service.findRenameLocations(filePath, offset, false, false, {}) ?? [];
+
+  if (locations.some((location) => !isProjectFile(location.fileName))) {
+    throw new Error('This symbol is also used outside of the project and cannot be renamed');
+  }
+
+  return locations.map((location) => ({
+    filePath: location.fileName,
+    from: location.textSpan.start,
+    to: location.textSpan.start + location.textSpan.length,
+    text: `${location.prefixText ?? ''}${newName}${location.suffixText ?? ''}`,
+  }));
+}
+
+function handleRequest(request: Exclude<TypeScriptWorkerRequest, { type: 'configure' | 'update' }>) {
+  switch (request.type) {
+    case 'diagnostics':
+      return getDiagnostics();
+    case 'quickInfo':
+      return getQuickInfo(request.filePath, request.offset);
+    case 'completions':
+      return getCompletions(request.filePath, request.offset);
+    case 'definition':
+      return getDefinition(request.filePath, request.offset);
+    case 'rename':
+      return getRenameEdits(request.filePath, request.offset, request.newName);
+    default:
+      return unreachable('Unknown request');
+  }
+}
+
+self.addEventListener('message', (event: MessageEvent<TypeScriptWorkerRequest>) => {
+  const request = event.data;
+
+  if (request.type === 'configure') {
+    root = request.root;
+    compilerOptions = undefined;
+
+    return;
+  }
+
+  if (request.type === 'update') {
+    for (const [filePath, content] of request.files) {
+      if (content === null) {
+        files.delete(filePath);
+      } else {
+        files.set(filePath, { content, version: (files.get(filePath)?.version ?? 0) + 1 });
+      }
+
+      if (filePath === `${root}/tsconfig.json`) {
+        compilerOptions = undefined;
+      }
+    }
+
+    updateDirectories();
+
+    return;
+  }
+
+  try {
+    self.postMessage({ id: request.id, result: handleRequest(request) } satisfies TypeScriptWorkerResponse);
+  } catch (error) {
+    self.postMessage({ id: request.id, error: (error as Error).message } satisfies TypeScriptWorkerResponse);
+  }
+});
@@ -1,16 +1,25 @@
 import { type ActionFunctionArgs } from '@remix-run/cloudflare';
-import { createDataStream, generateId } from 'ai';
+import { createDataStream, generateId, type ToolInvocation } from 'ai';
 import { MAX_RESPONSE_SEGMENTS, MAX_TOKENS, type FileMap } from '~/lib/.server/llm/constants';
 import { CONTINUE_PROMPT } from '~/lib/common/prompts/prompts';
 import { streamText, type Messages, type StreamingOptions } from '~/lib/.server/llm/stream-text';
 import SwitchableStream from '~/lib/.server/llm/switchable-stream';
-import type { IProviderSetting } from '~/types/model';
+import type { EditorModel, FallbackModel, IProviderSetting } from '~/types/model';
 import { createScopedLogger } from '~/utils/logger';
 import { getFilePaths, selectContext } from '~/lib/.server/llm/select-context';
-import type { ContextAnnotation, ProgressAnnotation } from '~/types/context';
+import type {
+  ContextAnnotation,
+  ContextBudgetAnnotation,
+  PlanAnnotation,
+  ProgressAnnotation,
+  UsageAnnotation,
+} from '~/types/context';
 import { WORK_DIR } from '~/utils/constants';
 import { createSummary } from '~/lib/.server/llm/create-summary';
+import { applyEditorStepChanges, createEditorStepPrompt, createPlan } from '~/lib/.server/llm/create-plan';
 import { extractPropertiesFromMessage } from '~/lib/.server/llm/utils';
+import type { ModelSelection } from '~/lib/.server/llm/fallback-model';
+import { isContextTrimmed, type ContextBudgetReport } from '~/lib/.server/llm/context-budget';
 
 export async function action(args: ActionFunctionArgs) {
   return chatAction(args);
@@ -37,11 +46,28 @@ function parseCookies(cookieHeader: string): Record<string, string> {
 }
 
 async function chatAction({ context, request }: ActionFunctionArgs) {
-  const { messages, files, promptId, contextOptimization } = await request.json<{
+  const {
+    messages,
+    files,
+    promptId,
+    contextOptimization,
+    toolCalling,
+    fallbackModels,
+    contextFilePaths,
+    editorModel,
+    lockedPaths,
+  } = await request.json<{
     messages: Messages;
     files: any;
     promptId?: string;
     contextOptimization: boolean;
+    toolCalling?: boolean;
+    fallbackModels?: FallbackModel[];
+
+    // files already picked on the client by embedding similarity
+    contextFilePaths?: string[];
+    editorModel?: EditorModel;
+    lockedPaths?: string[];
   }>();
 
   const cookieHeader = request.headers.get('Cookie');
@@ -130,26 +156,38 @@ async function chatAction({ context, request }: ActionFunctionArgs) {
             message: 'Determining Files to Read',
           } satisfies ProgressAnnotation);
 
-          // Select context files
-          console.log(`Messages count: ${messages.length}`);
-          filteredFiles = await selectContext({
-            messages: [...messages],
-            env: context.cloudflare?.env,
-            apiKeys,
-            files,
-            providerSettings,
-            promptId,
-            contextOptimization,
-            summary,
-            onFinish(resp) {
-              if (resp.usage) {
-                logger.debug('selectContext token usage', JSON.stringify(resp.usage));
-                cumulativeUsage.completionTokens += resp.usage.completionTokens || 0;
-                cumulativeUsage.promptTokens += resp.usage.promptTokens || 0;
-                cumulativeUsage.totalTokens += resp.usage.totalTokens || 0;
+          if (contextFilePaths) {
+            filteredFiles = {};
+
+            for (const path of contextFilePaths) {
+              const file = files[`${WORK_DIR}/${path}`];
+
+              if (file) {
+                filteredFiles[path] = file;
               }
-            },
-          });
+            }
+          } else {
+            // Select context files
+            console.log(`Messages count: ${messages.length}`);
+            filteredFiles = await selectContext({
+              messages: [...messages],
+              env: context.cloudflare?.env,
+              apiKeys,
+              files,
+              providerSettings,
+              promptId,
+              contextOptimization,
+              summary,
+              onFinish(resp) {
+                if (resp.usage) {
+                  logger.debug('selectContext token usage', JSON.stringify(resp.usage));
+                  cumulativeUsage.completionTokens += resp.usage.completionTokens || 0;
+                  cumulativeUsage.promptTokens += resp.usage.promptTokens || 0;
+                  cumulativeUsage.totalTokens += resp.usage.totalTokens || 0;
+                }
+              },
+            });
+          }
 
           if (filteredFiles) {
             logger.debug(`files in context : ${JSON.stringify(Object.keys(filteredFiles))}`);
@@ -179,6 +217,178 @@ async function chatAction({ context, request }: ActionFunctionArgs) {
           // logger.debug('Code Files Selected');
         }
 
+        const selectedModel = extractPropertiesFromMessage(messages.filter((x) => x.role == 'user').slice(-1)[0]);
+        let respondingModel = { provider: selectedModel.provider, model: selectedModel.model };
+
+        const onModelSelected = ({ provider, model, isFallback }: ModelSelection) => {
+          respondingModel = { provider, model };
+          dataStream.writeData({
+            type: 'progress',
+            label: 'model',
+            status: 'complete',
+            order: progressCounter++,
+            message: isFallback ? `Fallback Model ${provider}/${model} Answered` : `${provider}/${model} Answered`,
+          } satisfies ProgressAnnotation);
+        };
+
+        if (editorModel) {
+          dataStream.writeData({
+            type: 'progress',
+            label: 'plan',
+            status: 'in-progress',
+            order: progressCounter++,
+            message: 'Planning Changes',
+          } satisfies ProgressAnnotation);
+
+          const { plan, planner } = await createPlan({
+            messages: [...messages],
+            env: context.cloudflare?.env,
+            apiKeys,
+            providerSettings,
+            files,
+            contextFiles: filteredFiles,
+            summary,
+            onFinish(resp) {
+              if (resp.usage) {
+                logger.debug('createPlan token usage', JSON.stringify(resp.usage));
+                cumulativeUsage.completionTokens += resp.usage.completionTokens || 0;
+                cumulativeUsage.promptTokens += resp.usage.promptTokens || 0;
+                cumulativeUsage.totalTokens += resp.usage.totalTokens || 0;
+              }
+            },
+          });
+
+          dataStream.writeMessageAnnotation({
+            type: 'plan',
+            plan,
+            planner,
+            editor: { provider: editorModel.provider, model: editorModel.model },
+          } satisfies PlanAnnotation);
+          dataStream.writeData({
+            type: 'progress',
+            label: 'plan',
+            status: 'complete',
+            order: progressCounter++,
+            message: `Plan Ready: ${plan.steps.length} ${plan.steps.length === 1 ? 'Step' : 'Steps'}`,
+          } satisfies ProgressAnnotation);
+
+          // everything spent so far ran on the planner model, the editor steps are counted on their own
+          dataStream.writeMessageAnnotation({
+            type: 'usage',
+            value: { ...cumulativeUsage },
+            provider: planner.provider,
+            model: planner.model,
+            role: 'planner',
+          } satisfies UsageAnnotation);
+
+          const editorUsage = { completionTokens: 0, promptTokens: 0, totalTokens: 0 };
+
+          // every step sees the output of the steps before it as chat history and works on the files they changed
+          const editorMessages: Messages = [...messages];
+          let editorFiles: FileMap = files || {};
+          let editorContextFiles = filteredFiles;
+
+          for (let index = 0; index < plan.steps.length; index++) {
+            dataStream.writeData({
+              type: 'progress',
+              label: 'editor',
+              status: 'in-progress',
+              order: progressCounter++,
+              message: `Step ${index + 1}/${plan.steps.length}: ${plan.steps[index].title}`,
+            } satisfies ProgressAnnotation);
+
+            editorMessages.push({
+              id: generateId(),
+              role: 'user',
+              content: `[Model: ${editorModel.model}]\n\n[Provider: ${editorModel.provider}]\n\n${createEditorStepPrompt(plan, index)}`,
+            });
+
+            const result = await streamText({
+              messages: editorMessages,
+              env: context.cloudflare?.env,
+              options: {
+                onFinish: ({ usage }) => {
+                  editorUsage.completionTokens += usage?.completionTokens || 0;
+                  editorUsage.promptTokens += usage?.promptTokens || 0;
+                  editorUsage.totalTokens += usage?.totalTokens || 0;
+                },
+              },
+              apiKeys,
+              files: editorFiles,
+              providerSettings,
+              promptId,
+              contextOptimization,
+              contextFiles: editorContextFiles,
+              summary,
+              messageSliceId,
+              toolCalling,
+              lockedPaths,
+            });
+
+            result.mergeIntoDataStream(dataStream);
+
+            let stepContent = '';
+
+            for await (const part of result.fullStream) {
+              if (part.type === 'text-delta') {
+                stepContent += part.textDelta;
+              } else if (part.type === 'error') {
+                throw part.error;
+              }
+            }
+
+            // every tool is executed on the server, the calls and their results go back to the next steps
+            const toolInvocations: ToolInvocation[] = (await result.steps).flatMap(({ toolResults }) =>
+              toolResults.map(({ toolCallId, toolName, args, result: toolResult }) => ({
+                state: 'result' as const,
+                toolCallId,
+                toolName,
+                args,
+                result: toolResult,
+              })),
+            );
+
+            editorMessages.push({ id: generateId(), role: 'assistant', content: stepContent, toolInvocations });
+
+            const step = applyEditorStepChanges(editorFiles, stepContent, toolInvocations);
+
+            editorFiles = step.files;
+
+            if (editorContextFiles) {
+              const contextPaths = new Set([...Object.keys(editorContextFiles), ...step.changedPaths]);
+
+              editorContextFiles = {};
+
+              for (const path of contextPaths) {
+                editorContextFiles[path] = editorFiles[`${WORK_DIR}/${path}`];
+              }
+            }
+          }
+
+          dataStream.writeMessageAnnotation({
+            type: 'usage',
+            value: editorUsage,
+            provider: editorModel.provider,
+            model: editorModel.model,
+          } satisfies UsageAnnotation);
+          dataStream.writeData({
+            type: 'progress',
+            label: 'editor',
+            status: 'complete',
+            order: progressCounter++,
+            message: 'All Steps Implemented',
+          } satisfies ProgressAnnotation);
+          dataStream.writeData({
+            type: 'progress',
+            label: 'response',
+            status: 'complete',
+            order: progressCounter++,
+            message: 'Response Generated',
+          } satisfies ProgressAnnotation);
+
+          return;
+        }
+
         // Stream the text
         const options: StreamingOptions = {
           toolChoice: 'none',
@@ -199,7 +409,9 @@ async function chatAction({ context, request }: ActionFunctionArgs) {
                   promptTokens: cumulativeUsage.promptTokens,
                   totalTokens: cumulativeUsage.totalTokens,
                 },
-              });
+                provider: respondingModel.provider,
+                model: respondingModel.model,
+              } satisfies UsageAnnotation);
               dataStream.writeData({
                 type: 'progress',
                 label: 'response',
@@ -242,6 +454,10 @@ async function chatAction({ context, request }: ActionFunctionArgs) {
               contextFiles: filteredFiles,
               summary,
               messageSliceId,
+              toolCalling,
+              fallbackModels,
+              lockedPaths,
+              onModelSelected,
             });
 
             result.mergeIntoDataStream(dataStream);
@@ -281,6 +497,32 @@ async function chatAction({ context, request }: ActionFunctionArgs) {
           contextFiles: filteredFiles,
           summary,
           messageSliceId,
+          toolCalling,
+          fallbackModels,
+          lockedPaths,
+          onModelSelected,
+          onContextBudget(report: ContextBudgetReport) {
+            if (!isContextTrimmed(report)) {
+              return;
+            }
+
+            dataStream.writeMessageAnnotation({
+              type: 'contextBudget',
+              contextWindow: report.contextWindow,
+              usedTokens: report.usedTokens,
+              truncated: report.truncated,
+              outlined: report.outlined,
+              dropped: report.dropped,
+              omittedPaths: report.omittedPaths,
+            } satisfies ContextBudgetAnnotation);
+            dataStream.writeData({
+              type: 'progress',
+              label: 'budget',
+              status: 'complete',
+              order: progressCounter++,
+              message: `Context Trimmed to Fit ${Math.round(report.contextWindow / 1000)}k Tokens`,
+            } satisfies ProgressAnnotation);
+          },
         });
 
         (async () => {
@@ -0,0 +1,71 @@
+import { type ActionFunctionArgs } from '@remix-run/cloudflare';
+import { embedMany } from 'ai';
+import { PROVIDER_LIST } from '~/utils/constants';
+import { getApiKeysFromCookie, getProviderSettingsFromCookie } from '~/lib/api/cookies';
+import { createScopedLogger } from '~/utils/logger';
+
+export async function action(args: ActionFunctionArgs) {
+  return embeddingsAction(args);
+}
+
+const logger = createScopedLogger('api.embeddings');
+
+async function embeddingsAction({ context, request }: ActionFunctionArgs) {
+  const {
+    provider: providerName,
+    model,
+    values,
+  } = await request.json<{
+    provider: string;
+    model: string;
+    values: string[];
+  }>();
+
+  if (!Array.isArray(values) || values.some((value) => typeof value !== 'string')) {
+    throw new Response('Invalid or missing values', {
+      status: 400,
+      statusText: 'Bad Request',
+    });
+  }
+
+  const provider = PROVIDER_LIST.find((p) => p.name === providerName);
+
+  if (!provider?.getEmbeddingModelInstance) {
+    throw new Response(`Provider ${providerName} does not support embeddings`, {
+      status: 400,
+      statusText: 'Bad Request',
+    });
+  }
+
+  const cookieHeader = request.headers.get('Cookie');
+
+  try {
+    const { embeddings, usage } = await embedMany({
+      model: provider.getEmbeddingModelInstance({
+        model: model || provider.defaultEmbeddingModel || '',
+        serverEnv: context.cloudflare?.env as any,
+        apiKeys: getApiKeysFromCookie(cookieHeader),
+        providerSettings: getProviderSettingsFromCookie(cookieHeader),
+      }),
+      values,
+    });
+
+    logger.debug(`Embedded ${values.length} values with ${provider.name}, ${usage.tokens} tokens`);
+
+    return Response.json({ embeddings });
+  } catch (error: unknown) {
+    logger.error(error);
+
+    if (error instanceof Error && error.message?.includes('API key')) {
+      throw new Response('Invalid or missing API key', {
+        status: 401,
+        statusText: 'Unauthorized',
+      });
+    }
+
+    throw new Response(null, {
+      status: 500,
+      statusText: 'Internal Server Error',
+    });
+  }
+}
@@ -1,6 +1,6 @@
 import type { Change } from 'diff';
 
-export type ActionType = 'file' | 'shell';
+export type ActionType = 'file' | 'shell' | 'patch';
 
 export interface BaseAction {
   content: string;
@@ -11,8 +11,20 @@ export interface FileAction extends BaseAction {
   filePath: string;
 }
 
+export interface PatchAction extends BaseAction {
+  type: 'patch';
+  filePath: string;
+}
+
+// replies to a question the command asks, e.g. `Project name` answered with `my-app`
+export interface PromptAnswer {
+  question: string;
+  answer: string;
+}
+
 export interface ShellAction extends BaseAction {
   type: 'shell';
+  answers?: PromptAnswer[];
 }
 
 export interface StartAction extends BaseAction {
@@ -23,7 +35,7 @@ export interface BuildAction extends BaseAction {
   type: 'build';
 }
 
-export type BoltAction = FileAction | ShellAction | StartAction | BuildAction;
+export type BoltAction = FileAction | PatchAction | ShellAction | StartAction | BuildAction;
 
 export type BoltActionData = BoltAction | BaseAction;
 
@@ -32,7 +44,8 @@ export interface ActionAlert {
   title: string;
   description: string;
   content: string;
-  source?: 'terminal' | 'preview'; // Add source to differentiate between terminal and preview errors
+  source?: 'terminal' | 'preview' | 'patch' | 'locked'; // Add source to differentiate between terminal, preview, patch and locked file errors
+  action?: BoltAction; // the command that failed, so it can be re-run after a fix
 }
 
 export interface FileHistory {
@@ -0,0 +1,19 @@
+/**
+ * Patterns are globs like `npm run *`, where `*` matches anything and a pattern without wildcards also
+ * matches the command with more arguments, or regular expressions written as `/.../flags`.
+ */
+export interface CommandPolicy {
+  // when not empty, only matching commands may run
+  allow: string[];
+  deny: string[];
+
+  // matching commands wait for the user to accept them
+  confirm: string[];
+}
+
+export type CommandPolicyDecision = 'allow' | 'deny' | 'confirm';
+
+export interface CommandPolicyResult {
+  decision: CommandPolicyDecision;
+  reason?: string;
+}
@@ -16,3 +16,50 @@ export type ProgressAnnotation = {
   order: number;
   message: string;
 };
+
+export type UsageAnnotation = {
+  type: 'usage';
+  value: {
+    completionTokens: number;
+    promptTokens: number;
+    totalTokens: number;
+  };
+
+  // the model that answered, which differs from the selected one after a fallback
+  provider?: string;
+  model?: string;
+
+  // the summary, context selection and plan of an editor run are spent on the planner, not on the editor
+  role?: 'planner';
+};
+
+// what had to be cut from the context buffer to fit the context window of the model
+export type ContextBudgetAnnotation = {
+  type: 'contextBudget';
+  contextWindow: number;
+  usedTokens: number;
+  truncated: string[];
+  outlined: string[];
+  dropped: string[];
+  omittedPaths: number;
+};
+
+export type ArchitectPlanStep = {
+  title: string;
+  description: string;
+  files: string[];
+};
+
+export type ArchitectPlan = {
+  summary: string;
+  files: { path: string; action: 'create' | 'modify' | 'delete' }[];
+  steps: ArchitectPlanStep[];
+};
+
+// the plan written by the architect model before the editor model implements it step by step
+export type PlanAnnotation = {
+  type: 'plan';
+  plan: ArchitectPlan;
+  planner: { provider: string; model: string };
+  editor: { provider: string; model: string };
+};
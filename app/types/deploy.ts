@@ -0,0 +1,63 @@
+export type DeployProviderType = 'netlify' | 'vercel' | 'cloudflare' | 's3' | 'webhook';
+
+// a credential or option a provider asks for when connecting
+export interface DeployConnectionField {
+  key: string;
+  label: string;
+  placeholder?: string;
+  secret?: boolean;
+  optional?: boolean;
+}
+
+export interface DeployConnection {
+  id: string;
+  type: DeployProviderType;
+  name: string;
+
+  // the values of the fields of the provider
+  settings: Record<string, string>;
+}
+
+// the site, project or bucket folder deployments of a chat go to
+export interface DeploySite {
+  id: string;
+  name: string;
+  url: string;
+}
+
+export interface Deployment {
+  id: string;
+  state: 'building' | 'ready' | 'error';
+  url?: string;
+  error?: string;
+}
+
+/**
+ * How a deployment target is shown and connected in the browser, the deployment itself runs on the server.
+ */
+export interface DeployProviderInfo {
+  type: DeployProviderType;
+  label: string;
+  icon: string;
+  fields: DeployConnectionField[];
+  hint: string;
+}
+
+/**
+ * Deploys the build output to a hosting service. Files are keyed by their path in the output, starting with
+ * a slash.
+ */
+export interface DeployProvider {
+  type: DeployProviderType;
+
+  // checks the settings, returns the name of the account
+  connect: (settings: Record<string, string>) => Promise<string>;
+  getSite: (settings: Record<string, string>, siteId: string) => Promise<DeploySite | undefined>;
+  createSite: (settings: Record<string, string>, name: string) => Promise<DeploySite>;
+  upload: (
+    settings: Record<string, string>,
+    site: DeploySite,
+    files: Record<string, Uint8Array>,
+  ) => Promise<Deployment>;
+  getStatus: (settings: Record<string, string>, site: DeploySite, deploymentId: string) => Promise<Deployment>;
+}
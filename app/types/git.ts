@@ -0,0 +1,31 @@
+export type GitChangeType = 'added' | 'modified' | 'deleted' | 'untracked';
+
+export interface GitFileStatus {
+  // relative to the project root, like git prints it
+  filePath: string;
+  change: GitChangeType;
+
+  // whether the change is in the index, files can have staged and unstaged changes at the same time
+  staged: boolean;
+  unstaged: boolean;
+}
+
+export interface GitCommit {
+  oid: string;
+  message: string;
+  author: string;
+  timestamp: number;
+  parents: string[];
+}
+
+export interface GitCommitFileChange {
+  filePath: string;
+  change: Exclude<GitChangeType, 'untracked'>;
+  before: string;
+  after: string;
+}
+
+export interface GitCommitDiff {
+  commit: GitCommit;
+  changes: GitCommitFileChange[];
+}
@@ -0,0 +1,51 @@
+export type GitHostType = 'gitlab' | 'gitea' | 'bitbucket' | 'git';
+
+export interface GitHostConnection {
+  id: string;
+  type: GitHostType;
+
+  // shown in lists, e.g. `Company GitLab`
+  name: string;
+
+  // web address of the host, e.g. `https://gitlab.com` or `http://localhost:3000`
+  baseUrl: string;
+  username: string;
+
+  // personal access token, or app password for Bitbucket
+  token: string;
+}
+
+export interface GitHostRepository {
+  name: string;
+  fullName: string;
+  description?: string;
+  cloneUrl: string;
+  webUrl: string;
+  defaultBranch?: string;
+  private: boolean;
+  updatedAt?: string;
+}
+
+export interface GitHostUser {
+  username: string;
+  name?: string;
+  avatarUrl?: string;
+}
+
+/**
+ * The API of a git host, used to verify a connection and to browse and create repositories.
+ */
+export interface GitHostProvider {
+  type: GitHostType;
+  label: string;
+  icon: string;
+  defaultBaseUrl?: string;
+
+  // plain git remotes have no API, repositories are entered as URLs
+  hasApi: boolean;
+
+  verify(connection: GitHostConnection): Promise<GitHostUser>;
+  listRepositories(connection: GitHostConnection, query?: string): Promise<GitHostRepository[]>;
+  getRepository(connection: GitHostConnection, name: string): Promise<GitHostRepository | undefined>;
+  createRepository(connection: GitHostConnection, name: string, isPrivate: boolean): Promise<GitHostRepository>;
+}
@@ -0,0 +1,32 @@
+export interface QuickInfo {
+  from: number;
+  to: number;
+
+  // the type signature, and the doc comment if there is one
+  signature: string;
+  documentation?: string;
+}
+
+export interface CompletionEntry {
+  label: string;
+  kind: string;
+  insertText?: string;
+  sortText: string;
+}
+
+export interface TextEdit {
+  filePath: string;
+  from: number;
+  to: number;
+  text: string;
+}
+
+export interface DefinitionLocation {
+  filePath: string;
+
+  // 1-based line and 0-based column of the definition's name
+  line: number;
+  column: number;
+  length: number;
+  from: number;
+}
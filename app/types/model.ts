@@ -12,6 +12,8 @@ export type ProviderInfo = {
   getApiKeyLink?: string;
   labelForGetApiKey?: string;
   icon?: string;
+  supportsToolCalling?: boolean;
+  defaultEmbeddingModel?: string;
 };
 
 export interface IProviderSetting {
@@ -22,3 +24,14 @@ export interface IProviderSetting {
 export type IProviderConfig = ProviderInfo & {
   settings: IProviderSetting;
 };
+
+export interface FallbackModel {
+  provider: string;
+  model: string;
+}
+
+// model that implements the plan of the selected model when architect mode is on
+export interface EditorModel {
+  provider: string;
+  model: string;
+}
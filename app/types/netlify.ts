@@ -32,10 +32,3 @@ export interface NetlifyConnection {
   token: string;
   stats?: NetlifyStats;
 }
-
-export interface NetlifySiteInfo {
-  id: string;
-  name: string;
-  url: string;
-  chatId: string;
-}
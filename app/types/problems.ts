@@ -0,0 +1,19 @@
+export type ProblemSeverity = 'error' | 'warning' | 'info';
+
+export interface Problem {
+  filePath: string;
+
+  // `line` is 1-based and `column` 0-based like the editor reports them
+  line: number;
+  column: number;
+  severity: ProblemSeverity;
+  message: string;
+  code?: string | number;
+
+  // what reported the problem, e.g. `typescript` or `eslint`
+  source: string;
+
+  // offsets into the file content, only known for problems reported by the language service
+  from?: number;
+  to?: number;
+}
@@ -0,0 +1,21 @@
+import type { BoltAction } from './actions';
+
+export interface ActionReview {
+  // `${messageId}:${actionId}`
+  id: string;
+  messageId: string;
+  artifactId: string;
+  actionId: string;
+
+  // the proposed action, including the user's edits
+  action: BoltAction;
+  edited: boolean;
+
+  // why the action needs a review even without review mode, e.g. a command to confirm
+  reason?: string;
+}
+
+export interface ReviewFeedback {
+  decision: 'rejected' | 'edited';
+  action: BoltAction;
+}
@@ -0,0 +1,16 @@
+export type BoltToolName = 'write_file' | 'run_shell' | 'start_server' | 'read_file';
+
+export interface WriteFileToolArgs {
+  path: string;
+  content: string;
+}
+
+export interface CommandToolArgs {
+  command: string;
+}
+
+export interface ReadFileToolArgs {
+  path: string;
+}
+
+export type BoltToolArgs = WriteFileToolArgs | CommandToolArgs | ReadFileToolArgs;
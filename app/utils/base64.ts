@@ -0,0 +1,16 @@
+// btoa and atob only take strings of single bytes, large files are converted in chunks
+const CHUNK_SIZE = 0x8000;
+
+export function encodeBase64(bytes: Uint8Array) {
+  let binary = '';
+
+  for (let i = 0; i < bytes.length; i += CHUNK_SIZE) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + CHUNK_SIZE));
+  }
+
+  return btoa(binary);
+}
+
+export function decodeBase64(text: string) {
+  return Uint8Array.from(atob(text), (char) => char.charCodeAt(0));
+}
@@ -0,0 +1,212 @@
+import type { CommandPolicy, CommandPolicyResult } from '~/types/commandPolicy';
+import { isSubPath, path } from './path';
+
+export const EMPTY_COMMAND_POLICY: CommandPolicy = { allow: [], deny: [], confirm: [] };
+
+export const DEFAULT_COMMAND_POLICY: CommandPolicy = {
+  allow: [],
+  deny: [],
+  confirm: [
+    'rm -rf',
+    'npm publish',
+    'pnpm publish',
+    'yarn publish',
+    '/\\b(curl|wget)\\b[^|]*\\|\\s*(sudo\\s+)?(ba|z)?sh\\b/',
+  ],
+};
+
+const REGEX_PATTERN = /^\/(.+)\/([a-z]*)$/;
+
+// commands that change or delete the files named in their arguments, `sed` and `perl` only with `-i`
+const WRITING_COMMANDS = new Set(['rm', 'rmdir', 'unlink', 'mv', 'cp', 'ln', 'touch', 'truncate', 'tee', 'chmod']);
+const IN_PLACE_COMMANDS = new Set(['sed', 'perl']);
+
+// `cp` and `ln` only write their last argument, `chmod` takes the mode first
+const TARGET_ARGUMENTS: Record<string, (args: string[]) => string[]> = {
+  cp: (args) => args.slice(-1),
+  ln: (args) => args.slice(-1),
+  chmod: (args) => args.slice(1),
+};
+
+const REDIRECT = /\d?>>?\s*("[^"]*"|'[^']*'|[^\s;&|]+)/g;
+
+function toRegExp(pattern: string) {
+  const regexMatch = pattern.match(REGEX_PATTERN);
+
+  if (regexMatch) {
+    try {
+      return new RegExp(regexMatch[1], regexMatch[2]);
+    } catch {
+      // an invalid expression never matches
+      return undefined;
+    }
+  }
+
+  const glob = pattern
+    .trim()
+    .split(/(\*|\?)/)
+    .map((part) => (part === '*' ? '.*' : part === '?' ? '.' : part.replace(/[.+^${}()|[\]\\]/g, '\\$&')))
+    .join('');
+
+  return new RegExp(`^${glob}(\\s.*)?$`);
+}
+
+/**
+ * Splits a command line into the commands chained with `&&`, `||` or `;`, pipes stay together so that
+ * patterns like `curl * | sh` can match them.
+ */
+export function splitCommand(command: string) {
+  return command
+    .split(/&&|\|\||;|\n/)
+    .map((part) => part.trim())
+    .filter(Boolean);
+}
+
+export function matchesCommandPattern(command: string, pattern: string) {
+  const regex = toRegExp(pattern);
+
+  if (!regex) {
+    return false;
+  }
+
+  // regular expressions see the whole command line, globs each chained command
+  if (REGEX_PATTERN.test(pattern)) {
+    return regex.test(command);
+  }
+
+  return splitCommand(command).some((part) => regex.test(part));
+}
+
+function findPattern(command: string, patterns: string[]) {
+  return patterns.find((pattern) => pattern.trim() && matchesCommandPattern(command, pattern));
+}
+
+function isAllowListed(command: string, allow: string[]) {
+  return splitCommand(command).every((part) => findPattern(part, allow));
+}
+
+function evaluate(command: string, policy: CommandPolicy, scope: 'chat' | 'global'): CommandPolicyResult | undefined {
+  const denied = findPattern(command, policy.deny);
+
+  if (denied) {
+    return { decision: 'deny', reason: `matches \`${denied}\` in the ${scope} deny list` };
+  }
+
+  const confirm = findPattern(command, policy.confirm);
+
+  if (confirm) {
+    return { decision: 'confirm', reason: `matches \`${confirm}\` in the ${scope} confirm list` };
+  }
+
+  if (policy.allow.length > 0) {
+    if (isAllowListed(command, policy.allow)) {
+      return { decision: 'allow' };
+    }
+
+    // the allow list of a chat only adds exceptions to the global policy
+    if (scope === 'global') {
+      return { decision: 'deny', reason: 'is not in the allow list' };
+    }
+  }
+
+  return undefined;
+}
+
+/**
+ * Decides whether a command issued by the model may run. The chat's own lists take precedence, so a chat
+ * can allow a command the global policy asks to confirm.
+ */
+export function evaluateCommandPolicy(
+  command: string,
+  policy: CommandPolicy,
+  chatPolicy: CommandPolicy = EMPTY_COMMAND_POLICY,
+): CommandPolicyResult {
+  return evaluate(command, chatPolicy, 'chat') ?? evaluate(command, policy, 'global') ?? { decision: 'allow' };
+}
+
+function unquote(value: string) {
+  return value.replace(/^(["'])(.*)\1$/, '$2');
+}
+
+// the paths a single command writes to, without the ones of its redirects
+function getWrittenPaths(command: string) {
+  const tokens = (command.replace(REDIRECT, ' ').match(/"[^"]*"|'[^']*'|\S+/g) ?? []).map(unquote);
+
+  // `sudo` and variable assignments in front of the command
+  while (tokens.length > 0 && (tokens[0] === 'sudo' || /^\w+=/.test(tokens[0]))) {
+    tokens.shift();
+  }
+
+  const [name = '', ...rest] = tokens;
+  const commandName = path.basename(name);
+  const args = rest.filter((arg) => !arg.startsWith('-'));
+
+  if (IN_PLACE_COMMANDS.has(commandName)) {
+    // the script, or one script per `-e`, comes before the files
+    const inPlace = rest.some((arg) => /^-\w*i/.test(arg) || arg.startsWith('--in-place'));
+    return inPlace ? args.slice(Math.max(1, rest.filter((arg) => arg === '-e').length)) : [];
+  }
+
+  if (!WRITING_COMMANDS.has(commandName)) {
+    return [];
+  }
+
+  return TARGET_ARGUMENTS[commandName]?.(args) ?? args;
+}
+
+// matches the path itself, or every path a glob with `*` and `?` expands to
+function toPathMatcher(pattern: string) {
+  if (!/[*?]/.test(pattern)) {
+    return (filePath: string) => filePath === pattern;
+  }
+
+  const regex = new RegExp(
+    `^${pattern
+      .split(/(\*|\?)/)
+      .map((part) => (part === '*' ? '[^/]*' : part === '?' ? '[^/]' : part.replace(/[.+^${}()|[\]\\]/g, '\\$&')))
+      .join('')}$`,
+  );
+
+  return (filePath: string) => regex.test(filePath);
+}
+
+/**
+ * Finds a locked path a shell command would change or delete, either named as an argument of a command like
+ * `rm`, `mv` or `sed -i`, or as the target of a redirect. Arguments resolve against `workdir`, a folder or
+ * glob covering a locked path counts as well.
+ */
+export function findLockedPathInCommand(command: string, lockedPaths: string[], workdir: string) {
+  if (lockedPaths.length === 0) {
+    return undefined;
+  }
+
+  const writtenPaths = splitCommand(command).flatMap((part) =>
+    part
+      .split('|')
+      .flatMap((segment) => [
+        ...getWrittenPaths(segment),
+        ...[...segment.matchAll(REDIRECT)].map(([, target]) => unquote(target)),
+      ]),
+  );
+
+  for (const writtenPath of writtenPaths) {
+    const resolvedPath = path.normalize(path.isAbsolute(writtenPath) ? writtenPath : path.join(workdir, writtenPath));
+    const matches = toPathMatcher(resolvedPath);
+
+    // the folder a glob expands in, the path itself otherwise
+    const globIndex = resolvedPath.search(/[*?]/);
+    const folder = globIndex === -1 ? resolvedPath : path.dirname(`${resolvedPath.slice(0, globIndex)}x`);
+
+    const lockedPath = lockedPaths.find(
+      (locked) =>
+        isSubPath(folder, locked) ||
+        locked.split('/').some((_, index, parts) => matches(parts.slice(0, index + 1).join('/'))),
+    );
+
+    if (lockedPath) {
+      return lockedPath;
+    }
+  }
+
+  return undefined;
+}
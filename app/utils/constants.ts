@@ -4,6 +4,8 @@ import type { Template } from '~/types/template';
 export const WORK_DIR_NAME = 'project';
 export const WORK_DIR = `/home/${WORK_DIR_NAME}`;
 export const MODIFICATIONS_TAG_NAME = 'bolt_file_modifications';
+export const FILE_OPERATIONS_TAG_NAME = 'bolt_file_operations';
+export const REVIEW_FEEDBACK_TAG_NAME = 'bolt_review_feedback';
 export const MODEL_REGEX = /^\[Model: (.*?)\]\n\n/;
 export const PROVIDER_REGEX = /\[Provider: (.*?)\]\n\n/;
 export const DEFAULT_MODEL = 'claude-3-5-sonnet-latest';
@@ -1,5 +1,5 @@
 import { describe, expect, it } from 'vitest';
-import { extractRelativePath } from './diff';
+import { extractRelativePath, fileOperationsToHTML } from './diff';
 import { WORK_DIR } from './constants';
 
 describe('Diff', () => {
@@ -8,4 +8,15 @@ describe('Diff', () => {
     const result = extractRelativePath(filePath);
     expect(result).toBe('index.js');
   });
+
+  it('should describe file operations with relative paths', () => {
+    const result = fileOperationsToHTML([
+      { type: 'rename', path: `${WORK_DIR}/src/App.jsx`, newPath: `${WORK_DIR}/src/App.tsx` },
+      { type: 'delete', path: `${WORK_DIR}/src/old.css` },
+    ]);
+
+    expect(result).toBe(
+      '<bolt_file_operations>\nThe user changed these project files directly:\n- renamed src/App.jsx to src/App.tsx\n- deleted src/old.css\n</bolt_file_operations>',
+    );
+  });
 });
@@ -1,6 +1,6 @@
 import { createTwoFilesPatch } from 'diff';
-import type { FileMap } from '~/lib/stores/files';
-import { MODIFICATIONS_TAG_NAME, WORK_DIR } from './constants';
+import type { FileMap, FileOperation } from '~/lib/stores/files';
+import { FILE_OPERATIONS_TAG_NAME, MODIFICATIONS_TAG_NAME, WORK_DIR } from './constants';
 
 export const modificationsRegex = new RegExp(
   `^<${MODIFICATIONS_TAG_NAME}>[\\s\\S]*?<\\/${MODIFICATIONS_TAG_NAME}>\\s+`,
@@ -115,3 +115,41 @@ export function fileModificationsToHTML(modifications: FileModifications) {
 
   return result.join('\n');
 }
+
+/**
+ * Describes the files the user created, deleted or renamed so the model does not rely on stale paths.
+ *
+ * Example:
+ *
+ * ```html
+ * <bolt_file_operations>
+ * The user changed these project files directly:
+ * - renamed src/App.jsx to src/App.tsx
+ * - deleted src/old.css
+ * </bolt_file_operations>
+ * ```
+ */
+export function fileOperationsToHTML(operations: FileOperation[]) {
+  if (operations.length === 0) {
+    return undefined;
+  }
+
+  const lines = operations.map((operation) => {
+    if (operation.type === 'create') {
+      return `- created ${operation.isFolder ? 'folder' : 'file'} ${extractRelativePath(operation.path)}`;
+    }
+
+    if (operation.type === 'delete') {
+      return `- deleted ${extractRelativePath(operation.path)}`;
+    }
+
+    return `- renamed ${extractRelativePath(operation.path)} to ${extractRelativePath(operation.newPath)}`;
+  });
+
+  return [
+    `<${FILE_OPERATIONS_TAG_NAME}>`,
+    'The user changed these project files directly:',
+    ...lines,
+    `</${FILE_OPERATIONS_TAG_NAME}>`,
+  ].join('\n');
+}
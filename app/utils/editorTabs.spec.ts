@@ -0,0 +1,62 @@
+import { describe, expect, it } from 'vitest';
+import { closeOtherTabs, closeTab, createEditorLayout, openTab, pinTab, removeTabs, splitPane } from './editorTabs';
+
+const tabPaths = (layout: ReturnType<typeof createEditorLayout>, index = 0) =>
+  layout.panes[index].tabs.map((tab) => tab.filePath);
+
+describe('editor tabs', () => {
+  it('should replace the preview tab until a file is kept open', () => {
+    let layout = openTab(createEditorLayout(), '/a.ts');
+    layout = openTab(layout, '/b.ts');
+
+    expect(tabPaths(layout)).toEqual(['/b.ts']);
+
+    layout = openTab(layout, '/b.ts', { preview: false });
+    layout = openTab(layout, '/c.ts');
+
+    expect(tabPaths(layout)).toEqual(['/b.ts', '/c.ts']);
+    expect(layout.panes[0].activeFile).toBe('/c.ts');
+  });
+
+  it('should keep pinned tabs first and open when closing others', () => {
+    let layout = createEditorLayout();
+
+    for (const filePath of ['/a.ts', '/b.ts', '/c.ts']) {
+      layout = openTab(layout, filePath, { preview: false });
+    }
+
+    layout = pinTab(layout, 'pane-0', '/c.ts', true);
+
+    expect(tabPaths(layout)).toEqual(['/c.ts', '/a.ts', '/b.ts']);
+
+    layout = closeOtherTabs(layout, 'pane-0', '/a.ts');
+
+    expect(tabPaths(layout)).toEqual(['/c.ts', '/a.ts']);
+    expect(layout.panes[0].activeFile).toBe('/a.ts');
+  });
+
+  it('should activate the neighbour of a closed tab', () => {
+    let layout = createEditorLayout();
+
+    for (const filePath of ['/a.ts', '/b.ts', '/c.ts']) {
+      layout = openTab(layout, filePath, { preview: false });
+    }
+
+    layout = closeTab(openTab(layout, '/b.ts'), 'pane-0', '/b.ts');
+
+    expect(layout.panes[0].activeFile).toBe('/c.ts');
+  });
+
+  it('should drop a split pane once its last tab is gone', () => {
+    let layout = splitPane(openTab(createEditorLayout(), '/a.ts'), 'vertical');
+
+    expect(layout.panes.map((pane) => pane.id)).toEqual(['pane-0', 'pane-1']);
+    expect(layout.activePane).toBe('pane-1');
+
+    layout = removeTabs(layout, (filePath) => filePath === '/a.ts');
+
+    expect(layout.panes).toHaveLength(1);
+    expect(layout.panes[0].tabs).toEqual([]);
+    expect(layout.activePane).toBe(layout.panes[0].id);
+  });
+});
@@ -0,0 +1,209 @@
+import type { ScrollPosition } from '~/components/editor/codemirror/CodeMirrorEditor';
+import { replacePathPrefix } from './path';
+
+// 'horizontal' places the panes side by side, 'vertical' stacks them
+export type SplitDirection = 'horizontal' | 'vertical';
+
+export interface EditorTab {
+  filePath: string;
+
+  // a preview tab is replaced by the next file opened from the tree until it gets edited or kept
+  preview: boolean;
+  pinned: boolean;
+
+  // every pane scrolls on its own, even when it shows the same file as another one
+  scroll?: ScrollPosition;
+}
+
+export interface EditorPane {
+  id: string;
+  tabs: EditorTab[];
+  activeFile?: string;
+}
+
+export interface EditorLayout {
+  panes: EditorPane[];
+  activePane: string;
+  split: SplitDirection;
+}
+
+export const MAX_EDITOR_PANES = 2;
+
+export function createEditorLayout(): EditorLayout {
+  return { panes: [{ id: 'pane-0', tabs: [] }], activePane: 'pane-0', split: 'horizontal' };
+}
+
+export function getActivePane(layout: EditorLayout) {
+  return layout.panes.find((pane) => pane.id === layout.activePane) ?? layout.panes[0];
+}
+
+function updatePane(layout: EditorLayout, paneId: string, update: (pane: EditorPane) => EditorPane): EditorLayout {
+  return { ...layout, panes: layout.panes.map((pane) => (pane.id === paneId ? update(pane) : pane)) };
+}
+
+// pinned tabs always come first, otherwise tabs keep the order they were opened in
+function sortTabs(tabs: EditorTab[]) {
+  return [...tabs.filter((tab) => tab.pinned), ...tabs.filter((tab) => !tab.pinned)];
+}
+
+export function openTab(
+  layout: EditorLayout,
+  filePath: string,
+  { preview = true, paneId = layout.activePane }: { preview?: boolean; paneId?: string } = {},
+): EditorLayout {
+  const opened = updatePane(layout, paneId, (pane) => {
+    const existingTab = pane.tabs.find((tab) => tab.filePath === filePath);
+
+    if (existingTab) {
+      const tabs = preview
+        ? pane.tabs
+        : pane.tabs.map((tab) => (tab === existingTab ? { ...tab, preview: false } : tab));
+
+      return { ...pane, tabs, activeFile: filePath };
+    }
+
+    const newTab: EditorTab = { filePath, preview, pinned: false };
+    const previewIndex = pane.tabs.findIndex((tab) => tab.preview);
+    const tabs =
+      previewIndex === -1
+        ? [...pane.tabs, newTab]
+        : pane.tabs.map((tab, index) => (index === previewIndex ? newTab : tab));
+
+    return { ...pane, tabs, activeFile: filePath };
+  });
+
+  return { ...opened, activePane: paneId };
+}
+
+/**
+ * Turns the preview tabs of a file into regular tabs, e.g. once the file got edited.
+ */
+export function keepTab(layout: EditorLayout, filePath: string): EditorLayout {
+  if (!layout.panes.some((pane) => pane.tabs.some((tab) => tab.filePath === filePath && tab.preview))) {
+    return layout;
+  }
+
+  return {
+    ...layout,
+    panes: layout.panes.map((pane) => ({
+      ...pane,
+      tabs: pane.tabs.map((tab) => (tab.filePath === filePath ? { ...tab, preview: false } : tab)),
+    })),
+  };
+}
+
+export function pinTab(layout: EditorLayout, paneId: string, filePath: string, pinned: boolean): EditorLayout {
+  return updatePane(layout, paneId, (pane) => ({
+    ...pane,
+    tabs: sortTabs(pane.tabs.map((tab) => (tab.filePath === filePath ? { ...tab, pinned, preview: false } : tab))),
+  }));
+}
+
+function removePaneTabs(layout: EditorLayout, paneId: string, shouldRemove: (tab: EditorTab) => boolean) {
+  const updated = updatePane(layout, paneId, (pane) => {
+    const tabs = pane.tabs.filter((tab) => !shouldRemove(tab));
+
+    if (pane.activeFile === undefined || tabs.some((tab) => tab.filePath === pane.activeFile)) {
+      return { ...pane, tabs };
+    }
+
+    // activate the tab that took the place of the closed one, or the one before it
+    const closedIndex = pane.tabs.findIndex((tab) => tab.filePath === pane.activeFile);
+    const nextTab = tabs[Math.min(closedIndex, tabs.length - 1)];
+
+    return { ...pane, tabs, activeFile: nextTab?.filePath };
+  });
+
+  // an empty split pane goes away, the last pane always stays
+  const panes = updated.panes.filter((pane) => pane.tabs.length > 0);
+
+  if (panes.length === updated.panes.length || panes.length === 0) {
+    return updated;
+  }
+
+  return {
+    ...updated,
+    panes,
+    activePane: panes.some((pane) => pane.id === updated.activePane) ? updated.activePane : panes[0].id,
+  };
+}
+
+export function closeTab(layout: EditorLayout, paneId: string, filePath: string): EditorLayout {
+  return removePaneTabs(layout, paneId, (tab) => tab.filePath === filePath);
+}
+
+/**
+ * Closes every tab of the pane except `filePath`, pinned tabs stay open.
+ */
+export function closeOtherTabs(layout: EditorLayout, paneId: string, filePath: string): EditorLayout {
+  const closed = removePaneTabs(layout, paneId, (tab) => tab.filePath !== filePath && !tab.pinned);
+
+  return updatePane(closed, paneId, (pane) => ({ ...pane, activeFile: filePath }));
+}
+
+/**
+ * Opens the active file in a new pane next to the active one, or only changes the direction
+ * when the editor is already split.
+ */
+export function splitPane(layout: EditorLayout, split: SplitDirection): EditorLayout {
+  const activePane = getActivePane(layout);
+  const activeTab = activePane.tabs.find((tab) => tab.filePath === activePane.activeFile);
+
+  if (layout.panes.length >= MAX_EDITOR_PANES || !activeTab) {
+    return { ...layout, split };
+  }
+
+  let index = layout.panes.length;
+
+  while (layout.panes.some((pane) => pane.id === `pane-${index}`)) {
+    index++;
+  }
+
+  const pane: EditorPane = {
+    id: `pane-${index}`,
+    tabs: [{ ...activeTab, preview: false, pinned: false }],
+    activeFile: activeTab.filePath,
+  };
+
+  return { panes: [...layout.panes, pane], activePane: pane.id, split };
+}
+
+export function focusPane(layout: EditorLayout, paneId: string): EditorLayout {
+  return layout.activePane === paneId ? layout : { ...layout, activePane: paneId };
+}
+
+export function setTabScroll(
+  layout: EditorLayout,
+  paneId: string,
+  filePath: string,
+  scroll: ScrollPosition,
+): EditorLayout {
+  return updatePane(layout, paneId, (pane) => ({
+    ...pane,
+    tabs: pane.tabs.map((tab) => (tab.filePath === filePath ? { ...tab, scroll } : tab)),
+  }));
+}
+
+export function renameTabs(layout: EditorLayout, oldPath: string, newPath: string): EditorLayout {
+  const rename = (filePath: string) => replacePathPrefix(filePath, oldPath, newPath) ?? filePath;
+
+  return {
+    ...layout,
+    panes: layout.panes.map((pane) => ({
+      ...pane,
+      tabs: pane.tabs.map((tab) => ({ ...tab, filePath: rename(tab.filePath) })),
+      activeFile: pane.activeFile && rename(pane.activeFile),
+    })),
+  };
+}
+
+export function removeTabs(layout: EditorLayout, isRemoved: (filePath: string) => boolean): EditorLayout {
+  if (!layout.panes.some((pane) => pane.tabs.some((tab) => isRemoved(tab.filePath)))) {
+    return layout;
+  }
+
+  return layout.panes.reduce(
+    (updated, pane) => removePaneTabs(updated, pane.id, (tab) => isRemoved(tab.filePath)),
+    layout,
+  );
+}
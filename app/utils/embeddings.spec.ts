@@ -0,0 +1,36 @@
+import { describe, expect, it } from 'vitest';
+import { chunkFile, selectFilesBySimilarity } from './embeddings';
+
+describe('chunkFile', () => {
+  it('should split long files into overlapping chunks prefixed with the path', () => {
+    const content = Array.from({ length: 120 }, (_, i) => `line ${i + 1}`).join('\n');
+    const chunks = chunkFile('src/app.ts', content);
+
+    expect(chunks.map(({ startLine, endLine }) => [startLine, endLine])).toEqual([
+      [1, 60],
+      [51, 110],
+      [101, 120],
+    ]);
+    expect(chunks[0].text.startsWith('// src/app.ts\nline 1\n')).toBe(true);
+  });
+});
+
+describe('selectFilesBySimilarity', () => {
+  it('should pick the most similar files that fit in the token budget', () => {
+    const index = new Map([
+      ['/home/project/a.ts', [{ startLine: 1, endLine: 10, embedding: [1, 0] }]],
+      ['/home/project/b.ts', [{ startLine: 1, endLine: 10, embedding: [0.9, 0.1] }]],
+      ['/home/project/c.ts', [{ startLine: 1, endLine: 10, embedding: [0, 1] }]],
+    ]);
+    const tokens: Record<string, number> = { '/home/project/a.ts': 500, '/home/project/b.ts': 800 };
+
+    const selected = selectFilesBySimilarity({
+      queryEmbedding: [1, 0],
+      index,
+      getTokenCount: (filePath) => tokens[filePath] ?? 100,
+      tokenBudget: 1000,
+    });
+
+    expect(selected).toEqual(['/home/project/a.ts', '/home/project/c.ts']);
+  });
+});
@@ -0,0 +1,86 @@
+import { cosineSimilarity } from 'ai';
+
+const CHUNK_LINES = 60;
+const CHUNK_OVERLAP = 10;
+const MAX_CHUNK_CHARS = 2000;
+
+export interface EmbeddedChunk {
+  startLine: number;
+  endLine: number;
+  embedding: number[];
+}
+
+export interface TextChunk {
+  startLine: number;
+  endLine: number;
+  text: string;
+}
+
+// rough estimate that works well enough for code, ~4 characters per token
+export function estimateTokens(text: string) {
+  return Math.ceil(text.length / 4);
+}
+
+/**
+ * Splits a file into overlapping line windows. Every chunk starts with the file path so that
+ * requests mentioning a file or folder name also match its content.
+ */
+export function chunkFile(filePath: string, content: string): TextChunk[] {
+  const lines = content.split('\n');
+  const chunks: TextChunk[] = [];
+
+  for (let start = 0; start < lines.length; start += CHUNK_LINES - CHUNK_OVERLAP) {
+    const end = Math.min(start + CHUNK_LINES, lines.length);
+    const body = lines.slice(start, end).join('\n');
+
+    if (body.trim()) {
+      chunks.push({
+        startLine: start + 1,
+        endLine: end,
+        text: `// ${filePath}\n${body}`.slice(0, MAX_CHUNK_CHARS),
+      });
+    }
+
+    if (end === lines.length) {
+      break;
+    }
+  }
+
+  return chunks;
+}
+
+/**
+ * Ranks files by their best matching chunk and picks the most similar ones that fit in the token budget.
+ */
+export function selectFilesBySimilarity(options: {
+  queryEmbedding: number[];
+  index: Map<string, EmbeddedChunk[]>;
+  getTokenCount: (filePath: string) => number;
+  tokenBudget: number;
+}) {
+  const { queryEmbedding, index, getTokenCount, tokenBudget } = options;
+
+  const ranked = Array.from(index.entries())
+    .filter(([, chunks]) => chunks.length > 0)
+    .map(([filePath, chunks]) => ({
+      filePath,
+      score: Math.max(...chunks.map((chunk) => cosineSimilarity(queryEmbedding, chunk.embedding))),
+    }))
+    .sort((a, b) => b.score - a.score);
+
+  const selected: string[] = [];
+  let usedTokens = 0;
+
+  for (const { filePath } of ranked) {
+    const tokens = getTokenCount(filePath);
+
+    if (usedTokens + tokens > tokenBudget) {
+      continue;
+    }
+
+    selected.push(filePath);
+    usedTokens += tokens;
+  }
+
+  return selected;
+}
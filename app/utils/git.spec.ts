@@ -0,0 +1,19 @@
+import { describe, expect, it } from 'vitest';
+import { getGitFileStatus } from './git';
+
+describe('getGitFileStatus', () => {
+  it('should map status matrix rows to changes', () => {
+    expect(getGitFileStatus(['a.ts', 1, 1, 1])).toBeUndefined();
+    expect(getGitFileStatus(['a.ts', 0, 2, 0])).toEqual({
+      filePath: 'a.ts',
+      change: 'untracked',
+      staged: false,
+      unstaged: true,
+    });
+    expect(getGitFileStatus(['a.ts', 0, 2, 3])).toMatchObject({ change: 'added', staged: true, unstaged: true });
+    expect(getGitFileStatus(['a.ts', 1, 2, 1])).toMatchObject({ change: 'modified', staged: false, unstaged: true });
+    expect(getGitFileStatus(['a.ts', 1, 2, 2])).toMatchObject({ change: 'modified', staged: true, unstaged: false });
+    expect(getGitFileStatus(['a.ts', 1, 0, 1])).toMatchObject({ change: 'deleted', staged: false, unstaged: true });
+    expect(getGitFileStatus(['a.ts', 1, 0, 0])).toMatchObject({ change: 'deleted', staged: true, unstaged: false });
+  });
+});
@@ -0,0 +1,37 @@
+import type { GitFileStatus } from '~/types/git';
+
+// the columns of a row of `git.statusMatrix`: HEAD is 0 or 1, the working tree 0 to 2 and the index 0 to 3
+export type GitStatusRow = [filePath: string, head: number, workdir: number, stage: number];
+
+// written when a repository is initialized without one, the status would list every dependency otherwise
+export const DEFAULT_GITIGNORE = ['node_modules', 'dist', '.history', ''].join('\n');
+
+/**
+ * Turns a row of the status matrix into the change git shows for the file, `undefined` for unchanged files.
+ */
+export function getGitFileStatus([filePath, head, workdir, stage]: GitStatusRow): GitFileStatus | undefined {
+  // an index of 1 is the HEAD version and 2 the working tree version
+  const staged = head === 1 ? stage !== 1 : stage !== 0;
+  const unstaged = !(stage === 2 || (stage === 1 && workdir === 1) || (stage === 0 && workdir === 0));
+
+  if (!staged && !unstaged) {
+    return undefined;
+  }
+
+  let change: GitFileStatus['change'];
+
+  if (head === 0) {
+    change = stage === 0 ? 'untracked' : 'added';
+  } else {
+    change = workdir === 0 || stage === 0 ? 'deleted' : 'modified';
+  }
+
+  return { filePath, change, staged, unstaged };
+}
+
+/**
+ * Shortens a commit hash the way git prints it.
+ */
+export function shortOid(oid: string) {
+  return oid.slice(0, 7);
+}
@@ -0,0 +1,136 @@
+import type { PromiseFsClient } from 'isomorphic-git';
+import { path } from '~/utils/path';
+
+function fsError(code: string, syscall: string, filePath: string) {
+  const error = new Error(`${code}: ${syscall} '${filePath}'`) as NodeJS.ErrnoException;
+  error.code = code;
+  error.syscall = syscall;
+  error.path = filePath;
+
+  return error;
+}
+
+function createStats(type: 'file' | 'dir', size: number) {
+  return {
+    type,
+    mode: type === 'file' ? 0o100644 : 0o040755,
+    size,
+    ino: 0,
+    mtimeMs: 0,
+    ctimeMs: 0,
+    uid: 1,
+    gid: 1,
+    dev: 1,
+    isFile: () => type === 'file',
+    isDirectory: () => type === 'dir',
+    isSymbolicLink: () => false,
+  };
+}
+
+/**
+ * A file system in memory for isomorphic-git, to fetch a repository without touching the project files.
+ */
+export function createMemoryFs(): PromiseFsClient {
+  const files = new Map<string, Uint8Array>();
+  const folders = new Set<string>(['/']);
+
+  const parentExists = (filePath: string, syscall: string) => {
+    if (!folders.has(path.dirname(filePath))) {
+      throw fsError('ENOENT', syscall, filePath);
+    }
+  };
+
+  const promises = {
+    readFile: async (filePath: string, options?: { encoding?: string } | string) => {
+      const content = files.get(path.normalize(filePath ?? ''));
+
+      if (!content) {
+        throw fsError('ENOENT', 'open', filePath);
+      }
+
+      const encoding = typeof options === 'string' ? options : options?.encoding;
+
+      return encoding ? new TextDecoder().decode(content) : content;
+    },
+    writeFile: async (filePath: string, data: Uint8Array | string) => {
+      const normalized = path.normalize(filePath);
+      parentExists(normalized, 'open');
+      files.set(normalized, typeof data === 'string' ? new TextEncoder().encode(data) : new Uint8Array(data));
+    },
+    unlink: async (filePath: string) => {
+      if (!files.delete(path.normalize(filePath))) {
+        throw fsError('ENOENT', 'unlink', filePath);
+      }
+    },
+    mkdir: async (filePath: string) => {
+      const normalized = path.normalize(filePath);
+
+      if (folders.has(normalized) || files.has(normalized)) {
+        throw fsError('EEXIST', 'mkdir', filePath);
+      }
+
+      parentExists(normalized, 'mkdir');
+      folders.add(normalized);
+    },
+    rmdir: async (filePath: string) => {
+      const normalized = path.normalize(filePath);
+
+      if (!folders.has(normalized)) {
+        throw fsError('ENOENT', 'rmdir', filePath);
+      }
+
+      if ((await promises.readdir(normalized)).length > 0) {
+        throw fsError('ENOTEMPTY', 'rmdir', filePath);
+      }
+
+      folders.delete(normalized);
+    },
+    readdir: async (filePath: string) => {
+      const normalized = path.normalize(filePath);
+
+      if (files.has(normalized)) {
+        throw fsError('ENOTDIR', 'scandir', filePath);
+      }
+
+      if (!folders.has(normalized)) {
+        throw fsError('ENOENT', 'scandir', filePath);
+      }
+
+      const prefix = normalized === '/' ? '/' : `${normalized}/`;
+      const names = new Set<string>();
+
+      for (const entry of [...folders, ...files.keys()]) {
+        if (entry.startsWith(prefix) && entry !== prefix) {
+          names.add(entry.slice(prefix.length).split('/')[0]);
+        }
+      }
+
+      return [...names];
+    },
+    stat: async (filePath: string) => {
+      const normalized = path.normalize(filePath);
+      const content = files.get(normalized);
+
+      if (content) {
+        return createStats('file', content.length);
+      }
+
+      if (folders.has(normalized)) {
+        return createStats('dir', 0);
+      }
+
+      throw fsError('ENOENT', 'stat', filePath);
+    },
+    lstat: async (filePath: string) => promises.stat(filePath),
+
+    // repositories are only read, their symlinks never reach the disk
+    readlink: async (filePath: string) => {
+      throw fsError('EINVAL', 'readlink', filePath);
+    },
+    symlink: async (_target: string, filePath: string) => {
+      throw fsError('EPERM', 'symlink', filePath);
+    },
+  };
+
+  return { promises };
+}
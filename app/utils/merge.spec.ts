@@ -0,0 +1,84 @@
+import { describe, expect, it } from 'vitest';
+import { hasConflictMarkers, mergeFiles, mergeText } from './merge';
+
+const lines = (...values: string[]) => values.map((value) => `${value}\n`).join('');
+
+describe('mergeText', () => {
+  const base = lines('a', 'b', 'c', 'd', 'e');
+
+  it('should take the changes of both sides to different lines', () => {
+    const ours = lines('a', 'B', 'c', 'd', 'e');
+    const theirs = lines('a', 'b', 'c', 'd', 'E', 'f');
+
+    expect(mergeText(base, ours, theirs)).toEqual({ content: lines('a', 'B', 'c', 'd', 'E', 'f'), conflicts: 0 });
+  });
+
+  it('should take the same change of both sides once', () => {
+    const ours = lines('a', 'x', 'c', 'd', 'e');
+
+    expect(mergeText(base, ours, ours)).toEqual({ content: ours, conflicts: 0 });
+  });
+
+  it('should mark different changes to the same lines as conflicts', () => {
+    const ours = lines('a', 'mine', 'c', 'd', 'e');
+    const theirs = lines('a', 'theirs', 'c', 'd', 'e');
+
+    expect(mergeText(base, ours, theirs)).toEqual({
+      content: lines('a', '<<<<<<< mine', 'mine', '=======', 'theirs', '>>>>>>> upstream', 'c', 'd', 'e'),
+      conflicts: 1,
+    });
+  });
+
+  it('should keep files without a final line break intact', () => {
+    expect(mergeText('a\nb', 'a\nb', 'a\nc').content).toBe('a\nc');
+    expect(mergeText('a\nb', 'a\nx', 'a\ny').content).toBe(
+      lines('a', '<<<<<<< mine', 'x', '=======', 'y') + '>>>>>>> upstream\n',
+    );
+  });
+});
+
+describe('hasConflictMarkers', () => {
+  it('should find git conflict markers but not longer lines of the same characters', () => {
+    expect(hasConflictMarkers(lines('a', '<<<<<<< mine'))).toBe(true);
+    expect(hasConflictMarkers(lines('Title', '=========='))).toBe(false);
+  });
+});
+
+describe('mergeFiles', () => {
+  it('should return the files the merge changes locally', () => {
+    const base = { 'kept.ts': 'base\n', 'changed.ts': 'base\n', 'removed.ts': 'base\n', 'same.ts': 'base\n' };
+    const ours = { 'kept.ts': 'mine\n', 'changed.ts': 'base\n', 'removed.ts': 'base\n', 'same.ts': 'new\n' };
+    const theirs = { 'kept.ts': 'base\n', 'changed.ts': 'new\n', 'added.ts': 'new\n', 'same.ts': 'new\n' };
+
+    expect(mergeFiles(base, ours, theirs)).toEqual([
+      { filePath: 'added.ts', change: 'added', content: 'new\n', conflict: false, ours: undefined, theirs: 'new\n' },
+      {
+        filePath: 'changed.ts',
+        change: 'modified',
+        content: 'new\n',
+        conflict: false,
+        ours: 'base\n',
+        theirs: 'new\n',
+      },
+      { filePath: 'removed.ts', change: 'deleted', content: null, conflict: false, ours: 'base\n', theirs: undefined },
+    ]);
+  });
+
+  it('should keep my version of files one side deleted and the other changed as conflicts', () => {
+    const base = { 'deleted.ts': 'base\n', 'changed.ts': 'base\n' };
+    const ours = { 'changed.ts': 'mine\n' };
+    const theirs = { 'deleted.ts': 'new\n' };
+
+    expect(mergeFiles(base, ours, theirs)).toEqual([
+      {
+        filePath: 'changed.ts',
+        change: 'deleted',
+        content: 'mine\n',
+        conflict: true,
+        ours: 'mine\n',
+        theirs: undefined,
+      },
+      { filePath: 'deleted.ts', change: 'modified', content: null, conflict: true, ours: undefined, theirs: 'new\n' },
+    ]);
+  });
+});
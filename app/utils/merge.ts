@@ -0,0 +1,205 @@
+import { diffArrays } from 'diff';
+
+export const CONFLICT_START = '<<<<<<< mine';
+export const CONFLICT_SEPARATOR = '=======';
+export const CONFLICT_END = '>>>>>>> upstream';
+
+const conflictMarkerRegex = /^(<{7}|={7}|>{7})( |$)/m;
+
+// replaces the base lines from `baseStart` up to `baseEnd` with `lines`
+interface Hunk {
+  baseStart: number;
+  baseEnd: number;
+  lines: string[];
+}
+
+export type UpstreamChange = 'added' | 'modified' | 'deleted';
+
+export interface FileMerge {
+  filePath: string;
+
+  // how upstream changed the file since the last sync
+  change: UpstreamChange;
+
+  // the merged content, `null` deletes the file
+  content: string | null;
+  conflict: boolean;
+
+  // the content before the merge and upstream, missing for deleted files
+  ours?: string;
+  theirs?: string;
+}
+
+// splits a text into lines that keep their line break, so joining them gives the text back
+function splitLines(text: string) {
+  return text.match(/[^\n]*\n|[^\n]+$/g) ?? [];
+}
+
+function getHunks(base: string[], other: string[]) {
+  const hunks: Hunk[] = [];
+  let current: Hunk | undefined;
+  let index = 0;
+
+  for (const part of diffArrays(base, other)) {
+    const count = part.count ?? part.value.length;
+
+    if (!part.added && !part.removed) {
+      if (current) {
+        hunks.push(current);
+        current = undefined;
+      }
+
+      index += count;
+      continue;
+    }
+
+    current ??= { baseStart: index, baseEnd: index, lines: [] };
+
+    if (part.added) {
+      current.lines.push(...part.value);
+    } else {
+      current.baseEnd += count;
+      index += count;
+    }
+  }
+
+  if (current) {
+    hunks.push(current);
+  }
+
+  return hunks;
+}
+
+function applyHunks(base: string[], start: number, end: number, hunks: Hunk[]) {
+  const lines: string[] = [];
+  let position = start;
+
+  for (const hunk of hunks) {
+    lines.push(...base.slice(position, hunk.baseStart), ...hunk.lines);
+    position = hunk.baseEnd;
+  }
+
+  lines.push(...base.slice(position, end));
+
+  return lines;
+}
+
+function withLineBreak(lines: string[]) {
+  const last = lines.length - 1;
+
+  return last >= 0 && !lines[last].endsWith('\n') ? [...lines.slice(0, last), `${lines[last]}\n`] : lines;
+}
+
+/**
+ * Merges the changes two versions made to the same base line by line. Changes to the same or adjacent lines
+ * that differ are conflicts, marked in the content the way git marks them.
+ */
+export function mergeText(base: string, ours: string, theirs: string) {
+  const baseLines = splitLines(base);
+  const ourHunks = getHunks(baseLines, splitLines(ours));
+  const theirHunks = getHunks(baseLines, splitLines(theirs));
+
+  const lines: string[] = [];
+  let conflicts = 0;
+  let position = 0;
+  let i = 0;
+  let j = 0;
+
+  while (i < ourHunks.length || j < theirHunks.length) {
+    const first =
+      j >= theirHunks.length || (i < ourHunks.length && ourHunks[i].baseStart <= theirHunks[j].baseStart)
+        ? ourHunks[i]
+        : theirHunks[j];
+
+    const start = first.baseStart;
+    let end = first.baseEnd;
+    const ourGroup: Hunk[] = [];
+    const theirGroup: Hunk[] = [];
+
+    // collects the hunks of both sides that overlap or touch each other
+    while (true) {
+      if (i < ourHunks.length && ourHunks[i].baseStart <= end) {
+        end = Math.max(end, ourHunks[i].baseEnd);
+        ourGroup.push(ourHunks[i++]);
+      } else if (j < theirHunks.length && theirHunks[j].baseStart <= end) {
+        end = Math.max(end, theirHunks[j].baseEnd);
+        theirGroup.push(theirHunks[j++]);
+      } else {
+        break;
+      }
+    }
+
+    lines.push(...baseLines.slice(position, start));
+    position = end;
+
+    const ourLines = applyHunks(baseLines, start, end, ourGroup);
+    const theirLines = applyHunks(baseLines, start, end, theirGroup);
+
+    if (theirGroup.length === 0 || ourLines.join('') === theirLines.join('')) {
+      lines.push(...ourLines);
+    } else if (ourGroup.length === 0) {
+      lines.push(...theirLines);
+    } else {
+      conflicts++;
+      lines.push(
+        `${CONFLICT_START}\n`,
+        ...withLineBreak(ourLines),
+        `${CONFLICT_SEPARATOR}\n`,
+        ...withLineBreak(theirLines),
+        `${CONFLICT_END}\n`,
+      );
+    }
+  }
+
+  lines.push(...baseLines.slice(position));
+
+  return { content: lines.join(''), conflicts };
+}
+
+export function hasConflictMarkers(content: string) {
+  return conflictMarkerRegex.test(content);
+}
+
+/**
+ * Merges the files upstream changed since `base` into our files, files are keyed by their relative path.
+ * Only files whose content changes locally are returned, a file both sides changed in a different way is a
+ * conflict, also when one side deleted it.
+ */
+export function mergeFiles(
+  base: Record<string, string>,
+  ours: Record<string, string>,
+  theirs: Record<string, string>,
+): FileMerge[] {
+  const merges: FileMerge[] = [];
+  const filePaths = [...new Set([...Object.keys(base), ...Object.keys(theirs)])].sort();
+
+  for (const filePath of filePaths) {
+    const baseContent = base[filePath];
+    const ourContent = ours[filePath];
+    const theirContent = theirs[filePath];
+
+    if (baseContent === theirContent || ourContent === theirContent) {
+      continue;
+    }
+
+    const change: UpstreamChange =
+      baseContent === undefined ? 'added' : theirContent === undefined ? 'deleted' : 'modified';
+
+    const merge = { filePath, change, ours: ourContent, theirs: theirContent };
+
+    if (ourContent === baseContent) {
+      merges.push({ ...merge, content: theirContent ?? null, conflict: false });
+    } else if (ourContent === undefined || theirContent === undefined) {
+      // one side deleted the file the other one changed, mine is kept until the conflict is resolved
+      merges.push({ ...merge, content: ourContent ?? null, conflict: true });
+    } else {
+      const { content, conflicts } = mergeText(baseContent ?? '', ourContent, theirContent);
+
+      if (content !== ourContent) {
+        merges.push({ ...merge, content, conflict: conflicts > 0 });
+      }
+    }
+  }
+
+  return merges;
+}
@@ -0,0 +1,148 @@
+import { describe, expect, it } from 'vitest';
+import { applyFilePatch, PatchApplyError } from './patch';
+
+const file = ['function add(a, b) {', '  return a + b;', '}', '', 'export default add;', ''].join('\n');
+
+const repeated = [
+  "import { a } from './a';",
+  '',
+  'export function first() {',
+  '  return a;',
+  '}',
+  '',
+  'export function second() {',
+  '  return a;',
+  '}',
+  '',
+].join('\n');
+
+describe('applyFilePatch', () => {
+  it('should apply search/replace blocks', () => {
+    const patch = [
+      '<<<<<<< SEARCH',
+      '  return a + b;',
+      '=======',
+      '  return a + b + 0;',
+      '>>>>>>> REPLACE',
+      '<<<<<<< SEARCH',
+      'export default add;',
+      '=======',
+      'export { add };',
+      '>>>>>>> REPLACE',
+    ].join('\n');
+
+    expect(applyFilePatch(file, patch)).toBe(
+      ['function add(a, b) {', '  return a + b + 0;', '}', '', 'export { add };', ''].join('\n'),
+    );
+  });
+
+  it('should apply unified diff hunks by their context', () => {
+    const patch = [
+      '--- a/add.js',
+      '+++ b/add.js',
+      '@@ -40,3 +40,3 @@',
+      ' function add(a, b) {',
+      '-  return a + b;',
+      '+  return b + a;',
+      ' }',
+    ].join('\n');
+
+    expect(applyFilePatch(file, patch)).toBe(file.replace('a + b', 'b + a'));
+  });
+
+  it('should apply the hunks of the patched file from a multi-file diff', () => {
+    const patch = [
+      'diff --git a/add.js b/add.js',
+      '--- a/add.js',
+      '+++ b/add.js',
+      '@@ -1,3 +1,3 @@',
+      ' function add(a, b) {',
+      '-  return a + b;',
+      '+  return b + a;',
+      ' }',
+      'diff --git a/sub.js b/sub.js',
+      '--- a/sub.js',
+      '+++ b/sub.js',
+      '@@ -1,3 +1,3 @@',
+      ' function sub(a, b) {',
+      '-  return a - b;',
+      '+  return b - a;',
+      ' }',
+    ].join('\n');
+
+    expect(applyFilePatch(file, patch, '/home/project/add.js')).toBe(file.replace('a + b', 'b + a'));
+    expect(() => applyFilePatch(file, patch, 'sub.js')).toThrow('Block 1 of 1 does not match');
+  });
+
+  it('should look for a repeated search block after the previous block', () => {
+    const patch = [
+      '<<<<<<< SEARCH',
+      'export function second() {',
+      '=======',
+      'export function second(b) {',
+      '>>>>>>> REPLACE',
+      '<<<<<<< SEARCH',
+      '  return a;',
+      '=======',
+      '  return b;',
+      '>>>>>>> REPLACE',
+    ].join('\n');
+
+    expect(applyFilePatch(repeated, patch)).toBe(
+      repeated.replace('second() {\n  return a;', 'second(b) {\n  return b;'),
+    );
+  });
+
+  it('should pick a repeated hunk context by the line of its hunk header', () => {
+    const patch = [
+      '--- a/index.js',
+      '+++ b/index.js',
+      '@@ -1,2 +1,3 @@',
+      " import { a } from './a';",
+      "+import { b } from './b';",
+      ' ',
+      '@@ -8,2 +9,2 @@',
+      '-  return a;',
+      '+  return b;',
+      ' }',
+    ].join('\n');
+
+    expect(applyFilePatch(repeated, patch)).toBe(
+      repeated
+        .replace("'./a';\n", "'./a';\nimport { b } from './b';\n")
+        .replace('second() {\n  return a;', 'second() {\n  return b;'),
+    );
+  });
+
+  it('should refuse a block that matches more than once', () => {
+    const patch = ['<<<<<<< SEARCH', '  return a;', '}', '=======', '  return b;', '}', '>>>>>>> REPLACE'].join('\n');
+
+    expect(() => applyFilePatch(repeated, patch)).toThrow('Block 1 of 1 matches the file content 2 times');
+
+    const hunk = ['@@ -6,2 +6,2 @@', '-  return a;', '+  return b;', ' }'].join('\n');
+
+    expect(() => applyFilePatch(repeated, hunk)).toThrow(PatchApplyError);
+  });
+
+  it('should ignore trailing whitespace differences', () => {
+    const patch = ['<<<<<<< SEARCH', '  return a + b;   ', '=======', '  return 0;', '>>>>>>> REPLACE'].join('\n');
+
+    expect(applyFilePatch(file, patch)).toBe(file.replace('a + b', '0'));
+  });
+
+  it('should report the block that does not apply', () => {
+    const patch = ['<<<<<<< SEARCH', '  return a - b;', '=======', '  return 0;', '>>>>>>> REPLACE'].join('\n');
+
+    expect(() => applyFilePatch(file, patch)).toThrow(PatchApplyError);
+
+    try {
+      applyFilePatch(file, patch);
+    } catch (error) {
+      expect((error as PatchApplyError).block).toBe(patch);
+    }
+  });
+
+  it('should reject content without blocks or hunks', () => {
+    expect(() => applyFilePatch(file, 'return a + b;')).toThrow('does not contain any');
+  });
+});
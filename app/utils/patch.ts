@@ -0,0 +1,311 @@
+const SEARCH_MARKER = /^<{5,}\s*SEARCH\s*$/;
+const DIVIDER_MARKER = /^={5,}\s*$/;
+const REPLACE_MARKER = /^>{5,}\s*REPLACE\s*$/;
+const HUNK_HEADER = /^@@(?: -(\d+))?.*@@/;
+const DIFF_HEADER = /^diff --git /;
+const OLD_FILE_HEADER = /^--- (\S+)/;
+const NEW_FILE_HEADER = /^\+\+\+ (\S+)/;
+
+export interface PatchBlock {
+  search: string;
+  replace: string;
+
+  // the block as written by the model, used for error reporting
+  source: string;
+
+  // the first line of the hunk in the original file, only used to pick between several matches
+  line?: number;
+}
+
+export class PatchApplyError extends Error {
+  readonly block: string;
+
+  constructor(message: string, block: string = '') {
+    super(message);
+
+    this.block = block;
+
+    Object.setPrototypeOf(this, PatchApplyError.prototype);
+
+    this.name = 'PatchApplyError';
+  }
+}
+
+export function isSearchReplacePatch(patch: string) {
+  return patch.split('\n').some((line) => SEARCH_MARKER.test(line));
+}
+
+/**
+ * Parses search/replace blocks:
+ *
+ * <<<<<<< SEARCH
+ * old lines
+ * =======
+ * new lines
+ * >>>>>>> REPLACE
+ */
+export function parseSearchReplaceBlocks(patch: string): PatchBlock[] {
+  const blocks: PatchBlock[] = [];
+  const lines = patch.split('\n');
+
+  let i = 0;
+
+  while (i < lines.length) {
+    if (!SEARCH_MARKER.test(lines[i])) {
+      i++;
+      continue;
+    }
+
+    const start = i;
+    const search: string[] = [];
+    const replace: string[] = [];
+
+    i++;
+
+    while (i < lines.length && !DIVIDER_MARKER.test(lines[i])) {
+      search.push(lines[i++]);
+    }
+
+    if (i >= lines.length) {
+      throw new PatchApplyError('Search block is missing its "=======" divider', lines.slice(start).join('\n'));
+    }
+
+    i++;
+
+    while (i < lines.length && !REPLACE_MARKER.test(lines[i])) {
+      replace.push(lines[i++]);
+    }
+
+    if (i >= lines.length) {
+      throw new PatchApplyError('Search block is missing its ">>>>>>> REPLACE" marker', lines.slice(start).join('\n'));
+    }
+
+    blocks.push({
+      search: search.join('\n'),
+      replace: replace.join('\n'),
+      source: lines.slice(start, i + 1).join('\n'),
+    });
+
+    i++;
+  }
+
+  return blocks;
+}
+
+// `a/src/index.js` and `./src/index.js` name the same file as `src/index.js`
+function normalizeDiffPath(filePath: string) {
+  return filePath.replace(/^[ab]\//, '').replace(/^\.?\/+/, '');
+}
+
+function isSameFile(diffPath: string, filePath: string) {
+  const normalized = normalizeDiffPath(filePath);
+  return diffPath === normalized || normalized.endsWith(`/${diffPath}`);
+}
+
+/**
+ * Parses the hunks of a unified diff. Every hunk is located by its context, because models rarely get
+ * the line numbers right, the numbers of the hunk headers only decide between repeated contexts.
+ *
+ * A `---`/`+++` header pair starts the hunks of another file. When the diff names several files, only the
+ * hunks of `filePath` are returned.
+ */
+export function parseUnifiedDiffHunks(patch: string, filePath?: string): PatchBlock[] {
+  const files: Array<{ path?: string; blocks: PatchBlock[] }> = [{ blocks: [] }];
+  const lines = patch.split('\n');
+
+  let current: { search: string[]; replace: string[]; source: string[]; line?: number } | undefined;
+
+  const flush = () => {
+    if (current && (current.search.length || current.replace.length)) {
+      files[files.length - 1].blocks.push({
+        search: current.search.join('\n'),
+        replace: current.replace.join('\n'),
+        source: current.source.join('\n'),
+        line: current.line,
+      });
+    }
+
+    current = undefined;
+  };
+
+  for (const [index, line] of lines.entries()) {
+    const oldFile = line.match(OLD_FILE_HEADER);
+    const newFile = oldFile ? lines[index + 1]?.match(NEW_FILE_HEADER) : undefined;
+
+    if (oldFile && newFile) {
+      flush();
+
+      // deleted files only name the old path
+      const diffPath = newFile[1] === '/dev/null' ? oldFile[1] : newFile[1];
+      files.push({ path: normalizeDiffPath(diffPath), blocks: [] });
+      continue;
+    }
+
+    if (DIFF_HEADER.test(line)) {
+      flush();
+      continue;
+    }
+
+    const hunkHeader = line.match(HUNK_HEADER);
+
+    if (hunkHeader) {
+      flush();
+      current = { search: [], replace: [], source: [line], line: hunkHeader[1] ? Number(hunkHeader[1]) : undefined };
+      continue;
+    }
+
+    if (!current) {
+      // `index`, mode and other header lines before the first hunk of a file
+      continue;
+    }
+
+    current.source.push(line);
+
+    if (line.startsWith('\\')) {
+      // "\ No newline at end of file"
+      continue;
+    }
+
+    if (line.startsWith('-')) {
+      current.search.push(line.slice(1));
+    } else if (line.startsWith('+')) {
+      current.replace.push(line.slice(1));
+    } else {
+      const context = line.startsWith(' ') ? line.slice(1) : line;
+      current.search.push(context);
+      current.replace.push(context);
+    }
+  }
+
+  flush();
+
+  const namedFiles = files.filter(({ path }) => path !== undefined);
+
+  if (filePath && namedFiles.length > 1) {
+    const matching = namedFiles.filter(({ path }) => isSameFile(path!, filePath));
+
+    if (matching.length > 0) {
+      return matching.flatMap(({ blocks }) => blocks);
+    }
+  }
+
+  return files.flatMap(({ blocks }) => blocks);
+}
+
+interface BlockMatch {
+  start: number;
+  end: number;
+}
+
+function findMatches(content: string, search: string) {
+  const matches: BlockMatch[] = [];
+
+  for (let index = content.indexOf(search); index !== -1; index = content.indexOf(search, index + 1)) {
+    matches.push({ start: index, end: index + search.length });
+  }
+
+  if (matches.length > 0) {
+    return matches;
+  }
+
+  // fall back to matches that ignore trailing whitespace on every line
+  const contentLines = content.split('\n');
+  const searchLines = search.split('\n').map((line) => line.trimEnd());
+
+  let offset = 0;
+
+  for (let i = 0; i < contentLines.length; i++) {
+    if (i + searchLines.length <= contentLines.length) {
+      const isMatch = searchLines.every((line, j) => contentLines[i + j].trimEnd() === line);
+
+      if (isMatch) {
+        const end = contentLines.slice(i, i + searchLines.length).join('\n').length + offset;
+        matches.push({ start: offset, end });
+      }
+    }
+
+    offset += contentLines[i].length + 1;
+  }
+
+  return matches;
+}
+
+function countLines(text: string) {
+  return text.split('\n').length;
+}
+
+// a repeated context is only applied when the line of its hunk header is closer to one of the copies
+function pickMatch(content: string, matches: BlockMatch[], line?: number) {
+  if (matches.length === 1) {
+    return matches[0];
+  }
+
+  if (line === undefined) {
+    return undefined;
+  }
+
+  const [closest, next] = matches
+    .map((match) => ({ match, distance: Math.abs(countLines(content.slice(0, match.start)) - line) }))
+    .sort((a, b) => a.distance - b.distance);
+
+  return closest.distance < next.distance ? closest.match : undefined;
+}
+
+function applyBlocks(content: string, blocks: PatchBlock[]) {
+  let result = content;
+
+  // blocks are applied in order, a block is looked for after the previous one first
+  let position = 0;
+
+  // hunk headers count the lines of the original file, earlier blocks move the lines after them
+  let lineShift = 0;
+
+  for (const [index, block] of blocks.entries()) {
+    if (!block.search.trim()) {
+      if (result.trim()) {
+        throw new PatchApplyError(`Block ${index + 1} has no lines to search for`, block.source);
+      }
+
+      result = block.replace;
+      position = result.length;
+      continue;
+    }
+
+    const matches = findMatches(result, block.search);
+
+    if (matches.length === 0) {
+      throw new PatchApplyError(`Block ${index + 1} of ${blocks.length} does not match the file content`, block.source);
+    }
+
+    const following = matches.filter(({ start }) => start >= position);
+    const candidates = following.length > 0 ? following : matches;
+    const match = pickMatch(result, candidates, block.line === undefined ? undefined : block.line + lineShift);
+
+    if (!match) {
+      throw new PatchApplyError(
+        `Block ${index + 1} of ${blocks.length} matches the file content ${candidates.length} times, add lines to tell them apart`,
+        block.source,
+      );
+    }
+
+    result = result.slice(0, match.start) + block.replace + result.slice(match.end);
+    position = match.start + block.replace.length;
+    lineShift += countLines(block.replace) - countLines(block.search);
+  }
+
+  return result;
+}
+
+/**
+ * Applies a patch written either as search/replace blocks or as a unified diff.
+ * Throws a `PatchApplyError` pointing to the first block that can't be applied.
+ */
+export function applyFilePatch(content: string, patch: string, filePath?: string) {
+  const blocks = isSearchReplacePatch(patch) ? parseSearchReplaceBlocks(patch) : parseUnifiedDiffHunks(patch, filePath);
+
+  if (blocks.length === 0) {
+    throw new PatchApplyError('Patch does not contain any search/replace blocks or diff hunks', patch);
+  }
+
+  return applyBlocks(content, blocks);
+}
@@ -0,0 +1,29 @@
+import { describe, expect, it } from 'vitest';
+import { getCopyPath, isSubPath, replacePathPrefix } from './path';
+
+describe('replacePathPrefix', () => {
+  it('should move a path and its children but nothing else', () => {
+    expect(replacePathPrefix('/home/project/src', '/home/project/src', '/home/project/lib')).toBe('/home/project/lib');
+    expect(replacePathPrefix('/home/project/src/a.ts', '/home/project/src', '/home/project/lib')).toBe(
+      '/home/project/lib/a.ts',
+    );
+    expect(replacePathPrefix('/home/project/src2/a.ts', '/home/project/src', '/home/project/lib')).toBeUndefined();
+  });
+});
+
+describe('getCopyPath', () => {
+  it('should number copies until a free name is found', () => {
+    const existing = new Set(['/home/project/app.ts', '/home/project/app copy.ts']);
+
+    expect(getCopyPath('/home/project/app.ts', (path) => existing.has(path))).toBe('/home/project/app copy 2.ts');
+    expect(getCopyPath('/home/project/src', (path) => existing.has(path))).toBe('/home/project/src copy');
+  });
+});
+
+describe('isSubPath', () => {
+  it('should match the path itself and its children only', () => {
+    expect(isSubPath('/home/project/src', '/home/project/src')).toBe(true);
+    expect(isSubPath('/home/project/src/a.ts', '/home/project/src')).toBe(true);
+    expect(isSubPath('/home/project/src2/a.ts', '/home/project/src')).toBe(false);
+  });
+});
@@ -17,3 +17,41 @@ export const path = {
   parse: (path: string): ParsedPath => pathBrowserify.parse(path),
   format: (pathObject: ParsedPath): string => pathBrowserify.format(pathObject),
 } as const;
+
+/**
+ * Maps a path inside `from` (or `from` itself) to the same place inside `to`, returns `undefined`
+ * for paths outside of `from`.
+ */
+export function replacePathPrefix(filePath: string, from: string, to: string) {
+  if (filePath === from) {
+    return to;
+  }
+
+  if (filePath.startsWith(`${from}/`)) {
+    return `${to}${filePath.slice(from.length)}`;
+  }
+
+  return undefined;
+}
+
+/**
+ * Finds a free path next to `filePath` for a copy, like `app copy.ts` or `app copy 2.ts`.
+ */
+export function getCopyPath(filePath: string, exists: (path: string) => boolean) {
+  const { dir, name, ext } = path.parse(filePath);
+
+  for (let i = 1; ; i++) {
+    const copyPath = path.join(dir, `${name} copy${i > 1 ? ` ${i}` : ''}${ext}`);
+
+    if (!exists(copyPath)) {
+      return copyPath;
+    }
+  }
+}
+
+/**
+ * Whether `filePath` is `parent` itself or lies somewhere inside it.
+ */
+export function isSubPath(filePath: string, parent: string) {
+  return filePath === parent || filePath.startsWith(`${parent}/`);
+}
@@ -0,0 +1,100 @@
+import { describe, expect, it } from 'vitest';
+import { formatProblems, mergeProblems, parseProblems } from './problems';
+
+describe('parseProblems', () => {
+  it('should parse tsc output in both formats', () => {
+    const output = [
+      "src/App.tsx(3,7): error TS2322: Type 'string' is not assignable to type 'number'.",
+      "\x1b[96msrc/main.ts\x1b[0m:\x1b[93m10\x1b[0m:\x1b[93m1\x1b[0m - \x1b[91merror\x1b[0m TS2304: Cannot find name 'foo'.",
+    ].join('\n');
+
+    expect(parseProblems(output)).toEqual([
+      {
+        filePath: '/home/project/src/App.tsx',
+        line: 3,
+        column: 6,
+        severity: 'error',
+        message: "Type 'string' is not assignable to type 'number'.",
+        code: 2322,
+        source: 'typescript',
+      },
+      {
+        filePath: '/home/project/src/main.ts',
+        line: 10,
+        column: 0,
+        severity: 'error',
+        message: "Cannot find name 'foo'.",
+        code: 2304,
+        source: 'typescript',
+      },
+    ]);
+  });
+
+  it('should parse ESLint stylish output', () => {
+    const output = [
+      '/home/project/src/App.tsx',
+      "  4:7   warning  'unused' is assigned a value but never used  @typescript-eslint/no-unused-vars",
+      '  12:1  error    Parsing error: Unexpected token',
+      '',
+      '✖ 2 problems (1 error, 1 warning)',
+    ].join('\n');
+
+    expect(parseProblems(output)).toMatchObject([
+      { line: 4, column: 6, severity: 'warning', code: '@typescript-eslint/no-unused-vars', source: 'eslint' },
+      { line: 12, column: 0, severity: 'error', message: 'Parsing error: Unexpected token', source: 'eslint' },
+    ]);
+  });
+
+  it('should parse Vite errors and take their location from the following lines', () => {
+    const output = [
+      '10:15:02 AM [vite] Internal server error: Failed to resolve import "./Missing" from "src/App.tsx". Does the file exist?',
+      '  Plugin: vite:import-analysis',
+      '  File: /home/project/src/App.tsx:2:20',
+      '10:15:03 AM [vite] Internal server error: Transform failed with 1 error:',
+      '/home/project/src/main.ts:5:3: ERROR: Expected ";" but found "x"',
+    ].join('\n');
+
+    expect(parseProblems(output)).toMatchObject([
+      { filePath: '/home/project/src/App.tsx', line: 2, column: 19, source: 'vite' },
+      { filePath: '/home/project/src/main.ts', line: 5, column: 2, message: 'Expected ";" but found "x"' },
+    ]);
+  });
+
+  it('should locate Node errors at the first stack frame inside the project', () => {
+    const output = [
+      "TypeError: Cannot read properties of undefined (reading 'map')",
+      '    at renderList (/home/project/node_modules/lib/index.js:10:5)',
+      '    at App (http://localhost:5173/src/App.tsx?t=1700000000:14:22)',
+      '    at main (/home/project/src/main.ts:3:1)',
+    ].join('\n');
+
+    expect(parseProblems(output)).toEqual([
+      {
+        filePath: '/home/project/src/App.tsx',
+        line: 14,
+        column: 21,
+        severity: 'error',
+        message: "TypeError: Cannot read properties of undefined (reading 'map')",
+        code: undefined,
+        source: 'node',
+      },
+    ]);
+  });
+});
+
+describe('mergeProblems', () => {
+  it('should drop duplicates and sort by location', () => {
+    const problem = { filePath: '/home/project/b.ts', line: 2, column: 0, severity: 'error' as const, source: 'tsc' };
+
+    const merged = mergeProblems(
+      [{ ...problem, message: 'Broken\n  because of this' }],
+      [
+        { ...problem, message: 'Broken' },
+        { ...problem, filePath: '/home/project/a.ts', message: 'Other' },
+      ],
+    );
+
+    expect(merged.map((entry) => entry.filePath)).toEqual(['/home/project/a.ts', '/home/project/b.ts']);
+    expect(formatProblems(merged, 1)).toBe('a.ts:2:1 - error: Other\n... and 1 more');
+  });
+});
@@ -0,0 +1,268 @@
+import type { Problem, ProblemSeverity } from '~/types/problems';
+import { WORK_DIR } from './constants';
+import { extractRelativePath } from './diff';
+
+const TSC_REGEX = /^(.+?)\((\d+),(\d+)\): (error|warning) TS(\d+): (.*)$/;
+const TSC_PRETTY_REGEX = /^(.+?):(\d+):(\d+) - (error|warning) TS(\d+): (.*)$/;
+const ESBUILD_REGEX = /^(.+?):(\d+):(\d+): ERROR: (.*)$/;
+const ESBUILD_BLOCK_REGEX = /^\s*[✘X] \[ERROR\] (.*)$/;
+const ESBUILD_LOCATION_REGEX = /^\s*(\S+):(\d+):(\d+):\s*$/;
+const ESLINT_FILE_REGEX = /^(\/\S+\.\w+)$/;
+const ESLINT_ENTRY_REGEX = /^\s+(\d+):(\d+)\s+(error|warning)\s+(.+?)(?:\s{2,}(\S+))?$/;
+const VITE_ERROR_REGEX = /(?:\[vite\] (?:Internal server error|Pre-transform error)|\[plugin:[^\]]+\]): (.*)$/;
+const VITE_FILE_REGEX = /^\s*File: (.+?):(\d+):(\d+)\s*$/;
+const VITE_INLINE_LOCATION_REGEX = /^(\/\S+?): (.*) \((\d+):(\d+)\)$/;
+const VITE_IMPORT_REGEX = /from "([^"]+)"/;
+const NODE_ERROR_REGEX = /^(?:Uncaught )?((?:[A-Z]\w*)?Error)(?: \[\w+\])?: (.+)$/;
+const STACK_FRAME_REGEX = /^\s*at (?:.*? \()?(.+?):(\d+):(\d+)\)?$/;
+
+// how far to look ahead for the location of a multi-line error
+const LOOKAHEAD_LINES = 20;
+
+/**
+ * Removes colors and other escape sequences so the output can be parsed line by line.
+ */
+export function stripTerminalCodes(output: string) {
+  return output
+    .replace(/\x1b\][^\x07\x1b]*(?:\x07|\x1b\\)/g, '')
+    .replace(/\x1b\[[0-9;?]*[ -/]*[@-~]/g, '')
+    .replace(/\x1b[@-_]/g, '')
+    .replace(/\r\n?/g, '\n');
+}
+
+/**
+ * Maps the paths tools print (relative, absolute, `file://` or dev server URLs) to project paths.
+ * Returns `undefined` for files outside the project, e.g. dependencies and Node internals.
+ */
+export function resolveProblemPath(rawPath: string): string | undefined {
+  let filePath = rawPath.trim().replace(/^file:\/\//, '');
+
+  if (/^https?:\/\//.test(filePath)) {
+    filePath = filePath.replace(/^https?:\/\/[^/]+/, '');
+  }
+
+  filePath = filePath.replace(/[?#].*$/, '');
+
+  if (filePath.startsWith('node:') || filePath.includes('node_modules/') || filePath.startsWith('/@')) {
+    return undefined;
+  }
+
+  if (!filePath.startsWith(`${WORK_DIR}/`)) {
+    // other absolute paths are URLs of the dev server, which serves the project root
+    filePath = `${WORK_DIR}/${filePath.replace(/^\.?\//, '')}`;
+  }
+
+  return /\.\w+$/.test(filePath) ? filePath : undefined;
+}
+
+function createProblem(
+  rawPath: string,
+  line: string | number,
+  column: string | number,
+  severity: ProblemSeverity,
+  message: string,
+  source: string,
+  code?: string | number,
+): Problem | undefined {
+  const filePath = resolveProblemPath(rawPath);
+
+  if (!filePath) {
+    return undefined;
+  }
+
+  return {
+    filePath,
+    line: Math.max(Number(line), 1),
+
+    // tools print 1-based columns
+    column: Math.max(Number(column) - 1, 0),
+    severity,
+    message: message.trim(),
+    code,
+    source,
+  };
+}
+
+/**
+ * Extracts the problems reported by tsc, ESLint, Vite, esbuild and Node stack traces from terminal output.
+ */
+export function parseProblems(output: string): Problem[] {
+  const lines = stripTerminalCodes(output).split('\n');
+  const problems: Problem[] = [];
+
+  let eslintFile: string | undefined;
+
+  const findInNextLines = (start: number, regex: RegExp) => {
+    for (let index = start; index < Math.min(start + LOOKAHEAD_LINES, lines.length); index++) {
+      const match = lines[index].match(regex);
+
+      if (match) {
+        return match;
+      }
+    }
+
+    return undefined;
+  };
+
+  const add = (problem: Problem | undefined) => {
+    if (problem) {
+      problems.push(problem);
+    }
+  };
+
+  for (let index = 0; index < lines.length; index++) {
+    const line = lines[index];
+
+    const tscMatch = line.match(TSC_REGEX) ?? line.match(TSC_PRETTY_REGEX);
+
+    if (tscMatch) {
+      const [, filePath, lineNumber, column, severity, code, message] = tscMatch;
+      add(
+        createProblem(filePath, lineNumber, column, severity as ProblemSeverity, message, 'typescript', Number(code)),
+      );
+      continue;
+    }
+
+    const esbuildMatch = line.match(ESBUILD_REGEX);
+
+    if (esbuildMatch) {
+      const [, filePath, lineNumber, column, message] = esbuildMatch;
+      add(createProblem(filePath, lineNumber, column, 'error', message, 'esbuild'));
+      continue;
+    }
+
+    const esbuildBlockMatch = line.match(ESBUILD_BLOCK_REGEX);
+
+    if (esbuildBlockMatch) {
+      const location = findInNextLines(index + 1, ESBUILD_LOCATION_REGEX);
+
+      if (location) {
+        add(createProblem(location[1], location[2], location[3], 'error', esbuildBlockMatch[1], 'esbuild'));
+      }
+
+      continue;
+    }
+
+    const eslintFileMatch = line.match(ESLINT_FILE_REGEX);
+
+    if (eslintFileMatch) {
+      eslintFile = eslintFileMatch[1];
+      continue;
+    }
+
+    const eslintEntryMatch = eslintFile ? line.match(ESLINT_ENTRY_REGEX) : null;
+
+    if (eslintFile && eslintEntryMatch) {
+      const [, lineNumber, column, severity, message, rule] = eslintEntryMatch;
+      add(createProblem(eslintFile, lineNumber, column, severity as ProblemSeverity, message, 'eslint', rule));
+      continue;
+    }
+
+    if (line.trim() === '' || line.startsWith('✖')) {
+      eslintFile = undefined;
+    }
+
+    const viteMatch = line.match(VITE_ERROR_REGEX);
+
+    if (viteMatch) {
+      const message = viteMatch[1];
+
+      // e.g. "Transform failed with 1 error:", the details follow on their own lines
+      if (message.endsWith(':')) {
+        continue;
+      }
+
+      const inlineLocation = message.match(VITE_INLINE_LOCATION_REGEX);
+
+      if (inlineLocation) {
+        const [, filePath, inlineMessage, lineNumber, column] = inlineLocation;
+        add(createProblem(filePath, lineNumber, Number(column) + 1, 'error', inlineMessage, 'vite'));
+        continue;
+      }
+
+      const fileLocation = findInNextLines(index + 1, VITE_FILE_REGEX);
+      const importer = message.match(VITE_IMPORT_REGEX)?.[1];
+
+      if (fileLocation) {
+        add(createProblem(fileLocation[1], fileLocation[2], fileLocation[3], 'error', message, 'vite'));
+      } else if (importer) {
+        add(createProblem(importer, 1, 1, 'error', message, 'vite'));
+      }
+
+      continue;
+    }
+
+    const nodeErrorMatch = line.match(NODE_ERROR_REGEX);
+
+    if (nodeErrorMatch) {
+      const [, name, message] = nodeErrorMatch;
+
+      // the first frame inside the project is where the error surfaced in the user's code
+      for (let frameIndex = index + 1; frameIndex < Math.min(index + LOOKAHEAD_LINES, lines.length); frameIndex++) {
+        const frame = lines[frameIndex].match(STACK_FRAME_REGEX);
+
+        if (!frame) {
+          if (lines[frameIndex].trim() !== '') {
+            break;
+          }
+
+          continue;
+        }
+
+        const problem = createProblem(frame[1], frame[2], frame[3], 'error', `${name}: ${message}`, 'node');
+
+        if (problem) {
+          add(problem);
+          break;
+        }
+      }
+    }
+  }
+
+  return problems;
+}
+
+function getProblemKey(problem: Problem) {
+  // the language service reports the full message chain where tsc only prints its first line
+  const message = problem.message.split('\n')[0].trim();
+
+  return `${problem.filePath}:${problem.line}:${problem.column}:${message}`;
+}
+
+/**
+ * Merges problems from several sources into one list sorted by file and position, the same problem
+ * reported twice (e.g. by the language service and by tsc in the terminal) is only kept once.
+ */
+export function mergeProblems(...sources: Problem[][]): Problem[] {
+  const problems = new Map<string, Problem>();
+
+  for (const problem of sources.flat()) {
+    const key = getProblemKey(problem);
+
+    if (!problems.has(key)) {
+      problems.set(key, problem);
+    }
+  }
+
+  return [...problems.values()].sort(
+    (a, b) => a.filePath.localeCompare(b.filePath) || a.line - b.line || a.column - b.column,
+  );
+}
+
+/**
+ * Formats problems the way compilers print them, e.g. `src/main.ts:3:7 - error TS2322: ...`.
+ */
+export function formatProblems(problems: Problem[], limit = Infinity) {
+  const lines = problems.slice(0, limit).map((problem) => {
+    const code = problem.code === undefined ? '' : ` ${problem.source === 'typescript' ? 'TS' : ''}${problem.code}`;
+    const location = `${extractRelativePath(problem.filePath)}:${problem.line}:${problem.column + 1}`;
+
+    return `${location} - ${problem.severity}${code}: ${problem.message}`;
+  });
+
+  if (problems.length > limit) {
+    lines.push(`... and ${problems.length - limit} more`);
+  }
+
+  return lines.join('\n');
+}
@@ -0,0 +1,29 @@
+import { describe, expect, it } from 'vitest';
+import { createPullRequestContent, getPullRequestBranch } from './pullRequest';
+
+describe('getPullRequestBranch', () => {
+  it('should name the branch after the chat', () => {
+    expect(getPullRequestBranch('Todo app with Dark Mode!', '42')).toBe('bolt/todo-app-with-dark-mode-42');
+    expect(getPullRequestBranch(undefined, '7')).toBe('bolt/chat-7');
+  });
+});
+
+describe('createPullRequestContent', () => {
+  it('should summarize what the assistant messages changed', () => {
+    const { title, body } = createPullRequestContent('Todo app', [
+      { id: '1', role: 'user', content: 'Build a todo app' },
+      {
+        id: '2',
+        role: 'assistant',
+        content:
+          '<think>planning</think>I will create a todo app.\n\n<boltArtifact id="a" title="Create todo app"><boltAction type="file" filePath="a.ts">x</boltAction></boltArtifact>\n\nDone!',
+      },
+      { id: '3', role: 'assistant', content: 'The app uses local storage.' },
+    ]);
+
+    expect(title).toBe('Todo app');
+    expect(body).toBe(
+      'Todo app\n\n## Changes\n\n- Create todo app: I will create a todo app.\n- The app uses local storage.\n\n_Created with bolt.diy_',
+    );
+  });
+});
@@ -0,0 +1,67 @@
+import type { Message } from 'ai';
+
+const MAX_TITLE_LENGTH = 72;
+const MAX_SUMMARY_LENGTH = 200;
+const MAX_SLUG_LENGTH = 40;
+
+const ARTIFACT_REGEX = /<boltArtifact[^>]*>[\s\S]*?(?:<\/boltArtifact>|$)/g;
+const ARTIFACT_TITLE_REGEX = /<boltArtifact[^>]*\stitle="([^"]*)"/g;
+const THINKING_REGEX = /<(think|thinking|boltThought)>[\s\S]*?(?:<\/\1>|$)/g;
+
+function truncate(text: string, length: number) {
+  return text.length > length ? `${text.slice(0, length - 1).trimEnd()}…` : text;
+}
+
+function getMessageText(message: Message) {
+  return typeof message.content === 'string' ? message.content : '';
+}
+
+/**
+ * The branch the changes of a chat are pushed to, e.g. `bolt/todo-app-with-dark-mode-42`.
+ */
+export function getPullRequestBranch(description: string | undefined, chatId: string) {
+  const slug = (description ?? '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .slice(0, MAX_SLUG_LENGTH)
+    .replace(/^-+|-+$/g, '');
+
+  return slug ? `bolt/${slug}-${chatId}` : `bolt/chat-${chatId}`;
+}
+
+/**
+ * The title and body of a pull request for a chat: the chat description and a list of what each assistant
+ * message did, taken from its artifact titles and the first line of its text.
+ */
+export function createPullRequestContent(description: string | undefined, messages: Message[]) {
+  const changes: string[] = [];
+
+  for (const message of messages) {
+    if (message.role !== 'assistant') {
+      continue;
+    }
+
+    const content = getMessageText(message);
+    const titles = [...content.matchAll(ARTIFACT_TITLE_REGEX)].map(([, title]) => title);
+    const text = content.replace(THINKING_REGEX, '').replace(ARTIFACT_REGEX, '').trim();
+    const firstLine = text.split('\n').find((line) => line.trim() !== '');
+    const summary = firstLine && truncate(firstLine.replace(/^[#>*-]+\s*/, '').trim(), MAX_SUMMARY_LENGTH);
+
+    if (titles.length === 0 && !summary) {
+      continue;
+    }
+
+    changes.push(`- ${[titles.join(', '), summary].filter(Boolean).join(': ')}`);
+  }
+
+  const title = truncate(description?.trim() || 'Changes from bolt.diy', MAX_TITLE_LENGTH);
+  const body = [
+    description?.trim(),
+    changes.length > 0 && `## Changes\n\n${changes.join('\n')}`,
+    '_Created with bolt.diy_',
+  ]
+    .filter(Boolean)
+    .join('\n\n');
+
+  return { title, body };
+}
@@ -0,0 +1,20 @@
+import { describe, expect, it } from 'vitest';
+import { reviewFeedbackToHTML } from './review';
+import { WORK_DIR } from './constants';
+
+describe('reviewFeedbackToHTML', () => {
+  it('should list rejected and edited actions', () => {
+    const result = reviewFeedbackToHTML([
+      { decision: 'rejected', action: { type: 'file', filePath: `${WORK_DIR}/src/App.tsx`, content: '' } },
+      { decision: 'edited', action: { type: 'shell', content: 'npm install lodash' } },
+    ]);
+
+    expect(result).toBe(
+      '<bolt_review_feedback>\nThe user reviewed your previous actions:\n- rejected writing src/App.tsx, it was not applied\n- edited running `npm install lodash` before accepting it\n</bolt_review_feedback>',
+    );
+  });
+
+  it('should return nothing without feedback', () => {
+    expect(reviewFeedbackToHTML([])).toBeUndefined();
+  });
+});
@@ -0,0 +1,56 @@
+import type { BoltAction } from '~/types/actions';
+import type { ReviewFeedback } from '~/types/review';
+import { REVIEW_FEEDBACK_TAG_NAME } from './constants';
+import { extractRelativePath } from './diff';
+
+function describeAction(action: BoltAction) {
+  switch (action.type) {
+    case 'file': {
+      return `writing ${extractRelativePath(action.filePath)}`;
+    }
+    case 'patch': {
+      return `the patch to ${extractRelativePath(action.filePath)}`;
+    }
+    case 'start': {
+      return `starting \`${action.content}\``;
+    }
+    case 'build': {
+      return 'the build';
+    }
+    default: {
+      return `running \`${action.content}\``;
+    }
+  }
+}
+
+/**
+ * Tells the model which of its actions the user rejected or changed in review mode.
+ *
+ * Example:
+ *
+ * ```html
+ * <bolt_review_feedback>
+ * The user reviewed your previous actions:
+ * - rejected writing src/App.tsx
+ * - edited running `npm install lodash` before accepting it
+ * </bolt_review_feedback>
+ * ```
+ */
+export function reviewFeedbackToHTML(feedback: ReviewFeedback[]) {
+  if (feedback.length === 0) {
+    return undefined;
+  }
+
+  const lines = feedback.map(({ decision, action }) =>
+    decision === 'rejected'
+      ? `- rejected ${describeAction(action)}, it was not applied`
+      : `- edited ${describeAction(action)} before accepting it`,
+  );
+
+  return [
+    `<${REVIEW_FEEDBACK_TAG_NAME}>`,
+    'The user reviewed your previous actions:',
+    ...lines,
+    `</${REVIEW_FEEDBACK_TAG_NAME}>`,
+  ].join('\n');
+}
@@ -0,0 +1,55 @@
+import { describe, expect, it } from 'vitest';
+import { createSearchRegex, replaceInContent, searchFiles } from './search';
+
+const options = { isRegex: false, caseSensitive: false, wholeWord: false };
+
+describe('searchFiles', () => {
+  it('should group matches by file with their line and column', () => {
+    const regex = createSearchRegex('foo', options);
+    const results = searchFiles(
+      [
+        ['/home/project/b.ts', 'const a = 1;\nfoo(Foo);'],
+        ['/home/project/a.ts', 'bar'],
+      ],
+      regex,
+    );
+
+    expect(results.matchCount).toBe(2);
+    expect(results.files).toEqual([
+      {
+        filePath: '/home/project/b.ts',
+        matches: [
+          { line: 2, column: 0, length: 3, preview: 'foo(Foo);', previewColumn: 0 },
+          { line: 2, column: 4, length: 3, preview: 'foo(Foo);', previewColumn: 4 },
+        ],
+      },
+    ]);
+  });
+
+  it('should honour case and whole word options', () => {
+    const files: Array<[string, string]> = [['/home/project/a.ts', 'Foo foobar foo']];
+
+    expect(searchFiles(files, createSearchRegex('foo', { ...options, caseSensitive: true })).matchCount).toBe(2);
+    expect(searchFiles(files, createSearchRegex('foo', { ...options, wholeWord: true })).matchCount).toBe(2);
+    expect(searchFiles(files, createSearchRegex('f.o', options)).matchCount).toBe(0);
+  });
+
+  it('should stop at the match limit', () => {
+    const results = searchFiles([['/home/project/a.ts', 'a a a']], createSearchRegex('a', options), 2);
+
+    expect(results.matchCount).toBe(2);
+    expect(results.truncated).toBe(true);
+  });
+});
+
+describe('replaceInContent', () => {
+  it('should replace literally unless capture groups are expanded', () => {
+    const regex = createSearchRegex('(\\w+)\\.log', { ...options, isRegex: true });
+
+    expect(replaceInContent('console.log();\nlogger.log();', regex, '$1.debug', true)).toEqual({
+      content: 'console.debug();\nlogger.debug();',
+      count: 2,
+    });
+    expect(replaceInContent('a.b', createSearchRegex('.', options), '$&').content).toBe('a$&b');
+  });
+});
@@ -0,0 +1,166 @@
+export interface SearchOptions {
+  isRegex: boolean;
+  caseSensitive: boolean;
+  wholeWord: boolean;
+}
+
+export interface SearchMatch {
+  // 1-based line and 0-based column, like the editor reports them
+  line: number;
+  column: number;
+  length: number;
+  preview: string;
+
+  // where the match starts inside `preview`, long lines are cut around the match
+  previewColumn: number;
+}
+
+export interface FileSearchResult {
+  filePath: string;
+  matches: SearchMatch[];
+}
+
+export interface SearchResults {
+  files: FileSearchResult[];
+  matchCount: number;
+
+  // set when the search stopped at the match limit, there may be more matches
+  truncated: boolean;
+}
+
+export const MAX_SEARCH_MATCHES = 5000;
+
+const PREVIEW_CONTEXT = 40;
+const MAX_PREVIEW_LENGTH = 250;
+
+function escapeRegex(value: string) {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Builds the regex used to search and replace, throws a `SyntaxError` for invalid regex queries.
+ */
+export function createSearchRegex(query: string, options: SearchOptions) {
+  let source = options.isRegex ? query : escapeRegex(query);
+
+  if (options.wholeWord) {
+    source = `\\b(?:${source})\\b`;
+  }
+
+  return new RegExp(source, options.caseSensitive ? 'g' : 'gi');
+}
+
+function getPreview(line: string, column: number) {
+  const start = column > PREVIEW_CONTEXT ? column - PREVIEW_CONTEXT : 0;
+
+  return {
+    preview: line.slice(start, start + MAX_PREVIEW_LENGTH).trimEnd(),
+    previewColumn: column - start,
+  };
+}
+
+/**
+ * Finds all matches of `regex` line by line, matches never span multiple lines.
+ */
+export function searchContent(content: string, regex: RegExp, limit = Infinity) {
+  const matches: SearchMatch[] = [];
+  const lines = content.split('\n');
+
+  for (let index = 0; index < lines.length && matches.length < limit; index++) {
+    const line = lines[index];
+
+    regex.lastIndex = 0;
+
+    let match: RegExpExecArray | null;
+
+    while ((match = regex.exec(line)) && matches.length < limit) {
+      if (match[0].length === 0) {
+        // empty matches would loop forever and have nothing to replace
+        regex.lastIndex++;
+        continue;
+      }
+
+      matches.push({
+        line: index + 1,
+        column: match.index,
+        length: match[0].length,
+        ...getPreview(line, match.index),
+      });
+    }
+  }
+
+  return matches;
+}
+
+export function searchFiles(
+  files: Iterable<[string, string]>,
+  regex: RegExp,
+  limit = MAX_SEARCH_MATCHES,
+): SearchResults {
+  const results: SearchResults = { files: [], matchCount: 0, truncated: false };
+
+  for (const [filePath, content] of files) {
+    if (results.matchCount >= limit) {
+      break;
+    }
+
+    const matches = searchContent(content, regex, limit - results.matchCount);
+
+    if (matches.length > 0) {
+      results.files.push({ filePath, matches });
+      results.matchCount += matches.length;
+    }
+  }
+
+  results.truncated = results.matchCount >= limit;
+  results.files.sort((a, b) => a.filePath.localeCompare(b.filePath));
+
+  return results;
+}
+
+function expandReplacement(replacement: string, match: string, groups: unknown[]) {
+  const named = typeof groups[groups.length - 1] === 'object' ? (groups.pop() as Record<string, string>) : undefined;
+
+  // the last two entries are the offset and the searched string
+  const captures = groups.slice(0, -2) as Array<string | undefined>;
+
+  return replacement.replace(/\$(\$|&|\d{1,2}|<([^>]*)>)/g, (token, key: string, name?: string) => {
+    if (key === '$') {
+      return '$';
+    }
+
+    if (key === '&') {
+      return match;
+    }
+
+    if (name !== undefined) {
+      return named?.[name] ?? '';
+    }
+
+    const index = Number(key);
+
+    return index > 0 && index <= captures.length ? (captures[index - 1] ?? '') : token;
+  });
+}
+
+/**
+ * Replaces every match line by line so the result agrees with what `searchContent` found.
+ * With `expand` set, the replacement can reference capture groups, e.g. `$1`.
+ */
+export function replaceInContent(content: string, regex: RegExp, replacement: string, expand = false) {
+  let count = 0;
+
+  const lines = content.split('\n').map((line) =>
+    line.replace(regex, (match: string, ...groups: unknown[]) => {
+      if (match.length === 0) {
+        return match;
+      }
+
+      count++;
+
+      return expand ? expandReplacement(replacement, match, groups) : replacement;
+    }),
+  );
+
+  return { content: lines.join('\n'), count };
+}
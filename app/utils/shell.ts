@@ -2,6 +2,8 @@ import type { WebContainer, WebContainerProcess } from '@webcontainer/api';
 import type { ITerminal } from '~/types/terminal';
 import { withResolvers } from './promises';
 import { atom } from 'nanostores';
+import { coloredText } from './terminal';
+import { detectPrompt } from './shellPrompts';
 
 export async function newShellProcess(webcontainer: WebContainer, terminal: ITerminal) {
   const args: string[] = [];
@@ -54,6 +56,67 @@ export async function newShellProcess(webcontainer: WebContainer, terminal: ITer
 
 export type ExecutionResult = { output: string; exitCode: number } | undefined;
 
+export interface PromptHandler {
+  // the keys to type in reply to `prompt`, `undefined` leaves the prompt to the user
+  answer: (prompt: string) => string | undefined;
+  onWaitingForInput: (waiting: boolean) => void;
+}
+
+// a command that printed nothing for this long may be waiting for an answer
+const PROMPT_IDLE_TIME = 500;
+
+/**
+ * Answers the questions a running command asks, calls `subscribe` with a listener for the output of the
+ * command and returns a function to stop watching.
+ */
+function watchForPrompts(
+  subscribe: (listener: (data: string) => void) => () => void,
+  input: (data: string) => void,
+  handler: PromptHandler,
+) {
+  let output = '';
+  let waiting = false;
+  let timeout: ReturnType<typeof setTimeout> | undefined;
+
+  const setWaiting = (value: boolean) => {
+    if (waiting !== value) {
+      waiting = value;
+      handler.onWaitingForInput(value);
+    }
+  };
+
+  const unsubscribe = subscribe((data) => {
+    output += data;
+    setWaiting(false);
+    clearTimeout(timeout);
+
+    timeout = setTimeout(() => {
+      const prompt = detectPrompt(output);
+
+      if (!prompt) {
+        return;
+      }
+
+      // the reply is echoed and the prompt redrawn, only output after it can hold the next question
+      output = '';
+
+      const keys = handler.answer(prompt);
+
+      if (keys === undefined) {
+        setWaiting(true);
+      } else {
+        input(keys);
+      }
+    }, PROMPT_IDLE_TIME);
+  });
+
+  return () => {
+    clearTimeout(timeout);
+    unsubscribe();
+    setWaiting(false);
+  };
+}
+
 export class BoltShell {
   #initialized: (() => void) | undefined;
   #readyPromise: Promise<void>;
@@ -65,6 +128,16 @@ export class BoltShell {
   >();
   #outputStream: ReadableStreamDefaultReader<string> | undefined;
   #shellInputStream: WritableStreamDefaultWriter<string> | undefined;
+  #outputListeners = new Set<(data: string) => void>();
+
+  // only get the output of the shell process, not the one of subshells
+  #processOutputListeners = new Set<(data: string) => void>();
+
+  // takes the keys typed in the terminal while a subshell waits for an answer
+  #subshellInput: WritableStreamDefaultWriter<string> | undefined;
+
+  // commands of every runner share this shell, one that overlaps a running command goes to a subshell
+  #runningCommands = 0;
 
   constructor() {
     this.#readyPromise = new Promise((resolve) => {
@@ -95,7 +168,40 @@ export class BoltShell {
     return this.#process;
   }
 
-  async executeCommand(sessionId: string, command: string, abort?: () => void): Promise<ExecutionResult> {
+  get isBusy() {
+    return this.#runningCommands > 0;
+  }
+
+  /**
+   * Counts the shell as busy until `command` settles, the dev server keeps it busy as long as it runs.
+   */
+  async trackCommand<T>(command: () => Promise<T>): Promise<T> {
+    this.#runningCommands++;
+
+    try {
+      return await command();
+    } finally {
+      this.#runningCommands--;
+    }
+  }
+
+  /**
+   * Calls `listener` with everything the shell prints, returns a function to stop listening.
+   */
+  onOutput(listener: (data: string) => void) {
+    this.#outputListeners.add(listener);
+
+    return () => {
+      this.#outputListeners.delete(listener);
+    };
+  }
+
+  async executeCommand(
+    sessionId: string,
+    command: string,
+    abort?: () => void,
+    prompts?: PromptHandler,
+  ): Promise<ExecutionResult> {
     if (!this.process || !this.terminal) {
       return undefined;
     }
@@ -124,7 +230,21 @@ export class BoltShell {
     const executionPromise = this.getCurrentExecutionResult();
     this.executionState.set({ sessionId, active: true, executionPrms: executionPromise, abort });
 
-    const resp = await executionPromise;
+    const terminal = this.terminal;
+    const processOutputListeners = this.#processOutputListeners;
+
+    const stopWatchingPrompts = prompts
+      ? watchForPrompts(
+          (listener) => {
+            processOutputListeners.add(listener);
+            return () => processOutputListeners.delete(listener);
+          },
+          (data) => terminal.input(data),
+          prompts,
+        )
+      : undefined;
+
+    const resp = await executionPromise.finally(() => stopWatchingPrompts?.());
     this.executionState.set({ sessionId, active: false });
 
     if (resp) {
@@ -138,6 +258,82 @@ export class BoltShell {
     return resp;
   }
 
+  /**
+   * Runs a command in a process of its own while the shell is busy with another one. Its output is
+   * shown in the same terminal and passed to the output listeners.
+   */
+  async executeInSubshell(
+    command: string,
+    abortSignal?: AbortSignal,
+    prompts?: PromptHandler,
+  ): Promise<ExecutionResult> {
+    if (!this.#webcontainer || !this.terminal) {
+      return undefined;
+    }
+
+    const terminal = this.terminal;
+    const outputListeners = this.#outputListeners;
+
+    const process = await this.#webcontainer.spawn('/bin/jsh', ['-c', command.trim()], {
+      terminal: {
+        cols: terminal.cols ?? 80,
+        rows: terminal.rows ?? 15,
+      },
+    });
+
+    const kill = () => process.kill();
+    const removeKill = () => abortSignal?.removeEventListener('abort', kill);
+
+    // signals can outlive many commands, the listener goes away with the process
+    abortSignal?.addEventListener('abort', kill, { once: true });
+    process.exit.then(removeKill, removeKill);
+
+    terminal.write(`\r\n${coloredText.dim(`[subshell] ${command.trim()}`)}\r\n`);
+
+    const input = process.input.getWriter();
+    const subshellOutputListeners = new Set<(data: string) => void>();
+
+    const stopWatchingPrompts = prompts
+      ? watchForPrompts(
+          (listener) => {
+            subshellOutputListeners.add(listener);
+            return () => subshellOutputListeners.delete(listener);
+          },
+          (data) => input.write(data),
+          {
+            ...prompts,
+            onWaitingForInput: (waiting) => {
+              // the user answers in the terminal, which otherwise types into the shell
+              this.#subshellInput = waiting ? input : undefined;
+              prompts.onWaitingForInput(waiting);
+            },
+          },
+        )
+      : undefined;
+
+    let output = '';
+
+    await process.output
+      .pipeTo(
+        new WritableStream({
+          write(data) {
+            output += data;
+
+            for (const listener of [...outputListeners, ...subshellOutputListeners]) {
+              listener(data);
+            }
+
+            terminal.write(data);
+          },
+        }),
+      )
+      .finally(() => stopWatchingPrompts?.());
+
+    const exitCode = await process.exit;
+
+    return { output: cleanTerminalOutput(output), exitCode };
+  }
+
   async newBoltShellProcess(webcontainer: WebContainer, terminal: ITerminal) {
     const args: string[] = [];
 
@@ -155,11 +351,17 @@ export class BoltShell {
     const [internalOutput, terminalOutput] = process.output.tee();
 
     const jshReady = withResolvers<void>();
+    const outputListeners = this.#outputListeners;
+    const processOutputListeners = this.#processOutputListeners;
 
     let isInteractive = false;
     terminalOutput.pipeTo(
       new WritableStream({
         write(data) {
+          for (const listener of [...outputListeners, ...processOutputListeners]) {
+            listener(data);
+          }
+
           if (!isInteractive) {
             const [, osc] = data.match(/\x1b\]654;([^\x07]+)\x07/) || [];
 
@@ -179,7 +381,9 @@ export class BoltShell {
     terminal.onData((data) => {
       // console.log('terminal onData', { data, isInteractive });
 
-      if (isInteractive) {
+      if (this.#subshellInput) {
+        this.#subshellInput.write(data);
+      } else if (isInteractive) {
         input.write(data);
       }
     });
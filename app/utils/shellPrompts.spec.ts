@@ -0,0 +1,40 @@
+import { describe, expect, it } from 'vitest';
+import { detectPrompt, encodePromptAnswer, findPromptAnswer, parsePromptAnswers } from './shellPrompts';
+
+describe('detectPrompt', () => {
+  it('should find the questions of common scaffolders', () => {
+    expect(detectPrompt('\x1b[32m?\x1b[39m Project name: \x1b[2m›\x1b[22m vite-project')).toBe('Project name:');
+    expect(
+      detectPrompt(
+        ['◇  Project name:', '│  my-app', '│', '◆  Select a framework:', '│  ● Vanilla', '│  ○ React', '└', ''].join(
+          '\n',
+        ),
+      ),
+    ).toBe('Select a framework:');
+    expect(detectPrompt('Need to install the following packages:\ncreate-vite@5.2.0\nOk to proceed? (y) ')).toBe(
+      'Ok to proceed? (y)',
+    );
+    expect(detectPrompt('package name: (project) ')).toBe('package name: (project)');
+  });
+
+  it('should ignore regular output', () => {
+    expect(detectPrompt('added 120 packages in 3s\n')).toBeUndefined();
+    expect(detectPrompt('✔ Project name: … my-app\nScaffolding project in /home/project/my-app...\n')).toBeUndefined();
+  });
+});
+
+describe('prompt answers', () => {
+  it('should parse, match and encode answers', () => {
+    const answers = parsePromptAnswers('Project name=my-app; Ok to proceed=y;Use TypeScript');
+
+    expect(answers).toEqual([
+      { question: 'Project name', answer: 'my-app' },
+      { question: 'Ok to proceed', answer: 'y' },
+      { question: 'Use TypeScript', answer: '' },
+    ]);
+    expect(findPromptAnswer('ok to proceed? (y)', answers)?.answer).toBe('y');
+    expect(findPromptAnswer('Select a framework:', answers)).toBeUndefined();
+    expect(encodePromptAnswer('{down}{down}')).toBe('\x1b[B\x1b[B\r');
+    expect(encodePromptAnswer('my-app')).toBe('my-app\r');
+  });
+});
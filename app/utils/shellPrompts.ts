@@ -0,0 +1,91 @@
+import type { PromptAnswer } from '~/types/actions';
+import { stripTerminalCodes } from './problems';
+
+// how many of the last lines may hold the question of a select prompt rendered below it
+const QUESTION_LOOKBEHIND_LINES = 15;
+
+// `?` of inquirer and prompts, `◆` of clack, both are replaced by a check mark once answered
+const QUESTION_MARKER_REGEX = /^\s*[?◆]\s+(\S.*)$/;
+
+// e.g. `Ok to proceed? (y)` or `Overwrite? [Y/n]`
+const CONFIRM_REGEX = /\?\s*(?:\([^)]*\)|\[[^\]]*\])?\s*$/;
+
+// e.g. `package name: (my-app)` of `npm init`, only while the cursor stays on the line
+const FIELD_REGEX = /^\s*[a-z][\w ./-]*:\s*(?:\([^)]*\))?\s*$/i;
+
+const KEYS: Record<string, string> = {
+  enter: '\r',
+  up: '\x1b[A',
+  down: '\x1b[B',
+  space: ' ',
+  tab: '\t',
+};
+
+function cleanQuestion(line: string) {
+  return line
+    .replace(QUESTION_MARKER_REGEX, '$1')
+    .replace(/\s*[›»…].*$/, '')
+    .trim();
+}
+
+/**
+ * Finds the question a command waits for in the output it printed so far, e.g. `Project name:`.
+ */
+export function detectPrompt(output: string): string | undefined {
+  const text = stripTerminalCodes(output);
+  const lines = text.split('\n').filter((line) => line.trim() !== '');
+  const lastLine = lines.at(-1);
+
+  if (!lastLine) {
+    return undefined;
+  }
+
+  for (const line of lines.slice(-QUESTION_LOOKBEHIND_LINES).reverse()) {
+    if (QUESTION_MARKER_REGEX.test(line)) {
+      return cleanQuestion(line);
+    }
+  }
+
+  if (CONFIRM_REGEX.test(lastLine) || (!text.endsWith('\n') && FIELD_REGEX.test(lastLine))) {
+    return cleanQuestion(lastLine);
+  }
+
+  return undefined;
+}
+
+/**
+ * Parses the `answers` attribute of a shell action, e.g. `Project name=my-app;framework={down}{down}`.
+ */
+export function parsePromptAnswers(attribute: string | undefined): PromptAnswer[] {
+  if (!attribute) {
+    return [];
+  }
+
+  return attribute
+    .split(';')
+    .map((entry) => {
+      const separatorIndex = entry.indexOf('=');
+
+      return separatorIndex === -1
+        ? { question: entry.trim(), answer: '' }
+        : { question: entry.slice(0, separatorIndex).trim(), answer: entry.slice(separatorIndex + 1).trim() };
+    })
+    .filter(({ question }) => question !== '');
+}
+
+/**
+ * Returns the first answer whose question is part of `prompt`, ignoring case.
+ */
+export function findPromptAnswer(prompt: string, answers: PromptAnswer[]) {
+  const normalizedPrompt = prompt.toLowerCase();
+
+  return answers.find(({ question }) => normalizedPrompt.includes(question.toLowerCase()));
+}
+
+/**
+ * Turns an answer into the keys to type, `{up}`, `{down}`, `{space}`, `{tab}` and `{enter}` select options
+ * of a list. The answer is always submitted with Enter, an empty one accepts the default.
+ */
+export function encodePromptAnswer(answer: string) {
+  return `${answer.replace(/\{(\w+)\}/g, (token, key: string) => KEYS[key.toLowerCase()] ?? token)}\r`;
+}
@@ -0,0 +1,49 @@
+import { describe, expect, it } from 'vitest';
+import { diffSnapshots } from './snapshot';
+
+const file = (content: string) => ({ type: 'file' as const, content, isBinary: false });
+const folder = { type: 'folder' as const };
+
+describe('diffSnapshots', () => {
+  it('should list written, deleted and renamed files', () => {
+    const changes = diffSnapshots(
+      {
+        '/home/project/src': folder,
+        '/home/project/src/app.ts': file('app v2'),
+        '/home/project/src/new.ts': file('new'),
+        '/home/project/src/moved.ts': file('unchanged'),
+        '/home/project/lib': folder,
+      },
+      {
+        '/home/project/src': folder,
+        '/home/project/src/app.ts': file('app v1'),
+        '/home/project/src/old.ts': file('unchanged'),
+        '/home/project/src/removed.ts': file('removed'),
+      },
+    );
+
+    expect(changes).toEqual({
+      written: ['/home/project/src/app.ts', '/home/project/src/removed.ts'],
+      deleted: ['/home/project/src/new.ts'],
+      renamed: [{ from: '/home/project/src/moved.ts', to: '/home/project/src/old.ts' }],
+      createdFolders: [],
+      deletedFolders: ['/home/project/lib'],
+    });
+  });
+
+  it('should compare binary files by their bytes', () => {
+    const image = (bytes: number[]) => ({
+      type: 'file' as const,
+      content: '',
+      isBinary: true,
+      data: new Uint8Array(bytes),
+    });
+
+    const changes = diffSnapshots(
+      { '/home/project/a.png': image([1, 2, 3]), '/home/project/b.png': image([1, 2]) },
+      { '/home/project/a.png': image([1, 2, 3]), '/home/project/b.png': image([1, 3]) },
+    );
+
+    expect(changes.written).toEqual(['/home/project/b.png']);
+  });
+});
@@ -0,0 +1,92 @@
+import type { SnapshotFileMap } from '~/lib/stores/files';
+
+export interface SnapshotChanges {
+  // files that are new or differ from the current workspace
+  written: string[];
+  deleted: string[];
+
+  // files that only moved, detected by identical content
+  renamed: { from: string; to: string }[];
+  createdFolders: string[];
+  deletedFolders: string[];
+}
+
+type SnapshotFile = Extract<SnapshotFileMap[string], { type: 'file' }>;
+
+function isSameFile(a: SnapshotFile, b: SnapshotFile) {
+  if (a.isBinary !== b.isBinary) {
+    return false;
+  }
+
+  if (!a.isBinary) {
+    return a.content === b.content;
+  }
+
+  if (!a.data || !b.data || a.data.byteLength !== b.data.byteLength) {
+    return false;
+  }
+
+  return a.data.every((byte, index) => byte === b.data![index]);
+}
+
+/**
+ * Lists what has to change to turn the `current` workspace into `target`.
+ */
+export function diffSnapshots(current: SnapshotFileMap, target: SnapshotFileMap): SnapshotChanges {
+  const changes: SnapshotChanges = { written: [], deleted: [], renamed: [], createdFolders: [], deletedFolders: [] };
+  const added: string[] = [];
+
+  for (const [filePath, dirent] of Object.entries(target)) {
+    const currentDirent = current[filePath];
+
+    if (dirent?.type === 'folder') {
+      if (currentDirent?.type !== 'folder') {
+        changes.createdFolders.push(filePath);
+      }
+
+      continue;
+    }
+
+    if (dirent?.type !== 'file') {
+      continue;
+    }
+
+    if (currentDirent?.type !== 'file') {
+      added.push(filePath);
+    } else if (!isSameFile(currentDirent, dirent)) {
+      changes.written.push(filePath);
+    }
+  }
+
+  for (const [filePath, dirent] of Object.entries(current)) {
+    if (dirent?.type === 'folder' && target[filePath]?.type !== 'folder') {
+      changes.deletedFolders.push(filePath);
+    } else if (dirent?.type === 'file' && target[filePath]?.type !== 'file') {
+      changes.deleted.push(filePath);
+    }
+  }
+
+  for (const filePath of added) {
+    const file = target[filePath] as SnapshotFile;
+    const renamedFrom = changes.deleted.find((deletedPath) => {
+      const deletedFile = current[deletedPath] as SnapshotFile;
+      return (deletedFile.content || deletedFile.data?.byteLength) && isSameFile(deletedFile, file);
+    });
+
+    if (renamedFrom) {
+      changes.deleted.splice(changes.deleted.indexOf(renamedFrom), 1);
+      changes.renamed.push({ from: renamedFrom, to: filePath });
+    } else {
+      changes.written.push(filePath);
+    }
+  }
+
+  // deepest folders first so every folder is empty by the time it gets removed
+  changes.deletedFolders.sort((a, b) => b.length - a.length);
+
+  return changes;
+}
+
+export function hasSnapshotChanges(changes: SnapshotChanges) {
+  return Object.values(changes).some((list) => list.length > 0);
+}
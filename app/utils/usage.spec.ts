@@ -0,0 +1,31 @@
+import { describe, expect, it } from 'vitest';
+import { calculateCost, getModelPrice } from './usage';
+
+const record = {
+  id: '1',
+  chatId: '1',
+  provider: 'Anthropic',
+  model: 'claude-3-5-sonnet-20241022',
+  promptTokens: 1_000_000,
+  completionTokens: 100_000,
+  totalTokens: 1_100_000,
+  timestamp: new Date().toISOString(),
+};
+
+describe('getModelPrice', () => {
+  it('should use the longest matching model prefix', () => {
+    expect(getModelPrice('OpenAI', 'gpt-4o-mini-2024-07-18')).toEqual({ input: 0.15, output: 0.6 });
+    expect(getModelPrice('OpenRouter', 'openai/gpt-4o')).toEqual({ input: 2.5, output: 10 });
+  });
+
+  it('should prefer user overrides and treat local models as free', () => {
+    expect(getModelPrice('Ollama', 'gpt-4o')).toEqual({ input: 0, output: 0 });
+    expect(getModelPrice('Ollama', 'llama3', { llama3: { input: 1, output: 2 } })).toEqual({ input: 1, output: 2 });
+  });
+});
+
+describe('calculateCost', () => {
+  it('should price prompt and completion tokens separately', () => {
+    expect(calculateCost(record)).toBeCloseTo(3 + 1.5);
+  });
+});
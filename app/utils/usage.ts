@@ -0,0 +1,124 @@
+import type { UsageRecord } from '~/lib/persistence/db';
+
+// USD per million tokens
+export interface ModelPrice {
+  input: number;
+  output: number;
+}
+
+export type ModelPriceTable = Record<string, ModelPrice>;
+
+export interface UsageTotals {
+  requests: number;
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+  cost: number;
+}
+
+/**
+ * List prices of common models, keyed by model name prefix. Dated or suffixed variants
+ * (e.g. `claude-3-5-sonnet-20241022`) use the longest matching prefix.
+ */
+export const DEFAULT_MODEL_PRICES: ModelPriceTable = {
+  'gpt-4o': { input: 2.5, output: 10 },
+  'gpt-4o-mini': { input: 0.15, output: 0.6 },
+  'gpt-4-turbo': { input: 10, output: 30 },
+  'gpt-4': { input: 30, output: 60 },
+  'gpt-3.5-turbo': { input: 0.5, output: 1.5 },
+  o1: { input: 15, output: 60 },
+  'o1-mini': { input: 1.1, output: 4.4 },
+  'o3-mini': { input: 1.1, output: 4.4 },
+  'claude-3-7-sonnet': { input: 3, output: 15 },
+  'claude-3-5-sonnet': { input: 3, output: 15 },
+  'claude-3-5-haiku': { input: 0.8, output: 4 },
+  'claude-3-opus': { input: 15, output: 75 },
+  'claude-3-sonnet': { input: 3, output: 15 },
+  'claude-3-haiku': { input: 0.25, output: 1.25 },
+  'gemini-2.0-flash': { input: 0.1, output: 0.4 },
+  'gemini-1.5-pro': { input: 1.25, output: 5 },
+  'gemini-1.5-flash': { input: 0.075, output: 0.3 },
+  'deepseek-chat': { input: 0.27, output: 1.1 },
+  'deepseek-reasoner': { input: 0.55, output: 2.19 },
+  'mistral-large': { input: 2, output: 6 },
+  'mistral-small': { input: 0.2, output: 0.6 },
+  codestral: { input: 0.3, output: 0.9 },
+  'grok-beta': { input: 5, output: 15 },
+};
+
+// models running on the user's machine don't cost anything
+const FREE_PROVIDERS = ['Ollama', 'LMStudio'];
+
+export function getModelPrice(provider: string, model: string, overrides: ModelPriceTable = {}): ModelPrice {
+  if (overrides[model]) {
+    return overrides[model];
+  }
+
+  if (FREE_PROVIDERS.includes(provider)) {
+    return { input: 0, output: 0 };
+  }
+
+  // OpenRouter, Together and others prefix the model with its vendor
+  const name = model.split('/').pop()?.toLowerCase() || '';
+
+  const match = Object.keys(DEFAULT_MODEL_PRICES)
+    .filter((key) => name.startsWith(key))
+    .sort((a, b) => b.length - a.length)[0];
+
+  return match ? DEFAULT_MODEL_PRICES[match] : { input: 0, output: 0 };
+}
+
+export function calculateCost(record: UsageRecord, overrides?: ModelPriceTable) {
+  const price = getModelPrice(record.provider, record.model, overrides);
+
+  return (record.promptTokens * price.input + record.completionTokens * price.output) / 1_000_000;
+}
+
+export function sumUsage(records: UsageRecord[], overrides?: ModelPriceTable): UsageTotals {
+  return records.reduce<UsageTotals>(
+    (totals, record) => ({
+      requests: totals.requests + 1,
+      promptTokens: totals.promptTokens + record.promptTokens,
+      completionTokens: totals.completionTokens + record.completionTokens,
+      totalTokens: totals.totalTokens + record.totalTokens,
+      cost: totals.cost + calculateCost(record, overrides),
+    }),
+    { requests: 0, promptTokens: 0, completionTokens: 0, totalTokens: 0, cost: 0 },
+  );
+}
+
+export function groupUsage(records: UsageRecord[], getKey: (record: UsageRecord) => string) {
+  const groups: Record<string, UsageRecord[]> = {};
+
+  for (const record of records) {
+    const key = getKey(record);
+    (groups[key] ??= []).push(record);
+  }
+
+  return groups;
+}
+
+// local calendar day, so that daily budgets reset at the user's midnight
+export function getUsageDay(timestamp: string | Date) {
+  const date = new Date(timestamp);
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
+export function formatCost(cost: number) {
+  if (cost === 0) {
+    return '$0.00';
+  }
+
+  return cost < 0.01 ? '<$0.01' : `$${cost.toFixed(2)}`;
+}
+
+export function formatTokens(tokens: number) {
+  if (tokens >= 1_000_000) {
+    return `${(tokens / 1_000_000).toFixed(1)}M`;
+  }
+
+  return tokens >= 1000 ? `${(tokens / 1000).toFixed(1)}k` : String(tokens);
+}
@@ -93,6 +93,11 @@ export default defineConfig((config) => {
     build: {
       target: 'esnext',
     },
+    worker: {
+      // workers are bundled separately and need the `~` alias as well
+      format: 'es',
+      plugins: () => [tsconfigPaths()],
+    },
     plugins: [
       nodePolyfills({
         include: ['path', 'buffer', 'process'],